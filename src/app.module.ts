@@ -13,6 +13,8 @@ import { winstonConfig } from './config/winston.config';
 import { StockModule } from './stock/stock.module';
 import { OrderModule } from './order/order.module';
 import { HealthModule } from './health/health.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { FlashSaleModule } from './flash-sale/flash-sale.module';
 
 @Module({
   imports: [
@@ -50,6 +52,8 @@ import { HealthModule } from './health/health.module';
     StockModule,
     OrderModule,
     HealthModule,
+    WebhooksModule,
+    FlashSaleModule,
   ],
   controllers: [AppController],
   providers: [AppService],
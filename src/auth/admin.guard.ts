@@ -0,0 +1,21 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+
+/**
+ * Allows only users with isAdmin set. Must run after JwtAuthGuard,
+ * which attaches the authenticated user to the request.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    if (!request.user?.isAdmin) {
+      throw new ForbiddenException('Administrator access required');
+    }
+    return true;
+  }
+}
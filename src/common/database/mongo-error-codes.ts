@@ -0,0 +1,2 @@
+// MongoDB server error raised when a write violates a unique index
+export const DUPLICATE_KEY_ERROR_CODE = 11000;
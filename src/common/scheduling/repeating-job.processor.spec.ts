@@ -0,0 +1,76 @@
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import { RepeatingJobProcessor } from './repeating-job.processor';
+
+class TestJobProcessor extends RepeatingJobProcessor {
+  constructor(queue: Queue, configService: ConfigService) {
+    super(queue, 'test-job', configService, 'TEST_JOB_INTERVAL_MS', 5000);
+  }
+
+  process(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+describe('RepeatingJobProcessor', () => {
+  let queue: { upsertJobScheduler: jest.Mock };
+
+  const createProcessor = (config: Record<string, string> = {}) =>
+    new TestJobProcessor(
+      queue as unknown as Queue,
+      {
+        get: jest.fn(
+          (key: string, defaultValue?: string) => config[key] ?? defaultValue,
+        ),
+      } as unknown as ConfigService,
+    );
+
+  beforeEach(() => {
+    queue = { upsertJobScheduler: jest.fn().mockResolvedValue(undefined) };
+  });
+
+  it('should schedule the job at the default interval', async () => {
+    // Arrange
+    const processor = createProcessor();
+
+    // Act
+    await processor.onModuleInit();
+
+    // Assert
+    expect(queue.upsertJobScheduler).toHaveBeenCalledWith(
+      'test-job',
+      { every: 5000 },
+      {
+        name: 'test-job',
+        opts: {
+          removeOnComplete: { count: 100 },
+          removeOnFail: { count: 100 },
+        },
+      },
+    );
+  });
+
+  it('should schedule the job at the configured interval', async () => {
+    // Arrange
+    const processor = createProcessor({ TEST_JOB_INTERVAL_MS: '250' });
+
+    // Act
+    await processor.onModuleInit();
+
+    // Assert
+    expect(queue.upsertJobScheduler).toHaveBeenCalledWith(
+      'test-job',
+      { every: 250 },
+      expect.objectContaining({ name: 'test-job' }),
+    );
+  });
+
+  it('should fail to start when the job cannot be scheduled', async () => {
+    // Arrange
+    const processor = createProcessor();
+    queue.upsertJobScheduler.mockRejectedValue(new Error('Redis unavailable'));
+
+    // Act & Assert
+    await expect(processor.onModuleInit()).rejects.toThrow('Redis unavailable');
+  });
+});
@@ -0,0 +1,50 @@
+import { WorkerHost } from '@nestjs/bullmq';
+import { OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+
+/**
+ * Base of processors that run one job at a fixed interval. Subclasses bind
+ * the queue with @Processor and implement process().
+ */
+export abstract class RepeatingJobProcessor
+  extends WorkerHost
+  implements OnModuleInit
+{
+  private readonly intervalMs: number;
+
+  /**
+   * The job runs every `intervalConfigKey` ms, `defaultIntervalMs` when the
+   * variable is not set
+   */
+  protected constructor(
+    private readonly schedulerQueue: Queue,
+    private readonly jobName: string,
+    configService: ConfigService,
+    intervalConfigKey: string,
+    defaultIntervalMs: number,
+  ) {
+    super();
+    this.intervalMs = Number(
+      configService.get<string>(intervalConfigKey, String(defaultIntervalMs)),
+    );
+  }
+
+  /**
+   * Registers the repeating job. Upserting keeps a single schedule no matter
+   * how many instances start.
+   */
+  async onModuleInit(): Promise<void> {
+    await this.schedulerQueue.upsertJobScheduler(
+      this.jobName,
+      { every: this.intervalMs },
+      {
+        name: this.jobName,
+        opts: {
+          removeOnComplete: { count: 100 },
+          removeOnFail: { count: 100 },
+        },
+      },
+    );
+  }
+}
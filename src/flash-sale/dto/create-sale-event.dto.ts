@@ -0,0 +1,40 @@
+import {
+  IsDateString,
+  IsMongoId,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateSaleEventDto {
+  @ApiProperty({
+    description: 'Name shown to shoppers',
+    example: 'Sneaker drop',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({
+    description: 'Stock the sale covers',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsMongoId()
+  stockId: string;
+
+  @ApiProperty({
+    description: 'When admissions start (ISO 8601)',
+    example: '2024-01-15T10:00:00.000Z',
+  })
+  @IsDateString()
+  startsAt: string;
+
+  @ApiProperty({
+    description: 'When the sale ends (ISO 8601)',
+    example: '2024-01-15T12:00:00.000Z',
+  })
+  @IsDateString()
+  endsAt: string;
+}
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SaleEventDocument } from '../entities/sale-event.entity';
+
+export class SaleEventResponseDto {
+  @ApiProperty({
+    description: 'Sale event ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  _id: string;
+
+  @ApiProperty({
+    description: 'Name shown to shoppers',
+    example: 'Sneaker drop',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Stock the sale covers',
+    example: '507f1f77bcf86cd799439013',
+  })
+  stockId: string;
+
+  @ApiProperty({
+    description: 'Product of the stock',
+    example: '507f1f77bcf86cd799439012',
+  })
+  productId: string;
+
+  @ApiProperty({
+    description: 'When admissions start',
+    example: '2024-01-15T10:00:00.000Z',
+  })
+  startsAt: Date;
+
+  @ApiProperty({
+    description: 'When the sale ends',
+    example: '2024-01-15T12:00:00.000Z',
+  })
+  endsAt: Date;
+}
+
+export class AdminSaleEventResponseDto extends SaleEventResponseDto {
+  @ApiProperty({
+    description: 'Shoppers currently waiting to be admitted',
+    example: 1250,
+  })
+  waiting: number;
+}
+
+export function toSaleEventResponseDto(
+  saleEvent: SaleEventDocument,
+): SaleEventResponseDto {
+  return {
+    _id: saleEvent._id.toString(),
+    name: saleEvent.name,
+    stockId: saleEvent.stockId.toString(),
+    productId: saleEvent.productId.toString(),
+    startsAt: saleEvent.startsAt,
+    endsAt: saleEvent.endsAt,
+  };
+}
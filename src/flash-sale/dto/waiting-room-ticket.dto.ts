@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum WaitingRoomStatus {
+  WAITING = 'WAITING',
+  ADMITTED = 'ADMITTED',
+}
+
+export class WaitingRoomTicketDto {
+  @ApiProperty({
+    description: 'Sale event ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  saleEventId: string;
+
+  @ApiProperty({
+    description:
+      'WAITING until admitted, then ADMITTED until the token is used or expires',
+    enum: WaitingRoomStatus,
+    example: WaitingRoomStatus.WAITING,
+  })
+  status: WaitingRoomStatus;
+
+  @ApiProperty({
+    description: 'Place in the waiting room (1 = admitted next)',
+    nullable: true,
+    type: Number,
+    example: 42,
+  })
+  position: number | null;
+
+  @ApiProperty({
+    description: 'Send as X-Admission-Token when placing the order',
+    nullable: true,
+    type: String,
+    example: '9f86d081884c7d659a2feaa0c55ad015',
+  })
+  admissionToken: string | null;
+
+  @ApiProperty({
+    description: 'When the admission token expires',
+    nullable: true,
+    type: Date,
+  })
+  admissionExpiresAt: Date | null;
+}
@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SaleEventDocument = SaleEvent &
+  Document & {
+    _id: Types.ObjectId;
+  };
+
+/**
+ * A flash sale of one stock. While it runs, orders for the stock are only
+ * accepted from shoppers admitted through its waiting room.
+ */
+@Schema({ timestamps: true })
+export class SaleEvent {
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Stock', required: true })
+  stockId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  productId: Types.ObjectId;
+
+  @Prop({ required: true })
+  startsAt: Date;
+
+  @Prop({ required: true })
+  endsAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const SaleEventSchema = SchemaFactory.createForClass(SaleEvent);
+
+SaleEventSchema.index({ stockId: 1, endsAt: 1 });
+SaleEventSchema.index({ endsAt: 1, startsAt: 1 });
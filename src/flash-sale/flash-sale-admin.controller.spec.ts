@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { FlashSaleAdminController } from './flash-sale-admin.controller';
+import { FlashSaleService } from './flash-sale.service';
+
+describe('FlashSaleAdminController', () => {
+  let controller: FlashSaleAdminController;
+  let flashSaleService: {
+    findAllSaleEvents: jest.Mock;
+    countWaiting: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FlashSaleAdminController],
+      providers: [
+        {
+          provide: FlashSaleService,
+          useValue: {
+            findAllSaleEvents: jest.fn(),
+            countWaiting: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<FlashSaleAdminController>(FlashSaleAdminController);
+    flashSaleService = module.get(FlashSaleService);
+  });
+
+  it('should list every sale with the number of shoppers waiting', async () => {
+    // Arrange
+    flashSaleService.findAllSaleEvents.mockResolvedValue([
+      {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439030'),
+        name: 'Sneaker drop',
+        stockId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+        productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        startsAt: new Date('2024-01-15T10:00:00.000Z'),
+        endsAt: new Date('2024-01-15T12:00:00.000Z'),
+      },
+    ]);
+    flashSaleService.countWaiting.mockResolvedValue(1250);
+
+    // Act
+    const result = await controller.findAllSaleEvents();
+
+    // Assert
+    expect(result).toEqual([
+      expect.objectContaining({
+        _id: '507f1f77bcf86cd799439030',
+        waiting: 1250,
+      }),
+    ]);
+    expect(flashSaleService.countWaiting).toHaveBeenCalledWith(
+      '507f1f77bcf86cd799439030',
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { FlashSaleService } from './flash-sale.service';
+import { CreateSaleEventDto } from './dto/create-sale-event.dto';
+import {
+  AdminSaleEventResponseDto,
+  SaleEventResponseDto,
+  toSaleEventResponseDto,
+} from './dto/sale-event-response.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { CurrentUser } from '../auth/decorators/user.decorator';
+import { User } from '../users/entities/user.entity';
+
+@ApiTags('admin-flash-sales')
+@Controller('admin/flash-sales')
+@UseGuards(JwtAuthGuard, AdminGuard)
+@ApiBearerAuth()
+export class FlashSaleAdminController {
+  constructor(private readonly flashSaleService: FlashSaleService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Schedule a flash sale',
+    description:
+      'While the sale runs, orders for its stock are only accepted with an admission token from its waiting room.',
+  })
+  @ApiBody({ type: CreateSaleEventDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Sale event created',
+    type: SaleEventResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Stock not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'The stock already has a sale event in that period',
+  })
+  async createSaleEvent(
+    @Body() createSaleEventDto: CreateSaleEventDto,
+    @CurrentUser() user: User,
+  ): Promise<SaleEventResponseDto> {
+    const saleEvent = await this.flashSaleService.createSaleEvent(
+      createSaleEventDto,
+      (user as any)._id.toString(),
+    );
+    return toSaleEventResponseDto(saleEvent);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List flash sales',
+    description:
+      'Every sale event, latest start first, with the number of shoppers waiting.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sale events',
+    type: [AdminSaleEventResponseDto],
+  })
+  async findAllSaleEvents(): Promise<AdminSaleEventResponseDto[]> {
+    const saleEvents = await this.flashSaleService.findAllSaleEvents();
+    return Promise.all(
+      saleEvents.map(async (saleEvent) => ({
+        ...toSaleEventResponseDto(saleEvent),
+        waiting: await this.flashSaleService.countWaiting(
+          saleEvent._id.toString(),
+        ),
+      })),
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a flash sale',
+    description:
+      'Drops its waiting room. Admission tokens already handed out stop being required.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sale event ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiResponse({ status: 204, description: 'Sale event deleted' })
+  @ApiResponse({ status: 404, description: 'Sale event not found' })
+  removeSaleEvent(@Param('id') id: string) {
+    return this.flashSaleService.removeSaleEvent(id);
+  }
+}
@@ -0,0 +1,44 @@
+import { InjectQueue, Processor } from '@nestjs/bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bullmq';
+import { RepeatingJobProcessor } from '../common/scheduling/repeating-job.processor';
+import {
+  ADMIT_SHOPPERS_JOB,
+  FLASH_SALE_ADMISSION_QUEUE_NAME,
+} from './flash-sale.constants';
+import { AdmissionReport, FlashSaleService } from './flash-sale.service';
+
+/**
+ * Releases admissions from the waiting rooms of live sales at a steady rate
+ */
+@Injectable()
+@Processor(FLASH_SALE_ADMISSION_QUEUE_NAME)
+export class FlashSaleAdmissionProcessor extends RepeatingJobProcessor {
+  private readonly logger = new Logger(FlashSaleAdmissionProcessor.name);
+
+  constructor(
+    @InjectQueue(FLASH_SALE_ADMISSION_QUEUE_NAME) admissionQueue: Queue,
+    private readonly flashSaleService: FlashSaleService,
+    configService: ConfigService,
+  ) {
+    super(
+      admissionQueue,
+      ADMIT_SHOPPERS_JOB,
+      configService,
+      'FLASH_SALE_ADMISSION_INTERVAL_MS',
+      1000,
+    );
+  }
+
+  async process(job: Job): Promise<AdmissionReport> {
+    const report = await this.flashSaleService.admitShoppers();
+
+    if (report.admitted > 0) {
+      this.logger.log(
+        `Flash sale admissions (job ${job.id}) - Live sales: ${report.liveSales}, Admitted: ${report.admitted}`,
+      );
+    }
+    return report;
+  }
+}
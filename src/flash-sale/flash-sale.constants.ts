@@ -0,0 +1,6 @@
+export const FLASH_SALE_ADMISSION_QUEUE_NAME = 'flash-sale-admissions';
+
+export const ADMIT_SHOPPERS_JOB = 'admit-shoppers';
+
+// Injection token of the Redis connection holding the waiting rooms
+export const WAITING_ROOM_REDIS = 'WAITING_ROOM_REDIS';
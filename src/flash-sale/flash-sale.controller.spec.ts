@@ -0,0 +1,91 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { FlashSaleController } from './flash-sale.controller';
+import { FlashSaleService } from './flash-sale.service';
+import { WaitingRoomStatus } from './dto/waiting-room-ticket.dto';
+import { User } from '../users/entities/user.entity';
+
+describe('FlashSaleController', () => {
+  let controller: FlashSaleController;
+  let flashSaleService: {
+    findUpcomingSaleEvents: jest.Mock;
+    joinWaitingRoom: jest.Mock;
+    getTicket: jest.Mock;
+  };
+
+  const user = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+  } as unknown as User;
+  const saleEventId = '507f1f77bcf86cd799439030';
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FlashSaleController],
+      providers: [
+        {
+          provide: FlashSaleService,
+          useValue: {
+            findUpcomingSaleEvents: jest.fn(),
+            joinWaitingRoom: jest.fn(),
+            getTicket: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<FlashSaleController>(FlashSaleController);
+    flashSaleService = module.get(FlashSaleService);
+  });
+
+  it('should list upcoming sales without internal fields', async () => {
+    // Arrange
+    flashSaleService.findUpcomingSaleEvents.mockResolvedValue([
+      {
+        _id: new Types.ObjectId(saleEventId),
+        name: 'Sneaker drop',
+        stockId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+        productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        startsAt: new Date('2024-01-15T10:00:00.000Z'),
+        endsAt: new Date('2024-01-15T12:00:00.000Z'),
+        createdBy: new Types.ObjectId(),
+      },
+    ]);
+
+    // Act
+    const result = await controller.findUpcomingSaleEvents();
+
+    // Assert
+    expect(result).toEqual([
+      {
+        _id: saleEventId,
+        name: 'Sneaker drop',
+        stockId: '507f1f77bcf86cd799439013',
+        productId: '507f1f77bcf86cd799439012',
+        startsAt: new Date('2024-01-15T10:00:00.000Z'),
+        endsAt: new Date('2024-01-15T12:00:00.000Z'),
+      },
+    ]);
+  });
+
+  it('should queue the current user in the waiting room', async () => {
+    // Arrange
+    const ticket = {
+      saleEventId,
+      status: WaitingRoomStatus.WAITING,
+      position: 42,
+      admissionToken: null,
+      admissionExpiresAt: null,
+    };
+    flashSaleService.joinWaitingRoom.mockResolvedValue(ticket);
+
+    // Act
+    const result = await controller.joinWaitingRoom(saleEventId, user);
+
+    // Assert
+    expect(result).toBe(ticket);
+    expect(flashSaleService.joinWaitingRoom).toHaveBeenCalledWith(
+      saleEventId,
+      '507f1f77bcf86cd799439011',
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { FlashSaleService } from './flash-sale.service';
+import {
+  SaleEventResponseDto,
+  toSaleEventResponseDto,
+} from './dto/sale-event-response.dto';
+import { WaitingRoomTicketDto } from './dto/waiting-room-ticket.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/user.decorator';
+import { User } from '../users/entities/user.entity';
+
+@ApiTags('flash-sales')
+@Controller('flash-sales')
+export class FlashSaleController {
+  constructor(private readonly flashSaleService: FlashSaleService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List running and upcoming flash sales',
+    description: 'Soonest first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sale events that have not ended',
+    type: [SaleEventResponseDto],
+  })
+  async findUpcomingSaleEvents(): Promise<SaleEventResponseDto[]> {
+    const saleEvents = await this.flashSaleService.findUpcomingSaleEvents();
+    return saleEvents.map(toSaleEventResponseDto);
+  }
+
+  @Post(':id/waiting-room')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Join the waiting room of a flash sale',
+    description:
+      'Queues the shopper and returns their position. Joining again keeps the place in the queue. Can be joined before the sale starts - admissions begin once it is live.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sale event ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Waiting room ticket',
+    type: WaitingRoomTicketDto,
+  })
+  @ApiResponse({ status: 401, description: 'Authentication required' })
+  @ApiResponse({ status: 404, description: 'Sale event not found' })
+  @ApiResponse({ status: 410, description: 'The sale has ended' })
+  joinWaitingRoom(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<WaitingRoomTicketDto> {
+    return this.flashSaleService.joinWaitingRoom(
+      id,
+      (user as any)._id.toString(),
+    );
+  }
+
+  @Get(':id/waiting-room')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get the waiting room ticket',
+    description:
+      'Poll until the status is ADMITTED, then place the order with the admission token in the X-Admission-Token header before it expires.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sale event ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Waiting room ticket',
+    type: WaitingRoomTicketDto,
+  })
+  @ApiResponse({ status: 401, description: 'Authentication required' })
+  @ApiResponse({
+    status: 404,
+    description:
+      'Sale event not found, or the shopper is not in its waiting room (never joined, or the admission was used or expired)',
+  })
+  getTicket(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<WaitingRoomTicketDto> {
+    return this.flashSaleService.getTicket(id, (user as any)._id.toString());
+  }
+}
@@ -0,0 +1,55 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bullmq';
+import { BullBoardModule } from '@bull-board/nestjs';
+import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
+import { Redis } from 'ioredis';
+import { SaleEvent, SaleEventSchema } from './entities/sale-event.entity';
+import { FlashSaleService } from './flash-sale.service';
+import { WaitingRoomService } from './waiting-room.service';
+import { FlashSaleController } from './flash-sale.controller';
+import { FlashSaleAdminController } from './flash-sale-admin.controller';
+import { FlashSaleAdmissionProcessor } from './flash-sale-admission.processor';
+import {
+  FLASH_SALE_ADMISSION_QUEUE_NAME,
+  WAITING_ROOM_REDIS,
+} from './flash-sale.constants';
+import { StockModule } from '../stock/stock.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SaleEvent.name, schema: SaleEventSchema },
+    ]),
+    BullModule.registerQueue({
+      name: FLASH_SALE_ADMISSION_QUEUE_NAME,
+    }),
+    BullBoardModule.forFeature({
+      name: FLASH_SALE_ADMISSION_QUEUE_NAME,
+      adapter: BullMQAdapter,
+    }),
+    StockModule,
+    AuthModule,
+  ],
+  controllers: [FlashSaleController, FlashSaleAdminController],
+  providers: [
+    {
+      // Same Redis as the queues
+      provide: WAITING_ROOM_REDIS,
+      useFactory: (configService: ConfigService) =>
+        new Redis({
+          host: configService.get<string>('REDIS_HOST', 'localhost'),
+          port: configService.get<number>('REDIS_PORT', 6379),
+          password: configService.get<string>('REDIS_PASSWORD'),
+        }),
+      inject: [ConfigService],
+    },
+    WaitingRoomService,
+    FlashSaleService,
+    FlashSaleAdmissionProcessor,
+  ],
+  exports: [FlashSaleService],
+})
+export class FlashSaleModule {}
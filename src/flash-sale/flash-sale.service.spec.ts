@@ -0,0 +1,308 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { FlashSaleService } from './flash-sale.service';
+import { SaleEvent } from './entities/sale-event.entity';
+import { WaitingRoomService } from './waiting-room.service';
+import { StockService } from '../stock/stock.service';
+
+describe('FlashSaleService', () => {
+  let service: FlashSaleService;
+  let saleEventModel: {
+    create: jest.Mock;
+    find: jest.Mock;
+    findOne: jest.Mock;
+    findById: jest.Mock;
+    deleteOne: jest.Mock;
+  };
+  let waitingRoomService: {
+    join: jest.Mock;
+    getTicket: jest.Mock;
+    admitNext: jest.Mock;
+    claimAdmission: jest.Mock;
+    clear: jest.Mock;
+  };
+  let stockService: { findOneStockWithoutPopulate: jest.Mock };
+
+  const userId = '507f1f77bcf86cd799439011';
+  const stockId = '507f1f77bcf86cd799439013';
+  const saleEventId = '507f1f77bcf86cd799439030';
+  const now = new Date('2024-01-15T11:00:00.000Z');
+
+  const saleEvent = {
+    _id: new Types.ObjectId(saleEventId),
+    name: 'Sneaker drop',
+    stockId: new Types.ObjectId(stockId),
+    productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+    startsAt: new Date('2024-01-15T10:00:00.000Z'),
+    endsAt: new Date('2024-01-15T12:00:00.000Z'),
+  };
+
+  const createSaleEventDto = {
+    name: 'Sneaker drop',
+    stockId,
+    startsAt: '2024-01-15T10:00:00.000Z',
+    endsAt: '2024-01-15T12:00:00.000Z',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FlashSaleService,
+        {
+          provide: getModelToken(SaleEvent.name),
+          useValue: {
+            create: jest.fn(),
+            find: jest.fn(),
+            findOne: jest.fn(),
+            findById: jest.fn(),
+            deleteOne: jest.fn(),
+          },
+        },
+        {
+          provide: WaitingRoomService,
+          useValue: {
+            join: jest.fn(),
+            getTicket: jest.fn(),
+            admitNext: jest.fn(),
+            claimAdmission: jest.fn(),
+            clear: jest.fn(),
+          },
+        },
+        {
+          provide: StockService,
+          useValue: { findOneStockWithoutPopulate: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FlashSaleService>(FlashSaleService);
+    saleEventModel = module.get(getModelToken(SaleEvent.name));
+    waitingRoomService = module.get(WaitingRoomService);
+    stockService = module.get(StockService);
+
+    saleEventModel.findById.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(saleEvent),
+    });
+  });
+
+  const mockLiveSales = (liveSales: object[]) => {
+    saleEventModel.find.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(liveSales),
+    });
+  };
+
+  describe('createSaleEvent', () => {
+    beforeEach(() => {
+      stockService.findOneStockWithoutPopulate.mockResolvedValue({
+        productId: saleEvent.productId,
+      });
+      saleEventModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+      saleEventModel.create.mockResolvedValue(saleEvent);
+    });
+
+    it('should create the sale for the product of the stock', async () => {
+      // Act
+      await service.createSaleEvent(createSaleEventDto, userId);
+
+      // Assert
+      expect(saleEventModel.create).toHaveBeenCalledWith({
+        name: 'Sneaker drop',
+        stockId,
+        productId: saleEvent.productId,
+        startsAt: saleEvent.startsAt,
+        endsAt: saleEvent.endsAt,
+        createdBy: userId,
+      });
+    });
+
+    it('should reject a sale that ends before it starts', async () => {
+      // Act & Assert
+      await expect(
+        service.createSaleEvent(
+          { ...createSaleEventDto, endsAt: createSaleEventDto.startsAt },
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(saleEventModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a sale overlapping another sale of the stock', async () => {
+      // Arrange
+      saleEventModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(saleEvent),
+      });
+
+      // Act & Assert
+      await expect(
+        service.createSaleEvent(createSaleEventDto, userId),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('removeSaleEvent', () => {
+    it('should drop the waiting room with the sale', async () => {
+      // Arrange
+      saleEventModel.deleteOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+      });
+
+      // Act
+      await service.removeSaleEvent(saleEventId);
+
+      // Assert
+      expect(waitingRoomService.clear).toHaveBeenCalledWith(saleEventId);
+    });
+
+    it('should throw NotFoundException for an unknown sale', async () => {
+      // Arrange
+      saleEventModel.deleteOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ deletedCount: 0 }),
+      });
+
+      // Act & Assert
+      await expect(service.removeSaleEvent(saleEventId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(waitingRoomService.clear).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('joinWaitingRoom', () => {
+    it('should queue the shopper until the sale ends', async () => {
+      // Act
+      await service.joinWaitingRoom(saleEventId, userId, now);
+
+      // Assert
+      expect(waitingRoomService.join).toHaveBeenCalledWith(
+        saleEventId,
+        userId,
+        saleEvent.endsAt,
+      );
+    });
+
+    it('should refuse to queue for a sale that has ended', async () => {
+      // Act & Assert
+      await expect(
+        service.joinWaitingRoom(saleEventId, userId, saleEvent.endsAt),
+      ).rejects.toThrow(GoneException);
+      expect(waitingRoomService.join).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTicket', () => {
+    it('should throw NotFoundException for a shopper who is not in the room', async () => {
+      // Arrange
+      waitingRoomService.getTicket.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.getTicket(saleEventId, userId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('admitShoppers', () => {
+    it('should admit the configured number of shoppers of every live sale', async () => {
+      // Arrange
+      mockLiveSales([saleEvent, { ...saleEvent, _id: new Types.ObjectId() }]);
+      waitingRoomService.admitNext
+        .mockResolvedValueOnce(50)
+        .mockResolvedValueOnce(7);
+
+      // Act
+      const report = await service.admitShoppers(now);
+
+      // Assert
+      expect(report).toEqual({ liveSales: 2, admitted: 57 });
+      expect(waitingRoomService.admitNext).toHaveBeenCalledWith(
+        saleEventId,
+        50,
+      );
+      expect(saleEventModel.find).toHaveBeenCalledWith({
+        startsAt: { $lte: now },
+        endsAt: { $gt: now },
+      });
+    });
+  });
+
+  describe('claimAdmission', () => {
+    it('should let orders through when no ordered stock is in a live sale', async () => {
+      // Arrange
+      mockLiveSales([]);
+
+      // Act & Assert
+      await expect(
+        service.claimAdmission(userId, [stockId], undefined, now),
+      ).resolves.toBeNull();
+    });
+
+    it('should claim the admission when the shopper brings a valid token', async () => {
+      // Arrange
+      const claim = {
+        saleEventId,
+        userId,
+        admissionToken: 'admission-token',
+        expiresAt: new Date('2024-01-15T11:05:00.000Z'),
+      };
+      mockLiveSales([saleEvent]);
+      waitingRoomService.claimAdmission.mockResolvedValue(claim);
+
+      // Act
+      const result = await service.claimAdmission(
+        userId,
+        [stockId],
+        'admission-token',
+        now,
+      );
+
+      // Assert
+      expect(result).toBe(claim);
+      expect(waitingRoomService.claimAdmission).toHaveBeenCalledWith(
+        saleEventId,
+        userId,
+        'admission-token',
+      );
+    });
+
+    it('should reject an order without a token or with an invalid one', async () => {
+      // Arrange
+      mockLiveSales([saleEvent]);
+      waitingRoomService.claimAdmission.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.claimAdmission(userId, [stockId], undefined, now),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        service.claimAdmission(userId, [stockId], 'forged-token', now),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject an order spanning two live sales', async () => {
+      // Arrange
+      mockLiveSales([saleEvent, { ...saleEvent, _id: new Types.ObjectId() }]);
+
+      // Act & Assert
+      await expect(
+        service.claimAdmission(userId, [stockId], 'admission-token', now),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
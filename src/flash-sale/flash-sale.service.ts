@@ -0,0 +1,225 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { SaleEvent, SaleEventDocument } from './entities/sale-event.entity';
+import { CreateSaleEventDto } from './dto/create-sale-event.dto';
+import { WaitingRoomTicketDto } from './dto/waiting-room-ticket.dto';
+import { AdmissionClaim, WaitingRoomService } from './waiting-room.service';
+import { StockService } from '../stock/stock.service';
+
+export interface AdmissionReport {
+  liveSales: number;
+  admitted: number;
+}
+
+@Injectable()
+export class FlashSaleService {
+  private readonly logger = new Logger(FlashSaleService.name);
+
+  private readonly admissionsPerInterval: number;
+
+  constructor(
+    @InjectModel(SaleEvent.name)
+    private readonly saleEventModel: Model<SaleEventDocument>,
+    private readonly waitingRoomService: WaitingRoomService,
+    private readonly stockService: StockService,
+    private readonly configService: ConfigService,
+  ) {
+    this.admissionsPerInterval = Number(
+      this.configService.get<string>(
+        'FLASH_SALE_ADMISSIONS_PER_INTERVAL',
+        '50',
+      ),
+    );
+  }
+
+  async createSaleEvent(
+    createSaleEventDto: CreateSaleEventDto,
+    createdBy: string,
+  ): Promise<SaleEventDocument> {
+    const startsAt = new Date(createSaleEventDto.startsAt);
+    const endsAt = new Date(createSaleEventDto.endsAt);
+    if (endsAt <= startsAt) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+
+    const stock = await this.stockService.findOneStockWithoutPopulate(
+      createSaleEventDto.stockId,
+    );
+
+    const overlapping = await this.saleEventModel
+      .findOne({
+        stockId: new Types.ObjectId(createSaleEventDto.stockId),
+        startsAt: { $lt: endsAt },
+        endsAt: { $gt: startsAt },
+      })
+      .exec();
+    if (overlapping) {
+      throw new ConflictException(
+        `Stock ${createSaleEventDto.stockId} already has sale event ${overlapping._id.toString()} in that period`,
+      );
+    }
+
+    const saleEvent = await this.saleEventModel.create({
+      name: createSaleEventDto.name,
+      stockId: createSaleEventDto.stockId,
+      productId: stock.productId,
+      startsAt,
+      endsAt,
+      createdBy,
+    });
+    this.logger.log(
+      `Sale event ${saleEvent._id.toString()} created for stock ${createSaleEventDto.stockId} (${startsAt.toISOString()} - ${endsAt.toISOString()})`,
+    );
+    return saleEvent;
+  }
+
+  async findAllSaleEvents(): Promise<SaleEventDocument[]> {
+    return this.saleEventModel.find().sort({ startsAt: -1 }).exec();
+  }
+
+  /**
+   * Sales that are running or still to come, soonest first
+   */
+  async findUpcomingSaleEvents(
+    now: Date = new Date(),
+  ): Promise<SaleEventDocument[]> {
+    return this.saleEventModel
+      .find({ endsAt: { $gt: now } })
+      .sort({ startsAt: 1 })
+      .exec();
+  }
+
+  async findOneSaleEvent(id: string): Promise<SaleEventDocument> {
+    const saleEvent = await this.saleEventModel.findById(id).exec();
+    if (!saleEvent) {
+      throw new NotFoundException(`Sale event with ID ${id} not found`);
+    }
+    return saleEvent;
+  }
+
+  async removeSaleEvent(id: string): Promise<void> {
+    const result = await this.saleEventModel.deleteOne({ _id: id }).exec();
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`Sale event with ID ${id} not found`);
+    }
+    await this.waitingRoomService.clear(id);
+  }
+
+  countWaiting(saleEventId: string): Promise<number> {
+    return this.waitingRoomService.countWaiting(saleEventId);
+  }
+
+  /**
+   * Queues the shopper for a sale that has not ended yet. Shoppers can join
+   * before the start - admissions begin once the sale is live.
+   */
+  async joinWaitingRoom(
+    saleEventId: string,
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<WaitingRoomTicketDto> {
+    const saleEvent = await this.findOneSaleEvent(saleEventId);
+    if (saleEvent.endsAt <= now) {
+      throw new GoneException(`Sale event ${saleEventId} has ended`);
+    }
+    return this.waitingRoomService.join(saleEventId, userId, saleEvent.endsAt);
+  }
+
+  async getTicket(
+    saleEventId: string,
+    userId: string,
+  ): Promise<WaitingRoomTicketDto> {
+    await this.findOneSaleEvent(saleEventId);
+    const ticket = await this.waitingRoomService.getTicket(saleEventId, userId);
+    if (!ticket) {
+      throw new NotFoundException(
+        `You are not in the waiting room of sale event ${saleEventId}`,
+      );
+    }
+    return ticket;
+  }
+
+  /**
+   * Admits the next FLASH_SALE_ADMISSIONS_PER_INTERVAL shoppers of every live sale
+   */
+  async admitShoppers(now: Date = new Date()): Promise<AdmissionReport> {
+    const liveSales = await this.findLiveSaleEvents({}, now);
+
+    let admitted = 0;
+    for (const saleEvent of liveSales) {
+      admitted += await this.waitingRoomService.admitNext(
+        saleEvent._id.toString(),
+        this.admissionsPerInterval,
+      );
+    }
+    return { liveSales: liveSales.length, admitted };
+  }
+
+  /**
+   * Rejects an order for stock of a live sale unless the shopper brings an
+   * admission token of its waiting room, and uses that admission up. Returns
+   * the claim, to restore if the order fails, or null when no line is on sale.
+   */
+  async claimAdmission(
+    userId: string,
+    stockIds: string[],
+    admissionToken?: string,
+    now: Date = new Date(),
+  ): Promise<AdmissionClaim | null> {
+    const liveSales = await this.findLiveSaleEvents(
+      {
+        stockId: {
+          $in: stockIds.map((stockId) => new Types.ObjectId(stockId)),
+        },
+      },
+      now,
+    );
+    if (liveSales.length === 0) {
+      return null;
+    }
+    if (liveSales.length > 1) {
+      throw new BadRequestException(
+        'Stock of different flash sales must be ordered separately',
+      );
+    }
+
+    const [saleEvent] = liveSales;
+    const saleEventId = saleEvent._id.toString();
+    const claim =
+      admissionToken &&
+      (await this.waitingRoomService.claimAdmission(
+        saleEventId,
+        userId,
+        admissionToken,
+      ));
+    if (!claim) {
+      throw new ForbiddenException(
+        `"${saleEvent.name}" is a flash sale - join waiting room ${saleEventId} and order with its admission token`,
+      );
+    }
+    return claim;
+  }
+
+  restoreAdmission(claim: AdmissionClaim): Promise<void> {
+    return this.waitingRoomService.restoreAdmission(claim);
+  }
+
+  private findLiveSaleEvents(
+    filter: Record<string, unknown>,
+    now: Date,
+  ): Promise<SaleEventDocument[]> {
+    return this.saleEventModel
+      .find({ ...filter, startsAt: { $lte: now }, endsAt: { $gt: now } })
+      .exec();
+  }
+}
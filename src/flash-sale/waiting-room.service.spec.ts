@@ -0,0 +1,271 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { WaitingRoomService } from './waiting-room.service';
+import { WAITING_ROOM_REDIS } from './flash-sale.constants';
+import { WaitingRoomStatus } from './dto/waiting-room-ticket.dto';
+
+describe('WaitingRoomService', () => {
+  let service: WaitingRoomService;
+  let redis: {
+    eval: jest.Mock;
+    multi: jest.Mock;
+    get: jest.Mock;
+    set: jest.Mock;
+    del: jest.Mock;
+    zrange: jest.Mock;
+    zcard: jest.Mock;
+  };
+
+  const saleEventId = '507f1f77bcf86cd799439030';
+  const userId = '507f1f77bcf86cd799439011';
+  const endsAt = new Date('2024-01-15T12:00:00.000Z');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WaitingRoomService,
+        {
+          provide: WAITING_ROOM_REDIS,
+          useValue: {
+            eval: jest.fn(),
+            multi: jest.fn(),
+            get: jest.fn(),
+            set: jest.fn(),
+            del: jest.fn(),
+            zrange: jest.fn(),
+            zcard: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WaitingRoomService>(WaitingRoomService);
+    redis = module.get(WAITING_ROOM_REDIS);
+  });
+
+  /**
+   * Makes the MULTI of getTicket return the admission token, its TTL and the queue rank
+   */
+  const mockTicketState = (
+    token: string | null,
+    ttlMs: number,
+    rank: number | null,
+  ) => {
+    const multi = {
+      get: jest.fn().mockReturnThis(),
+      pttl: jest.fn().mockReturnThis(),
+      zrank: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue([
+        [null, token],
+        [null, ttlMs],
+        [null, rank],
+      ]),
+    };
+    redis.multi.mockReturnValue(multi);
+  };
+
+  describe('join', () => {
+    it('should queue the shopper until the sale ends and return their position', async () => {
+      // Arrange
+      redis.eval.mockResolvedValue(41);
+
+      // Act
+      const ticket = await service.join(saleEventId, userId, endsAt);
+
+      // Assert
+      expect(ticket).toEqual({
+        saleEventId,
+        status: WaitingRoomStatus.WAITING,
+        position: 42,
+        admissionToken: null,
+        admissionExpiresAt: null,
+      });
+      expect(redis.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        3,
+        `flash-sale:{${saleEventId}}:queue`,
+        `flash-sale:{${saleEventId}}:sequence`,
+        `flash-sale:{${saleEventId}}:admission:${userId}`,
+        userId,
+        endsAt.getTime(),
+      );
+    });
+
+    it('should return the admission of a shopper who was already admitted', async () => {
+      // Arrange
+      redis.eval.mockResolvedValue(-1);
+      mockTicketState('admission-token', 120000, null);
+
+      // Act
+      const ticket = await service.join(saleEventId, userId, endsAt);
+
+      // Assert
+      expect(ticket.status).toBe(WaitingRoomStatus.ADMITTED);
+      expect(ticket.admissionToken).toBe('admission-token');
+      expect(ticket.position).toBeNull();
+    });
+  });
+
+  describe('getTicket', () => {
+    it('should return null for a shopper who is neither waiting nor admitted', async () => {
+      // Arrange
+      mockTicketState(null, -2, null);
+
+      // Act & Assert
+      await expect(service.getTicket(saleEventId, userId)).resolves.toBeNull();
+    });
+
+    it('should report when the admission expires', async () => {
+      // Arrange
+      jest.useFakeTimers({ now: new Date('2024-01-15T10:00:00.000Z') });
+      mockTicketState('admission-token', 300000, null);
+
+      // Act
+      const ticket = await service.getTicket(saleEventId, userId);
+      jest.useRealTimers();
+
+      // Assert
+      expect(ticket?.admissionExpiresAt).toEqual(
+        new Date('2024-01-15T10:05:00.000Z'),
+      );
+    });
+  });
+
+  describe('admitNext', () => {
+    it('should hand a fresh token to each shopper at the head of the queue', async () => {
+      // Arrange
+      const otherUserId = '507f1f77bcf86cd799439012';
+      redis.zrange.mockResolvedValue([userId, otherUserId]);
+      redis.eval.mockResolvedValue(2);
+
+      // Act
+      const admitted = await service.admitNext(saleEventId, 3);
+
+      // Assert
+      expect(admitted).toBe(2);
+      expect(redis.zrange).toHaveBeenCalledWith(
+        `flash-sale:{${saleEventId}}:queue`,
+        0,
+        2,
+      );
+      const [, numKeys, ...rest] = redis.eval.mock.calls[0] as unknown[];
+      const [queueKey, firstKey, secondKey, ttlMs, first, firstToken] = rest;
+      const [second, secondToken] = rest.slice(6);
+      expect([numKeys, queueKey, firstKey, secondKey, ttlMs]).toEqual([
+        3,
+        `flash-sale:{${saleEventId}}:queue`,
+        `flash-sale:{${saleEventId}}:admission:${userId}`,
+        `flash-sale:{${saleEventId}}:admission:${otherUserId}`,
+        300000,
+      ]);
+      expect([first, second]).toEqual([userId, otherUserId]);
+      expect(firstToken).not.toBe(secondToken);
+    });
+
+    it('should skip the script when nobody is waiting', async () => {
+      // Arrange
+      redis.zrange.mockResolvedValue([]);
+
+      // Act
+      const admitted = await service.admitNext(saleEventId, 3);
+
+      // Assert
+      expect(admitted).toBe(0);
+      expect(redis.eval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimAdmission', () => {
+    it('should compare and delete the admission in one script', async () => {
+      // Arrange
+      redis.eval.mockResolvedValue(120000);
+
+      // Act
+      const claim = await service.claimAdmission(
+        saleEventId,
+        userId,
+        'admission-token',
+      );
+
+      // Assert
+      expect(redis.eval).toHaveBeenCalledWith(
+        expect.stringContaining("redis.call('DEL', KEYS[1])"),
+        1,
+        `flash-sale:{${saleEventId}}:admission:${userId}`,
+        'admission-token',
+        300000,
+      );
+      expect(claim).toEqual({
+        saleEventId,
+        userId,
+        admissionToken: 'admission-token',
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it('should reject a token that does not match or is already used', async () => {
+      // Arrange
+      redis.eval.mockResolvedValue(0);
+
+      // Act & Assert
+      await expect(
+        service.claimAdmission(saleEventId, userId, 'someone-elses-token'),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('restoreAdmission', () => {
+    const claim = (expiresInMs: number) => ({
+      saleEventId,
+      userId,
+      admissionToken: 'admission-token',
+      expiresAt: new Date(Date.now() + expiresInMs),
+    });
+
+    it('should hand the admission back with the time it had left', async () => {
+      // Act
+      await service.restoreAdmission(claim(60_000));
+
+      // Assert
+      expect(redis.set).toHaveBeenCalledWith(
+        `flash-sale:{${saleEventId}}:admission:${userId}`,
+        'admission-token',
+        'PX',
+        expect.any(Number),
+        'NX',
+      );
+      const [, , , ttlMs] = redis.set.mock.calls[0] as [
+        string,
+        string,
+        string,
+        number,
+      ];
+      expect(ttlMs).toBeGreaterThan(59_000);
+      expect(ttlMs).toBeLessThanOrEqual(60_000);
+    });
+
+    it('should not restore an admission that has expired since', async () => {
+      // Act
+      await service.restoreAdmission(claim(-1));
+
+      // Assert
+      expect(redis.set).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when Redis is unreachable', async () => {
+      // Arrange
+      redis.set.mockRejectedValue(new Error('Connection is closed'));
+
+      // Act & Assert
+      await expect(
+        service.restoreAdmission(claim(60_000)),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Redis } from 'ioredis';
+import { randomBytes } from 'crypto';
+import { WAITING_ROOM_REDIS } from './flash-sale.constants';
+import {
+  WaitingRoomStatus,
+  WaitingRoomTicketDto,
+} from './dto/waiting-room-ticket.dto';
+
+/**
+ * Queues the shopper unless already waiting or admitted. Returns the rank
+ * in the queue, or -1 when the shopper holds an admission.
+ * KEYS: queue, sequence, admission - ARGV: userId, expiry (unix ms)
+ */
+const JOIN_SCRIPT = `
+if redis.call('EXISTS', KEYS[3]) == 1 then
+  return -1
+end
+if not redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+  local seq = redis.call('INCR', KEYS[2])
+  redis.call('ZADD', KEYS[1], seq, ARGV[1])
+  redis.call('PEXPIREAT', KEYS[1], ARGV[2])
+  redis.call('PEXPIREAT', KEYS[2], ARGV[2])
+end
+return redis.call('ZRANK', KEYS[1], ARGV[1])
+`;
+
+/**
+ * Takes the given shoppers off the queue and stores an admission token for
+ * each one still in it. Returns how many were admitted.
+ * KEYS: queue, admission of each shopper - ARGV: token TTL (ms), then the
+ * userId and token of each shopper in KEYS order
+ */
+const ADMIT_SCRIPT = `
+local admitted = 0
+for i = 2, #KEYS do
+  if redis.call('ZREM', KEYS[1], ARGV[2 * i - 2]) == 1 then
+    redis.call('SET', KEYS[i], ARGV[2 * i - 1], 'PX', ARGV[1])
+    admitted = admitted + 1
+  end
+end
+return admitted
+`;
+
+/**
+ * Takes the shopper's admission if it holds the given token, in one step so
+ * concurrent orders cannot share it. Returns the milliseconds it had left, or
+ * 0 when the token does not match.
+ * KEYS: admission - ARGV: token, token TTL (ms) for an admission without expiry
+ */
+const CLAIM_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+local ttl = redis.call('PTTL', KEYS[1])
+redis.call('DEL', KEYS[1])
+if ttl < 1 then
+  return tonumber(ARGV[2])
+end
+return ttl
+`;
+
+/**
+ * An admission taken by an order, kept to hand it back if the order fails
+ */
+export interface AdmissionClaim {
+  saleEventId: string;
+  userId: string;
+  admissionToken: string;
+  expiresAt: Date;
+}
+
+/**
+ * Redis-backed waiting room of a flash sale. Shoppers queue in join order
+ * and are admitted in batches; an admission is a one-time token that expires
+ * after FLASH_SALE_ADMISSION_TTL_SECONDS.
+ */
+@Injectable()
+export class WaitingRoomService implements OnModuleDestroy {
+  private readonly logger = new Logger(WaitingRoomService.name);
+
+  private readonly admissionTtlMs: number;
+
+  constructor(
+    @Inject(WAITING_ROOM_REDIS) private readonly redis: Redis,
+    private readonly configService: ConfigService,
+  ) {
+    this.admissionTtlMs =
+      Number(
+        this.configService.get<string>(
+          'FLASH_SALE_ADMISSION_TTL_SECONDS',
+          '300',
+        ),
+      ) * 1000;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  /**
+   * Puts the shopper in the waiting room (keeping their place if already in
+   * it) and returns their ticket. The room is dropped once the sale ends.
+   */
+  async join(
+    saleEventId: string,
+    userId: string,
+    endsAt: Date,
+  ): Promise<WaitingRoomTicketDto> {
+    const rank = Number(
+      await this.redis.eval(
+        JOIN_SCRIPT,
+        3,
+        this.queueKey(saleEventId),
+        this.sequenceKey(saleEventId),
+        this.admissionKey(saleEventId, userId),
+        userId,
+        endsAt.getTime(),
+      ),
+    );
+
+    if (rank >= 0) {
+      return this.waitingTicket(saleEventId, rank);
+    }
+    // Admitted in the meantime, or the admission expired right after the check
+    return (
+      (await this.getTicket(saleEventId, userId)) ??
+      this.join(saleEventId, userId, endsAt)
+    );
+  }
+
+  /**
+   * Current ticket of the shopper, or null when they are not in the room
+   * (never joined, or their admission was used or expired)
+   */
+  async getTicket(
+    saleEventId: string,
+    userId: string,
+  ): Promise<WaitingRoomTicketDto | null> {
+    const admissionKey = this.admissionKey(saleEventId, userId);
+    const [[, token], [, ttlMs], [, rank]] = (await this.redis
+      .multi()
+      .get(admissionKey)
+      .pttl(admissionKey)
+      .zrank(this.queueKey(saleEventId), userId)
+      .exec()) as [unknown, unknown][];
+
+    if (typeof token === 'string') {
+      return {
+        saleEventId,
+        status: WaitingRoomStatus.ADMITTED,
+        position: null,
+        admissionToken: token,
+        admissionExpiresAt: new Date(Date.now() + Number(ttlMs)),
+      };
+    }
+    if (typeof rank === 'number') {
+      return this.waitingTicket(saleEventId, rank);
+    }
+    return null;
+  }
+
+  /**
+   * Admits up to `count` shoppers in the order they joined. The script only
+   * admits shoppers still queued, so a concurrent call can make the batch
+   * smaller but never admits anyone twice.
+   */
+  async admitNext(saleEventId: string, count: number): Promise<number> {
+    if (count <= 0) {
+      return 0;
+    }
+    const userIds = await this.redis.zrange(
+      this.queueKey(saleEventId),
+      0,
+      count - 1,
+    );
+    if (userIds.length === 0) {
+      return 0;
+    }
+    return Number(
+      await this.redis.eval(
+        ADMIT_SCRIPT,
+        userIds.length + 1,
+        this.queueKey(saleEventId),
+        ...userIds.map((userId) => this.admissionKey(saleEventId, userId)),
+        this.admissionTtlMs,
+        ...userIds.flatMap((userId) => [
+          userId,
+          randomBytes(16).toString('hex'),
+        ]),
+      ),
+    );
+  }
+
+  /**
+   * Uses up the shopper's admission if they bring its token - they have to
+   * queue again for another order. Returns null for any other token.
+   */
+  async claimAdmission(
+    saleEventId: string,
+    userId: string,
+    admissionToken: string,
+  ): Promise<AdmissionClaim | null> {
+    const ttlMs = Number(
+      await this.redis.eval(
+        CLAIM_SCRIPT,
+        1,
+        this.admissionKey(saleEventId, userId),
+        admissionToken,
+        this.admissionTtlMs,
+      ),
+    );
+    if (ttlMs <= 0) {
+      return null;
+    }
+    return {
+      saleEventId,
+      userId,
+      admissionToken,
+      expiresAt: new Date(Date.now() + ttlMs),
+    };
+  }
+
+  /**
+   * Hands a claimed admission back, with the time it had left, when the
+   * order it was used for could not be placed
+   */
+  async restoreAdmission(claim: AdmissionClaim): Promise<void> {
+    const ttlMs = claim.expiresAt.getTime() - Date.now();
+    if (ttlMs <= 0) {
+      return;
+    }
+    try {
+      await this.redis.set(
+        this.admissionKey(claim.saleEventId, claim.userId),
+        claim.admissionToken,
+        'PX',
+        ttlMs,
+        'NX',
+      );
+    } catch (error) {
+      // The shopper has to queue again
+      this.logger.warn(
+        `Could not restore admission of user ${claim.userId} to sale ${claim.saleEventId}: ${error.message}`,
+      );
+    }
+  }
+
+  async countWaiting(saleEventId: string): Promise<number> {
+    return this.redis.zcard(this.queueKey(saleEventId));
+  }
+
+  /**
+   * Drops the queue of a sale. Admissions already handed out expire on their own.
+   */
+  async clear(saleEventId: string): Promise<void> {
+    await this.redis.del(
+      this.queueKey(saleEventId),
+      this.sequenceKey(saleEventId),
+    );
+  }
+
+  private waitingTicket(
+    saleEventId: string,
+    rank: number,
+  ): WaitingRoomTicketDto {
+    return {
+      saleEventId,
+      status: WaitingRoomStatus.WAITING,
+      position: rank + 1,
+      admissionToken: null,
+      admissionExpiresAt: null,
+    };
+  }
+
+  // The hash tag keeps every key of a sale on the same Redis Cluster slot, as the scripts require
+  private queueKey(saleEventId: string): string {
+    return `flash-sale:{${saleEventId}}:queue`;
+  }
+
+  private sequenceKey(saleEventId: string): string {
+    return `flash-sale:{${saleEventId}}:sequence`;
+  }
+
+  private admissionKey(saleEventId: string, userId: string): string {
+    return `flash-sale:{${saleEventId}}:admission:${userId}`;
+  }
+}
@@ -31,7 +31,13 @@ async function bootstrap() {
     
     credentials: true, 
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Cookie'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'Cookie',
+      'Idempotency-Key',
+      'X-Admission-Token',
+    ],
   });
 
   // Cookie parser middleware
@@ -0,0 +1,34 @@
+import { IsBoolean, IsEmail, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { ListOrdersQueryDto } from './list-orders-query.dto';
+
+export class AdminOrderQueryDto extends ListOrdersQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only orders of the user with this email',
+    example: 'customer@example.com',
+  })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only VIP (true) or regular (false) orders',
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  isVip?: boolean;
+}
+
+/**
+ * Export takes the same filters as the search but always starts from the
+ * first match, so paging parameters are not accepted
+ */
+export class AdminOrderExportQueryDto extends OmitType(AdminOrderQueryDto, [
+  'cursor',
+  'limit',
+] as const) {}
@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrderResponseDto } from './order-response.dto';
+
+export class OrderJobResponseDto {
+  @ApiProperty({
+    description: 'BullMQ job ID (same as the order ID)',
+    example: '507f1f77bcf86cd799439013',
+  })
+  jobId: string;
+
+  @ApiProperty({
+    description: 'Current job state',
+    example: 'failed',
+  })
+  state: string;
+
+  @ApiProperty({
+    description: 'Attempts made so far',
+    example: 3,
+  })
+  attemptsMade: number;
+
+  @ApiProperty({
+    description: 'Maximum number of attempts',
+    example: 5,
+  })
+  maxAttempts: number;
+
+  @ApiProperty({
+    description: 'Queue priority (lower runs first, 0 = default)',
+    example: 1,
+  })
+  priority: number;
+
+  @ApiProperty({
+    description: 'Error of the last failed attempt',
+    nullable: true,
+    type: String,
+    example: 'Insufficient stock for 507f1f77bcf86cd799439013',
+  })
+  lastError: string | null;
+
+  @ApiProperty({
+    description: 'Stack traces of failed attempts',
+    type: [String],
+  })
+  stacktrace: string[];
+
+  @ApiProperty({
+    description: 'When the job was queued',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  queuedAt: Date;
+
+  @ApiProperty({
+    description: 'When the last attempt started',
+    nullable: true,
+    type: Date,
+  })
+  processedAt: Date | null;
+
+  @ApiProperty({
+    description: 'When the job completed or finally failed',
+    nullable: true,
+    type: Date,
+  })
+  finishedAt: Date | null;
+}
+
+export class AdminOrderResponseDto extends OrderResponseDto {
+  @ApiProperty({
+    description:
+      'Queue job of the order; null once BullMQ has removed it from its history',
+    nullable: true,
+    type: OrderJobResponseDto,
+  })
+  job: OrderJobResponseDto | null;
+}
@@ -0,0 +1,16 @@
+import { ArrayMaxSize, IsArray, IsMongoId, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class BulkDeadLetterDto {
+  @ApiPropertyOptional({
+    description:
+      'Orders whose dead letters to act on; omit to act on all of them (up to 1000)',
+    type: [String],
+    example: ['507f1f77bcf86cd799439013'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsMongoId({ each: true })
+  orderIds?: string[];
+}
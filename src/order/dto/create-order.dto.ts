@@ -2,21 +2,62 @@ import {
   IsNotEmpty,
   IsNumber,
   IsString,
+  IsArray,
   IsOptional,
-  IsBoolean,
+  IsLatitude,
+  IsLongitude,
+  IsMongoId,
+  ArrayMinSize,
+  ValidateIf,
+  ValidateNested,
   Min,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Types } from 'mongoose';
 
-export class CreateOrderDto {
-  @ApiProperty({
-    description: 'The ID of the stock item being ordered',
+export class CreateOrderLineItemDto {
+  @ApiPropertyOptional({
+    description:
+      'The ID of the product being ordered. The warehouse that fulfils the line is picked by the allocation strategy.',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @ValidateIf(
+    (lineItem: CreateOrderLineItemDto) => !lineItem.stockId && !lineItem.sku,
+  )
+  @IsMongoId()
+  productId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'The variant of the product being ordered - required for products with variants',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'SKU of the variant being ordered, in place of productId and variantId',
+    example: 'TSHIRT-BLK-M',
+  })
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  sku?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Deprecated - names the product through one of its stock items, in place of productId. The fulfilling warehouse is still picked by the allocation strategy.',
     example: '507f1f77bcf86cd799439013',
+    deprecated: true,
   })
+  @ValidateIf(
+    (lineItem: CreateOrderLineItemDto) => !lineItem.productId && !lineItem.sku,
+  )
   @IsNotEmpty()
   @IsString()
-  stockId: string;
+  stockId?: string;
 
   @ApiProperty({
     description: 'Quantity of the product to order',
@@ -28,13 +69,47 @@ export class CreateOrderDto {
   @Min(1)
   quantity: number;
 
-  @ApiProperty({
-    description: 'Price of the product at the time of purchase',
+  @ApiPropertyOptional({
+    description:
+      'Price the shopper was shown. The server always charges the current price of the product or variant; if this is sent and no longer matches, the order is rejected with 409.',
     example: 29.99,
     minimum: 0,
   })
-  @IsNotEmpty()
+  @IsOptional()
   @IsNumber()
   @Min(0)
-  priceAtPurchase: number;
+  priceAtPurchase?: number;
+}
+
+export class DeliveryLocationDto {
+  @ApiProperty({ description: 'Latitude', example: 48.137 })
+  @IsLatitude()
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude', example: 11.575 })
+  @IsLongitude()
+  longitude: number;
+}
+
+export class CreateOrderDto {
+  @ApiProperty({
+    description:
+      'Items in the cart. All lines are reserved together or the whole order fails.',
+    type: [CreateOrderLineItemDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => CreateOrderLineItemDto)
+  lineItems: CreateOrderLineItemDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Where the order is delivered - used to pick the nearest warehouse',
+    type: DeliveryLocationDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeliveryLocationDto)
+  deliveryLocation?: DeliveryLocationDto;
 }
@@ -0,0 +1,32 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export const DEFAULT_DEAD_LETTER_PAGE_SIZE = 20;
+export const MAX_DEAD_LETTER_PAGE_SIZE = 100;
+
+export class DeadLetterQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of dead letters to skip',
+    default: 0,
+    minimum: 0,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  @ApiPropertyOptional({
+    description: 'Page size',
+    default: DEFAULT_DEAD_LETTER_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_DEAD_LETTER_PAGE_SIZE,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_DEAD_LETTER_PAGE_SIZE)
+  limit?: number;
+}
@@ -0,0 +1,138 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { OrderDeadLetter } from '../order-dead-letter.service';
+
+export class DeadLetterSummaryDto {
+  @ApiProperty({
+    description: 'Order ID (also the dead letter ID)',
+    example: '507f1f77bcf86cd799439013',
+  })
+  orderId: string;
+
+  @ApiProperty({
+    description:
+      'Pipeline step that failed; null when the order ran as a single job',
+    nullable: true,
+    type: String,
+    example: 'charge-payment',
+  })
+  failedStep: string | null;
+
+  @ApiProperty({
+    description: 'Error of the last failed attempt',
+    example: 'Insufficient stock for 507f1f77bcf86cd799439012',
+  })
+  failedReason: string;
+
+  @ApiProperty({
+    description: 'Attempts made before the job was given up',
+    example: 5,
+  })
+  attemptsMade: number;
+
+  @ApiProperty({
+    description: 'When the job finally failed',
+    example: '2024-01-15T10:31:00.000Z',
+  })
+  failedAt: Date;
+}
+
+export class DeadLetterResponseDto extends DeadLetterSummaryDto {
+  @ApiProperty({
+    description: 'Job name used when the order is replayed',
+    example: 'process-order',
+  })
+  jobName: string;
+
+  @ApiProperty({
+    description: 'Job payload as originally queued',
+    type: Object,
+  })
+  payload: Record<string, unknown>;
+
+  @ApiProperty({
+    description:
+      'Job options (attempts, backoff, priority) as originally queued',
+    type: Object,
+  })
+  jobOptions: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'Stack traces of the failed attempts',
+    type: [String],
+  })
+  stacktrace: string[];
+
+  @ApiProperty({
+    description: 'When the job was first queued; null if no longer known',
+    nullable: true,
+    type: Date,
+  })
+  queuedAt: Date | null;
+}
+
+export class DeadLetterListResponseDto {
+  @ApiProperty({ type: [DeadLetterSummaryDto] })
+  items: DeadLetterSummaryDto[];
+
+  @ApiProperty({
+    description: 'Total number of dead letters',
+    example: 42,
+  })
+  total: number;
+}
+
+export class DeadLetterReplayFailureDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439013' })
+  orderId: string;
+
+  @ApiProperty({ example: 'Order with status CANCELLED cannot be replayed' })
+  error: string;
+}
+
+export class DeadLetterReplayResponseDto {
+  @ApiProperty({
+    description: 'Orders reset to PENDING and queued again',
+    type: [String],
+  })
+  replayed: string[];
+
+  @ApiProperty({
+    description: 'Orders that could not be replayed',
+    type: [DeadLetterReplayFailureDto],
+  })
+  failed: DeadLetterReplayFailureDto[];
+}
+
+export class DeadLetterPurgeResponseDto {
+  @ApiProperty({
+    description: 'Number of dead letters removed',
+    example: 3,
+  })
+  purged: number;
+}
+
+export function toDeadLetterSummaryDto(
+  deadLetter: OrderDeadLetter,
+): DeadLetterSummaryDto {
+  return {
+    orderId: deadLetter.orderId,
+    failedStep: deadLetter.failedStep ?? null,
+    failedReason: deadLetter.failedReason,
+    attemptsMade: deadLetter.attemptsMade,
+    failedAt: new Date(deadLetter.failedAt),
+  };
+}
+
+export function toDeadLetterResponseDto(
+  deadLetter: OrderDeadLetter,
+): DeadLetterResponseDto {
+  return {
+    ...toDeadLetterSummaryDto(deadLetter),
+    jobName: deadLetter.jobName,
+    payload: { ...deadLetter.payload },
+    jobOptions: { ...deadLetter.jobOptions },
+    stacktrace: deadLetter.stacktrace,
+    queuedAt:
+      deadLetter.queuedAt === null ? null : new Date(deadLetter.queuedAt),
+  };
+}
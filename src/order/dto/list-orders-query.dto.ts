@@ -0,0 +1,75 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderStatus } from '../entities/order.entity';
+
+export const DEFAULT_ORDER_PAGE_SIZE = 20;
+export const MAX_ORDER_PAGE_SIZE = 100;
+
+export class ListOrdersQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only orders in these statuses (comma-separated)',
+    enum: OrderStatus,
+    isArray: true,
+    example: 'CONFIRMED,SHIPPED',
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+  )
+  @IsEnum(OrderStatus, { each: true })
+  status?: OrderStatus[];
+
+  @ApiPropertyOptional({
+    description: 'Only orders created at or after this time (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only orders created at or before this time (ISO 8601)',
+    example: '2024-01-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only orders containing this product',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  productId?: string;
+
+  @ApiPropertyOptional({
+    description: 'nextCursor from the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page size',
+    default: DEFAULT_ORDER_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_ORDER_PAGE_SIZE,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_ORDER_PAGE_SIZE)
+  limit?: number;
+}
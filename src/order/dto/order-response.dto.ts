@@ -1,18 +1,18 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { OrderStatus } from '../entities/order.entity';
+import { OrderDocument, OrderStatus } from '../entities/order.entity';
 
-export class OrderResponseDto {
+export class OrderLineItemResponseDto {
   @ApiProperty({
-    description: 'Unique identifier of the order',
-    example: '507f1f77bcf86cd799439013',
+    description: 'The ID of the ordered product',
+    example: '507f1f77bcf86cd799439012',
   })
-  _id: string;
+  productId: string;
 
   @ApiProperty({
-    description: 'The ID of the user who placed the order',
-    example: '507f1f77bcf86cd799439011',
+    description: 'The ID of the stock item the line was reserved from',
+    example: '507f1f77bcf86cd799439013',
   })
-  userId: string;
+  stockId: string;
 
   @ApiProperty({
     description: 'Name of the product being ordered',
@@ -44,6 +44,73 @@ export class OrderResponseDto {
   })
   priceAtPurchase: number;
 
+  @ApiProperty({
+    description: 'Line total (quantity x price at purchase)',
+    example: 59.98,
+  })
+  lineTotal: number;
+}
+
+export class OrderStatusChangeResponseDto {
+  @ApiProperty({
+    description: 'Previous status (null for the initial entry)',
+    enum: OrderStatus,
+    nullable: true,
+    example: OrderStatus.PENDING,
+  })
+  from: OrderStatus | null;
+
+  @ApiProperty({
+    description: 'New status',
+    enum: OrderStatus,
+    example: OrderStatus.PROCESSING,
+  })
+  to: OrderStatus;
+
+  @ApiProperty({
+    description: 'User ID, or "system:<component>" for automated changes',
+    example: 'system:order-processor',
+  })
+  changedBy: string;
+
+  @ApiProperty({
+    description: 'Why the status changed',
+    example: 'Processing attempt 1',
+  })
+  reason: string;
+
+  @ApiProperty({
+    description: 'When the status changed',
+    example: '2024-01-15T10:30:01.000Z',
+  })
+  changedAt: Date;
+}
+
+export class OrderResponseDto {
+  @ApiProperty({
+    description: 'Unique identifier of the order',
+    example: '507f1f77bcf86cd799439013',
+  })
+  _id: string;
+
+  @ApiProperty({
+    description: 'The ID of the user who placed the order',
+    example: '507f1f77bcf86cd799439011',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Items in the order',
+    type: [OrderLineItemResponseDto],
+  })
+  lineItems: OrderLineItemResponseDto[];
+
+  @ApiProperty({
+    description: 'Order total across all line items',
+    example: 59.98,
+  })
+  totalAmount: number;
+
   @ApiProperty({
     description: 'Current status of the order',
     enum: OrderStatus,
@@ -63,6 +130,12 @@ export class OrderResponseDto {
   })
   failureReason: string;
 
+  @ApiProperty({
+    description: 'Every status change of the order, oldest first',
+    type: [OrderStatusChangeResponseDto],
+  })
+  statusHistory: OrderStatusChangeResponseDto[];
+
   @ApiProperty({
     description: 'When the order was created',
     example: '2024-01-15T10:30:00.000Z',
@@ -75,3 +148,60 @@ export class OrderResponseDto {
   })
   updatedAt: Date;
 }
+
+export class OrderListResponseDto {
+  @ApiProperty({
+    description: 'Orders of this page, most recent first',
+    type: [OrderResponseDto],
+  })
+  items: OrderResponseDto[];
+
+  @ApiProperty({
+    description: 'Pass as `cursor` to get the next page; null on the last page',
+    nullable: true,
+    type: String,
+    example:
+      'MjAyNC0wMS0xNVQxMDozMDowMC4wMDBaXzUwN2YxZjc3YmNmODZjZDc5OTQzOTAxMw',
+  })
+  nextCursor: string | null;
+}
+
+/**
+ * Maps a populated order document to the public response format
+ */
+export function toOrderResponseDto(order: OrderDocument): OrderResponseDto {
+  return {
+    _id: order._id.toString(),
+    userId: order.userId.toString(),
+    lineItems: order.lineItems.map((lineItem) => {
+      const product = lineItem.productId as any;
+      const stock = lineItem.stockId as any;
+      return {
+        productId: (product?._id ?? product).toString(),
+        stockId: (stock?._id ?? stock).toString(),
+        productName: product?.name,
+        productDescription: product?.description,
+        availableStock: stock?.quantity,
+        quantity: lineItem.quantity,
+        priceAtPurchase: lineItem.priceAtPurchase,
+        lineTotal:
+          Math.round(lineItem.quantity * lineItem.priceAtPurchase * 100) / 100,
+      };
+    }),
+    totalAmount: order.totalAmount,
+    status: order.status,
+    isVipOrder: order.isVipOrder,
+    failureReason: order.failureReason,
+    statusHistory: (order.statusHistory ?? []).map(
+      ({ from, to, changedBy, reason, changedAt }) => ({
+        from: from ?? null,
+        to,
+        changedBy,
+        reason,
+        changedAt,
+      }),
+    ),
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+  };
+}
@@ -0,0 +1,134 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  StockCompensationStatus,
+  StockRollbackFailureDocument,
+} from '../entities/stock-rollback-failure.entity';
+import type { StockCompensationDebt } from '../stock-rollback-failure.service';
+
+export class StockRollbackFailureResponseDto {
+  @ApiProperty({
+    description: 'Failure record ID',
+    example: '507f1f77bcf86cd799439020',
+  })
+  _id: string;
+
+  @ApiProperty({
+    description: 'Order whose stock could not be given back',
+    example: '507f1f77bcf86cd799439014',
+  })
+  orderId: string;
+
+  @ApiProperty({
+    description: 'Stock that is missing the units',
+    example: '507f1f77bcf86cd799439013',
+  })
+  stockId: string;
+
+  @ApiProperty({
+    description: 'Units that were not given back',
+    example: 2,
+  })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Error of the failed rollback',
+    example: 'Max retries exceeded due to version conflicts',
+  })
+  error: string;
+
+  @ApiProperty({
+    description: 'Component that attempted the rollback',
+    example: 'system:order-processor',
+  })
+  source: string;
+
+  @ApiProperty({
+    description: 'Whether the compensation queue has given the units back',
+    enum: StockCompensationStatus,
+    example: StockCompensationStatus.OUTSTANDING,
+  })
+  status: StockCompensationStatus;
+
+  @ApiProperty({
+    description: 'Attempts of the compensation queue so far',
+    example: 3,
+  })
+  attempts: number;
+
+  @ApiProperty({
+    description: 'When the units were given back',
+    nullable: true,
+    type: Date,
+  })
+  compensatedAt: Date | null;
+
+  @ApiProperty({
+    description: 'When a reconciliation run reported the failure',
+    nullable: true,
+    type: Date,
+  })
+  reportedAt: Date | null;
+
+  @ApiProperty({
+    description: 'When the rollback failed',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+}
+
+export function toStockRollbackFailureResponseDto(
+  failure: StockRollbackFailureDocument,
+): StockRollbackFailureResponseDto {
+  return {
+    _id: failure._id.toString(),
+    orderId: failure.orderId.toString(),
+    stockId: failure.stockId.toString(),
+    quantity: failure.quantity,
+    error: failure.error,
+    source: failure.source,
+    status: failure.status,
+    attempts: failure.attempts,
+    compensatedAt: failure.compensatedAt,
+    reportedAt: failure.reportedAt,
+    createdAt: failure.createdAt,
+  };
+}
+
+export class StockCompensationDebtDto {
+  @ApiProperty({
+    description: 'Stock that is missing units',
+    example: '507f1f77bcf86cd799439013',
+  })
+  stockId: string;
+
+  @ApiProperty({
+    description: 'Units not given back yet',
+    example: 5,
+  })
+  units: number;
+
+  @ApiProperty({
+    description: 'Failed rollbacks the units come from',
+    example: 2,
+  })
+  failures: number;
+
+  @ApiProperty({
+    description:
+      'Failed rollbacks the compensation queue gave up on - these need correcting by hand',
+    example: 1,
+  })
+  exhausted: number;
+
+  @ApiProperty({
+    description: 'When the oldest of the failed rollbacks happened',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  oldestFailureAt: Date;
+}
+
+export function toStockCompensationDebtDto(
+  debt: StockCompensationDebt,
+): StockCompensationDebtDto {
+  return { ...debt };
+}
@@ -0,0 +1,30 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderStatus } from '../entities/order.entity';
+
+export class UpdateOrderStatusDto {
+  @ApiProperty({
+    description: 'Status to move the order to',
+    enum: OrderStatus,
+    example: OrderStatus.SHIPPED,
+  })
+  @IsNotEmpty()
+  @IsEnum(OrderStatus)
+  status: OrderStatus;
+
+  @ApiPropertyOptional({
+    description: 'Reason recorded in the status history',
+    example: 'Handed over to carrier',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,65 @@
+import { IsDateString, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CustomerTier } from '../../users/customer-tier';
+
+export class WaitTimeStatsQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Only orders created at or after this time (ISO 8601); defaults to the last 24 hours',
+    example: '2024-01-15T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+}
+
+export class TierWaitTimeStatsDto {
+  @ApiProperty({
+    description: 'Customer tier',
+    enum: CustomerTier,
+    example: CustomerTier.STANDARD,
+  })
+  tier: CustomerTier;
+
+  @ApiProperty({
+    description: 'Starting queue priority of the tier (lower runs first)',
+    example: 20,
+  })
+  priority: number;
+
+  @ApiProperty({
+    description: 'Orders of the tier waiting to be processed right now',
+    example: 12,
+  })
+  waiting: number;
+
+  @ApiProperty({
+    description: 'How long the oldest waiting order has waited so far',
+    nullable: true,
+    type: Number,
+    example: 45000,
+  })
+  oldestWaitMs: number | null;
+
+  @ApiProperty({
+    description: 'Orders created since `from` whose processing has started',
+    example: 340,
+  })
+  processed: number;
+
+  @ApiProperty({
+    description: 'Average time from order creation to the start of processing',
+    nullable: true,
+    type: Number,
+    example: 8200,
+  })
+  averageWaitMs: number | null;
+
+  @ApiProperty({
+    description: 'Longest time from order creation to the start of processing',
+    nullable: true,
+    type: Number,
+    example: 61000,
+  })
+  maxWaitMs: number | null;
+}
@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type IdempotencyKeyDocument = IdempotencyKey &
+  Document & {
+    _id: Types.ObjectId;
+  };
+
+@Schema({ timestamps: true })
+export class IdempotencyKey {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  key: string;
+
+  // SHA-256 of the request body the key was first used with
+  @Prop({ required: true })
+  fingerprint: string;
+
+  // Set once the order is saved; null while the first request is still in flight
+  @Prop({ type: Types.ObjectId, ref: 'Order', default: null })
+  orderId: Types.ObjectId | null;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const IdempotencyKeySchema =
+  SchemaFactory.createForClass(IdempotencyKey);
+
+// Keys are scoped per user
+IdempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+
+// Let MongoDB purge expired keys
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { CustomerTier } from '../../users/customer-tier';
+import type { OrderPayload } from '../order.service';
 
 export type OrderDocument = Order &
   Document & {
@@ -8,18 +10,27 @@ export type OrderDocument = Order &
 
 export enum OrderStatus {
   PENDING = 'PENDING',
+  PROCESSING = 'PROCESSING',
   CONFIRMED = 'CONFIRMED',
+  SHIPPED = 'SHIPPED',
+  DELIVERED = 'DELIVERED',
+  CANCELLED = 'CANCELLED',
+  REFUNDED = 'REFUNDED',
   FAILED = 'FAILED',
 }
 
-@Schema({ timestamps: true })
-export class Order {
-  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
-  userId: Types.ObjectId;
-
+@Schema({ _id: false })
+export class OrderLineItem {
   @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
   productId: Types.ObjectId;
 
+  // Variant ordered and its SKU at the time - null for products without variants
+  @Prop({ type: Types.ObjectId, default: null })
+  variantId?: Types.ObjectId | null;
+
+  @Prop({ type: String, default: null })
+  sku?: string | null;
+
   @Prop({ type: Types.ObjectId, ref: 'Stock', required: true })
   stockId: Types.ObjectId;
 
@@ -28,6 +39,95 @@ export class Order {
 
   @Prop({ required: true, min: 0 })
   priceAtPurchase: number;
+}
+
+export const OrderLineItemSchema = SchemaFactory.createForClass(OrderLineItem);
+
+@Schema({ _id: false })
+export class OrderStatusChange {
+  // null for the initial PENDING entry
+  @Prop({ type: String, enum: OrderStatus, default: null })
+  from: OrderStatus | null;
+
+  @Prop({ type: String, enum: OrderStatus, required: true })
+  to: OrderStatus;
+
+  // User ID, or "system:<component>" for automated changes
+  @Prop({ required: true })
+  changedBy: string;
+
+  @Prop({ default: '' })
+  reason: string;
+
+  @Prop({ required: true })
+  changedAt: Date;
+}
+
+export const OrderStatusChangeSchema =
+  SchemaFactory.createForClass(OrderStatusChange);
+
+export enum OrderOutboxStatus {
+  PENDING = 'PENDING',
+  DISPATCHED = 'DISPATCHED',
+}
+
+/**
+ * Queue job to publish for the order. Kept on the order itself so the same
+ * insert writes both - the outbox relay publishes whatever is left PENDING.
+ */
+@Schema({ _id: false })
+export class OrderOutboxEntry {
+  @Prop({
+    type: String,
+    enum: OrderOutboxStatus,
+    default: OrderOutboxStatus.PENDING,
+  })
+  status: OrderOutboxStatus;
+
+  @Prop({ required: true })
+  jobName: string;
+
+  @Prop({ type: Object, required: true })
+  payload: OrderPayload;
+
+  // BullMQ job options, including the jobId that makes re-publishing idempotent
+  @Prop({ type: Object, default: {} })
+  jobOptions: Record<string, any>;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  // Times the reconciliation run published the job again after it was lost
+  @Prop({ default: 0 })
+  requeues: number;
+
+  @Prop({ default: '' })
+  lastError: string;
+
+  @Prop({ type: Date, default: null })
+  dispatchedAt: Date | null;
+}
+
+export const OrderOutboxEntrySchema =
+  SchemaFactory.createForClass(OrderOutboxEntry);
+
+@Schema({ timestamps: true })
+export class Order {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({
+    type: [OrderLineItemSchema],
+    required: true,
+    validate: {
+      validator: (lineItems: OrderLineItem[]) => lineItems.length > 0,
+      message: 'An order must contain at least one line item',
+    },
+  })
+  lineItems: OrderLineItem[];
+
+  @Prop({ required: true, min: 0 })
+  totalAmount: number;
 
   @Prop({
     type: String,
@@ -39,11 +139,30 @@ export class Order {
   @Prop({ default: false })
   isVipOrder: boolean;
 
+  // Tier of the customer when ordering - sets the starting queue priority
+  @Prop({ type: String, enum: CustomerTier, default: CustomerTier.STANDARD })
+  priorityTier: CustomerTier;
+
   @Prop({ default: '' })
   failureReason: string;
 
+  @Prop({ type: [OrderStatusChangeSchema], default: [] })
+  statusHistory: OrderStatusChange[];
+
+  @Prop({ type: OrderOutboxEntrySchema })
+  outbox?: OrderOutboxEntry;
+
   createdAt: Date;
   updatedAt: Date;
 }
 
 export const OrderSchema = SchemaFactory.createForClass(Order);
+
+// Backs the paginated order list: a user's orders, newest first, with _id as tie-breaker
+OrderSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+
+// Lets the outbox relay find undispatched orders; dispatched ones drop out of the index
+OrderSchema.index(
+  { 'outbox.status': 1, createdAt: 1 },
+  { partialFilterExpression: { 'outbox.status': OrderOutboxStatus.PENDING } },
+);
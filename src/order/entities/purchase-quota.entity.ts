@@ -0,0 +1,54 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PurchaseQuotaDocument = PurchaseQuota &
+  Document & {
+    _id: Types.ObjectId;
+  };
+
+/**
+ * Units of a product an order took from the customer's purchase limits
+ */
+@Schema({ _id: false })
+export class PurchaseQuotaClaim {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+
+  @Prop({ required: true })
+  claimedAt: Date;
+}
+
+export const PurchaseQuotaClaimSchema =
+  SchemaFactory.createForClass(PurchaseQuotaClaim);
+
+/**
+ * Claims of one customer on one limited product. Order processing checks
+ * the limits and adds its claim in one versioned write, so two orders of the
+ * same customer cannot both take the last of their quota.
+ */
+@Schema({
+  timestamps: true,
+  versionKey: '__v', // Optimistic locking, as on Stock
+})
+export class PurchaseQuota {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  productId: Types.ObjectId;
+
+  @Prop({ type: [PurchaseQuotaClaimSchema], default: [] })
+  claims: PurchaseQuotaClaim[];
+
+  __v?: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PurchaseQuotaSchema = SchemaFactory.createForClass(PurchaseQuota);
+
+PurchaseQuotaSchema.index({ userId: 1, productId: 1 }, { unique: true });
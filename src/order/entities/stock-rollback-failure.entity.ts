@@ -0,0 +1,67 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type StockRollbackFailureDocument = StockRollbackFailure &
+  Document & {
+    _id: Types.ObjectId;
+  };
+
+export enum StockCompensationStatus {
+  OUTSTANDING = 'OUTSTANDING', // Queued for another attempt to give the units back
+  COMPENSATED = 'COMPENSATED',
+  EXHAUSTED = 'EXHAUSTED', // Retry budget used up - needs correcting by hand
+}
+
+/**
+ * Stock that could not be given back after an order was rolled back or
+ * cancelled. The units are missing from the shelf until the compensation
+ * queue manages to give them back, or someone corrects the stock by hand.
+ */
+@Schema({ timestamps: true })
+export class StockRollbackFailure {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Stock', required: true })
+  stockId: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+
+  @Prop({ default: '' })
+  error: string;
+
+  // "system:<component>" that attempted the rollback
+  @Prop({ required: true })
+  source: string;
+
+  @Prop({
+    type: String,
+    enum: StockCompensationStatus,
+    default: StockCompensationStatus.OUTSTANDING,
+  })
+  status: StockCompensationStatus;
+
+  // Attempts of the compensation queue so far
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ type: Date, default: null })
+  compensatedAt: Date | null;
+
+  // Set once a reconciliation run has reported the failure
+  @Prop({ type: Date, default: null })
+  reportedAt: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const StockRollbackFailureSchema =
+  SchemaFactory.createForClass(StockRollbackFailure);
+
+// Newest first for the admin list; unreported ones for the reconciliation run;
+// outstanding debt per stock
+StockRollbackFailureSchema.index({ createdAt: -1 });
+StockRollbackFailureSchema.index({ reportedAt: 1, createdAt: 1 });
+StockRollbackFailureSchema.index({ status: 1, stockId: 1 });
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyKey } from './entities/idempotency-key.entity';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  let idempotencyKeyModel: {
+    create: jest.Mock;
+    findOne: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    updateOne: jest.Mock;
+    deleteOne: jest.Mock;
+  };
+
+  const userId = '507f1f77bcf86cd799439011';
+  const orderId = new Types.ObjectId('507f1f77bcf86cd799439014');
+  const duplicateKeyError = Object.assign(new Error('E11000 duplicate key'), {
+    code: 11000,
+  });
+
+  const mockExistingKey = (key: Partial<IdempotencyKey>) =>
+    idempotencyKeyModel.findOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue({
+        fingerprint: 'fingerprint',
+        orderId,
+        expiresAt: new Date(Date.now() + 60_000),
+        ...key,
+      }),
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        {
+          provide: getModelToken(IdempotencyKey.name),
+          useValue: {
+            create: jest.fn(),
+            findOne: jest.fn(),
+            findOneAndUpdate: jest.fn(),
+            updateOne: jest.fn(),
+            deleteOne: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn().mockReturnValue('24'),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+    idempotencyKeyModel = module.get(getModelToken(IdempotencyKey.name));
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('fingerprint', () => {
+    it('should not depend on object key order', () => {
+      expect(service.fingerprint({ a: 1, b: [{ c: 2, d: 3 }] })).toBe(
+        service.fingerprint({ b: [{ d: 3, c: 2 }], a: 1 }),
+      );
+    });
+
+    it('should differ for different bodies', () => {
+      expect(service.fingerprint({ quantity: 1 })).not.toBe(
+        service.fingerprint({ quantity: 2 }),
+      );
+    });
+  });
+
+  describe('claim', () => {
+    it('should return null for a new key', async () => {
+      // Arrange
+      idempotencyKeyModel.create.mockResolvedValue({});
+
+      // Act & Assert
+      await expect(
+        service.claim(userId, 'key-1', 'fingerprint'),
+      ).resolves.toBeNull();
+    });
+
+    it('should return the original order ID for a replay with the same body', async () => {
+      // Arrange
+      idempotencyKeyModel.create.mockRejectedValue(duplicateKeyError);
+      mockExistingKey({});
+
+      // Act & Assert
+      await expect(service.claim(userId, 'key-1', 'fingerprint')).resolves.toBe(
+        orderId.toString(),
+      );
+    });
+
+    it('should reject a replay with a different body with 422', async () => {
+      // Arrange
+      idempotencyKeyModel.create.mockRejectedValue(duplicateKeyError);
+      mockExistingKey({ fingerprint: 'other-fingerprint' });
+
+      // Act & Assert
+      await expect(
+        service.claim(userId, 'key-1', 'fingerprint'),
+      ).rejects.toThrow(UnprocessableEntityException);
+    });
+
+    it('should reject a replay while the original request is in flight', async () => {
+      // Arrange
+      idempotencyKeyModel.create.mockRejectedValue(duplicateKeyError);
+      mockExistingKey({ orderId: null });
+
+      // Act & Assert
+      await expect(
+        service.claim(userId, 'key-1', 'fingerprint'),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should take over an expired key', async () => {
+      // Arrange
+      idempotencyKeyModel.create.mockRejectedValue(duplicateKeyError);
+      mockExistingKey({
+        fingerprint: 'other-fingerprint',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      idempotencyKeyModel.findOneAndUpdate.mockResolvedValue({});
+
+      // Act & Assert
+      await expect(
+        service.claim(userId, 'key-1', 'fingerprint'),
+      ).resolves.toBeNull();
+    });
+  });
+});
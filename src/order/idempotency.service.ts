@@ -0,0 +1,137 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash } from 'crypto';
+import { DUPLICATE_KEY_ERROR_CODE } from '../common/database/mongo-error-codes';
+import {
+  IdempotencyKey,
+  IdempotencyKeyDocument,
+} from './entities/idempotency-key.entity';
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  private readonly ttlMs: number;
+
+  constructor(
+    @InjectModel(IdempotencyKey.name)
+    private readonly idempotencyKeyModel: Model<IdempotencyKeyDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    const ttlHours = Number(
+      this.configService.get<string>('IDEMPOTENCY_KEY_TTL_HOURS', '24'),
+    );
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Stable SHA-256 fingerprint of a request body (object keys are sorted)
+   */
+  fingerprint(body: unknown): string {
+    return createHash('sha256')
+      .update(this.stableStringify(body))
+      .digest('hex');
+  }
+
+  /**
+   * Claims an idempotency key for a user.
+   * Returns null when the key is new (the caller should create the order),
+   * or the ID of the order created by the original request on a replay.
+   * Throws 422 when the key was used with a different body, and 409 while the
+   * original request is still in flight.
+   */
+  async claim(
+    userId: string,
+    key: string,
+    fingerprint: string,
+  ): Promise<string | null> {
+    const expiresAt = new Date(Date.now() + this.ttlMs);
+
+    try {
+      await this.idempotencyKeyModel.create({
+        userId,
+        key,
+        fingerprint,
+        expiresAt,
+      });
+      return null;
+    } catch (error) {
+      if (error?.code !== DUPLICATE_KEY_ERROR_CODE) {
+        throw error;
+      }
+    }
+
+    const existing = await this.idempotencyKeyModel
+      .findOne({ userId, key })
+      .exec();
+
+    if (!existing || existing.expiresAt.getTime() <= Date.now()) {
+      // Expired but not yet purged by the TTL monitor - take it over
+      const reclaimed = await this.idempotencyKeyModel.findOneAndUpdate(
+        { userId, key, expiresAt: { $lte: new Date() } },
+        { fingerprint, orderId: null, expiresAt },
+        { new: true },
+      );
+      if (reclaimed) {
+        return null;
+      }
+      throw new ConflictException(
+        'A request with this Idempotency-Key is already being processed',
+      );
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new UnprocessableEntityException(
+        'Idempotency-Key was already used with a different request body',
+      );
+    }
+
+    if (!existing.orderId) {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is already being processed',
+      );
+    }
+
+    this.logger.log(
+      `Idempotent replay for user ${userId}, key ${key} -> order ${existing.orderId.toString()}`,
+    );
+    return existing.orderId.toString();
+  }
+
+  /**
+   * Links a claimed key to the order it produced
+   */
+  async complete(userId: string, key: string, orderId: string): Promise<void> {
+    await this.idempotencyKeyModel.updateOne({ userId, key }, { orderId });
+  }
+
+  /**
+   * Frees a claimed key when no order was created, so the client can retry
+   */
+  async release(userId: string, key: string): Promise<void> {
+    await this.idempotencyKeyModel.deleteOne({ userId, key, orderId: null });
+  }
+
+  private stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .sort()
+        .filter((key) => value[key] !== undefined)
+        .map(
+          (key) => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`,
+        );
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
@@ -0,0 +1,283 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { OrderAdminController } from './order-admin.controller';
+import { OrderService } from './order.service';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import { OrderPriorityService } from './order-priority.service';
+import { OrderStatus } from './entities/order.entity';
+import { StockCompensationStatus } from './entities/stock-rollback-failure.entity';
+import { User } from '../users/entities/user.entity';
+
+describe('OrderAdminController', () => {
+  let controller: OrderAdminController;
+  let orderService: {
+    updateOrderStatus: jest.Mock;
+    findOrderById: jest.Mock;
+    searchOrders: jest.Mock;
+    exportOrdersCsv: jest.Mock;
+    getOrderJob: jest.Mock;
+  };
+  let stockRollbackFailureService: {
+    findRecent: jest.Mock;
+    getDebt: jest.Mock;
+  };
+  let orderPriorityService: { getWaitTimeStats: jest.Mock };
+
+  const orderId = '507f1f77bcf86cd799439014';
+  const admin = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439099'),
+    isAdmin: true,
+  } as unknown as User;
+
+  const order = {
+    _id: new Types.ObjectId(orderId),
+    userId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    lineItems: [],
+    totalAmount: 10,
+    status: OrderStatus.FAILED,
+    isVipOrder: true,
+    failureReason: 'Payment gateway unreachable',
+    statusHistory: [],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OrderAdminController],
+      providers: [
+        {
+          provide: OrderService,
+          useValue: {
+            updateOrderStatus: jest.fn(),
+            findOrderById: jest.fn(),
+            searchOrders: jest.fn(),
+            exportOrdersCsv: jest.fn(),
+            getOrderJob: jest.fn(),
+          },
+        },
+        {
+          provide: StockRollbackFailureService,
+          useValue: {
+            findRecent: jest.fn(),
+            getDebt: jest.fn(),
+          },
+        },
+        {
+          provide: OrderPriorityService,
+          useValue: {
+            getWaitTimeStats: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<OrderAdminController>(OrderAdminController);
+    orderService = module.get(OrderService);
+    stockRollbackFailureService = module.get(StockRollbackFailureService);
+    orderPriorityService = module.get(OrderPriorityService);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('updateStatus', () => {
+    it('should change the status on behalf of the admin and return the order', async () => {
+      // Arrange
+      const order = {
+        _id: new Types.ObjectId(orderId),
+        userId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        lineItems: [],
+        totalAmount: 10,
+        status: OrderStatus.SHIPPED,
+        isVipOrder: false,
+        failureReason: '',
+        statusHistory: [],
+      };
+      orderService.updateOrderStatus.mockResolvedValue(order);
+      orderService.findOrderById.mockResolvedValue(order);
+
+      // Act
+      const response = await controller.updateStatus(
+        orderId,
+        { status: OrderStatus.SHIPPED, reason: 'Handed over to carrier' },
+        admin,
+      );
+
+      // Assert
+      expect(orderService.updateOrderStatus).toHaveBeenCalledWith(
+        orderId,
+        OrderStatus.SHIPPED,
+        '507f1f77bcf86cd799439099',
+        'Handed over to carrier',
+      );
+      expect(response.status).toBe(OrderStatus.SHIPPED);
+      expect(response._id).toBe(orderId);
+    });
+  });
+
+  describe('searchOrders', () => {
+    it('should return the matching page with its cursor', async () => {
+      // Arrange
+      orderService.searchOrders.mockResolvedValue({
+        orders: [order],
+        nextCursor: 'next-page',
+      });
+      const query = { email: 'customer@example.com', isVip: true };
+
+      // Act
+      const response = await controller.searchOrders(query);
+
+      // Assert
+      expect(orderService.searchOrders).toHaveBeenCalledWith(query);
+      expect(response.items.map(({ _id }) => _id)).toEqual([orderId]);
+      expect(response.nextCursor).toBe('next-page');
+    });
+  });
+
+  describe('exportOrders', () => {
+    it('should return the CSV and flag truncated exports', async () => {
+      // Arrange
+      orderService.exportOrdersCsv.mockResolvedValue({
+        csv: 'orderId\r\n',
+        rowCount: 10000,
+        truncated: true,
+      });
+      const response = { setHeader: jest.fn() };
+
+      // Act
+      const csv = await controller.exportOrders(
+        { status: [OrderStatus.FAILED] },
+        admin,
+        response as any,
+      );
+
+      // Assert
+      expect(csv).toBe('orderId\r\n');
+      expect(response.setHeader).toHaveBeenCalledWith(
+        'X-Export-Truncated',
+        'true',
+      );
+    });
+  });
+
+  describe('getOrder', () => {
+    it('should return the order together with its job metadata', async () => {
+      // Arrange
+      const job = {
+        jobId: orderId,
+        state: 'failed',
+        attemptsMade: 5,
+        maxAttempts: 5,
+        priority: 1,
+        lastError: 'Payment gateway unreachable',
+        stacktrace: [],
+        queuedAt: new Date(),
+        processedAt: null,
+        finishedAt: null,
+      };
+      orderService.findOrderById.mockResolvedValue(order);
+      orderService.getOrderJob.mockResolvedValue(job);
+
+      // Act
+      const response = await controller.getOrder(orderId);
+
+      // Assert
+      expect(response._id).toBe(orderId);
+      expect(response.failureReason).toBe('Payment gateway unreachable');
+      expect(response.job).toBe(job);
+    });
+  });
+
+  describe('getWaitTimeStats', () => {
+    it('should cover the last 24 hours by default', async () => {
+      // Arrange
+      const now = Date.now();
+      orderPriorityService.getWaitTimeStats.mockResolvedValue([]);
+
+      // Act
+      await controller.getWaitTimeStats({});
+
+      // Assert
+      const [since] = orderPriorityService.getWaitTimeStats.mock.calls[0];
+      expect(now - since.getTime()).toBeGreaterThanOrEqual(
+        24 * 60 * 60 * 1000 - 1000,
+      );
+      expect(now - since.getTime()).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+    });
+
+    it('should start the window at the given date', async () => {
+      // Arrange
+      orderPriorityService.getWaitTimeStats.mockResolvedValue([]);
+
+      // Act
+      await controller.getWaitTimeStats({ from: '2024-01-15T00:00:00.000Z' });
+
+      // Assert
+      expect(orderPriorityService.getWaitTimeStats).toHaveBeenCalledWith(
+        new Date('2024-01-15T00:00:00.000Z'),
+      );
+    });
+  });
+
+  describe('listStockRollbackFailures', () => {
+    it('should list recent failed rollbacks', async () => {
+      // Arrange
+      const createdAt = new Date('2024-01-15T10:30:00.000Z');
+      stockRollbackFailureService.findRecent.mockResolvedValue([
+        {
+          _id: new Types.ObjectId('507f1f77bcf86cd799439020'),
+          orderId: new Types.ObjectId(orderId),
+          stockId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+          quantity: 2,
+          error: 'Max retries exceeded due to version conflicts',
+          source: 'system:order-processor',
+          status: StockCompensationStatus.OUTSTANDING,
+          attempts: 3,
+          compensatedAt: null,
+          reportedAt: null,
+          createdAt,
+        },
+      ]);
+
+      // Act
+      const result = await controller.listStockRollbackFailures();
+
+      // Assert
+      expect(result).toEqual([
+        {
+          _id: '507f1f77bcf86cd799439020',
+          orderId,
+          stockId: '507f1f77bcf86cd799439013',
+          quantity: 2,
+          error: 'Max retries exceeded due to version conflicts',
+          source: 'system:order-processor',
+          status: StockCompensationStatus.OUTSTANDING,
+          attempts: 3,
+          compensatedAt: null,
+          reportedAt: null,
+          createdAt,
+        },
+      ]);
+    });
+  });
+
+  describe('getStockCompensationDebt', () => {
+    it('should return the outstanding units per stock', async () => {
+      // Arrange
+      const debt = {
+        stockId: '507f1f77bcf86cd799439013',
+        units: 5,
+        failures: 2,
+        exhausted: 1,
+        oldestFailureAt: new Date('2024-01-15T10:30:00.000Z'),
+      };
+      stockRollbackFailureService.getDebt.mockResolvedValue([debt]);
+
+      // Act
+      const result = await controller.getStockCompensationDebt();
+
+      // Assert
+      expect(result).toEqual([debt]);
+    });
+  });
+});
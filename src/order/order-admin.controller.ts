@@ -0,0 +1,318 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Res,
+  Header,
+  UseGuards,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { OrderService } from './order.service';
+import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import {
+  OrderListResponseDto,
+  OrderResponseDto,
+  toOrderResponseDto,
+} from './dto/order-response.dto';
+import {
+  AdminOrderExportQueryDto,
+  AdminOrderQueryDto,
+} from './dto/admin-order-query.dto';
+import { AdminOrderResponseDto } from './dto/admin-order-response.dto';
+import {
+  StockCompensationDebtDto,
+  StockRollbackFailureResponseDto,
+  toStockCompensationDebtDto,
+  toStockRollbackFailureResponseDto,
+} from './dto/stock-rollback-failure-response.dto';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import {
+  TierWaitTimeStatsDto,
+  WaitTimeStatsQueryDto,
+} from './dto/wait-time-stats.dto';
+import { OrderPriorityService } from './order-priority.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { CurrentUser } from '../auth/decorators/user.decorator';
+import { User } from '../users/entities/user.entity';
+import type { Response } from 'express';
+
+@ApiTags('admin-orders')
+@Controller('admin/orders')
+@UseGuards(JwtAuthGuard, AdminGuard)
+@ApiBearerAuth()
+export class OrderAdminController {
+  private readonly logger = new Logger(OrderAdminController.name);
+
+  constructor(
+    private readonly orderService: OrderService,
+    private readonly stockRollbackFailureService: StockRollbackFailureService,
+    private readonly orderPriorityService: OrderPriorityService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Search orders of all users',
+    description:
+      'Filters by customer email, status, product, VIP flag and creation date. Paginated like GET /orders: pass the returned nextCursor to get the next page. Requires an administrator.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Matching orders, most recent first',
+    type: OrderListResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filter or cursor',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Administrator access required',
+  })
+  async searchOrders(
+    @Query() query: AdminOrderQueryDto,
+  ): Promise<OrderListResponseDto> {
+    const { orders, nextCursor } = await this.orderService.searchOrders(query);
+
+    return {
+      items: orders.map((order) => toOrderResponseDto(order)),
+      nextCursor,
+    };
+  }
+
+  @Get('export')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="orders.csv"')
+  @ApiOperation({
+    summary: 'Export orders as CSV',
+    description:
+      'Exports all orders matching the search filters, up to 10,000 rows. X-Export-Truncated is "true" when more orders matched. Requires an administrator.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'CSV file with one row per order',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filter',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Administrator access required',
+  })
+  async exportOrders(
+    @Query() query: AdminOrderExportQueryDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<string> {
+    const adminId = (user as any)._id.toString();
+
+    const { csv, rowCount, truncated } =
+      await this.orderService.exportOrdersCsv(query);
+
+    this.logger.log(
+      `Admin order export - AdminId: ${adminId}, Rows: ${rowCount}, Truncated: ${truncated}`,
+    );
+
+    response.setHeader('X-Export-Truncated', String(truncated));
+    return csv;
+  }
+
+  @Get('stock-rollback-failures')
+  @ApiOperation({
+    summary: 'List failed stock rollbacks',
+    description:
+      'The 100 most recent cases where stock taken by an order could not be given back after a rollback or cancellation, with the progress of the compensation queue that retries giving the units back. Requires an administrator.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Failed rollbacks, most recent first',
+    type: [StockRollbackFailureResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Administrator access required',
+  })
+  async listStockRollbackFailures(): Promise<
+    StockRollbackFailureResponseDto[]
+  > {
+    const failures = await this.stockRollbackFailureService.findRecent();
+    return failures.map(toStockRollbackFailureResponseDto);
+  }
+
+  @Get('stock-compensation-debt')
+  @ApiOperation({
+    summary: 'Outstanding stock compensation per stock item',
+    description:
+      'Units each stock is still owed by failed rollbacks, including ones the compensation queue gave up on. Requires an administrator.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One entry per stock with missing units, largest debt first',
+    type: [StockCompensationDebtDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Administrator access required',
+  })
+  async getStockCompensationDebt(): Promise<StockCompensationDebtDto[]> {
+    const debt = await this.stockRollbackFailureService.getDebt();
+    return debt.map(toStockCompensationDebtDto);
+  }
+
+  @Get('wait-times')
+  @ApiOperation({
+    summary: 'Queue wait times per customer tier',
+    description:
+      'For each tier: its queue priority, how many orders are waiting now and the oldest wait, and how long orders created since `from` waited before processing started. Requires an administrator.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One entry per tier, highest tier first',
+    type: [TierWaitTimeStatsDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid date',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Administrator access required',
+  })
+  async getWaitTimeStats(
+    @Query() query: WaitTimeStatsQueryDto,
+  ): Promise<TierWaitTimeStatsDto[]> {
+    const since = query.from
+      ? new Date(query.from)
+      : new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    return this.orderPriorityService.getWaitTimeStats(since);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get any order with its queue job',
+    description:
+      'Returns the order of any user together with its BullMQ job: state, attempts and the last error. Requires an administrator.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order with job metadata',
+    type: AdminOrderResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Administrator access required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async getOrder(@Param('id') id: string): Promise<AdminOrderResponseDto> {
+    const order = await this.orderService.findOrderById(id);
+    const job = await this.orderService.getOrderJob(id);
+
+    return { ...toOrderResponseDto(order), job };
+  }
+
+  @Patch(':id/status')
+  @ApiOperation({
+    summary: 'Change an order status',
+    description:
+      'Moves an order to a new status if the lifecycle allows it (e.g. CONFIRMED -> SHIPPED -> DELIVERED). The change is recorded in the status history. Cancelling, failing or refunding an order releases its queued job or reserved stock. Requires an administrator.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiBody({ type: UpdateOrderStatusDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Order status updated',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid request data',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Administrator access required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Transition not allowed from the current status',
+  })
+  async updateStatus(
+    @Param('id') id: string,
+    @Body() updateOrderStatusDto: UpdateOrderStatusDto,
+    @CurrentUser() user: User,
+  ): Promise<OrderResponseDto> {
+    const adminId = (user as any)._id.toString();
+
+    this.logger.log(
+      `Admin status change - OrderId: ${id}, Status: ${updateOrderStatusDto.status}, AdminId: ${adminId}`,
+    );
+
+    const updatedOrder = await this.orderService.updateOrderStatus(
+      id,
+      updateOrderStatusDto.status,
+      adminId,
+      updateOrderStatusDto.reason,
+    );
+    const populatedOrder = await this.orderService.findOrderById(
+      updatedOrder._id.toString(),
+    );
+
+    return toOrderResponseDto(populatedOrder);
+  }
+}
@@ -0,0 +1,52 @@
+import { OrderDocument } from './entities/order.entity';
+
+const ORDER_CSV_COLUMNS = [
+  'orderId',
+  'userId',
+  'status',
+  'isVipOrder',
+  'totalAmount',
+  'items',
+  'failureReason',
+  'createdAt',
+  'updatedAt',
+];
+
+/**
+ * Quotes a CSV field when needed and defuses values a spreadsheet would run as a formula
+ */
+function toCsvField(value: unknown): string {
+  let field = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Renders orders (with populated products) as CSV, one row per order
+ */
+export function toOrderCsv(orders: OrderDocument[]): string {
+  const rows = orders.map((order) =>
+    [
+      order._id.toString(),
+      order.userId.toString(),
+      order.status,
+      order.isVipOrder,
+      order.totalAmount,
+      order.lineItems
+        .map((lineItem) => {
+          const product = lineItem.productId as any;
+          return `${product?.name ?? (product?._id ?? product).toString()} x${lineItem.quantity}`;
+        })
+        .join('; '),
+      order.failureReason,
+      order.createdAt?.toISOString(),
+      order.updatedAt?.toISOString(),
+    ]
+      .map(toCsvField)
+      .join(','),
+  );
+
+  return [ORDER_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { OrderDeadLetterController } from './order-dead-letter.controller';
+import {
+  OrderDeadLetter,
+  OrderDeadLetterService,
+} from './order-dead-letter.service';
+import { OrderService } from './order.service';
+import { OrderStatus } from './entities/order.entity';
+import { User } from '../users/entities/user.entity';
+
+describe('OrderDeadLetterController', () => {
+  let controller: OrderDeadLetterController;
+  let orderDeadLetterService: {
+    findDeadLetters: jest.Mock;
+    findDeadLetter: jest.Mock;
+    replay: jest.Mock;
+    replayMany: jest.Mock;
+    purge: jest.Mock;
+    purgeMany: jest.Mock;
+  };
+  let orderService: { findOrderById: jest.Mock };
+
+  const orderId = '507f1f77bcf86cd799439014';
+  const admin = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439099'),
+    isAdmin: true,
+  } as unknown as User;
+
+  const deadLetter: OrderDeadLetter = {
+    orderId,
+    jobName: 'process-order',
+    payload: {
+      orderId,
+      userId: '507f1f77bcf86cd799439011',
+      lineItems: [],
+      isVipOrder: false,
+    },
+    jobOptions: { attempts: 5 },
+    failedStep: 'reserve-stock',
+    failedReason: 'Insufficient stock',
+    attemptsMade: 5,
+    stacktrace: ['Error: Insufficient stock'],
+    queuedAt: null,
+    failedAt: 1705314660000,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OrderDeadLetterController],
+      providers: [
+        {
+          provide: OrderDeadLetterService,
+          useValue: {
+            findDeadLetters: jest.fn(),
+            findDeadLetter: jest.fn(),
+            replay: jest.fn(),
+            replayMany: jest.fn(),
+            purge: jest.fn(),
+            purgeMany: jest.fn(),
+          },
+        },
+        {
+          provide: OrderService,
+          useValue: {
+            findOrderById: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<OrderDeadLetterController>(
+      OrderDeadLetterController,
+    );
+    orderDeadLetterService = module.get(OrderDeadLetterService);
+    orderService = module.get(OrderService);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('listDeadLetters', () => {
+    it('should default the page and return summaries', async () => {
+      // Arrange
+      orderDeadLetterService.findDeadLetters.mockResolvedValue({
+        deadLetters: [deadLetter],
+        total: 1,
+      });
+
+      // Act
+      const result = await controller.listDeadLetters({});
+
+      // Assert
+      expect(orderDeadLetterService.findDeadLetters).toHaveBeenCalledWith(
+        0,
+        20,
+      );
+      expect(result).toEqual({
+        items: [
+          {
+            orderId,
+            failedStep: 'reserve-stock',
+            failedReason: 'Insufficient stock',
+            attemptsMade: 5,
+            failedAt: new Date(1705314660000),
+          },
+        ],
+        total: 1,
+      });
+    });
+  });
+
+  describe('getDeadLetter', () => {
+    it('should return the payload and attempt history', async () => {
+      // Arrange
+      orderDeadLetterService.findDeadLetter.mockResolvedValue(deadLetter);
+
+      // Act
+      const result = await controller.getDeadLetter(orderId);
+
+      // Assert
+      expect(result.payload).toEqual(deadLetter.payload);
+      expect(result.stacktrace).toEqual(['Error: Insufficient stock']);
+      expect(result.queuedAt).toBeNull();
+    });
+  });
+
+  describe('replayDeadLetter', () => {
+    it('should replay on behalf of the admin and return the populated order', async () => {
+      // Arrange
+      const order = {
+        _id: new Types.ObjectId(orderId),
+        userId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        lineItems: [],
+        totalAmount: 10,
+        status: OrderStatus.PENDING,
+        isVipOrder: false,
+        statusHistory: [],
+      };
+      orderDeadLetterService.replay.mockResolvedValue(order);
+      orderService.findOrderById.mockResolvedValue(order);
+
+      // Act
+      const result = await controller.replayDeadLetter(orderId, admin);
+
+      // Assert
+      expect(orderDeadLetterService.replay).toHaveBeenCalledWith(
+        orderId,
+        '507f1f77bcf86cd799439099',
+      );
+      expect(orderService.findOrderById).toHaveBeenCalledWith(orderId);
+      expect(result.status).toBe(OrderStatus.PENDING);
+    });
+  });
+
+  describe('bulk actions', () => {
+    it('should replay the listed dead letters', async () => {
+      // Arrange
+      const result = { replayed: [orderId], failed: [] };
+      orderDeadLetterService.replayMany.mockResolvedValue(result);
+
+      // Act
+      const response = await controller.replayDeadLetters(
+        { orderIds: [orderId] },
+        admin,
+      );
+
+      // Assert
+      expect(orderDeadLetterService.replayMany).toHaveBeenCalledWith(
+        [orderId],
+        '507f1f77bcf86cd799439099',
+      );
+      expect(response).toBe(result);
+    });
+
+    it('should purge all dead letters when no IDs are given', async () => {
+      // Arrange
+      orderDeadLetterService.purgeMany.mockResolvedValue(3);
+
+      // Act
+      const response = await controller.purgeDeadLetters({}, admin);
+
+      // Assert
+      expect(orderDeadLetterService.purgeMany).toHaveBeenCalledWith(undefined);
+      expect(response).toEqual({ purged: 3 });
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { OrderDeadLetterService } from './order-dead-letter.service';
+import { OrderService } from './order.service';
+import {
+  DEFAULT_DEAD_LETTER_PAGE_SIZE,
+  DeadLetterQueryDto,
+} from './dto/dead-letter-query.dto';
+import { BulkDeadLetterDto } from './dto/bulk-dead-letter.dto';
+import {
+  DeadLetterListResponseDto,
+  DeadLetterPurgeResponseDto,
+  DeadLetterReplayResponseDto,
+  DeadLetterResponseDto,
+  toDeadLetterResponseDto,
+  toDeadLetterSummaryDto,
+} from './dto/dead-letter-response.dto';
+import { OrderResponseDto, toOrderResponseDto } from './dto/order-response.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { CurrentUser } from '../auth/decorators/user.decorator';
+import { User } from '../users/entities/user.entity';
+
+@ApiTags('admin-dead-letters')
+@Controller('admin/dead-letters')
+@UseGuards(JwtAuthGuard, AdminGuard)
+@ApiBearerAuth()
+@ApiResponse({
+  status: 401,
+  description: 'Authentication required',
+})
+@ApiResponse({
+  status: 403,
+  description: 'Administrator access required',
+})
+export class OrderDeadLetterController {
+  private readonly logger = new Logger(OrderDeadLetterController.name);
+
+  constructor(
+    private readonly orderDeadLetterService: OrderDeadLetterService,
+    private readonly orderService: OrderService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List dead letters',
+    description:
+      'Order jobs that failed permanently, kept with their payload and errors until replayed or purged. Requires an administrator.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One page of dead letters',
+    type: DeadLetterListResponseDto,
+  })
+  async listDeadLetters(
+    @Query() query: DeadLetterQueryDto,
+  ): Promise<DeadLetterListResponseDto> {
+    const { deadLetters, total } =
+      await this.orderDeadLetterService.findDeadLetters(
+        query.offset ?? 0,
+        query.limit ?? DEFAULT_DEAD_LETTER_PAGE_SIZE,
+      );
+
+    return { items: deadLetters.map(toDeadLetterSummaryDto), total };
+  }
+
+  @Post('replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay dead letters in bulk',
+    description:
+      'Replays the listed dead letters, or all of them (up to 1000) when no order IDs are given. Orders that cannot be replayed are reported and left in the queue. Requires an administrator.',
+  })
+  @ApiBody({ type: BulkDeadLetterDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Replayed and failed orders',
+    type: DeadLetterReplayResponseDto,
+  })
+  async replayDeadLetters(
+    @Body() bulkDeadLetterDto: BulkDeadLetterDto,
+    @CurrentUser() user: User,
+  ): Promise<DeadLetterReplayResponseDto> {
+    const adminId = (user as any)._id.toString();
+
+    const result = await this.orderDeadLetterService.replayMany(
+      bulkDeadLetterDto.orderIds,
+      adminId,
+    );
+
+    this.logger.log(
+      `Admin bulk dead-letter replay - AdminId: ${adminId}, Replayed: ${result.replayed.length}, Failed: ${result.failed.length}`,
+    );
+    return result;
+  }
+
+  @Post('purge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Purge dead letters in bulk',
+    description:
+      'Removes the listed dead letters, or all of them (up to 1000) when no order IDs are given. The orders stay FAILED. Requires an administrator.',
+  })
+  @ApiBody({ type: BulkDeadLetterDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of dead letters removed',
+    type: DeadLetterPurgeResponseDto,
+  })
+  async purgeDeadLetters(
+    @Body() bulkDeadLetterDto: BulkDeadLetterDto,
+    @CurrentUser() user: User,
+  ): Promise<DeadLetterPurgeResponseDto> {
+    const adminId = (user as any)._id.toString();
+
+    const purged = await this.orderDeadLetterService.purgeMany(
+      bulkDeadLetterDto.orderIds,
+    );
+
+    this.logger.log(
+      `Admin bulk dead-letter purge - AdminId: ${adminId}, Purged: ${purged}`,
+    );
+    return { purged };
+  }
+
+  @Get(':orderId')
+  @ApiOperation({
+    summary: 'Inspect a dead letter',
+    description:
+      'Returns the payload, job options, last error and the stack trace of every attempt. Requires an administrator.',
+  })
+  @ApiParam({
+    name: 'orderId',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Dead letter details',
+    type: DeadLetterResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No dead letter for this order',
+  })
+  async getDeadLetter(
+    @Param('orderId') orderId: string,
+  ): Promise<DeadLetterResponseDto> {
+    const deadLetter =
+      await this.orderDeadLetterService.findDeadLetter(orderId);
+    return toDeadLetterResponseDto(deadLetter);
+  }
+
+  @Post(':orderId/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay a dead letter',
+    description:
+      'Resets the FAILED order to PENDING, queues its job again with the original payload and removes the dead letter. Requires an administrator.',
+  })
+  @ApiParam({
+    name: 'orderId',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order queued again',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No dead letter for this order, or order not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Order is no longer FAILED',
+  })
+  async replayDeadLetter(
+    @Param('orderId') orderId: string,
+    @CurrentUser() user: User,
+  ): Promise<OrderResponseDto> {
+    const adminId = (user as any)._id.toString();
+
+    this.logger.log(
+      `Admin dead-letter replay - OrderId: ${orderId}, AdminId: ${adminId}`,
+    );
+
+    const order = await this.orderDeadLetterService.replay(orderId, adminId);
+    const populatedOrder = await this.orderService.findOrderById(
+      order._id.toString(),
+    );
+
+    return toOrderResponseDto(populatedOrder);
+  }
+
+  @Delete(':orderId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Purge a dead letter',
+    description:
+      'Removes the dead letter without replaying it. The order stays FAILED. Requires an administrator.',
+  })
+  @ApiParam({
+    name: 'orderId',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Dead letter removed',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No dead letter for this order',
+  })
+  async purgeDeadLetter(
+    @Param('orderId') orderId: string,
+    @CurrentUser() user: User,
+  ): Promise<void> {
+    const adminId = (user as any)._id.toString();
+
+    await this.orderDeadLetterService.purge(orderId);
+
+    this.logger.log(
+      `Admin dead-letter purge - OrderId: ${orderId}, AdminId: ${adminId}`,
+    );
+  }
+}
@@ -0,0 +1,446 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { getFlowProducerToken, getQueueToken } from '@nestjs/bullmq';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  OrderDeadLetter,
+  OrderDeadLetterService,
+} from './order-dead-letter.service';
+import {
+  ORDER_DEAD_LETTER_QUEUE_NAME,
+  ORDER_QUEUE_NAME,
+} from './order.constants';
+import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
+import { OrderStatusService } from './order-status.service';
+import { InvalidStatusTransitionError } from './order.errors';
+import { OrderFlowStep } from './order-flow';
+
+describe('OrderDeadLetterService', () => {
+  let service: OrderDeadLetterService;
+  let orderQueue: { getJob: jest.Mock };
+  let orderFlowProducer: { add: jest.Mock };
+  let deadLetterQueue: {
+    add: jest.Mock;
+    getJob: jest.Mock;
+    getWaiting: jest.Mock;
+    getWaitingCount: jest.Mock;
+  };
+  let orderModel: { findById: jest.Mock };
+  let orderStatusService: { transition: jest.Mock };
+
+  const orderId = '507f1f77bcf86cd799439014';
+  const payload = {
+    orderId,
+    userId: '507f1f77bcf86cd799439011',
+    lineItems: [],
+    isVipOrder: false,
+  };
+
+  const createDeadLetter = (id = orderId): OrderDeadLetter => ({
+    orderId: id,
+    jobName: 'process-order',
+    payload: { ...payload, orderId: id },
+    jobOptions: { attempts: 5, priority: 10 },
+    failedStep: OrderFlowStep.RESERVE_STOCK,
+    failedReason: 'Insufficient stock',
+    attemptsMade: 5,
+    stacktrace: ['Error: Insufficient stock'],
+    queuedAt: 1705314600000,
+    failedAt: 1705314660000,
+  });
+
+  const createDeadLetterJob = (id = orderId) => ({
+    id,
+    data: createDeadLetter(id),
+    remove: jest.fn().mockResolvedValue(undefined),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderDeadLetterService,
+        {
+          provide: getQueueToken(ORDER_QUEUE_NAME),
+          useValue: { getJob: jest.fn() },
+        },
+        {
+          provide: getFlowProducerToken(ORDER_QUEUE_NAME),
+          useValue: { add: jest.fn() },
+        },
+        {
+          provide: getQueueToken(ORDER_DEAD_LETTER_QUEUE_NAME),
+          useValue: {
+            add: jest.fn(),
+            getJob: jest.fn(),
+            getWaiting: jest.fn(),
+            getWaitingCount: jest.fn(),
+          },
+        },
+        {
+          provide: getModelToken(Order.name),
+          useValue: { findById: jest.fn() },
+        },
+        {
+          provide: OrderStatusService,
+          useValue: { transition: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderDeadLetterService>(OrderDeadLetterService);
+    orderQueue = module.get(getQueueToken(ORDER_QUEUE_NAME));
+    orderFlowProducer = module.get(getFlowProducerToken(ORDER_QUEUE_NAME));
+    deadLetterQueue = module.get(getQueueToken(ORDER_DEAD_LETTER_QUEUE_NAME));
+    orderModel = module.get(getModelToken(Order.name));
+    orderStatusService = module.get(OrderStatusService);
+  });
+
+  describe('deadLetter', () => {
+    it('should copy the failed job with the history of the failed step and remove the flow', async () => {
+      // Arrange
+      const failedJob = {
+        name: 'process-order',
+        data: payload,
+        opts: { jobId: orderId, attempts: 5 },
+        failedReason: `child bull:order-processing:${orderId}-charge-payment failed`,
+        attemptsMade: 0,
+        stacktrace: [],
+        timestamp: 1705314600000,
+        finishedOn: 1705314670000,
+        remove: jest.fn().mockResolvedValue(undefined),
+      };
+      const failedStep = {
+        name: OrderFlowStep.CHARGE_PAYMENT,
+        failedReason: 'Card declined',
+        attemptsMade: 1,
+        stacktrace: ['Error: Card declined'],
+        finishedOn: 1705314660000,
+        isFailed: jest.fn().mockResolvedValue(true),
+        remove: jest.fn().mockResolvedValue(undefined),
+      };
+      const completedStep = {
+        isFailed: jest.fn().mockResolvedValue(false),
+        remove: jest.fn().mockResolvedValue(undefined),
+      };
+      orderQueue.getJob.mockImplementation((id: string) =>
+        Promise.resolve(
+          id === orderId
+            ? failedJob
+            : id === `${orderId}-${OrderFlowStep.CHARGE_PAYMENT}`
+              ? failedStep
+              : id === `${orderId}-${OrderFlowStep.RESERVE_STOCK}`
+                ? completedStep
+                : undefined,
+        ),
+      );
+
+      // Act
+      const deadLettered = await service.deadLetter(orderId, 'ignored');
+
+      // Assert
+      expect(deadLettered).toBe(true);
+      expect(deadLetterQueue.add).toHaveBeenCalledWith(
+        'process-order',
+        {
+          orderId,
+          jobName: 'process-order',
+          payload,
+          jobOptions: { jobId: orderId, attempts: 5 },
+          failedStep: OrderFlowStep.CHARGE_PAYMENT,
+          failedReason: 'Card declined',
+          attemptsMade: 1,
+          stacktrace: ['Error: Card declined'],
+          queuedAt: 1705314600000,
+          failedAt: 1705314660000,
+        },
+        { jobId: orderId },
+      );
+      expect(failedJob.remove).toHaveBeenCalled();
+      expect(failedStep.remove).toHaveBeenCalled();
+      expect(completedStep.remove).toHaveBeenCalled();
+    });
+
+    it("should fall back to the job's own history when no step failed", async () => {
+      // Arrange
+      const failedJob = {
+        name: 'process-order',
+        data: payload,
+        opts: { jobId: orderId, attempts: 5 },
+        failedReason: 'job stalled more than allowable limit',
+        attemptsMade: 1,
+        stacktrace: [],
+        timestamp: 1705314600000,
+        finishedOn: 1705314660000,
+        remove: jest.fn().mockResolvedValue(undefined),
+      };
+      orderQueue.getJob.mockImplementation((id: string) =>
+        Promise.resolve(id === orderId ? failedJob : undefined),
+      );
+
+      // Act
+      await service.deadLetter(orderId, 'ignored');
+
+      // Assert
+      expect(deadLetterQueue.add).toHaveBeenCalledWith(
+        'process-order',
+        expect.objectContaining({
+          failedStep: null,
+          failedReason: 'job stalled more than allowable limit',
+          attemptsMade: 1,
+        }),
+        { jobId: orderId },
+      );
+    });
+
+    it('should fall back to the outbox payload when the job is gone', async () => {
+      // Arrange
+      orderQueue.getJob.mockResolvedValue(undefined);
+      orderModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          _id: new Types.ObjectId(orderId),
+          outbox: {
+            jobName: 'process-order',
+            payload,
+            jobOptions: { attempts: 5 },
+          },
+        }),
+      });
+
+      // Act
+      const deadLettered = await service.deadLetter(orderId, 'Timed out');
+
+      // Assert
+      expect(deadLettered).toBe(true);
+      expect(deadLetterQueue.add).toHaveBeenCalledWith(
+        'process-order',
+        expect.objectContaining({
+          payload,
+          failedStep: null,
+          failedReason: 'Timed out',
+          attemptsMade: 0,
+          queuedAt: null,
+        }),
+        { jobId: orderId },
+      );
+    });
+
+    it('should skip when neither the job nor an outbox entry exists', async () => {
+      // Arrange
+      orderQueue.getJob.mockResolvedValue(undefined);
+      orderModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ _id: orderId }),
+      });
+
+      // Act
+      const deadLettered = await service.deadLetter(orderId, 'Timed out');
+
+      // Assert
+      expect(deadLettered).toBe(false);
+      expect(deadLetterQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should ignore jobs other than process-order', async () => {
+      // Arrange
+      orderQueue.getJob.mockResolvedValue({ name: 'other-job' });
+
+      // Act
+      const deadLettered = await service.deadLetter(orderId, 'Failed');
+
+      // Assert
+      expect(deadLettered).toBe(false);
+      expect(deadLetterQueue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findDeadLetters', () => {
+    it('should return one page of dead letters with the total', async () => {
+      // Arrange
+      deadLetterQueue.getWaiting.mockResolvedValue([createDeadLetterJob()]);
+      deadLetterQueue.getWaitingCount.mockResolvedValue(21);
+
+      // Act
+      const result = await service.findDeadLetters(20, 10);
+
+      // Assert
+      expect(deadLetterQueue.getWaiting).toHaveBeenCalledWith(20, 29);
+      expect(result).toEqual({
+        deadLetters: [createDeadLetter()],
+        total: 21,
+      });
+    });
+  });
+
+  describe('findDeadLetter', () => {
+    it('should throw NotFoundException when there is no dead letter', async () => {
+      // Arrange
+      deadLetterQueue.getJob.mockResolvedValue(undefined);
+
+      // Act & Assert
+      await expect(service.findDeadLetter(orderId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('replay', () => {
+    it('should reset the order to PENDING, queue the flow again and drop the dead letter', async () => {
+      // Arrange
+      const deadLetterJob = createDeadLetterJob();
+      const staleJob = { remove: jest.fn().mockResolvedValue(undefined) };
+      const order = { _id: orderId, status: OrderStatus.PENDING };
+      deadLetterQueue.getJob.mockResolvedValue(deadLetterJob);
+      orderQueue.getJob.mockResolvedValue(staleJob);
+      orderStatusService.transition.mockResolvedValue({
+        order,
+        previousStatus: OrderStatus.FAILED,
+      });
+
+      // Act
+      const result = await service.replay(orderId, 'admin-1');
+
+      // Assert
+      expect(result).toBe(order);
+      expect(orderStatusService.transition).toHaveBeenCalledWith(
+        orderId,
+        OrderStatus.PENDING,
+        {
+          changedBy: 'admin-1',
+          reason: 'Replayed from the dead-letter queue',
+          failureReason: '',
+          allowedFrom: [OrderStatus.FAILED],
+        },
+      );
+      expect(staleJob.remove).toHaveBeenCalled();
+      expect(orderFlowProducer.add).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'process-order',
+          data: deadLetterJob.data.payload,
+          opts: { attempts: 5, priority: 10, jobId: orderId },
+        }),
+      );
+      expect(deadLetterJob.remove).toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the order is no longer FAILED', async () => {
+      // Arrange
+      const deadLetterJob = createDeadLetterJob();
+      deadLetterQueue.getJob.mockResolvedValue(deadLetterJob);
+      orderStatusService.transition.mockRejectedValue(
+        new InvalidStatusTransitionError(
+          OrderStatus.CANCELLED,
+          OrderStatus.PENDING,
+        ),
+      );
+
+      // Act & Assert
+      await expect(service.replay(orderId, 'admin-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(orderFlowProducer.add).not.toHaveBeenCalled();
+      expect(deadLetterJob.remove).not.toHaveBeenCalled();
+    });
+
+    it('should keep the dead letter when queuing fails', async () => {
+      // Arrange
+      const deadLetterJob = createDeadLetterJob();
+      deadLetterQueue.getJob.mockResolvedValue(deadLetterJob);
+      orderQueue.getJob.mockResolvedValue(undefined);
+      orderStatusService.transition.mockResolvedValue({
+        order: { _id: orderId } as unknown as OrderDocument,
+        previousStatus: OrderStatus.FAILED,
+      });
+      orderFlowProducer.add.mockRejectedValue(new Error('Redis unavailable'));
+
+      // Act & Assert
+      await expect(service.replay(orderId, 'admin-1')).rejects.toThrow(
+        'Redis unavailable',
+      );
+      expect(deadLetterJob.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replayMany', () => {
+    it('should replay every dead letter when no IDs are given and report failures', async () => {
+      // Arrange
+      const otherOrderId = '507f1f77bcf86cd799439015';
+      deadLetterQueue.getWaiting.mockResolvedValue([
+        createDeadLetterJob(),
+        createDeadLetterJob(otherOrderId),
+      ]);
+      deadLetterQueue.getJob.mockImplementation((id: string) =>
+        Promise.resolve(createDeadLetterJob(id)),
+      );
+      orderQueue.getJob.mockResolvedValue(undefined);
+      orderStatusService.transition
+        .mockResolvedValueOnce({
+          order: { _id: orderId },
+          previousStatus: OrderStatus.FAILED,
+        })
+        .mockRejectedValueOnce(
+          new InvalidStatusTransitionError(
+            OrderStatus.CANCELLED,
+            OrderStatus.PENDING,
+          ),
+        );
+
+      // Act
+      const result = await service.replayMany(undefined, 'admin-1');
+
+      // Assert
+      expect(deadLetterQueue.getWaiting).toHaveBeenCalledWith(0, 999);
+      expect(result).toEqual({
+        replayed: [orderId],
+        failed: [
+          {
+            orderId: otherOrderId,
+            error: 'Order with status CANCELLED cannot be replayed',
+          },
+        ],
+      });
+    });
+  });
+
+  describe('purge', () => {
+    it('should remove the dead letter', async () => {
+      // Arrange
+      const deadLetterJob = createDeadLetterJob();
+      deadLetterQueue.getJob.mockResolvedValue(deadLetterJob);
+
+      // Act
+      await service.purge(orderId);
+
+      // Assert
+      expect(deadLetterJob.remove).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when there is no dead letter', async () => {
+      // Arrange
+      deadLetterQueue.getJob.mockResolvedValue(undefined);
+
+      // Act & Assert
+      await expect(service.purge(orderId)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('purgeMany', () => {
+    it('should remove the listed dead letters and skip unknown ones', async () => {
+      // Arrange
+      const deadLetterJob = createDeadLetterJob();
+      deadLetterQueue.getJob
+        .mockResolvedValueOnce(deadLetterJob)
+        .mockResolvedValueOnce(undefined);
+
+      // Act
+      const purged = await service.purgeMany([
+        orderId,
+        '507f1f77bcf86cd799439015',
+      ]);
+
+      // Assert
+      expect(purged).toBe(1);
+      expect(deadLetterJob.remove).toHaveBeenCalled();
+      expect(deadLetterQueue.getWaiting).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectFlowProducer, InjectQueue } from '@nestjs/bullmq';
+import { InjectModel } from '@nestjs/mongoose';
+import { FlowProducer, Job, JobsOptions, Queue } from 'bullmq';
+import { Model } from 'mongoose';
+import {
+  ORDER_DEAD_LETTER_QUEUE_NAME,
+  ORDER_QUEUE_NAME,
+} from './order.constants';
+import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
+import { OrderPayload } from './order.service';
+import { OrderStatusService } from './order-status.service';
+import { InvalidStatusTransitionError } from './order.errors';
+import {
+  buildOrderFlow,
+  ORDER_FLOW_STEPS,
+  orderStepJobId,
+  PROCESS_ORDER_JOB,
+  removeOrderFlow,
+} from './order-flow';
+
+/**
+ * A permanently failed order job as kept in the dead-letter queue
+ */
+export interface OrderDeadLetter {
+  orderId: string;
+  jobName: string;
+  payload: OrderPayload;
+  jobOptions: JobsOptions;
+  // Pipeline step that failed; null for jobs queued before orders ran as flows
+  failedStep: string | null;
+  failedReason: string;
+  attemptsMade: number;
+  // Stack trace of every failed attempt, oldest first
+  stacktrace: string[];
+  queuedAt: number | null;
+  failedAt: number;
+}
+
+export interface DeadLetterPage {
+  deadLetters: OrderDeadLetter[];
+  total: number;
+}
+
+export interface DeadLetterReplayResult {
+  replayed: string[];
+  failed: { orderId: string; error: string }[];
+}
+
+@Injectable()
+export class OrderDeadLetterService {
+  private readonly logger = new Logger(OrderDeadLetterService.name);
+
+  // Upper bound for "replay/purge everything" so a single request stays bounded
+  private readonly MAX_BULK_SIZE = 1000;
+
+  constructor(
+    @InjectQueue(ORDER_QUEUE_NAME) private readonly orderQueue: Queue,
+    @InjectFlowProducer(ORDER_QUEUE_NAME)
+    private readonly orderFlowProducer: FlowProducer,
+    @InjectQueue(ORDER_DEAD_LETTER_QUEUE_NAME)
+    private readonly deadLetterQueue: Queue,
+    @InjectModel(Order.name) private readonly orderModel: Model<OrderDocument>,
+    private readonly orderStatusService: OrderStatusService,
+  ) {}
+
+  /**
+   * Moves a permanently failed order job into the dead-letter queue, with
+   * the error and attempts of the step that failed, and removes its flow
+   * from the order queue, which frees the job IDs for a replay.
+   * When BullMQ already trimmed the failed job, the payload is taken from the
+   * order's outbox entry. Returns false when there is nothing to keep.
+   */
+  async deadLetter(orderId: string, failedReason: string): Promise<boolean> {
+    const job: Job<OrderPayload> | undefined =
+      await this.orderQueue.getJob(orderId);
+    if (job && job.name !== PROCESS_ORDER_JOB) {
+      return false;
+    }
+
+    let deadLetter: OrderDeadLetter;
+    if (job) {
+      const failedStep = await this.findFailedStep(orderId);
+      const source = failedStep ?? job;
+      deadLetter = {
+        orderId,
+        jobName: job.name,
+        payload: job.data,
+        jobOptions: job.opts,
+        failedStep: failedStep?.name ?? null,
+        failedReason: source.failedReason || failedReason,
+        attemptsMade: source.attemptsMade,
+        stacktrace: source.stacktrace ?? [],
+        queuedAt: job.timestamp ?? null,
+        failedAt: source.finishedOn ?? Date.now(),
+      };
+    } else {
+      const order = await this.orderModel.findById(orderId).exec();
+      if (!order?.outbox) {
+        this.logger.error(
+          `Cannot dead-letter order ${orderId}: its job and payload are gone`,
+        );
+        return false;
+      }
+      deadLetter = {
+        orderId,
+        jobName: order.outbox.jobName,
+        payload: order.outbox.payload,
+        jobOptions: order.outbox.jobOptions,
+        failedStep: null,
+        failedReason,
+        attemptsMade: 0,
+        stacktrace: [],
+        queuedAt: null,
+        failedAt: Date.now(),
+      };
+    }
+
+    // Same job ID as the order - adding it twice (one listener per instance) is a no-op
+    await this.deadLetterQueue.add(deadLetter.jobName, deadLetter, {
+      jobId: orderId,
+    });
+    await removeOrderFlow(this.orderQueue, orderId).catch((error) =>
+      this.logger.warn(
+        `Could not remove failed job ${orderId} after dead-lettering it: ${error.message}`,
+      ),
+    );
+
+    this.logger.warn(`Order ${orderId} moved to the dead-letter queue`);
+    return true;
+  }
+
+  /**
+   * One page of dead letters, most recently failed first
+   */
+  async findDeadLetters(
+    offset: number,
+    limit: number,
+  ): Promise<DeadLetterPage> {
+    const [jobs, total] = await Promise.all([
+      this.deadLetterQueue.getWaiting(offset, offset + limit - 1),
+      this.deadLetterQueue.getWaitingCount(),
+    ]);
+
+    return {
+      deadLetters: jobs.map((job: Job<OrderDeadLetter>) => job.data),
+      total,
+    };
+  }
+
+  async findDeadLetter(orderId: string): Promise<OrderDeadLetter> {
+    return (await this.getDeadLetterJob(orderId)).data;
+  }
+
+  /**
+   * Resets a FAILED order to PENDING and queues its job again with the
+   * original payload and options, then drops the dead letter. Should queuing
+   * fail after the reset, the reconciliation run requeues the PENDING order.
+   */
+  async replay(orderId: string, changedBy: string): Promise<OrderDocument> {
+    const deadLetterJob = await this.getDeadLetterJob(orderId);
+    const { jobName, payload, jobOptions } = deadLetterJob.data;
+
+    let order: OrderDocument;
+    try {
+      ({ order } = await this.orderStatusService.transition(
+        orderId,
+        OrderStatus.PENDING,
+        {
+          changedBy,
+          reason: 'Replayed from the dead-letter queue',
+          failureReason: '',
+          allowedFrom: [OrderStatus.FAILED],
+        },
+      ));
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        throw new ConflictException(
+          `Order with status ${error.from} cannot be replayed`,
+        );
+      }
+      throw error;
+    }
+
+    // Failed jobs left behind would keep the job IDs taken
+    await removeOrderFlow(this.orderQueue, orderId);
+
+    await this.orderFlowProducer.add(
+      buildOrderFlow(jobName, payload, { ...jobOptions, jobId: orderId }),
+    );
+    await deadLetterJob.remove();
+
+    this.logger.log(
+      `Order ${orderId} replayed from the dead-letter queue by ${changedBy}`,
+    );
+    return order;
+  }
+
+  /**
+   * Replays the given dead letters, or all of them when no IDs are given.
+   * Each order is replayed on its own, so one failure does not stop the rest.
+   */
+  async replayMany(
+    orderIds: string[] | undefined,
+    changedBy: string,
+  ): Promise<DeadLetterReplayResult> {
+    const result: DeadLetterReplayResult = { replayed: [], failed: [] };
+
+    for (const orderId of orderIds ?? (await this.findAllOrderIds())) {
+      try {
+        await this.replay(orderId, changedBy);
+        result.replayed.push(orderId);
+      } catch (error) {
+        result.failed.push({ orderId, error: error.message });
+      }
+    }
+
+    return result;
+  }
+
+  async purge(orderId: string): Promise<void> {
+    const deadLetterJob = await this.getDeadLetterJob(orderId);
+    await deadLetterJob.remove();
+    this.logger.log(`Dead letter of order ${orderId} purged`);
+  }
+
+  /**
+   * Purges the given dead letters, or all of them when no IDs are given.
+   * Unknown IDs are skipped. Returns how many were purged.
+   */
+  async purgeMany(orderIds: string[] | undefined): Promise<number> {
+    let purged = 0;
+
+    for (const orderId of orderIds ?? (await this.findAllOrderIds())) {
+      const deadLetterJob = await this.deadLetterQueue.getJob(orderId);
+      if (deadLetterJob) {
+        await deadLetterJob.remove();
+        purged++;
+      }
+    }
+
+    this.logger.log(`${purged} dead letter(s) purged`);
+    return purged;
+  }
+
+  private async getDeadLetterJob(
+    orderId: string,
+  ): Promise<Job<OrderDeadLetter>> {
+    const deadLetterJob = await this.deadLetterQueue.getJob(orderId);
+    if (!deadLetterJob) {
+      throw new NotFoundException(`No dead letter for order ${orderId}`);
+    }
+    return deadLetterJob;
+  }
+
+  private async findFailedStep(orderId: string): Promise<Job | undefined> {
+    for (const step of ORDER_FLOW_STEPS) {
+      const stepJob = await this.orderQueue.getJob(
+        orderStepJobId(orderId, step),
+      );
+      if (stepJob && (await stepJob.isFailed())) {
+        return stepJob;
+      }
+    }
+    return undefined;
+  }
+
+  private async findAllOrderIds(): Promise<string[]> {
+    const jobs = await this.deadLetterQueue.getWaiting(
+      0,
+      this.MAX_BULK_SIZE - 1,
+    );
+    return jobs.map((job) => job.id!);
+  }
+}
@@ -1,50 +1,69 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { getModelToken } from '@nestjs/mongoose';
-import { Job } from 'bullmq';
-import { Model, Types } from 'mongoose';
-import { OrderDLQProcessor, OrderPayload } from './order-dlq.processor';
-import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
+import { Types } from 'mongoose';
+import { OrderDLQProcessor } from './order-dlq.processor';
+import { OrderDocument, OrderStatus } from './entities/order.entity';
+import { OrderStatusService } from './order-status.service';
+import { OrderEventsService } from './order-events.service';
+import { OrderDeadLetterService } from './order-dead-letter.service';
+import { InvalidStatusTransitionError } from './order.errors';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEventType } from '../webhooks/entities/webhook-endpoint.entity';
 
 describe('OrderDLQProcessor', () => {
   let processor: OrderDLQProcessor;
-  let orderModel: jest.Mocked<Model<OrderDocument>>;
-
-  const mockOrderPayload: OrderPayload = {
-    userId: '507f1f77bcf86cd799439011',
-    productId: '507f1f77bcf86cd799439012',
-    stockId: '507f1f77bcf86cd799439013',
-    quantity: 2,
-    priceAtPurchase: 99.99,
-    isVipOrder: false,
-    orderId: '507f1f77bcf86cd799439014',
-  };
-
-  const mockJob = {
-    id: 'job-123',
-    data: mockOrderPayload,
-  } as Job<OrderPayload>;
+  let orderStatusService: jest.Mocked<OrderStatusService>;
+  let orderEventsService: jest.Mocked<OrderEventsService>;
+  let webhooksService: jest.Mocked<WebhooksService>;
+  let orderDeadLetterService: jest.Mocked<OrderDeadLetterService>;
+
+  // Process-order job IDs are order IDs
+  const jobId = '507f1f77bcf86cd799439014';
 
   const mockUpdatedOrder = {
-    _id: new Types.ObjectId(mockOrderPayload.orderId),
+    _id: new Types.ObjectId(jobId),
+    userId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    lineItems: [],
+    totalAmount: 0,
     status: OrderStatus.FAILED,
     failureReason: 'Job processing failed after all retries',
-  } as Partial<OrderDocument>;
+  } as unknown as OrderDocument;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         OrderDLQProcessor,
         {
-          provide: getModelToken(Order.name),
+          provide: OrderStatusService,
+          useValue: {
+            transition: jest.fn(),
+          },
+        },
+        {
+          provide: OrderEventsService,
+          useValue: {
+            publishCurrentStatus: jest.fn(),
+          },
+        },
+        {
+          provide: WebhooksService,
+          useValue: {
+            dispatch: jest.fn(),
+          },
+        },
+        {
+          provide: OrderDeadLetterService,
           useValue: {
-            findByIdAndUpdate: jest.fn(),
+            deadLetter: jest.fn(),
           },
         },
       ],
     }).compile();
 
     processor = module.get<OrderDLQProcessor>(OrderDLQProcessor);
-    orderModel = module.get(getModelToken(Order.name));
+    orderStatusService = module.get(OrderStatusService);
+    orderEventsService = module.get(OrderEventsService);
+    webhooksService = module.get(WebhooksService);
+    orderDeadLetterService = module.get(OrderDeadLetterService);
 
     jest.clearAllMocks();
   });
@@ -52,78 +71,159 @@ describe('OrderDLQProcessor', () => {
   describe('handleFailedJob', () => {
     it('should update order status to FAILED when job fails permanently', async () => {
       // Arrange
-      const error = new Error('Payment gateway unreachable');
-      orderModel.findByIdAndUpdate.mockResolvedValue(mockUpdatedOrder);
+      orderStatusService.transition.mockResolvedValue({
+        order: mockUpdatedOrder,
+        previousStatus: OrderStatus.PENDING,
+      });
 
       // Act
-      await processor.handleFailedJob(mockJob, error);
+      await processor.handleFailedJob({
+        jobId,
+        failedReason: 'Payment gateway unreachable',
+      });
 
       // Assert
-      expect(orderModel.findByIdAndUpdate).toHaveBeenCalledWith(
-        mockOrderPayload.orderId,
+      expect(orderStatusService.transition).toHaveBeenCalledWith(
+        jobId,
+        OrderStatus.FAILED,
         {
-          status: OrderStatus.FAILED,
+          changedBy: 'system:order-dlq',
+          reason: 'Payment gateway unreachable',
           failureReason: 'Payment gateway unreachable',
         },
-        { new: true },
+      );
+      expect(orderEventsService.publishCurrentStatus).toHaveBeenCalledWith(
+        jobId,
+      );
+      expect(webhooksService.dispatch).toHaveBeenCalledWith(
+        WebhookEventType.ORDER_FAILED,
+        expect.objectContaining({ orderId: jobId, status: OrderStatus.FAILED }),
+      );
+      expect(orderDeadLetterService.deadLetter).toHaveBeenCalledWith(
+        jobId,
+        'Payment gateway unreachable',
       );
     });
 
     it('should handle missing error message gracefully', async () => {
       // Arrange
-      const error = new Error(); // Error without message
-      orderModel.findByIdAndUpdate.mockResolvedValue(mockUpdatedOrder);
+      orderStatusService.transition.mockResolvedValue({
+        order: mockUpdatedOrder,
+        previousStatus: OrderStatus.PENDING,
+      });
 
       // Act
-      await processor.handleFailedJob(mockJob, error);
+      await processor.handleFailedJob({ jobId, failedReason: '' });
 
       // Assert
-      expect(orderModel.findByIdAndUpdate).toHaveBeenCalledWith(
-        mockOrderPayload.orderId,
-        {
-          status: OrderStatus.FAILED,
+      expect(orderStatusService.transition).toHaveBeenCalledWith(
+        jobId,
+        OrderStatus.FAILED,
+        expect.objectContaining({
           failureReason: 'Job processing failed after all retries',
-        },
-        { new: true },
+        }),
       );
     });
 
-    it('should handle case when order is not found', async () => {
+    it('should leave orders that are already settled unchanged', async () => {
       // Arrange
-      const error = new Error('Test error');
-      orderModel.findByIdAndUpdate.mockResolvedValue(null);
+      orderStatusService.transition.mockRejectedValue(
+        new InvalidStatusTransitionError(
+          OrderStatus.CANCELLED,
+          OrderStatus.FAILED,
+        ),
+      );
+      const errorSpy = jest.spyOn(processor['logger'], 'error');
 
       // Act
-      await processor.handleFailedJob(mockJob, error);
+      await processor.handleFailedJob({ jobId, failedReason: 'Test error' });
 
       // Assert
-      expect(orderModel.findByIdAndUpdate).toHaveBeenCalledWith(
-        mockOrderPayload.orderId,
-        {
-          status: OrderStatus.FAILED,
-          failureReason: 'Test error',
-        },
-        { new: true },
+      expect(orderStatusService.transition).toHaveBeenCalledTimes(1);
+      expect(errorSpy).not.toHaveBeenCalled();
+      expect(webhooksService.dispatch).not.toHaveBeenCalled();
+      expect(orderDeadLetterService.deadLetter).not.toHaveBeenCalled();
+      expect(orderEventsService.publishCurrentStatus).toHaveBeenCalledWith(
+        jobId,
       );
     });
 
-    it('should handle database update errors gracefully', async () => {
+    it('should dead-letter the job of an order the processor already failed', async () => {
       // Arrange
-      const jobError = new Error('Original job error');
-      const updateError = new Error('Database connection failed');
-      orderModel.findByIdAndUpdate.mockRejectedValue(updateError);
+      orderStatusService.transition.mockRejectedValue(
+        new InvalidStatusTransitionError(
+          OrderStatus.FAILED,
+          OrderStatus.FAILED,
+        ),
+      );
 
       // Act
-      await processor.handleFailedJob(mockJob, jobError);
+      await processor.handleFailedJob({ jobId, failedReason: 'Out of stock' });
 
       // Assert
-      expect(orderModel.findByIdAndUpdate).toHaveBeenCalledWith(
-        mockOrderPayload.orderId,
-        {
-          status: OrderStatus.FAILED,
-          failureReason: 'Original job error',
-        },
-        { new: true },
+      expect(webhooksService.dispatch).not.toHaveBeenCalled();
+      expect(orderDeadLetterService.deadLetter).toHaveBeenCalledWith(
+        jobId,
+        'Out of stock',
+      );
+    });
+
+    it('should still publish the status when dead-lettering fails', async () => {
+      // Arrange
+      orderStatusService.transition.mockResolvedValue({
+        order: mockUpdatedOrder,
+        previousStatus: OrderStatus.PENDING,
+      });
+      orderDeadLetterService.deadLetter.mockRejectedValue(
+        new Error('Redis unavailable'),
+      );
+      const errorSpy = jest.spyOn(processor['logger'], 'error');
+
+      // Act
+      await processor.handleFailedJob({ jobId, failedReason: 'Test error' });
+
+      // Assert
+      expect(errorSpy).toHaveBeenCalledWith(
+        `Failed to dead-letter the job of order ${jobId}: Redis unavailable`,
+        expect.any(String),
+      );
+      expect(orderEventsService.publishCurrentStatus).toHaveBeenCalledWith(
+        jobId,
+      );
+    });
+
+    it('should leave failed step jobs to their process-order job', async () => {
+      // Act
+      await processor.handleFailedJob({
+        jobId: `${jobId}-charge-payment`,
+        failedReason: 'Card declined',
+      });
+
+      // Assert
+      expect(orderStatusService.transition).not.toHaveBeenCalled();
+      expect(orderDeadLetterService.deadLetter).not.toHaveBeenCalled();
+      expect(orderEventsService.publishCurrentStatus).toHaveBeenCalledWith(
+        jobId,
+      );
+    });
+
+    it('should handle database update errors gracefully', async () => {
+      // Arrange
+      orderStatusService.transition.mockRejectedValue(
+        new Error('Database connection failed'),
+      );
+
+      // Act & Assert
+      await expect(
+        processor.handleFailedJob({
+          jobId,
+          failedReason: 'Original job error',
+        }),
+      ).resolves.toBeUndefined();
+      expect(orderStatusService.transition).toHaveBeenCalledWith(
+        jobId,
+        OrderStatus.FAILED,
+        expect.objectContaining({ failureReason: 'Original job error' }),
       );
     });
   });
@@ -134,58 +234,62 @@ describe('OrderDLQProcessor', () => {
       const loggerSpy = jest.spyOn(processor['logger'], 'warn');
 
       // Act
-      await processor.handleStalledJob(mockJob);
+      await processor.handleStalledJob({ jobId });
 
       // Assert
       expect(loggerSpy).toHaveBeenCalledWith(
-        `Job ${mockJob.id} has stalled. Order ${mockOrderPayload.orderId} may need attention.`,
+        `Job for order ${jobId} has stalled and may need attention.`,
       );
     });
   });
 
   describe('handleCompletedJob', () => {
-    it('should log completed job information', async () => {
-      // Arrange
-      const loggerSpy = jest.spyOn(processor['logger'], 'log');
-
+    it('should publish the confirmed status to live subscribers', async () => {
       // Act
-      await processor.handleCompletedJob(mockJob);
+      await processor.handleCompletedJob({ jobId });
 
       // Assert
-      expect(loggerSpy).toHaveBeenCalledWith(
-        `Job ${mockJob.id} completed successfully for order ${mockOrderPayload.orderId}`,
+      expect(orderEventsService.publishCurrentStatus).toHaveBeenCalledWith(
+        jobId,
       );
     });
   });
 
   describe('handleWaitingJob', () => {
-    it('should log waiting job information', async () => {
-      // Arrange
-      const loggerSpy = jest.spyOn(processor['logger'], 'debug');
+    it('should publish the status of the order of a step job', async () => {
+      // Act
+      await processor.handleWaitingJob({ jobId: `${jobId}-reserve-stock` });
 
+      // Assert
+      expect(orderEventsService.publishCurrentStatus).toHaveBeenCalledWith(
+        jobId,
+      );
+    });
+
+    it('should publish the status of a waiting or retried order', async () => {
       // Act
-      await processor.handleWaitingJob(mockJob);
+      await processor.handleWaitingJob({ jobId });
 
       // Assert
-      expect(loggerSpy).toHaveBeenCalledWith(
-        `Job ${mockJob.id} is waiting in queue for order ${mockOrderPayload.orderId}`,
+      expect(orderEventsService.publishCurrentStatus).toHaveBeenCalledWith(
+        jobId,
       );
     });
   });
 
   describe('handleActiveJob', () => {
-    it('should log active job information', async () => {
+    it('should publish the status of an order being processed', async () => {
       // Arrange
       const loggerSpy = jest.spyOn(processor['logger'], 'debug');
 
       // Act
-      await processor.handleActiveJob(mockJob);
+      await processor.handleActiveJob({ jobId });
 
       // Assert
-      expect(loggerSpy).toHaveBeenCalledWith(
-        `Job ${mockJob.id} is now active, processing order ${mockOrderPayload.orderId}`,
+      expect(loggerSpy).toHaveBeenCalledWith(`Job ${jobId} is now active`);
+      expect(orderEventsService.publishCurrentStatus).toHaveBeenCalledWith(
+        jobId,
       );
     });
   });
-
 });
@@ -1,76 +1,124 @@
-import { OnQueueEvent } from '@nestjs/bullmq';
-import { Injectable, Logger } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
-import { Job } from 'bullmq';
-import { Model } from 'mongoose';
+import {
+  OnQueueEvent,
+  QueueEventsHost,
+  QueueEventsListener,
+} from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
 import { ORDER_QUEUE_NAME } from './order.constants';
-import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
+import { OrderStatus } from './entities/order.entity';
+import { OrderStatusService } from './order-status.service';
+import { OrderEventsService } from './order-events.service';
+import { OrderDeadLetterService } from './order-dead-letter.service';
+import { InvalidStatusTransitionError } from './order.errors';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEventType } from '../webhooks/entities/webhook-endpoint.entity';
+import { toOrderWebhookData } from './order-webhook.payload';
+import { isOrderStepJob, orderIdOfJob } from './order-flow';
 
-export interface OrderPayload {
-  userId: string;
-  productId: string;
-  stockId: string;
-  quantity: number;
-  priceAtPurchase: number;
-  isVipOrder: boolean;
-  orderId: string; // MongoDB ObjectId
-}
-
-@Injectable()
-export class OrderDLQProcessor {
+/**
+ * Listens to order queue events (shared through Redis, so this sees jobs of
+ * every worker process). Parent job IDs are order IDs, step job IDs are
+ * `<orderId>-<step>`.
+ */
+@QueueEventsListener(ORDER_QUEUE_NAME)
+export class OrderDLQProcessor extends QueueEventsHost {
   private readonly logger = new Logger(OrderDLQProcessor.name);
 
   constructor(
-    @InjectModel(Order.name) private readonly orderModel: Model<OrderDocument>,
-  ) {}
+    private readonly orderStatusService: OrderStatusService,
+    private readonly orderEventsService: OrderEventsService,
+    private readonly webhooksService: WebhooksService,
+    private readonly orderDeadLetterService: OrderDeadLetterService,
+  ) {
+    super();
+  }
 
   /**
-   * Listen for failed jobs and update corresponding orders to FAILED status
+   * Listen for failed jobs, update corresponding orders to FAILED status and
+   * move the jobs of failed orders into the dead-letter queue
    */
   @OnQueueEvent('failed')
-  async handleFailedJob(job: Job<OrderPayload>, error: Error): Promise<void> {
+  async handleFailedJob({
+    jobId,
+    failedReason,
+  }: {
+    jobId: string;
+    failedReason: string;
+  }): Promise<void> {
+    if (isOrderStepJob(jobId)) {
+      // The step has settled the order itself; its parent fails right after
+      this.logger.warn(`Step job ${jobId} failed permanently`);
+      await this.orderEventsService.publishCurrentStatus(orderIdOfJob(jobId));
+      return;
+    }
+
     this.logger.warn(
-      `Job ${job.id} failed permanently. Updating order status to FAILED.`,
+      `Job for order ${jobId} failed permanently. Updating order status to FAILED.`,
     );
 
-    const { orderId } = job.data;
+    const orderId = jobId;
+    let orderFailed = false;
 
     try {
-      // Update order status to FAILED with failure reason
-      const updatedOrder = await this.orderModel.findByIdAndUpdate(
+      // Update order status to FAILED with failure reason (cancelled orders stay cancelled)
+      const failureReason =
+        failedReason || 'Job processing failed after all retries';
+      const { order } = await this.orderStatusService.transition(
         orderId,
+        OrderStatus.FAILED,
         {
-          status: OrderStatus.FAILED,
-          failureReason:
-            error.message || 'Job processing failed after all retries',
+          changedBy: 'system:order-dlq',
+          reason: failureReason,
+          failureReason,
         },
-        { new: true },
       );
 
-      if (updatedOrder) {
+      orderFailed = true;
+      this.logger.log(
+        `Order ${orderId} status updated to FAILED due to job failure`,
+      );
+
+      await this.webhooksService.dispatch(
+        WebhookEventType.ORDER_FAILED,
+        toOrderWebhookData(order),
+      );
+    } catch (updateError) {
+      if (updateError instanceof InvalidStatusTransitionError) {
+        // Already settled, e.g. FAILED by the processor or CANCELLED by the customer
         this.logger.log(
-          `Order ${orderId} status updated to FAILED due to job failure`,
+          `Order ${orderId} is already ${updateError.from}, leaving status unchanged`,
         );
+        orderFailed = updateError.from === OrderStatus.FAILED;
       } else {
         this.logger.error(
-          `Order ${orderId} not found when trying to update status to FAILED`,
+          `Failed to update order ${orderId} status to FAILED: ${updateError.message}`,
+          updateError.stack,
+        );
+      }
+    }
+
+    // Cancelled orders are settled - only FAILED ones can be replayed later
+    if (orderFailed) {
+      try {
+        await this.orderDeadLetterService.deadLetter(orderId, failedReason);
+      } catch (deadLetterError) {
+        this.logger.error(
+          `Failed to dead-letter the job of order ${orderId}: ${deadLetterError.message}`,
+          deadLetterError.stack,
         );
       }
-    } catch (updateError) {
-      this.logger.error(
-        `Failed to update order ${orderId} status to FAILED: ${updateError.message}`,
-        updateError.stack,
-      );
     }
+
+    await this.orderEventsService.publishCurrentStatus(orderId);
   }
 
   /**
    * Listen for stalled jobs (jobs that have been running too long)
    */
   @OnQueueEvent('stalled')
-  async handleStalledJob(job: Job<OrderPayload>): Promise<void> {
+  async handleStalledJob({ jobId }: { jobId: string }): Promise<void> {
     this.logger.warn(
-      `Job ${job.id} has stalled. Order ${job.data.orderId} may need attention.`,
+      `Job for order ${jobId} has stalled and may need attention.`,
     );
 
     // Optionally, you could implement logic to handle stalled jobs
@@ -78,32 +126,30 @@ export class OrderDLQProcessor {
   }
 
   /**
-   * Listen for completed jobs (optional - for monitoring)
+   * Listen for completed jobs - a step finished, or the whole pipeline did and
+   * the order is CONFIRMED (or was cancelled meanwhile)
    */
   @OnQueueEvent('completed')
-  async handleCompletedJob(job: Job<OrderPayload>): Promise<void> {
-    this.logger.log(
-      `Job ${job.id} completed successfully for order ${job.data.orderId}`,
-    );
+  async handleCompletedJob({ jobId }: { jobId: string }): Promise<void> {
+    this.logger.log(`Job ${jobId} completed successfully`);
+    await this.orderEventsService.publishCurrentStatus(orderIdOfJob(jobId));
   }
 
   /**
-   * Listen for jobs that are waiting in the queue (optional - for monitoring)
+   * Listen for jobs that are waiting in the queue, including retries
    */
   @OnQueueEvent('waiting')
-  async handleWaitingJob(job: Job<OrderPayload>): Promise<void> {
-    this.logger.debug(
-      `Job ${job.id} is waiting in queue for order ${job.data.orderId}`,
-    );
+  async handleWaitingJob({ jobId }: { jobId: string }): Promise<void> {
+    this.logger.debug(`Job ${jobId} is waiting in queue`);
+    await this.orderEventsService.publishCurrentStatus(orderIdOfJob(jobId));
   }
 
   /**
-   * Listen for active jobs (optional - for monitoring)
+   * Listen for active jobs - the order is being processed
    */
   @OnQueueEvent('active')
-  async handleActiveJob(job: Job<OrderPayload>): Promise<void> {
-    this.logger.debug(
-      `Job ${job.id} is now active, processing order ${job.data.orderId}`,
-    );
+  async handleActiveJob({ jobId }: { jobId: string }): Promise<void> {
+    this.logger.debug(`Job ${jobId} is now active`);
+    await this.orderEventsService.publishCurrentStatus(orderIdOfJob(jobId));
   }
 }
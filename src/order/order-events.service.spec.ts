@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { firstValueFrom, toArray } from 'rxjs';
+import { OrderEventsService, OrderStatusEvent } from './order-events.service';
+import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
+
+describe('OrderEventsService', () => {
+  let service: OrderEventsService;
+  let orderModel: { findById: jest.Mock };
+
+  const orderId = '507f1f77bcf86cd799439014';
+
+  const order = (
+    status: OrderStatus,
+    updatedAt: string,
+    failureReason = '',
+  ): OrderDocument =>
+    ({
+      _id: new Types.ObjectId(orderId),
+      status,
+      failureReason,
+      updatedAt: new Date(updatedAt),
+    }) as OrderDocument;
+
+  const mockFindById = (result: OrderDocument | null) =>
+    orderModel.findById.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(result),
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderEventsService,
+        {
+          provide: getModelToken(Order.name),
+          useValue: {
+            findById: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderEventsService>(OrderEventsService);
+    orderModel = module.get(getModelToken(Order.name));
+  });
+
+  describe('watch', () => {
+    it('should emit the current status, then changes, and complete once processing is complete', async () => {
+      // Arrange
+      mockFindById(order(OrderStatus.PENDING, '2024-01-15T10:30:00Z'));
+      const events = firstValueFrom(service.watch(orderId).pipe(toArray()));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // Act
+      service.publish(order(OrderStatus.PROCESSING, '2024-01-15T10:30:01Z'));
+      service.publish(
+        order(OrderStatus.FAILED, '2024-01-15T10:30:02Z', 'Insufficient stock'),
+      );
+      service.publish(order(OrderStatus.CANCELLED, '2024-01-15T10:30:03Z'));
+
+      // Assert
+      expect(
+        (await events).map(({ status, failureReason }) => ({
+          status,
+          failureReason,
+        })),
+      ).toEqual([
+        { status: OrderStatus.PENDING, failureReason: '' },
+        { status: OrderStatus.PROCESSING, failureReason: '' },
+        { status: OrderStatus.FAILED, failureReason: 'Insufficient stock' },
+      ]);
+    });
+
+    it('should complete immediately for an order that is already complete', async () => {
+      // Arrange
+      mockFindById(order(OrderStatus.CONFIRMED, '2024-01-15T10:30:00Z'));
+
+      // Act
+      const events = await firstValueFrom(
+        service.watch(orderId).pipe(toArray()),
+      );
+
+      // Assert
+      expect(events.map((event) => event.status)).toEqual([
+        OrderStatus.CONFIRMED,
+      ]);
+    });
+
+    it('should drop duplicate and out-of-date events', async () => {
+      // Arrange
+      mockFindById(order(OrderStatus.PROCESSING, '2024-01-15T10:30:01Z'));
+      const received: OrderStatusEvent[] = [];
+      const subscription = service
+        .watch(orderId)
+        .subscribe((event) => received.push(event));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // Act
+      service.publish(order(OrderStatus.PROCESSING, '2024-01-15T10:30:01Z'));
+      service.publish(order(OrderStatus.PENDING, '2024-01-15T10:30:00Z'));
+      subscription.unsubscribe();
+
+      // Assert
+      expect(received.map((event) => event.status)).toEqual([
+        OrderStatus.PROCESSING,
+      ]);
+    });
+
+    it('should ignore events of other orders', async () => {
+      // Arrange
+      mockFindById(order(OrderStatus.PENDING, '2024-01-15T10:30:00Z'));
+      const received: OrderStatusEvent[] = [];
+      const subscription = service
+        .watch(orderId)
+        .subscribe((event) => received.push(event));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // Act
+      service.publish({
+        ...order(OrderStatus.CONFIRMED, '2024-01-15T10:30:05Z'),
+        _id: new Types.ObjectId(),
+      } as OrderDocument);
+      subscription.unsubscribe();
+
+      // Assert
+      expect(received).toHaveLength(1);
+    });
+  });
+
+  describe('publishCurrentStatus', () => {
+    it('should reload the order and publish it to watchers', async () => {
+      // Arrange
+      mockFindById(order(OrderStatus.PENDING, '2024-01-15T10:30:00Z'));
+      const received: OrderStatusEvent[] = [];
+      const subscription = service
+        .watch(orderId)
+        .subscribe((event) => received.push(event));
+      await new Promise((resolve) => setImmediate(resolve));
+      mockFindById(order(OrderStatus.CONFIRMED, '2024-01-15T10:30:05Z'));
+
+      // Act
+      await service.publishCurrentStatus(orderId);
+      subscription.unsubscribe();
+
+      // Assert
+      expect(received.map((event) => event.status)).toEqual([
+        OrderStatus.PENDING,
+        OrderStatus.CONFIRMED,
+      ]);
+    });
+
+    it('should not throw when the order cannot be loaded', async () => {
+      // Arrange
+      orderModel.findById.mockReturnValue({
+        exec: jest.fn().mockRejectedValue(new Error('Database unavailable')),
+      });
+
+      // Act & Assert
+      await expect(
+        service.publishCurrentStatus(orderId),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
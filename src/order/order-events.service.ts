@@ -0,0 +1,97 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Observable, Subject, defer, filter, merge, takeWhile } from 'rxjs';
+import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
+import { isProcessingComplete } from './order-status.transitions';
+
+export interface OrderStatusEvent {
+  orderId: string;
+  status: OrderStatus;
+  failureReason: string;
+  updatedAt: Date;
+}
+
+/**
+ * In-process fan-out of order status changes to live subscribers (SSE streams).
+ * Fed by OrderStatusService for changes made in this process, and by the
+ * order queue events for changes made by workers in other processes.
+ */
+@Injectable()
+export class OrderEventsService {
+  private readonly logger = new Logger(OrderEventsService.name);
+
+  private readonly events$ = new Subject<OrderStatusEvent>();
+
+  constructor(
+    @InjectModel(Order.name) private readonly orderModel: Model<OrderDocument>,
+  ) {}
+
+  publish(order: OrderDocument): void {
+    this.events$.next(this.toEvent(order));
+  }
+
+  /**
+   * Reloads the order and publishes its current status (used for queue events,
+   * which only carry the job ID)
+   */
+  async publishCurrentStatus(orderId: string): Promise<void> {
+    try {
+      const order = await this.orderModel.findById(orderId).exec();
+      if (order) {
+        this.publish(order);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Could not publish status of order ${orderId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Emits the current status of an order followed by every change, and completes
+   * once processing is complete (CONFIRMED, FAILED, CANCELLED, ...).
+   */
+  watch(orderId: string): Observable<OrderStatusEvent> {
+    return defer(() => {
+      let latest: OrderStatusEvent | undefined;
+
+      // Subscribe to live events before reading the current state so nothing is missed in between
+      return merge(
+        this.events$.pipe(filter((event) => event.orderId === orderId)),
+        defer(() => this.loadCurrent(orderId)).pipe(
+          filter((event): event is OrderStatusEvent => event !== null),
+        ),
+      ).pipe(
+        // Drop duplicates and events older than what the subscriber has already seen
+        filter((event) => {
+          if (
+            latest &&
+            (event.updatedAt < latest.updatedAt ||
+              (event.status === latest.status &&
+                event.failureReason === latest.failureReason))
+          ) {
+            return false;
+          }
+          latest = event;
+          return true;
+        }),
+        takeWhile((event) => !isProcessingComplete(event.status), true),
+      );
+    });
+  }
+
+  private async loadCurrent(orderId: string): Promise<OrderStatusEvent | null> {
+    const order = await this.orderModel.findById(orderId).exec();
+    return order ? this.toEvent(order) : null;
+  }
+
+  private toEvent(order: OrderDocument): OrderStatusEvent {
+    return {
+      orderId: order._id.toString(),
+      status: order.status,
+      failureReason: order.failureReason ?? '',
+      updatedAt: order.updatedAt ?? new Date(),
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { FlowJob, Queue } from 'bullmq';
+import {
+  buildOrderFlow,
+  isOrderStepJob,
+  OrderFlowStep,
+  orderIdOfJob,
+  PROCESS_ORDER_JOB,
+  removeOrderFlow,
+} from './order-flow';
+import { ORDER_QUEUE_NAME } from './order.constants';
+import { OrderPayload } from './order.service';
+
+describe('order flow', () => {
+  const orderId = '507f1f77bcf86cd799439014';
+  const payload: OrderPayload = {
+    orderId,
+    userId: '507f1f77bcf86cd799439011',
+    lineItems: [],
+    isVipOrder: false,
+  };
+
+  describe('buildOrderFlow', () => {
+    const jobOptions = {
+      jobId: orderId,
+      priority: 5,
+      attempts: 5,
+      removeOnComplete: { count: 100 },
+      removeOnFail: { count: 100 },
+    };
+
+    /**
+     * Steps of the flow from the last one (child of the parent) to the first
+     */
+    const stepsOf = (flow: FlowJob): FlowJob[] => {
+      const steps: FlowJob[] = [];
+      let step = flow.children?.[0];
+      while (step) {
+        steps.push(step);
+        step = step.children?.[0];
+      }
+      return steps;
+    };
+
+    it('should chain the steps under the process-order job, first step deepest', () => {
+      // Act
+      const flow = buildOrderFlow(PROCESS_ORDER_JOB, payload, jobOptions);
+
+      // Assert
+      expect(flow).toEqual(
+        expect.objectContaining({
+          name: PROCESS_ORDER_JOB,
+          queueName: ORDER_QUEUE_NAME,
+          data: payload,
+          opts: jobOptions,
+        }),
+      );
+      expect(stepsOf(flow).map((step) => step.name)).toEqual([
+        OrderFlowStep.NOTIFY,
+        OrderFlowStep.CONFIRM_ORDER,
+        OrderFlowStep.CHARGE_PAYMENT,
+        OrderFlowStep.RESERVE_STOCK,
+      ]);
+    });
+
+    it('should give every step its own job ID and retry policy, failing the parent on failure', () => {
+      // Act
+      const steps = stepsOf(
+        buildOrderFlow(PROCESS_ORDER_JOB, payload, jobOptions),
+      );
+
+      // Assert
+      const chargeStep = steps[2];
+      expect(chargeStep.data).toBe(payload);
+      expect(chargeStep.opts).toEqual({
+        attempts: 4,
+        backoff: { type: 'exponential', delay: 5000 },
+        jobId: `${orderId}-charge-payment`,
+        priority: 5,
+        removeOnComplete: { count: 100 },
+        removeOnFail: { count: 100 },
+        failParentOnFailure: true,
+      });
+    });
+  });
+
+  describe('job IDs', () => {
+    it('should map step job IDs and process-order job IDs to the order', () => {
+      // Assert
+      expect(orderIdOfJob(`${orderId}-reserve-stock`)).toBe(orderId);
+      expect(orderIdOfJob(orderId)).toBe(orderId);
+      expect(isOrderStepJob(`${orderId}-notify`)).toBe(true);
+      expect(isOrderStepJob(orderId)).toBe(false);
+    });
+  });
+
+  describe('removeOrderFlow', () => {
+    it('should remove the process-order job and every step job that still exists', async () => {
+      // Arrange
+      const job = { remove: jest.fn().mockResolvedValue(undefined) };
+      const orderQueue = {
+        getJob: jest.fn((id: string) =>
+          Promise.resolve(
+            id === orderId || id === `${orderId}-notify` ? job : undefined,
+          ),
+        ),
+      };
+
+      // Act
+      await removeOrderFlow(orderQueue as unknown as Queue, orderId);
+
+      // Assert
+      expect(orderQueue.getJob).toHaveBeenCalledTimes(5);
+      expect(orderQueue.getJob).toHaveBeenCalledWith(
+        `${orderId}-confirm-order`,
+      );
+      expect(job.remove).toHaveBeenCalledTimes(2);
+    });
+  });
+});
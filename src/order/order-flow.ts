@@ -0,0 +1,118 @@
+import { FlowJob, JobsOptions, Queue } from 'bullmq';
+import { ORDER_QUEUE_NAME } from './order.constants';
+import { OrderPayload } from './order.service';
+
+export const PROCESS_ORDER_JOB = 'process-order';
+
+/**
+ * Steps of the order pipeline, in the order they run. Each step is a child
+ * job of the next one, and the last step is the child of the process-order
+ * job, so the parent only completes once every step has succeeded.
+ */
+export enum OrderFlowStep {
+  RESERVE_STOCK = 'reserve-stock',
+  CHARGE_PAYMENT = 'charge-payment',
+  CONFIRM_ORDER = 'confirm-order',
+  NOTIFY = 'notify',
+}
+
+export const ORDER_FLOW_STEPS = Object.values(OrderFlowStep);
+
+// A failed step is retried on its own, without repeating the steps before it
+const ORDER_FLOW_STEP_RETRIES: Record<
+  OrderFlowStep,
+  Pick<JobsOptions, 'attempts' | 'backoff'>
+> = {
+  // Stock documents are contended during sales - retry quickly
+  [OrderFlowStep.RESERVE_STOCK]: {
+    attempts: 5,
+    backoff: { type: 'exponential', delay: 2000 },
+  },
+  // Gateway outages tend to last longer
+  [OrderFlowStep.CHARGE_PAYMENT]: {
+    attempts: 4,
+    backoff: { type: 'exponential', delay: 5000 },
+  },
+  [OrderFlowStep.CONFIRM_ORDER]: {
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 1000 },
+  },
+  [OrderFlowStep.NOTIFY]: {
+    attempts: 5,
+    backoff: { type: 'exponential', delay: 2000 },
+  },
+};
+
+export function orderStepJobId(orderId: string, step: OrderFlowStep): string {
+  return `${orderId}-${step}`;
+}
+
+/**
+ * Order of a job in the order queue: the process-order job ID is the order ID,
+ * step job IDs start with it
+ */
+export function orderIdOfJob(jobId: string): string {
+  return jobId.split('-')[0];
+}
+
+export function isOrderStepJob(jobId: string): boolean {
+  return jobId.includes('-');
+}
+
+/**
+ * Builds the flow of an order from its process-order job. Steps run with the
+ * job's priority and payload and keep the same completed/failed history.
+ */
+export function buildOrderFlow(
+  jobName: string,
+  payload: OrderPayload,
+  jobOptions: JobsOptions,
+): FlowJob {
+  const orderId = jobOptions.jobId!;
+
+  const lastStep = ORDER_FLOW_STEPS.reduce<FlowJob | undefined>(
+    (previousStep, step) => ({
+      name: step,
+      queueName: ORDER_QUEUE_NAME,
+      data: payload,
+      opts: {
+        ...ORDER_FLOW_STEP_RETRIES[step],
+        jobId: orderStepJobId(orderId, step),
+        priority: jobOptions.priority,
+        removeOnComplete: jobOptions.removeOnComplete,
+        removeOnFail: jobOptions.removeOnFail,
+        failParentOnFailure: true,
+      },
+      children: previousStep && [previousStep],
+    }),
+    undefined,
+  );
+
+  return {
+    name: jobName,
+    queueName: ORDER_QUEUE_NAME,
+    data: payload,
+    opts: jobOptions,
+    children: [lastStep!],
+  };
+}
+
+/**
+ * Removes the process-order job and every step job of an order, so its flow
+ * can be added again under the same job IDs. A step left behind would be
+ * taken as already added and the new parent would wait for it forever.
+ */
+export async function removeOrderFlow(
+  orderQueue: Queue,
+  orderId: string,
+): Promise<void> {
+  const jobIds = [
+    orderId,
+    ...ORDER_FLOW_STEPS.map((step) => orderStepJobId(orderId, step)),
+  ];
+
+  for (const jobId of jobIds) {
+    const job = await orderQueue.getJob(jobId);
+    await job?.remove();
+  }
+}
@@ -0,0 +1,45 @@
+import { InjectQueue, Processor } from '@nestjs/bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bullmq';
+import { RepeatingJobProcessor } from '../common/scheduling/repeating-job.processor';
+import {
+  ORDER_OUTBOX_QUEUE_NAME,
+  RELAY_ORDER_OUTBOX_JOB,
+} from './order.constants';
+import { OrderOutboxService } from './order-outbox.service';
+
+/**
+ * Periodically publishes order outbox entries that were not published when
+ * the order was created, e.g. because Redis was briefly unreachable
+ */
+@Injectable()
+@Processor(ORDER_OUTBOX_QUEUE_NAME)
+export class OrderOutboxRelayProcessor extends RepeatingJobProcessor {
+  private readonly logger = new Logger(OrderOutboxRelayProcessor.name);
+
+  constructor(
+    @InjectQueue(ORDER_OUTBOX_QUEUE_NAME) relayQueue: Queue,
+    private readonly orderOutboxService: OrderOutboxService,
+    configService: ConfigService,
+  ) {
+    super(
+      relayQueue,
+      RELAY_ORDER_OUTBOX_JOB,
+      configService,
+      'ORDER_OUTBOX_RELAY_INTERVAL_MS',
+      5000,
+    );
+  }
+
+  async process(job: Job): Promise<number> {
+    const published = await this.orderOutboxService.relayPending();
+
+    if (published > 0) {
+      this.logger.log(
+        `Published ${published} order job(s) from the outbox (job ${job.id})`,
+      );
+    }
+    return published;
+  }
+}
@@ -0,0 +1,204 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { getFlowProducerToken } from '@nestjs/bullmq';
+import { Types } from 'mongoose';
+import { OrderOutboxService } from './order-outbox.service';
+import { ORDER_QUEUE_NAME } from './order.constants';
+import { OrderFlowStep } from './order-flow';
+import {
+  Order,
+  OrderDocument,
+  OrderOutboxStatus,
+  OrderStatus,
+} from './entities/order.entity';
+
+describe('OrderOutboxService', () => {
+  let service: OrderOutboxService;
+  let orderFlowProducer: { add: jest.Mock };
+  let orderModel: {
+    find: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    updateOne: jest.Mock;
+  };
+
+  const createOrder = (status = OrderOutboxStatus.PENDING) =>
+    ({
+      _id: new Types.ObjectId('507f1f77bcf86cd799439014'),
+      outbox: {
+        status,
+        jobName: 'process-order',
+        payload: { orderId: '507f1f77bcf86cd799439014' },
+        jobOptions: { jobId: '507f1f77bcf86cd799439014', attempts: 5 },
+      },
+    }) as unknown as OrderDocument;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderOutboxService,
+        {
+          provide: getFlowProducerToken(ORDER_QUEUE_NAME),
+          useValue: { add: jest.fn() },
+        },
+        {
+          provide: getModelToken(Order.name),
+          useValue: {
+            find: jest.fn(),
+            findOneAndUpdate: jest.fn(),
+            updateOne: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderOutboxService>(OrderOutboxService);
+    orderFlowProducer = module.get(getFlowProducerToken(ORDER_QUEUE_NAME));
+    orderModel = module.get(getModelToken(Order.name));
+
+    orderFlowProducer.add.mockResolvedValue({
+      job: { id: '507f1f77bcf86cd799439014' },
+    });
+    orderModel.updateOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    });
+  });
+
+  describe('publish', () => {
+    it('should add the stored job as a flow and mark the entry dispatched', async () => {
+      // Arrange
+      const order = createOrder();
+
+      // Act
+      const published = await service.publish(order);
+
+      // Assert
+      expect(published).toBe(true);
+      expect(orderFlowProducer.add).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'process-order',
+          queueName: ORDER_QUEUE_NAME,
+          data: order.outbox!.payload,
+          opts: order.outbox!.jobOptions,
+          children: [
+            expect.objectContaining({
+              name: OrderFlowStep.NOTIFY,
+              opts: expect.objectContaining({
+                jobId: '507f1f77bcf86cd799439014-notify',
+              }),
+            }),
+          ],
+        }),
+      );
+      expect(orderModel.updateOne).toHaveBeenCalledWith(
+        { _id: order._id, 'outbox.status': OrderOutboxStatus.PENDING },
+        {
+          $set: {
+            'outbox.status': OrderOutboxStatus.DISPATCHED,
+            'outbox.dispatchedAt': expect.any(Date),
+          },
+          $inc: { 'outbox.attempts': 1 },
+        },
+      );
+    });
+
+    it('should record the error and keep the entry pending when the queue is unreachable', async () => {
+      // Arrange
+      orderFlowProducer.add.mockRejectedValue(
+        new Error('connect ECONNREFUSED'),
+      );
+
+      // Act
+      const published = await service.publish(createOrder());
+
+      // Assert
+      expect(published).toBe(false);
+      expect(orderModel.updateOne).toHaveBeenCalledWith(expect.anything(), {
+        $set: { 'outbox.lastError': 'connect ECONNREFUSED' },
+        $inc: { 'outbox.attempts': 1 },
+      });
+    });
+
+    it('should skip entries that were already dispatched', async () => {
+      // Act
+      const published = await service.publish(
+        createOrder(OrderOutboxStatus.DISPATCHED),
+      );
+
+      // Assert
+      expect(published).toBe(true);
+      expect(orderFlowProducer.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requeue', () => {
+    it('should reset a dispatched entry and publish it again', async () => {
+      // Arrange
+      const order = createOrder();
+      orderModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(order),
+      });
+
+      // Act
+      const requeued = await service.requeue(order._id.toString());
+
+      // Assert
+      expect(requeued).toBe(true);
+      expect(orderModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: order._id.toString(),
+          status: OrderStatus.PENDING,
+          'outbox.status': OrderOutboxStatus.DISPATCHED,
+        },
+        {
+          $set: {
+            'outbox.status': OrderOutboxStatus.PENDING,
+            'outbox.dispatchedAt': null,
+          },
+          $inc: { 'outbox.requeues': 1 },
+        },
+        { new: true },
+      );
+      expect(orderFlowProducer.add).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave orders that are no longer PENDING alone', async () => {
+      // Arrange
+      orderModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      // Act
+      const requeued = await service.requeue('507f1f77bcf86cd799439014');
+
+      // Assert
+      expect(requeued).toBe(false);
+      expect(orderFlowProducer.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('relayPending', () => {
+    it('should publish pending entries oldest first and count the successes', async () => {
+      // Arrange
+      const query = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([createOrder(), createOrder()]),
+      };
+      orderModel.find.mockReturnValue(query);
+      orderFlowProducer.add
+        .mockResolvedValueOnce({ job: { id: 'job-1' } })
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      // Act
+      const published = await service.relayPending();
+
+      // Assert
+      expect(orderModel.find).toHaveBeenCalledWith({
+        'outbox.status': OrderOutboxStatus.PENDING,
+      });
+      expect(query.sort).toHaveBeenCalledWith({ createdAt: 1 });
+      expect(orderFlowProducer.add).toHaveBeenCalledTimes(2);
+      expect(published).toBe(1);
+    });
+  });
+});
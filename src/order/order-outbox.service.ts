@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectFlowProducer } from '@nestjs/bullmq';
+import { InjectModel } from '@nestjs/mongoose';
+import { FlowProducer } from 'bullmq';
+import { Model } from 'mongoose';
+import { ORDER_QUEUE_NAME } from './order.constants';
+import {
+  Order,
+  OrderDocument,
+  OrderOutboxStatus,
+  OrderStatus,
+} from './entities/order.entity';
+import { buildOrderFlow } from './order-flow';
+
+@Injectable()
+export class OrderOutboxService {
+  private readonly logger = new Logger(OrderOutboxService.name);
+
+  private readonly RELAY_BATCH_SIZE = 100;
+
+  constructor(
+    @InjectFlowProducer(ORDER_QUEUE_NAME)
+    private readonly orderFlowProducer: FlowProducer,
+    @InjectModel(Order.name) private readonly orderModel: Model<OrderDocument>,
+  ) {}
+
+  /**
+   * Publishes the order's outbox entry to the order queue, as the flow of
+   * its processing steps, and marks it dispatched. Returns false when
+   * publishing failed - the error is recorded on the entry and the relay
+   * tries again later.
+   */
+  async publish(order: OrderDocument): Promise<boolean> {
+    const { outbox } = order;
+    if (!outbox || outbox.status !== OrderOutboxStatus.PENDING) {
+      return true;
+    }
+
+    try {
+      const { job } = await this.orderFlowProducer.add(
+        buildOrderFlow(outbox.jobName, outbox.payload, outbox.jobOptions),
+      );
+
+      await this.orderModel
+        .updateOne(
+          { _id: order._id, 'outbox.status': OrderOutboxStatus.PENDING },
+          {
+            $set: {
+              'outbox.status': OrderOutboxStatus.DISPATCHED,
+              'outbox.dispatchedAt': new Date(),
+            },
+            $inc: { 'outbox.attempts': 1 },
+          },
+        )
+        .exec();
+
+      this.logger.log(
+        `Order job created successfully: ${job.id} with priority ${outbox.jobOptions.priority}`,
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish order job for order ${order._id.toString()}: ${error.message}`,
+        error.stack,
+      );
+
+      await this.orderModel
+        .updateOne(
+          { _id: order._id, 'outbox.status': OrderOutboxStatus.PENDING },
+          {
+            $set: { 'outbox.lastError': error.message },
+            $inc: { 'outbox.attempts': 1 },
+          },
+        )
+        .exec()
+        .catch((recordError) =>
+          this.logger.error(
+            `Failed to record outbox error for order ${order._id.toString()}: ${recordError.message}`,
+          ),
+        );
+      return false;
+    }
+  }
+
+  /**
+   * Publishes the job of a PENDING order again after the original job was
+   * lost. Any finished jobs of its flow have to be removed first, or
+   * BullMQ ignores the new ones. Returns false when the order has no
+   * dispatched outbox entry or is no longer PENDING.
+   */
+  async requeue(orderId: string): Promise<boolean> {
+    const order = await this.orderModel
+      .findOneAndUpdate(
+        {
+          _id: orderId,
+          status: OrderStatus.PENDING,
+          'outbox.status': OrderOutboxStatus.DISPATCHED,
+        },
+        {
+          $set: {
+            'outbox.status': OrderOutboxStatus.PENDING,
+            'outbox.dispatchedAt': null,
+          },
+          $inc: { 'outbox.requeues': 1 },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!order) {
+      return false;
+    }
+
+    // Left PENDING on failure - the relay publishes it
+    await this.publish(order);
+    return true;
+  }
+
+  /**
+   * Publishes outbox entries still PENDING, oldest first, and returns how
+   * many were published. Delivery is at-least-once: an entry published just
+   * before a crash is published again, and because the job IDs of the flow
+   * are derived from the order ID BullMQ ignores the duplicate.
+   */
+  async relayPending(): Promise<number> {
+    const orders = await this.orderModel
+      .find({ 'outbox.status': OrderOutboxStatus.PENDING })
+      .sort({ createdAt: 1 })
+      .limit(this.RELAY_BATCH_SIZE)
+      .exec();
+
+    let published = 0;
+    for (const order of orders) {
+      if (await this.publish(order)) {
+        published++;
+      }
+    }
+
+    return published;
+  }
+}
@@ -0,0 +1,48 @@
+import { InjectQueue, Processor } from '@nestjs/bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bullmq';
+import { RepeatingJobProcessor } from '../common/scheduling/repeating-job.processor';
+import {
+  AGE_ORDER_PRIORITIES_JOB,
+  ORDER_PRIORITY_AGING_QUEUE_NAME,
+} from './order.constants';
+import {
+  OrderPriorityService,
+  PriorityAgingReport,
+} from './order-priority.service';
+
+/**
+ * Periodically promotes order jobs that have been waiting, so that a surge
+ * of higher-tier orders cannot starve lower tiers
+ */
+@Injectable()
+@Processor(ORDER_PRIORITY_AGING_QUEUE_NAME)
+export class OrderPriorityAgingProcessor extends RepeatingJobProcessor {
+  private readonly logger = new Logger(OrderPriorityAgingProcessor.name);
+
+  constructor(
+    @InjectQueue(ORDER_PRIORITY_AGING_QUEUE_NAME) agingQueue: Queue,
+    private readonly orderPriorityService: OrderPriorityService,
+    configService: ConfigService,
+  ) {
+    super(
+      agingQueue,
+      AGE_ORDER_PRIORITIES_JOB,
+      configService,
+      'ORDER_PRIORITY_AGING_INTERVAL_MS',
+      15000,
+    );
+  }
+
+  async process(job: Job): Promise<PriorityAgingReport> {
+    const report = await this.orderPriorityService.ageWaitingJobs();
+
+    if (report.promoted > 0) {
+      this.logger.log(
+        `Order priority aging (job ${job.id}) - Checked: ${report.checked}, Promoted: ${report.promoted}`,
+      );
+    }
+    return report;
+  }
+}
@@ -0,0 +1,259 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { getQueueToken } from '@nestjs/bullmq';
+import { OrderPriorityService } from './order-priority.service';
+import { ORDER_QUEUE_NAME } from './order.constants';
+import { Order, OrderStatus } from './entities/order.entity';
+import { CustomerTier } from '../users/customer-tier';
+
+describe('OrderPriorityService', () => {
+  let service: OrderPriorityService;
+  let orderQueue: { getJobs: jest.Mock };
+  let orderModel: { aggregate: jest.Mock };
+  let config: Record<string, string>;
+
+  const now = new Date('2024-01-15T10:30:00.000Z').getTime();
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderPriorityService,
+        {
+          provide: getQueueToken(ORDER_QUEUE_NAME),
+          useValue: { getJobs: jest.fn() },
+        },
+        {
+          provide: getModelToken(Order.name),
+          useValue: { aggregate: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, defaultValue?: string) =>
+                config[key] ?? defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderPriorityService>(OrderPriorityService);
+    orderQueue = module.get(getQueueToken(ORDER_QUEUE_NAME));
+    orderModel = module.get(getModelToken(Order.name));
+  };
+
+  const createJob = (
+    priorityTier: CustomerTier | undefined,
+    priority: number,
+    waitedMs: number,
+  ) => ({
+    id: `job-${priorityTier}-${waitedMs}`,
+    data: { priorityTier, isVipOrder: false },
+    priority,
+    timestamp: now - waitedMs,
+    changePriority: jest.fn().mockResolvedValue(undefined),
+  });
+
+  beforeEach(async () => {
+    config = {};
+    await createService();
+  });
+
+  describe('priorityFor', () => {
+    it('should map every tier to its default priority', () => {
+      // Act & Assert
+      expect(service.priorityFor(CustomerTier.PLATINUM)).toBe(1);
+      expect(service.priorityFor(CustomerTier.GOLD)).toBe(5);
+      expect(service.priorityFor(CustomerTier.VIP)).toBe(10);
+      expect(service.priorityFor(CustomerTier.STANDARD)).toBe(20);
+    });
+
+    it('should use configured priorities', async () => {
+      // Arrange
+      config = { ORDER_PRIORITY_GOLD: '3' };
+      await createService();
+
+      // Act & Assert
+      expect(service.priorityFor(CustomerTier.GOLD)).toBe(3);
+    });
+
+    it('should reject a priority BullMQ does not accept', async () => {
+      // Arrange
+      config = { ORDER_PRIORITY_STANDARD: '0' };
+
+      // Act & Assert
+      await expect(createService()).rejects.toThrow(
+        'ORDER_PRIORITY_STANDARD must be an integer between 1 and 2097152',
+      );
+    });
+  });
+
+  describe('agedPriority', () => {
+    it('should climb from the tier priority to the top priority over the maximum wait', () => {
+      // Act & Assert - STANDARD starts at 20, top is 1, maximum wait is 300 seconds
+      expect(service.agedPriority(CustomerTier.STANDARD, now, now)).toBe(20);
+      expect(
+        service.agedPriority(CustomerTier.STANDARD, now - 150_000, now),
+      ).toBe(11);
+      expect(
+        service.agedPriority(CustomerTier.STANDARD, now - 300_000, now),
+      ).toBe(1);
+      expect(
+        service.agedPriority(CustomerTier.STANDARD, now - 900_000, now),
+      ).toBe(1);
+    });
+  });
+
+  describe('ageWaitingJobs', () => {
+    it('should promote jobs that are due and leave the others alone', async () => {
+      // Arrange
+      const dueJob = createJob(CustomerTier.STANDARD, 20, 150_000);
+      const freshJob = createJob(CustomerTier.STANDARD, 20, 1_000);
+      const alreadyPromotedJob = createJob(CustomerTier.VIP, 1, 300_000);
+      orderQueue.getJobs.mockResolvedValueOnce([
+        dueJob,
+        freshJob,
+        alreadyPromotedJob,
+      ]);
+
+      // Act
+      const report = await service.ageWaitingJobs(now);
+
+      // Assert
+      expect(orderQueue.getJobs).toHaveBeenCalledWith(['prioritized'], 0, 499);
+      expect(dueJob.changePriority).toHaveBeenCalledWith({ priority: 11 });
+      expect(freshJob.changePriority).not.toHaveBeenCalled();
+      expect(alreadyPromotedJob.changePriority).not.toHaveBeenCalled();
+      expect(report).toEqual({ checked: 3, promoted: 1 });
+    });
+
+    it('should age jobs queued before tiers existed as STANDARD', async () => {
+      // Arrange
+      const legacyJob = createJob(undefined, 20, 300_000);
+      orderQueue.getJobs.mockResolvedValueOnce([legacyJob]);
+
+      // Act
+      await service.ageWaitingJobs(now);
+
+      // Assert
+      expect(legacyJob.changePriority).toHaveBeenCalledWith({ priority: 1 });
+    });
+
+    it('should skip jobs a worker picked up meanwhile', async () => {
+      // Arrange
+      const takenJob = createJob(CustomerTier.STANDARD, 20, 300_000);
+      takenJob.changePriority.mockRejectedValue(new Error('Missing key'));
+      const dueJob = createJob(CustomerTier.GOLD, 5, 300_000);
+      orderQueue.getJobs.mockResolvedValueOnce([takenJob, dueJob]);
+
+      // Act
+      const report = await service.ageWaitingJobs(now);
+
+      // Assert
+      expect(dueJob.changePriority).toHaveBeenCalledWith({ priority: 1 });
+      expect(report).toEqual({ checked: 2, promoted: 1 });
+    });
+
+    it('should page through the queue until a page is not full', async () => {
+      // Arrange
+      const fullPage = Array.from({ length: 500 }, () =>
+        createJob(CustomerTier.STANDARD, 20, 0),
+      );
+      orderQueue.getJobs
+        .mockResolvedValueOnce(fullPage)
+        .mockResolvedValueOnce([]);
+
+      // Act
+      const report = await service.ageWaitingJobs(now);
+
+      // Assert
+      expect(orderQueue.getJobs).toHaveBeenLastCalledWith(
+        ['prioritized'],
+        500,
+        999,
+      );
+      expect(report.checked).toBe(500);
+    });
+  });
+
+  describe('getWaitTimeStats', () => {
+    it('should report current and past wait times for every tier', async () => {
+      // Arrange
+      const since = new Date('2024-01-14T10:30:00.000Z');
+      orderModel.aggregate
+        .mockResolvedValueOnce([
+          {
+            _id: CustomerTier.STANDARD,
+            waiting: 12,
+            oldestCreatedAt: new Date(now - 45_000),
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            _id: CustomerTier.STANDARD,
+            processed: 340,
+            averageWaitMs: 8199.6,
+            maxWaitMs: 61_000,
+          },
+          {
+            _id: CustomerTier.GOLD,
+            processed: 20,
+            averageWaitMs: 900,
+            maxWaitMs: 2_000,
+          },
+        ]);
+
+      // Act
+      const stats = await service.getWaitTimeStats(since, new Date(now));
+
+      // Assert
+      expect(orderModel.aggregate).toHaveBeenCalledWith([
+        { $match: { status: OrderStatus.PENDING } },
+        expect.any(Object),
+      ]);
+      expect(orderModel.aggregate.mock.calls[1][0][0]).toEqual({
+        $match: { createdAt: { $gte: since } },
+      });
+      expect(stats).toEqual([
+        {
+          tier: CustomerTier.PLATINUM,
+          priority: 1,
+          waiting: 0,
+          oldestWaitMs: null,
+          processed: 0,
+          averageWaitMs: null,
+          maxWaitMs: null,
+        },
+        {
+          tier: CustomerTier.GOLD,
+          priority: 5,
+          waiting: 0,
+          oldestWaitMs: null,
+          processed: 20,
+          averageWaitMs: 900,
+          maxWaitMs: 2_000,
+        },
+        {
+          tier: CustomerTier.VIP,
+          priority: 10,
+          waiting: 0,
+          oldestWaitMs: null,
+          processed: 0,
+          averageWaitMs: null,
+          maxWaitMs: null,
+        },
+        {
+          tier: CustomerTier.STANDARD,
+          priority: 20,
+          waiting: 12,
+          oldestWaitMs: 45_000,
+          processed: 340,
+          averageWaitMs: 8200,
+          maxWaitMs: 61_000,
+        },
+      ]);
+    });
+  });
+});
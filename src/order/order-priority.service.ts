@@ -0,0 +1,246 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { InjectModel } from '@nestjs/mongoose';
+import { Job, Queue } from 'bullmq';
+import { Model } from 'mongoose';
+import { ORDER_QUEUE_NAME } from './order.constants';
+import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
+import { OrderPayload } from './order.service';
+import { CustomerTier } from '../users/customer-tier';
+
+export interface PriorityAgingReport {
+  checked: number;
+  promoted: number;
+}
+
+export interface TierWaitTimeStats {
+  tier: CustomerTier;
+  priority: number;
+  // Orders still PENDING right now
+  waiting: number;
+  oldestWaitMs: number | null;
+  // Orders of the window that have started processing
+  processed: number;
+  averageWaitMs: number | null;
+  maxWaitMs: number | null;
+}
+
+// Highest priority BullMQ accepts (lower numbers run first)
+const MAX_BULLMQ_PRIORITY = 2_097_152;
+
+/**
+ * Maps customer tiers to BullMQ priorities and ages waiting jobs, so that
+ * every job reaches the top priority within ORDER_PRIORITY_MAX_WAIT_SECONDS
+ * no matter how many higher-tier orders keep arriving.
+ */
+@Injectable()
+export class OrderPriorityService {
+  private readonly logger = new Logger(OrderPriorityService.name);
+
+  private readonly PAGE_SIZE = 500;
+
+  // Bounds one aging run; jobs beyond it are aged by the next run
+  private readonly MAX_JOBS_PER_RUN = 5000;
+
+  private readonly tierPriorities: Record<CustomerTier, number>;
+
+  private readonly topPriority: number;
+
+  private readonly maxWaitMs: number;
+
+  constructor(
+    @InjectQueue(ORDER_QUEUE_NAME) private readonly orderQueue: Queue,
+    @InjectModel(Order.name) private readonly orderModel: Model<OrderDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    this.tierPriorities = {
+      [CustomerTier.PLATINUM]: this.readPriority('ORDER_PRIORITY_PLATINUM', 1),
+      [CustomerTier.GOLD]: this.readPriority('ORDER_PRIORITY_GOLD', 5),
+      [CustomerTier.VIP]: this.readPriority('ORDER_PRIORITY_VIP', 10),
+      [CustomerTier.STANDARD]: this.readPriority('ORDER_PRIORITY_STANDARD', 20),
+    };
+    this.topPriority = Math.min(...Object.values(this.tierPriorities));
+    this.maxWaitMs =
+      Number(
+        this.configService.get<string>(
+          'ORDER_PRIORITY_MAX_WAIT_SECONDS',
+          '300',
+        ),
+      ) * 1000;
+  }
+
+  priorityFor(tier: CustomerTier): number {
+    return this.tierPriorities[tier] ?? this.tierPriorities.STANDARD;
+  }
+
+  /**
+   * Priority a job of the given tier should have after waiting since queuedAt:
+   * it climbs linearly from the tier's priority to the top priority, which it
+   * reaches once it has waited the maximum wait time
+   */
+  agedPriority(tier: CustomerTier, queuedAt: number, now = Date.now()): number {
+    const basePriority = this.priorityFor(tier);
+    const progress =
+      this.maxWaitMs > 0 ? Math.min(1, (now - queuedAt) / this.maxWaitMs) : 1;
+
+    return Math.max(
+      this.topPriority,
+      basePriority - Math.floor((basePriority - this.topPriority) * progress),
+    );
+  }
+
+  /**
+   * Promotes prioritized order jobs that are due for a higher priority.
+   * Least urgent jobs are checked first, as they are the ones at risk of
+   * starving. Retries keep the age of the original job.
+   */
+  async ageWaitingJobs(now = Date.now()): Promise<PriorityAgingReport> {
+    const report: PriorityAgingReport = { checked: 0, promoted: 0 };
+
+    while (report.checked < this.MAX_JOBS_PER_RUN) {
+      const jobs = (await this.orderQueue.getJobs(
+        ['prioritized'],
+        report.checked,
+        report.checked + this.PAGE_SIZE - 1,
+      )) as Job<OrderPayload>[];
+
+      for (const job of jobs) {
+        const agedPriority = this.agedPriority(
+          this.tierOf(job.data),
+          job.timestamp,
+          now,
+        );
+        if (agedPriority >= job.priority) {
+          continue;
+        }
+
+        try {
+          await job.changePriority({ priority: agedPriority });
+          report.promoted++;
+        } catch (error) {
+          // Picked up by a worker (or removed) since it was listed
+          this.logger.debug(
+            `Could not promote job ${job.id}: ${error.message}`,
+          );
+        }
+      }
+
+      report.checked += jobs.length;
+      if (jobs.length < this.PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Wait time per tier: how many orders are waiting now and for how long,
+   * and how long orders placed since `since` waited before processing first
+   * started. Wait time is measured from order creation, so it includes time
+   * spent in the outbox.
+   */
+  async getWaitTimeStats(
+    since: Date,
+    now = new Date(),
+  ): Promise<TierWaitTimeStats[]> {
+    const [waiting, processed] = await Promise.all([
+      this.orderModel.aggregate<{
+        _id: CustomerTier;
+        waiting: number;
+        oldestCreatedAt: Date;
+      }>([
+        { $match: { status: OrderStatus.PENDING } },
+        {
+          $group: {
+            _id: '$priorityTier',
+            waiting: { $sum: 1 },
+            oldestCreatedAt: { $min: '$createdAt' },
+          },
+        },
+      ]),
+      this.orderModel.aggregate<{
+        _id: CustomerTier;
+        processed: number;
+        averageWaitMs: number;
+        maxWaitMs: number;
+      }>([
+        { $match: { createdAt: { $gte: since } } },
+        {
+          $project: {
+            priorityTier: 1,
+            waitMs: {
+              $subtract: [
+                {
+                  $min: {
+                    $map: {
+                      input: {
+                        $filter: {
+                          input: '$statusHistory',
+                          cond: { $eq: ['$$this.to', OrderStatus.PROCESSING] },
+                        },
+                      },
+                      in: '$$this.changedAt',
+                    },
+                  },
+                },
+                '$createdAt',
+              ],
+            },
+          },
+        },
+        { $match: { waitMs: { $ne: null } } },
+        {
+          $group: {
+            _id: '$priorityTier',
+            processed: { $sum: 1 },
+            averageWaitMs: { $avg: '$waitMs' },
+            maxWaitMs: { $max: '$waitMs' },
+          },
+        },
+      ]),
+    ]);
+
+    return Object.values(CustomerTier).map((tier) => {
+      const current = waiting.find((entry) => entry._id === tier);
+      const history = processed.find((entry) => entry._id === tier);
+
+      return {
+        tier,
+        priority: this.priorityFor(tier),
+        waiting: current?.waiting ?? 0,
+        oldestWaitMs: current
+          ? now.getTime() - current.oldestCreatedAt.getTime()
+          : null,
+        processed: history?.processed ?? 0,
+        averageWaitMs: history ? Math.round(history.averageWaitMs) : null,
+        maxWaitMs: history?.maxWaitMs ?? null,
+      };
+    });
+  }
+
+  // Jobs queued before tiers existed only know the VIP flag
+  private tierOf(payload: OrderPayload): CustomerTier {
+    return (
+      payload.priorityTier ??
+      (payload.isVipOrder ? CustomerTier.VIP : CustomerTier.STANDARD)
+    );
+  }
+
+  private readPriority(key: string, defaultPriority: number): number {
+    const priority = Number(
+      this.configService.get<string>(key, String(defaultPriority)),
+    );
+    if (
+      !Number.isInteger(priority) ||
+      priority < 1 ||
+      priority > MAX_BULLMQ_PRIORITY
+    ) {
+      throw new Error(
+        `${key} must be an integer between 1 and ${MAX_BULLMQ_PRIORITY}`,
+      );
+    }
+    return priority;
+  }
+}
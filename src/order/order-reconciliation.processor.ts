@@ -0,0 +1,52 @@
+import { InjectQueue, Processor } from '@nestjs/bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bullmq';
+import { RepeatingJobProcessor } from '../common/scheduling/repeating-job.processor';
+import {
+  ORDER_RECONCILIATION_QUEUE_NAME,
+  RECONCILE_ORDERS_JOB,
+} from './order.constants';
+import {
+  OrderReconciliationReport,
+  OrderReconciliationService,
+} from './order-reconciliation.service';
+
+/**
+ * Periodically runs the order reconciliation, which recovers PENDING orders
+ * whose processing job was lost and reports failed stock rollbacks
+ */
+@Injectable()
+@Processor(ORDER_RECONCILIATION_QUEUE_NAME)
+export class OrderReconciliationProcessor extends RepeatingJobProcessor {
+  private readonly logger = new Logger(OrderReconciliationProcessor.name);
+
+  constructor(
+    @InjectQueue(ORDER_RECONCILIATION_QUEUE_NAME) reconciliationQueue: Queue,
+    private readonly orderReconciliationService: OrderReconciliationService,
+    configService: ConfigService,
+  ) {
+    super(
+      reconciliationQueue,
+      RECONCILE_ORDERS_JOB,
+      configService,
+      'ORDER_RECONCILIATION_INTERVAL_MS',
+      300000,
+    );
+  }
+
+  async process(job: Job): Promise<OrderReconciliationReport> {
+    const report = await this.orderReconciliationService.reconcile();
+
+    if (
+      report.requeued > 0 ||
+      report.failed > 0 ||
+      report.rollbackFailures > 0
+    ) {
+      this.logger.warn(
+        `Order reconciliation (job ${job.id}) - Checked: ${report.checked}, Requeued: ${report.requeued}, Failed: ${report.failed}, Rollback failures: ${report.rollbackFailures}`,
+      );
+    }
+    return report;
+  }
+}
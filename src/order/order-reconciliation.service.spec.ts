@@ -0,0 +1,260 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { getQueueToken } from '@nestjs/bullmq';
+import { Types } from 'mongoose';
+import { OrderReconciliationService } from './order-reconciliation.service';
+import { OrderService } from './order.service';
+import { OrderOutboxService } from './order-outbox.service';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEventType } from '../webhooks/entities/webhook-endpoint.entity';
+import { ORDER_QUEUE_NAME } from './order.constants';
+import { Order, OrderOutboxStatus, OrderStatus } from './entities/order.entity';
+
+describe('OrderReconciliationService', () => {
+  let service: OrderReconciliationService;
+  let orderQueue: { getJob: jest.Mock };
+  let orderModel: { find: jest.Mock };
+  let orderService: { failPendingOrder: jest.Mock };
+  let orderOutboxService: { requeue: jest.Mock };
+  let stockRollbackFailureService: {
+    takeUnreported: jest.Mock;
+    enqueueOutstanding: jest.Mock;
+  };
+  let webhooksService: { dispatch: jest.Mock };
+
+  const orderId = '507f1f77bcf86cd799439014';
+
+  const staleOrder = (requeues = 0) => ({
+    _id: new Types.ObjectId(orderId),
+    status: OrderStatus.PENDING,
+    outbox: { status: OrderOutboxStatus.DISPATCHED, requeues },
+  });
+
+  const mockStaleOrders = (orders: object[]) =>
+    orderModel.find.mockReturnValue({
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(orders),
+    });
+
+  const mockJob = (state: string, extra: object = {}) => {
+    const job = {
+      getState: jest.fn().mockResolvedValue(state),
+      remove: jest.fn(),
+      ...extra,
+    };
+    orderQueue.getJob.mockResolvedValue(job);
+    return job;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderReconciliationService,
+        {
+          provide: getQueueToken(ORDER_QUEUE_NAME),
+          useValue: { getJob: jest.fn() },
+        },
+        {
+          provide: getModelToken(Order.name),
+          useValue: { find: jest.fn() },
+        },
+        {
+          provide: OrderService,
+          useValue: { failPendingOrder: jest.fn() },
+        },
+        {
+          provide: OrderOutboxService,
+          useValue: { requeue: jest.fn() },
+        },
+        {
+          provide: StockRollbackFailureService,
+          useValue: {
+            takeUnreported: jest.fn(),
+            enqueueOutstanding: jest.fn(),
+          },
+        },
+        {
+          provide: WebhooksService,
+          useValue: { dispatch: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderReconciliationService>(
+      OrderReconciliationService,
+    );
+    orderQueue = module.get(getQueueToken(ORDER_QUEUE_NAME));
+    orderModel = module.get(getModelToken(Order.name));
+    orderService = module.get(OrderService);
+    orderOutboxService = module.get(OrderOutboxService);
+    stockRollbackFailureService = module.get(StockRollbackFailureService);
+    webhooksService = module.get(WebhooksService);
+
+    mockStaleOrders([staleOrder()]);
+    orderQueue.getJob.mockResolvedValue(undefined);
+    orderOutboxService.requeue.mockResolvedValue(true);
+    stockRollbackFailureService.takeUnreported.mockResolvedValue([]);
+  });
+
+  it('should only look at PENDING orders untouched for longer than the threshold', async () => {
+    // Arrange
+    const now = new Date('2024-01-15T10:30:00.000Z');
+
+    // Act
+    await service.reconcile(now);
+
+    // Assert
+    expect(orderModel.find).toHaveBeenCalledWith({
+      status: OrderStatus.PENDING,
+      updatedAt: { $lte: new Date('2024-01-15T10:20:00.000Z') },
+      'outbox.status': { $ne: OrderOutboxStatus.PENDING },
+    });
+  });
+
+  it('should leave orders whose job is still queued', async () => {
+    // Arrange
+    mockJob('waiting');
+
+    // Act
+    const report = await service.reconcile();
+
+    // Assert
+    expect(orderOutboxService.requeue).not.toHaveBeenCalled();
+    expect(orderService.failPendingOrder).not.toHaveBeenCalled();
+    expect(report).toEqual({
+      checked: 1,
+      requeued: 0,
+      failed: 0,
+      rollbackFailures: 0,
+    });
+  });
+
+  it('should requeue an order whose job is missing', async () => {
+    // Act
+    const report = await service.reconcile();
+
+    // Assert
+    expect(orderOutboxService.requeue).toHaveBeenCalledWith(orderId);
+    expect(report.requeued).toBe(1);
+  });
+
+  it('should remove a completed job before requeueing', async () => {
+    // Arrange
+    const job = mockJob('completed');
+
+    // Act
+    await service.reconcile();
+
+    // Assert
+    expect(job.remove).toHaveBeenCalled();
+    expect(orderOutboxService.requeue).toHaveBeenCalledWith(orderId);
+  });
+
+  it('should fail the order once it was requeued too often', async () => {
+    // Arrange
+    const failedOrder = {
+      _id: new Types.ObjectId(orderId),
+      userId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+      lineItems: [],
+      status: OrderStatus.FAILED,
+    };
+    mockStaleOrders([staleOrder(3)]);
+    orderService.failPendingOrder.mockResolvedValue(failedOrder);
+
+    // Act
+    const report = await service.reconcile();
+
+    // Assert
+    expect(orderOutboxService.requeue).not.toHaveBeenCalled();
+    expect(orderService.failPendingOrder).toHaveBeenCalledWith(
+      orderId,
+      'system:order-reconciliation',
+      'Processing job was lost',
+    );
+    expect(webhooksService.dispatch).toHaveBeenCalledWith(
+      WebhookEventType.ORDER_FAILED,
+      expect.objectContaining({ orderId, status: OrderStatus.FAILED }),
+    );
+    expect(report.failed).toBe(1);
+  });
+
+  it('should fail the order with the error of a job that failed for good', async () => {
+    // Arrange
+    mockJob('failed', { failedReason: 'Payment gateway timeout' });
+
+    // Act
+    await service.reconcile();
+
+    // Assert
+    expect(orderOutboxService.requeue).not.toHaveBeenCalled();
+    expect(orderService.failPendingOrder).toHaveBeenCalledWith(
+      orderId,
+      'system:order-reconciliation',
+      'Payment gateway timeout',
+    );
+  });
+
+  it('should fail orders created before the outbox existed', async () => {
+    // Arrange
+    mockStaleOrders([{ _id: new Types.ObjectId(orderId) }]);
+
+    // Act
+    await service.reconcile();
+
+    // Assert
+    expect(orderOutboxService.requeue).not.toHaveBeenCalled();
+    expect(orderService.failPendingOrder).toHaveBeenCalled();
+  });
+
+  it('should keep going when one order cannot be reconciled', async () => {
+    // Arrange
+    mockStaleOrders([staleOrder(), staleOrder()]);
+    orderQueue.getJob
+      .mockRejectedValueOnce(new Error('Redis connection lost'))
+      .mockResolvedValueOnce(undefined);
+
+    // Act
+    const report = await service.reconcile();
+
+    // Assert
+    expect(report.requeued).toBe(1);
+  });
+
+  it('should report failed stock rollbacks', async () => {
+    // Arrange
+    mockStaleOrders([]);
+    stockRollbackFailureService.takeUnreported.mockResolvedValue([
+      {
+        orderId: new Types.ObjectId(orderId),
+        stockId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+        quantity: 2,
+        error: 'Max retries exceeded due to version conflicts',
+        source: 'system:order-processor',
+        createdAt: new Date(),
+      },
+    ]);
+
+    // Act
+    const report = await service.reconcile();
+
+    // Assert
+    expect(report.rollbackFailures).toBe(1);
+  });
+
+  it('should queue outstanding stock compensations again', async () => {
+    // Act
+    await service.reconcile();
+
+    // Assert
+    expect(stockRollbackFailureService.enqueueOutstanding).toHaveBeenCalled();
+  });
+});
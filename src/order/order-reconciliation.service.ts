@@ -0,0 +1,187 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { InjectModel } from '@nestjs/mongoose';
+import { JobState, Queue } from 'bullmq';
+import { Model } from 'mongoose';
+import { ORDER_QUEUE_NAME } from './order.constants';
+import {
+  Order,
+  OrderDocument,
+  OrderOutboxStatus,
+  OrderStatus,
+} from './entities/order.entity';
+import { OrderService } from './order.service';
+import { OrderOutboxService } from './order-outbox.service';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEventType } from '../webhooks/entities/webhook-endpoint.entity';
+import { toOrderWebhookData } from './order-webhook.payload';
+import { removeOrderFlow } from './order-flow';
+
+export interface OrderReconciliationReport {
+  checked: number;
+  requeued: number;
+  failed: number;
+  rollbackFailures: number;
+}
+
+// Job states in which the job will still settle the order on its own
+const LIVE_JOB_STATES: (JobState | 'unknown')[] = [
+  'waiting',
+  'waiting-children',
+  'delayed',
+  'prioritized',
+  'active',
+];
+
+@Injectable()
+export class OrderReconciliationService {
+  private readonly logger = new Logger(OrderReconciliationService.name);
+
+  private readonly ACTOR = 'system:order-reconciliation';
+
+  private readonly BATCH_SIZE = 100;
+
+  private readonly staleAfterMs: number;
+
+  private readonly maxRequeues: number;
+
+  constructor(
+    @InjectQueue(ORDER_QUEUE_NAME) private readonly orderQueue: Queue,
+    @InjectModel(Order.name) private readonly orderModel: Model<OrderDocument>,
+    private readonly orderService: OrderService,
+    private readonly orderOutboxService: OrderOutboxService,
+    private readonly stockRollbackFailureService: StockRollbackFailureService,
+    private readonly webhooksService: WebhooksService,
+    private readonly configService: ConfigService,
+  ) {
+    this.staleAfterMs =
+      Number(
+        this.configService.get<string>(
+          'ORDER_RECONCILIATION_STALE_AFTER_MINUTES',
+          '10',
+        ),
+      ) * 60_000;
+    this.maxRequeues = Number(
+      this.configService.get<string>('ORDER_RECONCILIATION_MAX_REQUEUES', '3'),
+    );
+  }
+
+  /**
+   * Checks PENDING orders untouched for longer than the stale threshold.
+   * An order whose job is gone (evicted or lost with Redis) is published
+   * again up to maxRequeues times and failed after that; an order whose job
+   * failed for good is failed right away. Also reports stock rollbacks that
+   * failed since the last run and queues outstanding compensations whose
+   * job was lost.
+   */
+  async reconcile(now: Date = new Date()): Promise<OrderReconciliationReport> {
+    const staleOrders = await this.orderModel
+      .find({
+        status: OrderStatus.PENDING,
+        updatedAt: { $lte: new Date(now.getTime() - this.staleAfterMs) },
+        // Entries not yet published belong to the outbox relay
+        'outbox.status': { $ne: OrderOutboxStatus.PENDING },
+      })
+      .sort({ updatedAt: 1 })
+      .limit(this.BATCH_SIZE)
+      .exec();
+
+    const report: OrderReconciliationReport = {
+      checked: staleOrders.length,
+      requeued: 0,
+      failed: 0,
+      rollbackFailures: 0,
+    };
+
+    for (const order of staleOrders) {
+      try {
+        const outcome = await this.reconcileOrder(order);
+        if (outcome === 'requeued') {
+          report.requeued++;
+        } else if (outcome === 'failed') {
+          report.failed++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to reconcile order ${order._id.toString()}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    report.rollbackFailures = await this.reportRollbackFailures();
+    await this.stockRollbackFailureService.enqueueOutstanding();
+
+    return report;
+  }
+
+  private async reconcileOrder(
+    order: OrderDocument,
+  ): Promise<'requeued' | 'failed' | null> {
+    const orderId = order._id.toString();
+
+    const job = await this.orderQueue.getJob(orderId);
+    const state = job ? await job.getState() : null;
+    if (state && LIVE_JOB_STATES.includes(state)) {
+      return null;
+    }
+
+    // A failed job used up its retries - settle the order the way the DLQ listener would have
+    const cause =
+      state === 'failed'
+        ? job!.failedReason || 'Job processing failed after all retries'
+        : state
+          ? `Processing job ended (${state}) without settling the order`
+          : 'Processing job was lost';
+
+    if (
+      state !== 'failed' &&
+      order.outbox &&
+      (order.outbox.requeues ?? 0) < this.maxRequeues
+    ) {
+      // Finished jobs keep their IDs taken - remove the whole flow so it can be added again
+      await removeOrderFlow(this.orderQueue, orderId);
+
+      if (await this.orderOutboxService.requeue(orderId)) {
+        this.logger.warn(`${cause} for PENDING order ${orderId}, requeued`);
+        return 'requeued';
+      }
+      return null;
+    }
+
+    const failedOrder = await this.orderService.failPendingOrder(
+      orderId,
+      this.ACTOR,
+      cause,
+    );
+    if (!failedOrder) {
+      return null;
+    }
+
+    this.logger.warn(`${cause} for PENDING order ${orderId}, marked FAILED`);
+    await this.webhooksService.dispatch(
+      WebhookEventType.ORDER_FAILED,
+      toOrderWebhookData(failedOrder),
+    );
+    return 'failed';
+  }
+
+  /**
+   * Logs every stock rollback that failed since the last run, while the
+   * compensation queue retries giving the units back. Returns how many were
+   * reported.
+   */
+  private async reportRollbackFailures(): Promise<number> {
+    const failures = await this.stockRollbackFailureService.takeUnreported();
+
+    for (const failure of failures) {
+      this.logger.error(
+        `CRITICAL: Stock ${failure.stockId.toString()} is missing ${failure.quantity} unit(s) since a rollback for order ${failure.orderId.toString()} failed at ${failure.createdAt.toISOString()} (${failure.source}): ${failure.error}`,
+      );
+    }
+
+    return failures.length;
+  }
+}
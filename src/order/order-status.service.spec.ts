@@ -0,0 +1,262 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OrderStatusService } from './order-status.service';
+import { Order, OrderStatus } from './entities/order.entity';
+import { InvalidStatusTransitionError } from './order.errors';
+import { OrderEventsService } from './order-events.service';
+
+describe('OrderStatusService', () => {
+  let service: OrderStatusService;
+  let orderModel: { findOne: jest.Mock; findOneAndUpdate: jest.Mock };
+  let orderEventsService: { publish: jest.Mock };
+
+  const orderId = '507f1f77bcf86cd799439014';
+
+  const orderWithStatus = (status: OrderStatus) => ({
+    _id: new Types.ObjectId(orderId),
+    status,
+  });
+
+  const mockFindOne = (...orders: any[]) => {
+    for (const order of orders) {
+      orderModel.findOne.mockReturnValueOnce({
+        exec: jest.fn().mockResolvedValue(order),
+      });
+    }
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderStatusService,
+        {
+          provide: getModelToken(Order.name),
+          useValue: {
+            findOne: jest.fn(),
+            findOneAndUpdate: jest.fn(),
+          },
+        },
+        {
+          provide: OrderEventsService,
+          useValue: {
+            publish: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderStatusService>(OrderStatusService);
+    orderModel = module.get(getModelToken(Order.name));
+    orderEventsService = module.get(OrderEventsService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('transition', () => {
+    it('should update the status conditionally and append a history entry', async () => {
+      // Arrange
+      mockFindOne(orderWithStatus(OrderStatus.PENDING));
+      orderModel.findOneAndUpdate.mockResolvedValue(
+        orderWithStatus(OrderStatus.PROCESSING),
+      );
+
+      // Act
+      const result = await service.transition(orderId, OrderStatus.PROCESSING, {
+        changedBy: 'system:order-processor',
+        reason: 'Processing attempt 1',
+      });
+
+      // Assert
+      expect(result.previousStatus).toBe(OrderStatus.PENDING);
+      expect(result.order.status).toBe(OrderStatus.PROCESSING);
+      expect(orderModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: orderId, status: OrderStatus.PENDING },
+        {
+          $set: { status: OrderStatus.PROCESSING },
+          $push: {
+            statusHistory: {
+              from: OrderStatus.PENDING,
+              to: OrderStatus.PROCESSING,
+              changedBy: 'system:order-processor',
+              reason: 'Processing attempt 1',
+              changedAt: expect.any(Date),
+            },
+          },
+        },
+        { new: true },
+      );
+      expect(orderEventsService.publish).toHaveBeenCalledWith(result.order);
+    });
+
+    it('should set the failure reason when one is given', async () => {
+      // Arrange
+      mockFindOne(orderWithStatus(OrderStatus.PROCESSING));
+      orderModel.findOneAndUpdate.mockResolvedValue(
+        orderWithStatus(OrderStatus.FAILED),
+      );
+
+      // Act
+      await service.transition(orderId, OrderStatus.FAILED, {
+        changedBy: 'system:order-processor',
+        failureReason: 'Insufficient stock',
+      });
+
+      // Assert
+      expect(orderModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({
+          $set: {
+            status: OrderStatus.FAILED,
+            failureReason: 'Insufficient stock',
+          },
+        }),
+        { new: true },
+      );
+    });
+
+    it('should write the extra fields with the status change', async () => {
+      // Arrange
+      const lineItems = [{ stockId: 'stock-2', quantity: 1 }];
+      mockFindOne(orderWithStatus(OrderStatus.PROCESSING));
+      orderModel.findOneAndUpdate.mockResolvedValue(
+        orderWithStatus(OrderStatus.CONFIRMED),
+      );
+
+      // Act
+      await service.transition(orderId, OrderStatus.CONFIRMED, {
+        changedBy: 'system:order-processor',
+        set: { lineItems },
+      });
+
+      // Assert
+      expect(orderModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({
+          $set: { lineItems, status: OrderStatus.CONFIRMED },
+        }),
+        { new: true },
+      );
+    });
+
+    it('should reject transitions missing from the transition table', async () => {
+      // Arrange
+      mockFindOne(orderWithStatus(OrderStatus.PENDING));
+
+      // Act & Assert
+      await expect(
+        service.transition(orderId, OrderStatus.SHIPPED, {
+          changedBy: 'admin',
+        }),
+      ).rejects.toThrow(InvalidStatusTransitionError);
+      expect(orderModel.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(orderEventsService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should never leave a terminal status', async () => {
+      // Arrange
+      mockFindOne(orderWithStatus(OrderStatus.CANCELLED));
+
+      // Act & Assert
+      await expect(
+        service.transition(orderId, OrderStatus.PROCESSING, {
+          changedBy: 'system:order-processor',
+        }),
+      ).rejects.toThrow('Order cannot move from CANCELLED to PROCESSING');
+    });
+
+    it('should honour a narrower allowedFrom list', async () => {
+      // Arrange - DELIVERED -> REFUNDED is in the table but excluded by allowedFrom
+      mockFindOne(orderWithStatus(OrderStatus.DELIVERED));
+
+      // Act & Assert
+      await expect(
+        service.transition(orderId, OrderStatus.REFUNDED, {
+          changedBy: 'admin',
+          allowedFrom: [OrderStatus.CONFIRMED],
+        }),
+      ).rejects.toThrow(InvalidStatusTransitionError);
+    });
+
+    it('should apply the extra filter to both the read and the update', async () => {
+      // Arrange
+      const userId = '507f1f77bcf86cd799439011';
+      mockFindOne(orderWithStatus(OrderStatus.PENDING));
+      orderModel.findOneAndUpdate.mockResolvedValue(
+        orderWithStatus(OrderStatus.CANCELLED),
+      );
+
+      // Act
+      await service.transition(orderId, OrderStatus.CANCELLED, {
+        changedBy: userId,
+        filter: { userId },
+      });
+
+      // Assert
+      expect(orderModel.findOne).toHaveBeenCalledWith({ _id: orderId, userId });
+      expect(orderModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: orderId, userId, status: OrderStatus.PENDING },
+        expect.any(Object),
+        { new: true },
+      );
+    });
+
+    it('should re-validate against the new status when it changed concurrently', async () => {
+      // Arrange - the processor confirms the order between read and update
+      mockFindOne(
+        orderWithStatus(OrderStatus.PROCESSING),
+        orderWithStatus(OrderStatus.CONFIRMED),
+      );
+      orderModel.findOneAndUpdate
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(orderWithStatus(OrderStatus.CANCELLED));
+
+      // Act
+      const result = await service.transition(orderId, OrderStatus.CANCELLED, {
+        changedBy: 'user',
+      });
+
+      // Assert
+      expect(result.previousStatus).toBe(OrderStatus.CONFIRMED);
+      expect(orderModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { _id: orderId, status: OrderStatus.CONFIRMED },
+        expect.any(Object),
+        { new: true },
+      );
+    });
+
+    it('should give up with 409 after repeated concurrent changes', async () => {
+      // Arrange
+      orderModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(orderWithStatus(OrderStatus.PENDING)),
+      });
+      orderModel.findOneAndUpdate.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.transition(orderId, OrderStatus.CANCELLED, {
+          changedBy: 'user',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(orderModel.findOneAndUpdate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should throw 404 for unknown or invalid order IDs', async () => {
+      // Arrange
+      mockFindOne(null);
+
+      // Act & Assert
+      await expect(
+        service.transition(orderId, OrderStatus.CANCELLED, {
+          changedBy: 'user',
+        }),
+      ).rejects.toThrow(NotFoundException);
+      await expect(
+        service.transition('not-an-id', OrderStatus.CANCELLED, {
+          changedBy: 'user',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
+import { canTransition } from './order-status.transitions';
+import { InvalidStatusTransitionError } from './order.errors';
+import { OrderEventsService } from './order-events.service';
+
+export interface StatusTransitionOptions {
+  changedBy: string; // User ID, or "system:<component>"
+  reason?: string;
+  failureReason?: string; // Overwrites Order.failureReason when set
+  allowedFrom?: OrderStatus[]; // Further restricts the statuses the order may leave
+  filter?: Record<string, unknown>; // Extra match conditions, e.g. { userId }
+  set?: Record<string, unknown>; // Extra fields written with the status change
+}
+
+export interface StatusTransitionResult {
+  order: OrderDocument;
+  previousStatus: OrderStatus;
+}
+
+@Injectable()
+export class OrderStatusService {
+  private readonly logger = new Logger(OrderStatusService.name);
+
+  private readonly MAX_ATTEMPTS = 3;
+
+  constructor(
+    @InjectModel(Order.name) private readonly orderModel: Model<OrderDocument>,
+    private readonly orderEventsService: OrderEventsService,
+  ) {}
+
+  /**
+   * Moves an order to a new status and appends the change to its history.
+   * The update is conditional on the status that was read, so two concurrent
+   * changes can never both apply; the loser re-reads and re-validates.
+   * Throws InvalidStatusTransitionError when the transition is not allowed.
+   */
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    options: StatusTransitionOptions,
+  ): Promise<StatusTransitionResult> {
+    const filter = { _id: orderId, ...options.filter };
+
+    for (let attempt = 0; attempt < this.MAX_ATTEMPTS; attempt++) {
+      const order = Types.ObjectId.isValid(orderId)
+        ? await this.orderModel.findOne(filter).exec()
+        : null;
+      if (!order) {
+        throw new NotFoundException(`Order with ID ${orderId} not found`);
+      }
+
+      const from = order.status;
+      if (
+        !canTransition(from, to) ||
+        (options.allowedFrom && !options.allowedFrom.includes(from))
+      ) {
+        throw new InvalidStatusTransitionError(from, to);
+      }
+
+      const update: Record<string, unknown> = { ...options.set, status: to };
+      if (options.failureReason !== undefined) {
+        update.failureReason = options.failureReason;
+      }
+
+      const updatedOrder = await this.orderModel.findOneAndUpdate(
+        { ...filter, status: from },
+        {
+          $set: update,
+          $push: {
+            statusHistory: {
+              from,
+              to,
+              changedBy: options.changedBy,
+              reason: options.reason ?? '',
+              changedAt: new Date(),
+            },
+          },
+        },
+        { new: true },
+      );
+
+      if (updatedOrder) {
+        this.logger.log(
+          `Order ${orderId} moved from ${from} to ${to} by ${options.changedBy}`,
+        );
+        this.orderEventsService.publish(updatedOrder);
+        return { order: updatedOrder, previousStatus: from };
+      }
+
+      // Status changed between read and update - re-evaluate against the new status
+      this.logger.warn(
+        `Order ${orderId} changed status while moving to ${to}, retrying`,
+      );
+    }
+
+    throw new ConflictException(
+      `Order ${orderId} is being updated concurrently, please try again`,
+    );
+  }
+}
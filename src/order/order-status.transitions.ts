@@ -0,0 +1,46 @@
+import { OrderStatus } from './entities/order.entity';
+
+/**
+ * Allowed order status transitions. Anything not listed here is rejected.
+ * PROCESSING -> PENDING is used when a processing attempt fails transiently and the job is retried.
+ * FAILED -> PENDING is only used when an order is replayed from the dead-letter queue.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [
+    OrderStatus.PROCESSING,
+    OrderStatus.CANCELLED,
+    OrderStatus.FAILED,
+  ],
+  [OrderStatus.PROCESSING]: [
+    OrderStatus.CONFIRMED,
+    OrderStatus.PENDING,
+    OrderStatus.CANCELLED,
+    OrderStatus.FAILED,
+  ],
+  [OrderStatus.CONFIRMED]: [
+    OrderStatus.SHIPPED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REFUNDED,
+  ],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
+  [OrderStatus.DELIVERED]: [OrderStatus.REFUNDED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REFUNDED]: [],
+  [OrderStatus.FAILED]: [OrderStatus.PENDING],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status]?.length === 0;
+}
+
+/**
+ * Whether OrderProcessor is done with the order, so the customer knows the outcome.
+ * Later statuses (SHIPPED, REFUNDED, ...) are set by administrators, not by processing.
+ */
+export function isProcessingComplete(status: OrderStatus): boolean {
+  return status !== OrderStatus.PENDING && status !== OrderStatus.PROCESSING;
+}
@@ -0,0 +1,23 @@
+import { OrderDocument } from './entities/order.entity';
+
+/**
+ * `data` of order.* webhook events. Only IDs and amounts - partners look up anything else through the API.
+ */
+export function toOrderWebhookData(
+  order: OrderDocument,
+): Record<string, unknown> {
+  return {
+    orderId: order._id.toString(),
+    userId: order.userId.toString(),
+    status: order.status,
+    totalAmount: order.totalAmount,
+    isVipOrder: order.isVipOrder,
+    failureReason: order.failureReason,
+    lineItems: order.lineItems.map((lineItem) => ({
+      productId: lineItem.productId.toString(),
+      stockId: lineItem.stockId.toString(),
+      quantity: lineItem.quantity,
+      priceAtPurchase: lineItem.priceAtPurchase,
+    })),
+  };
+}
@@ -1 +1,20 @@
 export const ORDER_QUEUE_NAME = 'order-processing';
+
+// Has no worker - permanently failed order jobs wait here until replayed or purged
+export const ORDER_DEAD_LETTER_QUEUE_NAME = 'order-dead-letter';
+
+export const ORDER_OUTBOX_QUEUE_NAME = 'order-outbox-relay';
+
+export const RELAY_ORDER_OUTBOX_JOB = 'relay-order-outbox';
+
+export const ORDER_RECONCILIATION_QUEUE_NAME = 'order-reconciliation';
+
+export const RECONCILE_ORDERS_JOB = 'reconcile-orders';
+
+export const ORDER_PRIORITY_AGING_QUEUE_NAME = 'order-priority-aging';
+
+export const AGE_ORDER_PRIORITIES_JOB = 'age-order-priorities';
+
+export const STOCK_COMPENSATION_QUEUE_NAME = 'stock-compensation';
+
+export const RETRY_STOCK_COMPENSATION_JOB = 'retry-stock-compensation';
@@ -1,14 +1,35 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
 import { getModelToken } from '@nestjs/mongoose';
 import { getQueueToken } from '@nestjs/bullmq';
 import { OrderController } from './order.controller';
 import { OrderService } from './order.service';
-import { Order } from './entities/order.entity';
+import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
 import { StockService } from '../stock/stock.service';
+import { StockAllocationService } from '../stock/stock-allocation.service';
 import { ORDER_QUEUE_NAME } from './order.constants';
+import { IdempotencyService } from './idempotency.service';
+import { OrderStatusService } from './order-status.service';
+import { OrderEventsService } from './order-events.service';
+import { UsersService } from '../users/users.service';
+import { PaymentsService } from '../payments/payments.service';
+import { OrderOutboxService } from './order-outbox.service';
+import { OrderPriorityService } from './order-priority.service';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import { PurchaseLimitService } from './purchase-limit.service';
+import { FlashSaleService } from '../flash-sale/flash-sale.service';
+import { User } from '../users/entities/user.entity';
 
 describe('OrderController', () => {
   let controller: OrderController;
+  let orderService: OrderService;
+
+  const orderId = '507f1f77bcf86cd799439014';
+  const user = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    isVIP: false,
+  } as unknown as User;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -36,16 +57,151 @@ describe('OrderController', () => {
         {
           provide: StockService,
           useValue: {
-            findOneStockWithoutPopulate: jest.fn(),
+            findOneStock: jest.fn(),
+          },
+        },
+        {
+          provide: StockAllocationService,
+          useValue: {
+            rankStocks: jest.fn(),
+          },
+        },
+        {
+          provide: IdempotencyService,
+          useValue: {
+            fingerprint: jest.fn(),
+            claim: jest.fn(),
+            complete: jest.fn(),
+            release: jest.fn(),
+          },
+        },
+        {
+          provide: OrderStatusService,
+          useValue: {
+            transition: jest.fn(),
+          },
+        },
+        {
+          provide: OrderEventsService,
+          useValue: {
+            watch: jest.fn(),
+          },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            findByEmail: jest.fn(),
+          },
+        },
+        {
+          provide: PaymentsService,
+          useValue: {
+            capture: jest.fn(),
+            release: jest.fn(),
+          },
+        },
+        {
+          provide: OrderOutboxService,
+          useValue: {
+            publish: jest.fn(),
+          },
+        },
+        {
+          provide: StockRollbackFailureService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: OrderPriorityService,
+          useValue: {
+            priorityFor: jest.fn().mockReturnValue(20),
+          },
+        },
+        {
+          provide: PurchaseLimitService,
+          useValue: {
+            assertWithinLimits: jest.fn(),
+          },
+        },
+        {
+          provide: FlashSaleService,
+          useValue: {
+            claimAdmission: jest.fn(),
+            restoreAdmission: jest.fn(),
           },
         },
       ],
     }).compile();
 
     controller = module.get<OrderController>(OrderController);
+    orderService = module.get<OrderService>(OrderService);
   });
 
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  describe('getOrder', () => {
+    it('should return the order with its failure reason and status timeline', async () => {
+      // Arrange
+      const changedAt = new Date('2024-01-15T10:30:00.000Z');
+      const order = {
+        _id: new Types.ObjectId(orderId),
+        userId: user['_id'],
+        lineItems: [],
+        totalAmount: 0,
+        status: OrderStatus.FAILED,
+        isVipOrder: false,
+        failureReason: 'Insufficient stock',
+        statusHistory: [
+          {
+            from: null,
+            to: OrderStatus.PENDING,
+            changedBy: user['_id'].toString(),
+            reason: 'Order placed',
+            changedAt,
+          },
+          {
+            from: OrderStatus.PENDING,
+            to: OrderStatus.FAILED,
+            changedBy: 'system:order-processor',
+            reason: 'Insufficient stock',
+            changedAt,
+          },
+        ],
+      } as unknown as OrderDocument;
+      const findUserOrderSpy = jest
+        .spyOn(orderService, 'findUserOrder')
+        .mockResolvedValue(order);
+
+      // Act
+      const result = await controller.getOrder(orderId, user);
+
+      // Assert
+      expect(findUserOrderSpy).toHaveBeenCalledWith(
+        orderId,
+        '507f1f77bcf86cd799439011',
+      );
+      expect(result.failureReason).toBe('Insufficient stock');
+      expect(result.statusHistory.map(({ to }) => to)).toEqual([
+        OrderStatus.PENDING,
+        OrderStatus.FAILED,
+      ]);
+    });
+
+    it('should respond 404 for orders of other users', async () => {
+      // Arrange
+      jest
+        .spyOn(orderService, 'findUserOrder')
+        .mockRejectedValue(
+          new NotFoundException(`Order with ID ${orderId} not found`),
+        );
+
+      // Act & Assert
+      await expect(controller.getOrder(orderId, user)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
 });
@@ -2,11 +2,18 @@ import {
   Controller,
   Post,
   Get,
+  Sse,
+  MessageEvent,
   Body,
+  Param,
+  Query,
+  Headers,
   HttpStatus,
   HttpCode,
   UseGuards,
   Logger,
+  HttpException,
+  BadRequestException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -14,20 +21,33 @@ import {
   ApiResponse,
   ApiBody,
   ApiBearerAuth,
+  ApiParam,
+  ApiHeader,
 } from '@nestjs/swagger';
+import { Observable, map } from 'rxjs';
 import { OrderService, OrderPayload } from './order.service';
+import { OrderEventsService } from './order-events.service';
 import { CreateOrderDto } from './dto/create-order.dto';
-import { OrderResponseDto } from './dto/order-response.dto';
+import {
+  OrderListResponseDto,
+  OrderResponseDto,
+  toOrderResponseDto,
+} from './dto/order-response.dto';
+import { ListOrdersQueryDto } from './dto/list-orders-query.dto';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/user.decorator';
 import { User } from '../users/entities/user.entity';
+import { CustomerTier, getCustomerTier } from '../users/customer-tier';
 
 @ApiTags('orders')
 @Controller('orders')
 export class OrderController {
   private readonly logger = new Logger(OrderController.name);
 
-  constructor(private readonly orderService: OrderService) { }
+  constructor(
+    private readonly orderService: OrderService,
+    private readonly orderEventsService: OrderEventsService,
+  ) { }
 
   @Post()
   @UseGuards(JwtAuthGuard)
@@ -36,9 +56,21 @@ export class OrderController {
   @ApiOperation({
     summary: 'Create a new order',
     description:
-      'Creates a new order and adds it to the processing queue with appropriate priority based on VIP status. The product ID is automatically fetched from the stock. Requires authentication.',
+      'Creates a new order with one or more line items and adds it to the processing queue with a priority based on the customer tier (PLATINUM, GOLD, VIP, STANDARD). All lines are reserved together or the whole order fails. Product IDs are automatically fetched from the stock. Requires authentication.',
   })
   @ApiBody({ type: CreateOrderDto })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description:
+      'Optional client-generated key. Retrying with the same key and body returns the original order instead of creating a new one.',
+    required: false,
+  })
+  @ApiHeader({
+    name: 'X-Admission-Token',
+    description:
+      'Admission token from the waiting room - required while the ordered stock is in a live flash sale',
+    required: false,
+  })
   @ApiResponse({
     status: 201,
     description: 'Order created successfully and added to queue',
@@ -52,6 +84,20 @@ export class OrderController {
     status: 401,
     description: 'Authentication required',
   })
+  @ApiResponse({
+    status: 403,
+    description:
+      'The stock is in a live flash sale and no valid X-Admission-Token was sent',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Price changed since the client read it, or a request with the same Idempotency-Key is still in progress',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Idempotency-Key was reused with a different request body',
+  })
   @ApiResponse({
     status: 500,
     description: 'Internal server error',
@@ -59,79 +105,92 @@ export class OrderController {
   async createOrder(
     @Body() createOrderDto: CreateOrderDto,
     @CurrentUser() user: User,
+    @Headers('idempotency-key') idempotencyKey?: string,
+    @Headers('x-admission-token') admissionToken?: string,
   ): Promise<OrderResponseDto> {
     const startTime = Date.now();
 
+    if (
+      idempotencyKey !== undefined &&
+      !/^[\w-]{1,255}$/.test(idempotencyKey)
+    ) {
+      throw new BadRequestException(
+        'Idempotency-Key must be 1-255 characters of letters, digits, "_" or "-"',
+      );
+    }
+
     // Extract user info from JWT token
     const userId = (user as any)._id.toString();
-    const isVip = user.isVIP;
+    const tier = getCustomerTier(user);
+    // Every tier above STANDARD counts as a VIP order
+    const isVip = tier !== CustomerTier.STANDARD;
 
     this.logger.log(
-      `Incoming order request - User: ${userId}, VIP: ${isVip}, Stock: ${createOrderDto.stockId}, Quantity: ${createOrderDto.quantity}`,
+      `Incoming order request - User: ${userId}, Tier: ${tier}, Lines: ${createOrderDto.lineItems.length}`,
     );
 
     try {
       // Create the order payload - no custom orderId, MongoDB will generate _id
-      // productId will be fetched from stock in the service
+      // productIds and prices will be fetched from stock in the service
       const orderPayload: OrderPayload = {
         userId: userId,
-        productId: '', // Will be populated by OrderService from stock
-        stockId: createOrderDto.stockId,
-        quantity: createOrderDto.quantity,
-        priceAtPurchase: createOrderDto.priceAtPurchase,
+        lineItems: createOrderDto.lineItems.map((lineItem) => ({
+          productId: lineItem.productId ?? '', // Will be resolved by OrderService from the SKU or stock when not given
+          variantId: lineItem.variantId,
+          sku: lineItem.sku,
+          stockId: lineItem.stockId ?? '', // Will be allocated by OrderService
+          quantity: lineItem.quantity,
+          priceAtPurchase: 0, // Will be resolved by OrderService from the product
+          expectedPrice: lineItem.priceAtPurchase,
+        })),
         isVipOrder: isVip,
+        deliveryLocation: createOrderDto.deliveryLocation,
       };
 
       this.logger.debug(
         `Order payload created - ${JSON.stringify({
           userId,
-          stockId: createOrderDto.stockId,
-          quantity: createOrderDto.quantity,
-          priceAtPurchase: createOrderDto.priceAtPurchase,
+          lineItems: createOrderDto.lineItems,
           isVipOrder: isVip,
         })}`,
       );
 
       // Create the order using the service (now returns the created order document)
-      this.logger.log(`Creating order for user ${userId} with stock ${createOrderDto.stockId}`);
+      this.logger.log(
+        `Creating order for user ${userId} with ${createOrderDto.lineItems.length} line item(s)`,
+      );
 
       const createdOrder = await this.orderService.createOrder(
         orderPayload,
-        isVip,
+        tier,
+        idempotencyKey,
+        admissionToken,
       );
 
       const processingTime = Date.now() - startTime;
 
       this.logger.log(
-        `Order created successfully - OrderId: ${createdOrder._id}, UserId: ${userId}, ProductId: ${createdOrder.productId}, Status: ${createdOrder.status}, ProcessingTime: ${processingTime}ms`,
+        `Order created successfully - OrderId: ${createdOrder._id}, UserId: ${userId}, Lines: ${createdOrder.lineItems.length}, Total: ${createdOrder.totalAmount}, Status: ${createdOrder.status}, ProcessingTime: ${processingTime}ms`,
       );
 
       // Populate the created order to get product and stock details
       const populatedOrder = await this.orderService.findOrderById(createdOrder._id.toString());
 
       // Return the created order with user-friendly format
-      return {
-        _id: populatedOrder._id.toString(),
-        userId: populatedOrder.userId.toString(),
-        productName: (populatedOrder.productId as any).name,
-        productDescription: (populatedOrder.productId as any).description,
-        availableStock: (populatedOrder.stockId as any).quantity,
-        quantity: populatedOrder.quantity,
-        priceAtPurchase: populatedOrder.priceAtPurchase,
-        status: populatedOrder.status,
-        isVipOrder: populatedOrder.isVipOrder,
-        failureReason: populatedOrder.failureReason,
-        createdAt: populatedOrder.createdAt,
-        updatedAt: populatedOrder.updatedAt,
-      };
+      return toOrderResponseDto(populatedOrder);
     } catch (error) {
       const processingTime = Date.now() - startTime;
 
       this.logger.error(
-        `Order creation failed - UserId: ${userId}, StockId: ${createOrderDto.stockId}, Error: ${error.message}, ProcessingTime: ${processingTime}ms`,
+        `Order creation failed - UserId: ${userId}, Error: ${error.message}, ProcessingTime: ${processingTime}ms`,
         error.stack,
       );
 
+      // Keep HTTP exceptions (validation, not found, ...) so the client gets the right status
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
       // Create a clean error without circular references
       if (error instanceof Error) {
         throw new Error(error.message);
@@ -146,12 +205,17 @@ export class OrderController {
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Get user orders',
-    description: 'Retrieves all orders for the authenticated user with product details and current stock information, sorted by creation date (most recent first).',
+    description:
+      "Retrieves the authenticated user's orders with product details and current stock information, most recent first. Results can be filtered by status, creation date and product, and are paginated: pass the returned nextCursor to get the next page.",
   })
   @ApiResponse({
     status: 200,
     description: 'Orders retrieved successfully',
-    type: [OrderResponseDto],
+    type: OrderListResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filter or cursor',
   })
   @ApiResponse({
     status: 401,
@@ -161,14 +225,20 @@ export class OrderController {
     status: 500,
     description: 'Internal server error',
   })
-  async getUserOrders(@CurrentUser() user: User): Promise<OrderResponseDto[]> {
+  async getUserOrders(
+    @CurrentUser() user: User,
+    @Query() query: ListOrdersQueryDto,
+  ): Promise<OrderListResponseDto> {
     const startTime = Date.now();
     const userId = (user as any)._id.toString();
 
     this.logger.log(`Fetching orders for user: ${userId}`);
 
     try {
-      const orders = await this.orderService.findOrdersByUserId(userId);
+      const { orders, nextCursor } = await this.orderService.findOrdersByUserId(
+        userId,
+        query,
+      );
 
       const processingTime = Date.now() - startTime;
       this.logger.log(
@@ -176,20 +246,10 @@ export class OrderController {
       );
 
       // Transform orders to response DTOs
-      return orders.map(order => ({
-        _id: order._id.toString(),
-        userId: order.userId.toString(),
-        productName: (order.productId as any).name,
-        productDescription: (order.productId as any).description,
-        availableStock: (order.stockId as any).quantity,
-        quantity: order.quantity,
-        priceAtPurchase: order.priceAtPurchase,
-        status: order.status,
-        isVipOrder: order.isVipOrder,
-        failureReason: order.failureReason,
-        createdAt: order.createdAt,
-        updatedAt: order.updatedAt,
-      }));
+      return {
+        items: orders.map((order) => toOrderResponseDto(order)),
+        nextCursor,
+      };
     } catch (error) {
       const processingTime = Date.now() - startTime;
 
@@ -198,6 +258,11 @@ export class OrderController {
         error.stack,
       );
 
+      // Keep HTTP exceptions (e.g. an invalid cursor) so the client gets the right status
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
       // Create a clean error without circular references
       if (error instanceof Error) {
         throw new Error(error.message);
@@ -206,4 +271,132 @@ export class OrderController {
       }
     }
   }
+
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get an order',
+    description:
+      'Retrieves a single order owned by the authenticated user, including the failure reason and the full status timeline. Orders of other users are reported as not found.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order retrieved successfully',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async getOrder(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<OrderResponseDto> {
+    const userId = (user as any)._id.toString();
+
+    this.logger.log(`Fetching order ${id} for user: ${userId}`);
+
+    const order = await this.orderService.findUserOrder(id, userId);
+
+    return toOrderResponseDto(order);
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cancel an order',
+    description:
+      'Cancels an order owned by the authenticated user. Only PENDING, PROCESSING and CONFIRMED orders can be cancelled. Queued jobs are removed and any reserved stock is restored.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order cancelled successfully',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Order can no longer be cancelled',
+  })
+  async cancelOrder(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<OrderResponseDto> {
+    const userId = (user as any)._id.toString();
+
+    this.logger.log(`Cancel request - OrderId: ${id}, UserId: ${userId}`);
+
+    const cancelledOrder = await this.orderService.cancelOrder(id, userId);
+    const populatedOrder = await this.orderService.findOrderById(
+      cancelledOrder._id.toString(),
+    );
+
+    return toOrderResponseDto(populatedOrder);
+  }
+
+  @Sse(':id/events')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Stream order status changes',
+    description:
+      'Server-Sent Events stream for an order owned by the authenticated user. Sends the current status first, then every status change with its failure reason, and closes once processing is complete (CONFIRMED, FAILED or CANCELLED).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'text/event-stream of { orderId, status, failureReason, updatedAt } messages',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async streamOrderEvents(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<Observable<MessageEvent>> {
+    const userId = (user as any)._id.toString();
+
+    // Resolve ownership before the stream opens so a foreign order is a plain 404
+    await this.orderService.findUserOrder(id, userId);
+
+    this.logger.log(`Status stream opened - OrderId: ${id}, UserId: ${userId}`);
+
+    return this.orderEventsService
+      .watch(id)
+      .pipe(map((event) => ({ data: event })));
+  }
 }
@@ -4,3 +4,13 @@ export class BusinessLogicError extends Error {
     this.name = 'BusinessLogicError';
   }
 }
+
+export class InvalidStatusTransitionError extends BusinessLogicError {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+  ) {
+    super(`Order cannot move from ${from} to ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
@@ -5,30 +5,135 @@ import { BullBoardModule } from '@bull-board/nestjs';
 import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
 import { OrderService } from './order.service';
 import { OrderController } from './order.controller';
+import { OrderAdminController } from './order-admin.controller';
+import { OrderDeadLetterController } from './order-dead-letter.controller';
 import { OrderProcessor } from './order.processor';
 import { OrderDLQProcessor } from './order-dlq.processor';
-import { ORDER_QUEUE_NAME } from './order.constants';
+import {
+  ORDER_DEAD_LETTER_QUEUE_NAME,
+  ORDER_OUTBOX_QUEUE_NAME,
+  ORDER_PRIORITY_AGING_QUEUE_NAME,
+  ORDER_QUEUE_NAME,
+  ORDER_RECONCILIATION_QUEUE_NAME,
+  STOCK_COMPENSATION_QUEUE_NAME,
+} from './order.constants';
 import { Order, OrderSchema } from './entities/order.entity';
+import {
+  IdempotencyKey,
+  IdempotencyKeySchema,
+} from './entities/idempotency-key.entity';
+import {
+  StockRollbackFailure,
+  StockRollbackFailureSchema,
+} from './entities/stock-rollback-failure.entity';
+import {
+  PurchaseQuota,
+  PurchaseQuotaSchema,
+} from './entities/purchase-quota.entity';
+import { IdempotencyService } from './idempotency.service';
+import { PurchaseLimitService } from './purchase-limit.service';
+import { OrderStatusService } from './order-status.service';
+import { OrderEventsService } from './order-events.service';
+import { OrderOutboxService } from './order-outbox.service';
+import { OrderDeadLetterService } from './order-dead-letter.service';
+import { OrderOutboxRelayProcessor } from './order-outbox-relay.processor';
+import { OrderReconciliationService } from './order-reconciliation.service';
+import { OrderReconciliationProcessor } from './order-reconciliation.processor';
+import { OrderPriorityService } from './order-priority.service';
+import { OrderPriorityAgingProcessor } from './order-priority-aging.processor';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import { StockCompensationProcessor } from './stock-compensation.processor';
 import { StockModule } from '../stock/stock.module';
 import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { FlashSaleModule } from '../flash-sale/flash-sale.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Order.name, schema: OrderSchema }]),
+    MongooseModule.forFeature([
+      { name: Order.name, schema: OrderSchema },
+      { name: IdempotencyKey.name, schema: IdempotencyKeySchema },
+      { name: StockRollbackFailure.name, schema: StockRollbackFailureSchema },
+      { name: PurchaseQuota.name, schema: PurchaseQuotaSchema },
+    ]),
     BullModule.registerQueue({
       name: ORDER_QUEUE_NAME,
     }),
     BullModule.registerFlowProducer({
       name: ORDER_QUEUE_NAME,
     }),
-    BullBoardModule.forFeature({
-      name: ORDER_QUEUE_NAME,
-      adapter: BullMQAdapter,
+    BullModule.registerQueue({
+      name: ORDER_DEAD_LETTER_QUEUE_NAME,
+    }),
+    BullModule.registerQueue({
+      name: ORDER_OUTBOX_QUEUE_NAME,
+    }),
+    BullModule.registerQueue({
+      name: ORDER_RECONCILIATION_QUEUE_NAME,
     }),
+    BullModule.registerQueue({
+      name: ORDER_PRIORITY_AGING_QUEUE_NAME,
+    }),
+    BullModule.registerQueue({
+      name: STOCK_COMPENSATION_QUEUE_NAME,
+    }),
+    BullBoardModule.forFeature(
+      {
+        name: ORDER_QUEUE_NAME,
+        adapter: BullMQAdapter,
+      },
+      {
+        name: ORDER_DEAD_LETTER_QUEUE_NAME,
+        adapter: BullMQAdapter,
+      },
+      {
+        name: ORDER_OUTBOX_QUEUE_NAME,
+        adapter: BullMQAdapter,
+      },
+      {
+        name: ORDER_RECONCILIATION_QUEUE_NAME,
+        adapter: BullMQAdapter,
+      },
+      {
+        name: ORDER_PRIORITY_AGING_QUEUE_NAME,
+        adapter: BullMQAdapter,
+      },
+      {
+        name: STOCK_COMPENSATION_QUEUE_NAME,
+        adapter: BullMQAdapter,
+      },
+    ),
     StockModule,
     AuthModule,
+    UsersModule,
+    WebhooksModule,
+    PaymentsModule,
+    FlashSaleModule,
+  ],
+  controllers: [
+    OrderController,
+    OrderAdminController,
+    OrderDeadLetterController,
+  ],
+  providers: [
+    OrderService,
+    OrderProcessor,
+    OrderDLQProcessor,
+    IdempotencyService,
+    OrderStatusService,
+    OrderEventsService,
+    OrderOutboxService,
+    OrderOutboxRelayProcessor,
+    OrderDeadLetterService,
+    OrderReconciliationService,
+    OrderReconciliationProcessor,
+    OrderPriorityService,
+    OrderPriorityAgingProcessor,
+    StockRollbackFailureService,
+    StockCompensationProcessor,
+    PurchaseLimitService,
   ],
-  controllers: [OrderController],
-  providers: [OrderService, OrderProcessor, OrderDLQProcessor],
 })
 export class OrderModule {}
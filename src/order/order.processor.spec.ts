@@ -1,323 +1,1077 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { getModelToken } from '@nestjs/mongoose';
-import { Job } from 'bullmq';
-import { Model, Types } from 'mongoose';
-import { OrderProcessor, OrderPayload } from './order.processor';
-import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
-import { StockService } from '../stock/stock.service';
-import { BusinessLogicError } from './order.errors';
+import { NotFoundException } from '@nestjs/common';
+import { Job, UnrecoverableError } from 'bullmq';
+import { Types } from 'mongoose';
+import {
+    OrderFlowResult,
+    OrderPayload,
+    OrderProcessor,
+} from './order.processor';
+import { OrderDocument, OrderStatus } from './entities/order.entity';
+import {
+    RESERVATION_NOT_FOUND,
+    StockService,
+} from '../stock/stock.service';
+import { OrderStatusService } from './order-status.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEventType } from '../webhooks/entities/webhook-endpoint.entity';
+import { PaymentsService } from '../payments/payments.service';
+import { PaymentDeclinedError } from '../payments/payment.errors';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import { PurchaseLimitService } from './purchase-limit.service';
+import {
+    BusinessLogicError,
+    InvalidStatusTransitionError,
+} from './order.errors';
+import { OrderFlowStep, PROCESS_ORDER_JOB } from './order-flow';
+import { StockMovementReason } from '../stock/entities/stock-movement.entity';
+import { StockAllocationService } from '../stock/stock-allocation.service';
 
 describe('OrderProcessor', () => {
     let processor: OrderProcessor;
-    let orderModel: jest.Mocked<Model<OrderDocument>>;
+    let orderStatusService: jest.Mocked<OrderStatusService>;
+    let webhooksService: jest.Mocked<WebhooksService>;
     let stockService: jest.Mocked<StockService>;
+    let paymentsService: jest.Mocked<PaymentsService>;
+    let stockRollbackFailureService: jest.Mocked<StockRollbackFailureService>;
+    let purchaseLimitService: jest.Mocked<PurchaseLimitService>;
+    let stockAllocationService: jest.Mocked<StockAllocationService>;
 
-    const mockOrderPayload: OrderPayload = {
-        userId: '507f1f77bcf86cd799439011',
+    const mockLineItem = {
         productId: '507f1f77bcf86cd799439012',
         stockId: '507f1f77bcf86cd799439013',
         quantity: 2,
         priceAtPurchase: 99.99,
+    };
+
+    const mockOrderPayload: OrderPayload = {
+        userId: '507f1f77bcf86cd799439011',
+        lineItems: [mockLineItem],
         isVipOrder: false,
         orderId: '507f1f77bcf86cd799439014',
     };
 
-    const mockJob = {
-        id: 'job-123',
-        data: mockOrderPayload,
-        opts: { priority: 5 },
-        token: 'token-123',
-        moveToFailed: jest.fn(),
-    } as unknown as Job<OrderPayload>;
+    const saleMovement = {
+        reason: StockMovementReason.SALE,
+        actor: 'system:order-processor',
+        orderId: mockOrderPayload.orderId,
+    };
+
+    const rollbackMovement = {
+        ...saleMovement,
+        reason: StockMovementReason.ROLLBACK,
+    };
+
+    const reservedResult: OrderFlowResult = {
+        proceed: true,
+        depletedLineItems: [],
+    };
+
+    const confirmedResult: OrderFlowResult = {
+        ...reservedResult,
+        confirmedOrder: {
+            orderId: mockOrderPayload.orderId,
+            status: OrderStatus.CONFIRMED,
+        },
+    };
+
+    /**
+     * Job of a pipeline step (or of the process-order parent), with the result of the step before it
+     */
+    const createJob = (
+        name: string,
+        previous?: OrderFlowResult,
+        overrides: Record<string, unknown> = {},
+    ) =>
+        ({
+            id: `${mockOrderPayload.orderId}-${name}`,
+            name,
+            data: mockOrderPayload,
+            opts: { priority: 5, attempts: 3 },
+            attemptsMade: 0,
+            getChildrenValues: jest
+                .fn()
+                .mockResolvedValue(
+                    previous ? { 'bull:order-processing:previous': previous } : {},
+                ),
+            ...overrides,
+        }) as unknown as Job<OrderPayload>;
+
+    // Last attempt of a step - errors are no longer retried
+    const lastAttempt = { attemptsMade: 2 };
 
     beforeEach(async () => {
         const module: TestingModule = await Test.createTestingModule({
             providers: [
                 OrderProcessor,
                 {
-                    provide: getModelToken(Order.name),
+                    provide: OrderStatusService,
+                    useValue: {
+                        transition: jest.fn(),
+                    },
+                },
+                {
+                    provide: WebhooksService,
                     useValue: {
-                        findByIdAndUpdate: jest.fn(),
+                        dispatch: jest.fn(),
                     },
                 },
                 {
                     provide: StockService,
                     useValue: {
+                        commitReservationAtomic: jest.fn(),
+                        releaseReservationAtomic: jest.fn(),
                         decrementStockAtomic: jest.fn(),
                         incrementStockAtomic: jest.fn(),
                     },
                 },
+                {
+                    provide: PaymentsService,
+                    useValue: {
+                        authorize: jest.fn(),
+                        release: jest.fn(),
+                    },
+                },
+                {
+                    provide: StockRollbackFailureService,
+                    useValue: {
+                        record: jest.fn(),
+                    },
+                },
+                {
+                    provide: PurchaseLimitService,
+                    useValue: {
+                        claim: jest.fn(),
+                    },
+                },
+                {
+                    provide: StockAllocationService,
+                    useValue: {
+                        rankStocks: jest.fn(),
+                    },
+                },
             ],
         }).compile();
 
         processor = module.get<OrderProcessor>(OrderProcessor);
-        orderModel = module.get(getModelToken(Order.name));
+        orderStatusService = module.get(OrderStatusService);
+        webhooksService = module.get(WebhooksService);
         stockService = module.get(StockService);
+        paymentsService = module.get(PaymentsService);
+        stockRollbackFailureService = module.get(StockRollbackFailureService);
+        purchaseLimitService = module.get(PurchaseLimitService);
+        stockAllocationService = module.get(StockAllocationService);
 
         // Reset all mocks
         jest.clearAllMocks();
+
+        // Every transition succeeds unless a test overrides it
+        mockTransitions();
+
+        // Purchase limits are within bounds unless a test overrides it
+        purchaseLimitService.claim.mockResolvedValue(undefined);
+
+        // Payments are authorized unless a test overrides it
+        paymentsService.authorize.mockResolvedValue({} as any);
+
+        // No reservation (it expired) unless a test overrides it - stock is decremented directly
+        stockService.commitReservationAtomic.mockResolvedValue({
+            success: false,
+            error: RESERVATION_NOT_FOUND,
+        });
+        stockService.releaseReservationAtomic.mockResolvedValue({ success: true });
+        stockService.incrementStockAtomic.mockResolvedValue({ success: true });
+
+        // Every product is allocated to the stock it was reserved at unless a test overrides it
+        const reservedStockIds: Record<string, string> = {
+            '507f1f77bcf86cd799439012': '507f1f77bcf86cd799439013',
+            '507f1f77bcf86cd799439015': '507f1f77bcf86cd799439016',
+        };
+        stockAllocationService.rankStocks.mockImplementation(
+            async (productId) =>
+                [{ _id: new Types.ObjectId(reservedStockIds[productId]) }] as any,
+        );
     });
 
-    describe('process', () => {
-        it('should successfully process an order with sufficient stock', async () => {
+    /**
+     * Makes orderStatusService.transition succeed, or fail with the given error for specific target statuses
+     */
+    const mockTransitions = (
+        failures: Partial<Record<OrderStatus, Error>> = {},
+    ) => {
+        orderStatusService.transition.mockImplementation(async (_id, to) => {
+            if (failures[to]) {
+                throw failures[to];
+            }
+            return {
+                order: {
+                    _id: new Types.ObjectId(mockOrderPayload.orderId),
+                    userId: new Types.ObjectId(mockOrderPayload.userId),
+                    lineItems: mockOrderPayload.lineItems,
+                    totalAmount: 199.98,
+                    status: to,
+                } as unknown as OrderDocument,
+                previousStatus: OrderStatus.PROCESSING,
+            };
+        });
+    };
+
+    const expectTransition = (to: OrderStatus, options: object = {}) =>
+        expect(orderStatusService.transition).toHaveBeenCalledWith(
+            mockOrderPayload.orderId,
+            to,
+            expect.objectContaining({
+                changedBy: 'system:order-processor',
+                ...options,
+            }),
+        );
+
+    const expectNoTransition = (to: OrderStatus) =>
+        expect(orderStatusService.transition).not.toHaveBeenCalledWith(
+            mockOrderPayload.orderId,
+            to,
+            expect.anything(),
+        );
+
+    describe('reserve-stock', () => {
+        const reserveJob = createJob(OrderFlowStep.RESERVE_STOCK);
+
+        it('should claim the order and take its stock', async () => {
             // Arrange
-            const mockStockResult = {
+            stockService.decrementStockAtomic.mockResolvedValue({
                 success: true,
                 currentStock: {
                     productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
-                    quantity: 8
+                    quantity: 8,
+                    reserved: 0,
+                    reservations: [],
                 },
-            };
-
-            stockService.decrementStockAtomic.mockResolvedValue(mockStockResult);
-            orderModel.findByIdAndUpdate.mockResolvedValue({} as OrderDocument);
-
-            // Mock Math.random to avoid simulated failure
-            jest.spyOn(Math, 'random').mockReturnValue(0.5); // > 0.1, so no simulated failure
+            });
 
             // Act
-            await processor.process(mockJob);
+            const result = await processor.process(reserveJob);
 
             // Assert
+            expect(result).toEqual({ proceed: true, depletedLineItems: [] });
             expect(stockService.decrementStockAtomic).toHaveBeenCalledWith(
-                mockOrderPayload.stockId,
-                mockOrderPayload.quantity,
+                mockLineItem.stockId,
+                mockLineItem.quantity,
+                saleMovement,
             );
-            expect(orderModel.findByIdAndUpdate).toHaveBeenCalledWith(
+            expectTransition(OrderStatus.PROCESSING);
+            expect(paymentsService.authorize).not.toHaveBeenCalled();
+            expectNoTransition(OrderStatus.CONFIRMED);
+        });
+
+        it('should claim the purchase quota of the customer before taking stock', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockResolvedValue({
+                success: true,
+                currentStock: { quantity: 8 } as any,
+            });
+
+            // Act
+            await processor.process(reserveJob);
+
+            // Assert
+            expect(purchaseLimitService.claim).toHaveBeenCalledWith(
                 mockOrderPayload.orderId,
-                {
-                    status: OrderStatus.CONFIRMED,
-                    failureReason: '',
-                },
-                { new: true },
+                mockOrderPayload.userId,
+                [mockLineItem],
             );
-            expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
         });
 
-        it('should handle insufficient stock gracefully', async () => {
+        it('should fail the order without retry when a purchase limit is exceeded', async () => {
             // Arrange
-            const mockStockResult = {
-                success: false,
-                error: 'Insufficient stock',
-            };
+            const reason = 'Purchase limit for "Headphones": at most 1 per order, requested 2';
+            purchaseLimitService.claim.mockRejectedValue(
+                new BusinessLogicError(reason),
+            );
+
+            // Act & Assert
+            await expect(processor.process(reserveJob)).rejects.toThrow(
+                UnrecoverableError,
+            );
+            expect(stockService.decrementStockAtomic).not.toHaveBeenCalled();
+            expectTransition(OrderStatus.FAILED, { failureReason: reason });
+            expect(stockService.releaseReservationAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
+                mockOrderPayload.orderId,
+            );
+        });
 
-            stockService.decrementStockAtomic.mockResolvedValue(mockStockResult);
+        it('should report lines that used up the last units', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockResolvedValue({
+                success: true,
+                currentStock: { quantity: 0 } as any,
+            });
 
             // Act
-            await processor.process(mockJob);
+            const result = await processor.process(reserveJob);
 
             // Assert
-            expect(stockService.decrementStockAtomic).toHaveBeenCalledWith(
-                mockOrderPayload.stockId,
-                mockOrderPayload.quantity,
+            expect(result.depletedLineItems).toEqual([mockLineItem]);
+        });
+
+        it('should fail the order without retry on insufficient stock', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockResolvedValue({
+                success: false,
+                error: 'Insufficient stock',
+            });
+
+            // Act & Assert
+            await expect(processor.process(reserveJob)).rejects.toThrow(
+                UnrecoverableError,
             );
-            expect(orderModel.findByIdAndUpdate).toHaveBeenCalledWith(
+            expectTransition(OrderStatus.FAILED, {
+                failureReason: 'Insufficient stock',
+            });
+            expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
+            expect(stockService.releaseReservationAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
                 mockOrderPayload.orderId,
-                {
-                    status: OrderStatus.FAILED,
-                    failureReason: 'Insufficient stock',
-                },
-                { new: true },
             );
-            expect(mockJob.moveToFailed).toHaveBeenCalled();
-            expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
         });
 
-        it('should rollback stock on transient order confirmation failure', async () => {
+        it('should handle stock not found error', async () => {
             // Arrange
-            const mockStockResult = {
-                success: true,
-                currentStock: {
-                    productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
-                    quantity: 8
-                },
-            };
+            stockService.decrementStockAtomic.mockResolvedValue({
+                success: false,
+                error: 'Stock not found',
+            });
+
+            // Act & Assert
+            await expect(processor.process(reserveJob)).rejects.toThrow(
+                UnrecoverableError,
+            );
+            expectTransition(OrderStatus.FAILED, {
+                failureReason: 'Stock not found',
+            });
+        });
+
+        it('should handle version conflict (optimistic locking failure)', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockResolvedValue({
+                success: false,
+                error: 'Version conflict - stock was modified by another operation',
+            });
 
-            stockService.decrementStockAtomic.mockResolvedValue(mockStockResult);
-            orderModel.findByIdAndUpdate.mockRejectedValue(
-                new Error('Database connection failed'),
+            // Act & Assert
+            await expect(processor.process(reserveJob)).rejects.toThrow(
+                UnrecoverableError,
             );
+            expectTransition(OrderStatus.FAILED, {
+                failureReason:
+                    'Version conflict - stock was modified by another operation',
+            });
+        });
 
-            const mockRollbackResult = {
-                success: true,
-                currentStock: {
-                    productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
-                    quantity: 10
-                },
-            };
-            stockService.incrementStockAtomic.mockResolvedValue(mockRollbackResult);
+        it('should return the order to PENDING and re-throw a transient error for retry', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockRejectedValue(
+                new Error('Network timeout'),
+            );
 
             // Act & Assert
-            await expect(processor.process(mockJob)).rejects.toThrow(
-                'Database connection failed',
+            await expect(processor.process(reserveJob)).rejects.toThrow(
+                'Network timeout',
             );
+            expectTransition(OrderStatus.PENDING, {
+                reason: 'Retrying after error: Network timeout',
+            });
+            expectNoTransition(OrderStatus.FAILED);
+            expect(stockService.releaseReservationAtomic).not.toHaveBeenCalled();
+            expect(webhooksService.dispatch).not.toHaveBeenCalled();
+        });
 
-            expect(stockService.decrementStockAtomic).toHaveBeenCalledWith(
-                mockOrderPayload.stockId,
-                mockOrderPayload.quantity,
+        it('should still re-throw when the order cannot be returned to PENDING', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockRejectedValue(
+                new Error('Network timeout'),
             );
-            expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
-                mockOrderPayload.stockId,
-                mockOrderPayload.quantity,
+            mockTransitions({
+                [OrderStatus.PENDING]: new InvalidStatusTransitionError(
+                    OrderStatus.CANCELLED,
+                    OrderStatus.PENDING,
+                ),
+            });
+
+            // Act & Assert
+            await expect(processor.process(reserveJob)).rejects.toThrow(
+                'Network timeout',
             );
         });
 
-        it('should handle simulated payment gateway failure with rollback', async () => {
+        it('should fail the order once the last attempt hits a transient error', async () => {
             // Arrange
-            const mockStockResult = {
-                success: true,
-                currentStock: {
-                    productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
-                    quantity: 8
-                },
-            };
+            stockService.decrementStockAtomic.mockRejectedValue(
+                new Error('Network timeout'),
+            );
+            const job = createJob(OrderFlowStep.RESERVE_STOCK, undefined, lastAttempt);
 
-            stockService.decrementStockAtomic.mockResolvedValue(mockStockResult);
+            // Act & Assert
+            await expect(processor.process(job)).rejects.toThrow('Network timeout');
+            expectNoTransition(OrderStatus.PENDING);
+            expectTransition(OrderStatus.FAILED, {
+                failureReason: 'Network timeout',
+            });
+            expect(stockService.releaseReservationAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
+                mockOrderPayload.orderId,
+            );
+        });
+    });
 
-            // Mock Math.random to trigger simulated failure
-            jest.spyOn(Math, 'random').mockReturnValue(0.05); // < 0.1, triggers failure
+    describe('reservations', () => {
+        const reserveJob = createJob(OrderFlowStep.RESERVE_STOCK);
 
-            const mockRollbackResult = {
+        it('should commit the reservation made at order creation', async () => {
+            // Arrange
+            stockService.commitReservationAtomic.mockResolvedValue({
                 success: true,
-                currentStock: {
-                    productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
-                    quantity: 10
-                },
-            };
-            stockService.incrementStockAtomic.mockResolvedValue(mockRollbackResult);
+                currentStock: { quantity: 8 } as any,
+            });
 
-            // Act & Assert
-            await expect(processor.process(mockJob)).rejects.toThrow(
-                'Payment gateway timeout - please retry',
+            // Act
+            await processor.process(reserveJob);
+
+            // Assert
+            expect(stockService.commitReservationAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
+                mockOrderPayload.orderId,
+                'system:order-processor',
             );
+            expect(stockService.decrementStockAtomic).not.toHaveBeenCalled();
+        });
+
+        it('should decrement stock directly when the reservation has expired', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockResolvedValue({ success: true });
 
+            // Act
+            await processor.process(reserveJob);
+
+            // Assert
             expect(stockService.decrementStockAtomic).toHaveBeenCalledWith(
-                mockOrderPayload.stockId,
-                mockOrderPayload.quantity,
+                mockLineItem.stockId,
+                mockLineItem.quantity,
+                saleMovement,
             );
-            expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
-                mockOrderPayload.stockId,
-                mockOrderPayload.quantity,
+        });
+
+        it('should re-allocate an expired line to the best location with stock', async () => {
+            // Arrange
+            const otherStockId = '507f1f77bcf86cd799439017';
+            const deliveryLocation = { latitude: 52.52, longitude: 13.405 };
+            const job = createJob(OrderFlowStep.RESERVE_STOCK, undefined, {
+                data: { ...mockOrderPayload, deliveryLocation },
+            });
+            stockAllocationService.rankStocks.mockResolvedValue([
+                { _id: new Types.ObjectId(mockLineItem.stockId) },
+                { _id: new Types.ObjectId(otherStockId) },
+            ] as any);
+            stockService.decrementStockAtomic
+                .mockResolvedValueOnce({
+                    success: false,
+                    error: 'Insufficient stock. Available: 1, Requested: 2',
+                })
+                .mockResolvedValueOnce({ success: true });
+
+            // Act
+            const result = await processor.process(job);
+
+            // Assert
+            expect(stockAllocationService.rankStocks).toHaveBeenCalledWith(
+                mockLineItem.productId,
+                undefined,
+                mockLineItem.quantity,
+                deliveryLocation,
+            );
+            expect(stockService.decrementStockAtomic).toHaveBeenLastCalledWith(
+                otherStockId,
+                mockLineItem.quantity,
+                saleMovement,
             );
+            expect(result.reallocatedLineItems).toEqual([
+                { ...mockLineItem, stockId: otherStockId },
+            ]);
         });
 
-        it('should handle rollback failure gracefully', async () => {
+        it('should fail without retry when no location can take an expired line', async () => {
             // Arrange
-            const mockStockResult = {
-                success: true,
-                currentStock: {
-                    productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
-                    quantity: 8
-                },
-            };
+            stockAllocationService.rankStocks.mockResolvedValue([]);
 
-            stockService.decrementStockAtomic.mockResolvedValue(mockStockResult);
-            orderModel.findByIdAndUpdate.mockRejectedValue(
-                new Error('Database connection failed'),
+            // Act & Assert
+            await expect(processor.process(reserveJob)).rejects.toThrow(
+                UnrecoverableError,
             );
+            expectTransition(OrderStatus.FAILED, {
+                failureReason:
+                    'Insufficient stock. No location has 2 unit(s) available',
+            });
+        });
 
-            const mockRollbackResult = {
+        it('should fail without falling back when the reserved stock is gone', async () => {
+            // Arrange
+            stockService.commitReservationAtomic.mockResolvedValue({
                 success: false,
-                error: 'Rollback failed',
-            };
-            stockService.incrementStockAtomic.mockResolvedValue(mockRollbackResult);
+                error: 'Insufficient stock. Available: 1, Requested: 2',
+            });
 
             // Act & Assert
-            await expect(processor.process(mockJob)).rejects.toThrow(
-                'Database connection failed',
+            await expect(processor.process(reserveJob)).rejects.toThrow(
+                UnrecoverableError,
+            );
+            expect(stockService.decrementStockAtomic).not.toHaveBeenCalled();
+            expectTransition(OrderStatus.FAILED, {
+                failureReason: 'Insufficient stock. Available: 1, Requested: 2',
+            });
+            expect(stockService.releaseReservationAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
+                mockOrderPayload.orderId,
             );
+        });
 
-            expect(stockService.decrementStockAtomic).toHaveBeenCalledWith(
-                mockOrderPayload.stockId,
-                mockOrderPayload.quantity,
+        it('should keep reservations for the retry on a transient error', async () => {
+            // Arrange
+            stockService.commitReservationAtomic.mockResolvedValue({
+                success: false,
+                error: 'Database error: connection reset',
+                transient: true,
+            });
+
+            // Act & Assert
+            await expect(processor.process(reserveJob)).rejects.toThrow(
+                'Database error: connection reset',
+            );
+            expect(stockService.releaseReservationAtomic).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('charge-payment', () => {
+        const chargeJob = createJob(OrderFlowStep.CHARGE_PAYMENT, reservedResult);
+
+        it('should authorize the order total and hand on the reserve result', async () => {
+            // Act
+            const result = await processor.process(chargeJob);
+
+            // Assert
+            expect(result).toEqual(reservedResult);
+            expect(paymentsService.authorize).toHaveBeenCalledWith({
+                orderId: mockOrderPayload.orderId,
+                userId: mockOrderPayload.userId,
+                amount: 199.98,
+            });
+            expect(orderStatusService.transition).not.toHaveBeenCalled();
+        });
+
+        it('should do nothing for an order the reserve step skipped', async () => {
+            // Arrange
+            const skipped = { proceed: false, depletedLineItems: [] };
+            const job = createJob(OrderFlowStep.CHARGE_PAYMENT, skipped);
+
+            // Act
+            const result = await processor.process(job);
+
+            // Assert
+            expect(result).toEqual(skipped);
+            expect(paymentsService.authorize).not.toHaveBeenCalled();
+        });
+
+        it('should fail the order without retry when the payment is declined', async () => {
+            // Arrange
+            paymentsService.authorize.mockRejectedValue(
+                new PaymentDeclinedError('Card declined'),
+            );
+
+            // Act & Assert
+            await expect(processor.process(chargeJob)).rejects.toThrow(
+                UnrecoverableError,
             );
             expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
-                mockOrderPayload.stockId,
-                mockOrderPayload.quantity,
+                mockLineItem.stockId,
+                mockLineItem.quantity,
+                rollbackMovement,
+            );
+            expect(paymentsService.release).toHaveBeenCalledWith(
+                mockOrderPayload.orderId,
             );
+            expectTransition(OrderStatus.FAILED, { failureReason: 'Card declined' });
         });
 
-        it('should handle stock not found error', async () => {
+        it('should retry a gateway failure without undoing the reservation', async () => {
             // Arrange
-            const mockStockResult = {
-                success: false,
-                error: 'Stock not found',
-            };
+            paymentsService.authorize.mockRejectedValue(
+                new Error('Payment gateway timeout - please retry'),
+            );
+
+            // Act & Assert
+            await expect(processor.process(chargeJob)).rejects.toThrow(
+                'Payment gateway timeout - please retry',
+            );
+            expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
+            expect(orderStatusService.transition).not.toHaveBeenCalled();
+        });
+
+        it('should roll back the stock once the gateway keeps failing', async () => {
+            // Arrange
+            paymentsService.authorize.mockRejectedValue(
+                new Error('Payment gateway timeout - please retry'),
+            );
+            const job = createJob(
+                OrderFlowStep.CHARGE_PAYMENT,
+                reservedResult,
+                lastAttempt,
+            );
 
-            stockService.decrementStockAtomic.mockResolvedValue(mockStockResult);
+            // Act & Assert
+            await expect(processor.process(job)).rejects.toThrow(
+                'Payment gateway timeout - please retry',
+            );
+            expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
+                mockLineItem.quantity,
+                rollbackMovement,
+            );
+            expectTransition(OrderStatus.FAILED, {
+                failureReason: 'Payment gateway timeout - please retry',
+            });
+        });
+    });
+
+    describe('confirm-order', () => {
+        const confirmJob = createJob(OrderFlowStep.CONFIRM_ORDER, reservedResult);
+
+        it('should confirm the order and hand on its webhook data', async () => {
+            // Act
+            const result = await processor.process(confirmJob);
+
+            // Assert
+            expectTransition(OrderStatus.CONFIRMED, { failureReason: '' });
+            expect(result.confirmedOrder).toEqual(
+                expect.objectContaining({
+                    orderId: mockOrderPayload.orderId,
+                    status: OrderStatus.CONFIRMED,
+                }),
+            );
+            expect(webhooksService.dispatch).not.toHaveBeenCalled();
+        });
+
+        it('should save re-allocated lines on the order so cancellations restore the right stock', async () => {
+            // Arrange
+            const reallocatedLineItems = [
+                { ...mockLineItem, stockId: '507f1f77bcf86cd799439017' },
+            ];
+            const job = createJob(OrderFlowStep.CONFIRM_ORDER, {
+                ...reservedResult,
+                reallocatedLineItems,
+            });
 
             // Act
-            await processor.process(mockJob);
+            await processor.process(job);
 
             // Assert
-            expect(orderModel.findByIdAndUpdate).toHaveBeenCalledWith(
+            expectTransition(OrderStatus.CONFIRMED, {
+                set: { lineItems: reallocatedLineItems },
+            });
+        });
+
+        it('should retry a transient confirmation failure without compensating', async () => {
+            // Arrange
+            mockTransitions({
+                [OrderStatus.CONFIRMED]: new Error('Database connection failed'),
+            });
+
+            // Act & Assert
+            await expect(processor.process(confirmJob)).rejects.toThrow(
+                'Database connection failed',
+            );
+            expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
+            expect(paymentsService.release).not.toHaveBeenCalled();
+        });
+
+        it('should void the authorization and roll back stock once confirmation keeps failing', async () => {
+            // Arrange
+            mockTransitions({
+                [OrderStatus.CONFIRMED]: new Error('Database connection failed'),
+            });
+            const job = createJob(
+                OrderFlowStep.CONFIRM_ORDER,
+                reservedResult,
+                lastAttempt,
+            );
+
+            // Act & Assert
+            await expect(processor.process(job)).rejects.toThrow(
+                'Database connection failed',
+            );
+            expect(paymentsService.release).toHaveBeenCalledWith(
                 mockOrderPayload.orderId,
-                {
-                    status: OrderStatus.FAILED,
-                    failureReason: 'Stock not found',
-                },
-                { new: true },
             );
-            expect(mockJob.moveToFailed).toHaveBeenCalled();
+            expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
+                mockLineItem.quantity,
+                rollbackMovement,
+            );
+            expectTransition(OrderStatus.FAILED, {
+                failureReason: 'Database connection failed',
+            });
         });
 
-        it('should handle version conflict (optimistic locking failure)', async () => {
+        it('should record stock that could not be rolled back', async () => {
             // Arrange
-            const mockStockResult = {
+            mockTransitions({
+                [OrderStatus.CONFIRMED]: new Error('Database connection failed'),
+            });
+            stockService.incrementStockAtomic.mockResolvedValue({
                 success: false,
-                error: 'Version conflict - stock was modified by another operation',
-            };
+                error: 'Rollback failed',
+            });
+            const job = createJob(
+                OrderFlowStep.CONFIRM_ORDER,
+                reservedResult,
+                lastAttempt,
+            );
+
+            // Act & Assert
+            await expect(processor.process(job)).rejects.toThrow(
+                'Database connection failed',
+            );
+            expect(stockRollbackFailureService.record).toHaveBeenCalledWith({
+                orderId: mockOrderPayload.orderId,
+                stockId: mockLineItem.stockId,
+                quantity: mockLineItem.quantity,
+                error: 'Rollback failed',
+                source: 'system:order-processor',
+            });
+        });
 
-            stockService.decrementStockAtomic.mockResolvedValue(mockStockResult);
+        it('should hand on the result when a previous attempt already confirmed the order', async () => {
+            // Arrange
+            mockTransitions({
+                [OrderStatus.CONFIRMED]: new InvalidStatusTransitionError(
+                    OrderStatus.CONFIRMED,
+                    OrderStatus.CONFIRMED,
+                ),
+            });
 
             // Act
-            await processor.process(mockJob);
+            const result = await processor.process(confirmJob);
 
             // Assert
-            expect(orderModel.findByIdAndUpdate).toHaveBeenCalledWith(
-                mockOrderPayload.orderId,
+            expect(result).toEqual(reservedResult);
+            expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('notify', () => {
+        it('should send order.confirmed once the order is confirmed', async () => {
+            // Arrange
+            const job = createJob(OrderFlowStep.NOTIFY, confirmedResult);
+
+            // Act
+            await processor.process(job);
+
+            // Assert
+            expect(webhooksService.dispatch).toHaveBeenCalledTimes(1);
+            expect(webhooksService.dispatch).toHaveBeenCalledWith(
+                WebhookEventType.ORDER_CONFIRMED,
+                confirmedResult.confirmedOrder,
+            );
+        });
+
+        it('should send stock.depleted for lines that used up the last units', async () => {
+            // Arrange
+            const job = createJob(OrderFlowStep.NOTIFY, {
+                ...confirmedResult,
+                depletedLineItems: [mockLineItem],
+            });
+
+            // Act
+            await processor.process(job);
+
+            // Assert
+            expect(webhooksService.dispatch).toHaveBeenCalledWith(
+                WebhookEventType.STOCK_DEPLETED,
                 {
-                    status: OrderStatus.FAILED,
-                    failureReason:
-                        'Version conflict - stock was modified by another operation',
+                    stockId: mockLineItem.stockId,
+                    productId: mockLineItem.productId,
+                    variantId: null,
+                    quantity: 0,
+                    orderId: mockOrderPayload.orderId,
                 },
-                { new: true },
             );
-            expect(mockJob.moveToFailed).toHaveBeenCalled();
+        });
+
+        it('should not send anything for an order that was not confirmed', async () => {
+            // Arrange
+            const job = createJob(OrderFlowStep.NOTIFY, {
+                proceed: false,
+                depletedLineItems: [],
+            });
+
+            // Act
+            await processor.process(job);
+
+            // Assert
+            expect(webhooksService.dispatch).not.toHaveBeenCalled();
         });
     });
 
-    describe('error handling', () => {
-        it('should distinguish between business logic and transient errors', async () => {
-            // Test business logic error
-            const businessError = new BusinessLogicError('Insufficient stock');
-            stockService.decrementStockAtomic.mockRejectedValue(businessError);
+    describe('process-order', () => {
+        it('should complete with the result of the pipeline', async () => {
+            // Arrange
+            const job = createJob(PROCESS_ORDER_JOB, confirmedResult);
+
+            // Act
+            const result = await processor.process(job);
+
+            // Assert
+            expect(result).toEqual(confirmedResult);
+            expect(orderStatusService.transition).not.toHaveBeenCalled();
+        });
+
+        it('should leave a job queued before orders ran as flows to reconciliation', async () => {
+            // Arrange
+            const job = createJob(PROCESS_ORDER_JOB);
+
+            // Act
+            const result = await processor.process(job);
+
+            // Assert
+            expect(result.proceed).toBe(false);
+            expect(orderStatusService.transition).not.toHaveBeenCalled();
+            expect(stockService.decrementStockAtomic).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('cancellation', () => {
+        const reserveJob = createJob(OrderFlowStep.RESERVE_STOCK);
+
+        it('should skip orders that were cancelled before processing', async () => {
+            // Arrange
+            mockTransitions({
+                [OrderStatus.PROCESSING]: new InvalidStatusTransitionError(
+                    OrderStatus.CANCELLED,
+                    OrderStatus.PROCESSING,
+                ),
+            });
+
+            // Act
+            const result = await processor.process(reserveJob);
+
+            // Assert
+            expect(result.proceed).toBe(false);
+            expect(stockService.decrementStockAtomic).not.toHaveBeenCalled();
+            expect(orderStatusService.transition).toHaveBeenCalledTimes(1);
+        });
+
+        it('should skip orders that no longer exist', async () => {
+            // Arrange
+            mockTransitions({
+                [OrderStatus.PROCESSING]: new NotFoundException('Order not found'),
+            });
+
+            // Act
+            const result = await processor.process(reserveJob);
+
+            // Assert
+            expect(result.proceed).toBe(false);
+            expect(stockService.decrementStockAtomic).not.toHaveBeenCalled();
+        });
+
+        it('should resume an order left PROCESSING by a stalled attempt', async () => {
+            // Arrange
+            mockTransitions({
+                [OrderStatus.PROCESSING]: new InvalidStatusTransitionError(
+                    OrderStatus.PROCESSING,
+                    OrderStatus.PROCESSING,
+                ),
+            });
+            stockService.decrementStockAtomic.mockResolvedValue({ success: true });
+
+            // Act
+            const result = await processor.process(reserveJob);
 
-            await processor.process(mockJob);
+            // Assert
+            expect(result.proceed).toBe(true);
+            expect(stockService.decrementStockAtomic).toHaveBeenCalled();
+        });
+
+        it('should release reserved stock when the order is cancelled during processing', async () => {
+            // Arrange
+            mockTransitions({
+                [OrderStatus.CONFIRMED]: new InvalidStatusTransitionError(
+                    OrderStatus.CANCELLED,
+                    OrderStatus.CONFIRMED,
+                ),
+            });
+            const job = createJob(OrderFlowStep.CONFIRM_ORDER, reservedResult);
+
+            // Act
+            const result = await processor.process(job);
 
-            expect(mockJob.moveToFailed).toHaveBeenCalledWith(
-                businessError,
-                'token-123',
+            // Assert
+            expect(result.proceed).toBe(false);
+            expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
+                mockLineItem.quantity,
+                rollbackMovement,
             );
-            expect(orderModel.findByIdAndUpdate).toHaveBeenCalledWith(
+            expect(paymentsService.release).toHaveBeenCalledWith(
                 mockOrderPayload.orderId,
-                {
-                    status: OrderStatus.FAILED,
-                    failureReason: 'Insufficient stock',
+            );
+            expectNoTransition(OrderStatus.FAILED);
+        });
+    });
+
+    describe('multi-item orders', () => {
+        const secondLineItem = {
+            productId: '507f1f77bcf86cd799439015',
+            stockId: '507f1f77bcf86cd799439016',
+            quantity: 1,
+            priceAtPurchase: 10,
+        };
+
+        const multiItemJob = (name: string, previous?: OrderFlowResult) =>
+            createJob(name, previous, {
+                data: {
+                    ...mockOrderPayload,
+                    lineItems: [mockLineItem, secondLineItem],
                 },
-                { new: true },
+            });
+
+        it('should reserve every line', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockResolvedValue({ success: true });
+
+            // Act
+            await processor.process(multiItemJob(OrderFlowStep.RESERVE_STOCK));
+
+            // Assert
+            expect(stockService.decrementStockAtomic).toHaveBeenCalledTimes(2);
+            expect(stockService.decrementStockAtomic).toHaveBeenNthCalledWith(
+                2,
+                secondLineItem.stockId,
+                secondLineItem.quantity,
+                saleMovement,
             );
+            expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
         });
 
-        it('should re-throw transient errors for retry', async () => {
-            // Test transient error
-            const transientError = new Error('Network timeout');
-            stockService.decrementStockAtomic.mockRejectedValue(transientError);
+        it('should roll back earlier lines when a later line has insufficient stock', async () => {
+            // Arrange
+            stockService.decrementStockAtomic
+                .mockResolvedValueOnce({ success: true })
+                .mockResolvedValueOnce({
+                    success: false,
+                    error: 'Insufficient stock. Available: 0, Requested: 1',
+                });
 
-            await expect(processor.process(mockJob)).rejects.toThrow(
-                'Network timeout',
+            // Act & Assert
+            await expect(
+                processor.process(multiItemJob(OrderFlowStep.RESERVE_STOCK)),
+            ).rejects.toThrow(UnrecoverableError);
+            expect(stockService.incrementStockAtomic).toHaveBeenCalledTimes(1);
+            expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
+                mockLineItem.quantity,
+                rollbackMovement,
+            );
+            expectTransition(OrderStatus.FAILED, {
+                failureReason: 'Insufficient stock. Available: 0, Requested: 1',
+            });
+        });
+
+        it('should roll back earlier lines and retry on a transient stock error', async () => {
+            // Arrange
+            stockService.decrementStockAtomic
+                .mockResolvedValueOnce({ success: true })
+                .mockRejectedValueOnce(new Error('Network timeout'));
+
+            // Act & Assert
+            await expect(
+                processor.process(multiItemJob(OrderFlowStep.RESERVE_STOCK)),
+            ).rejects.toThrow('Network timeout');
+            expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
+                mockLineItem.stockId,
+                mockLineItem.quantity,
+                rollbackMovement,
+            );
+            expectNoTransition(OrderStatus.FAILED);
+        });
+
+        it('should roll back all lines when the payment is declined', async () => {
+            // Arrange
+            paymentsService.authorize.mockRejectedValue(
+                new PaymentDeclinedError('Card declined'),
             );
-            expect(mockJob.moveToFailed).not.toHaveBeenCalled();
+
+            // Act & Assert
+            await expect(
+                processor.process(
+                    multiItemJob(OrderFlowStep.CHARGE_PAYMENT, reservedResult),
+                ),
+            ).rejects.toThrow(UnrecoverableError);
+            expect(stockService.incrementStockAtomic).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('error handling', () => {
+        it('should send order.failed when a step fails for good', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockResolvedValue({
+                success: false,
+                error: 'Insufficient stock',
+            });
+
+            // Act & Assert
+            await expect(
+                processor.process(createJob(OrderFlowStep.RESERVE_STOCK)),
+            ).rejects.toThrow(UnrecoverableError);
+            expect(webhooksService.dispatch).toHaveBeenCalledWith(
+                WebhookEventType.ORDER_FAILED,
+                expect.objectContaining({ status: OrderStatus.FAILED }),
+            );
+        });
+
+        it('should not retry business logic errors even on the first attempt', async () => {
+            // Arrange
+            stockService.decrementStockAtomic.mockRejectedValue(
+                new BusinessLogicError('Insufficient stock'),
+            );
+
+            // Act & Assert
+            await expect(
+                processor.process(createJob(OrderFlowStep.RESERVE_STOCK)),
+            ).rejects.toThrow(UnrecoverableError);
+            expectNoTransition(OrderStatus.PENDING);
+            expectTransition(OrderStatus.FAILED, {
+                failureReason: 'Insufficient stock',
+            });
+        });
+
+        it('should not send order.failed when the order was settled meanwhile', async () => {
+            // Arrange
+            paymentsService.authorize.mockRejectedValue(
+                new PaymentDeclinedError('Card declined'),
+            );
+            mockTransitions({
+                [OrderStatus.FAILED]: new InvalidStatusTransitionError(
+                    OrderStatus.CANCELLED,
+                    OrderStatus.FAILED,
+                ),
+            });
+
+            // Act & Assert
+            await expect(
+                processor.process(
+                    createJob(OrderFlowStep.CHARGE_PAYMENT, reservedResult),
+                ),
+            ).rejects.toThrow(UnrecoverableError);
+            expect(webhooksService.dispatch).not.toHaveBeenCalled();
         });
     });
 
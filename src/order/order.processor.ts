@@ -1,62 +1,460 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq';
-import { Injectable, Logger } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
-import { Job } from 'bullmq';
-import { Model } from 'mongoose';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Job, UnrecoverableError } from 'bullmq';
 import { ORDER_QUEUE_NAME } from './order.constants';
-import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
-import { StockService } from '../stock/stock.service';
-import { BusinessLogicError } from './order.errors';
+import { OrderDocument, OrderStatus } from './entities/order.entity';
+import {
+  RESERVATION_NOT_FOUND,
+  StockOperationResult,
+  StockService,
+} from '../stock/stock.service';
+import { StockMovementReason } from '../stock/entities/stock-movement.entity';
+import {
+  GeoLocation,
+  StockAllocationService,
+} from '../stock/stock-allocation.service';
+import {
+  BusinessLogicError,
+  InvalidStatusTransitionError,
+} from './order.errors';
+import { OrderLineItemPayload } from './order.service';
+import { OrderStatusService } from './order-status.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEventType } from '../webhooks/entities/webhook-endpoint.entity';
+import { toOrderWebhookData } from './order-webhook.payload';
+import { PaymentsService } from '../payments/payments.service';
+import { PaymentDeclinedError } from '../payments/payment.errors';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import { PurchaseLimitService } from './purchase-limit.service';
+import { CustomerTier } from '../users/customer-tier';
+import { OrderFlowStep } from './order-flow';
 
 export interface OrderPayload {
   userId: string;
-  productId: string;
-  stockId: string;
-  quantity: number;
-  priceAtPurchase: number;
+  lineItems: OrderLineItemPayload[];
   isVipOrder: boolean;
+  deliveryLocation?: GeoLocation;
+  priorityTier?: CustomerTier; // Missing on jobs queued before tiers existed
   orderId: string; // MongoDB ObjectId
 }
 
+/**
+ * Return value of every pipeline step, handed on to the next step
+ */
+export interface OrderFlowResult {
+  // False once the order turned out to be settled elsewhere (e.g. cancelled) - later steps do nothing
+  proceed: boolean;
+  // Lines whose stock reached zero
+  depletedLineItems: OrderLineItemPayload[];
+  // Lines as taken off the shelf, set when a line was taken from another location than it was reserved at
+  reallocatedLineItems?: OrderLineItemPayload[];
+  // Webhook data of the order once it is CONFIRMED
+  confirmedOrder?: Record<string, unknown>;
+}
+
 @Injectable()
 @Processor(ORDER_QUEUE_NAME)
 export class OrderProcessor extends WorkerHost {
   private readonly logger = new Logger(OrderProcessor.name);
 
+  private readonly ACTOR = 'system:order-processor';
+
   constructor(
-    @InjectModel(Order.name) private readonly orderModel: Model<OrderDocument>,
+    private readonly orderStatusService: OrderStatusService,
     private readonly stockService: StockService,
+    private readonly webhooksService: WebhooksService,
+    private readonly paymentsService: PaymentsService,
+    private readonly stockRollbackFailureService: StockRollbackFailureService,
+    private readonly purchaseLimitService: PurchaseLimitService,
+    private readonly stockAllocationService: StockAllocationService,
   ) {
     super();
   }
 
-  async process(job: Job<OrderPayload>): Promise<void> {
+  async process(job: Job<OrderPayload>): Promise<OrderFlowResult> {
     this.logger.log(
-      `Starting order processing for job ${job.id} with priority ${job.opts.priority}`,
+      `Starting ${job.name} for order ${job.data.orderId} (job ${job.id}) with priority ${job.opts.priority}`,
     );
 
-    const { orderId, stockId, quantity } = job.data;
-    
+    switch (job.name) {
+      case OrderFlowStep.RESERVE_STOCK:
+        return this.reserveStock(job);
+      case OrderFlowStep.CHARGE_PAYMENT:
+        return this.chargePayment(job);
+      case OrderFlowStep.CONFIRM_ORDER:
+        return this.confirmOrder(job);
+      case OrderFlowStep.NOTIFY:
+        return this.notify(job);
+      default:
+        return this.completeOrder(job);
+    }
+  }
+
+  /**
+   * Step 1: claims the order and takes every line off the shelf (all-or-nothing)
+   */
+  private async reserveStock(job: Job<OrderPayload>): Promise<OrderFlowResult> {
+    const { orderId, userId, lineItems, deliveryLocation } = job.data;
+
     this.logger.log(
-      `Processing order - OrderId: ${orderId}, StockId: ${stockId}, Quantity: ${quantity}`,
+      `Processing order - OrderId: ${orderId}, Lines: ${lineItems.length}`,
     );
 
+    // Claim the order - skips orders that were cancelled (or otherwise settled) while the job was waiting
+    try {
+      await this.orderStatusService.transition(
+        orderId,
+        OrderStatus.PROCESSING,
+        {
+          changedBy: this.ACTOR,
+          reason: `Processing attempt ${job.attemptsMade + 1}`,
+        },
+      );
+    } catch (error) {
+      if (
+        error instanceof InvalidStatusTransitionError &&
+        error.from === OrderStatus.PROCESSING
+      ) {
+        // A previous attempt stalled before finishing - pick it up again
+        this.logger.warn(`Order ${orderId} is already PROCESSING, resuming`);
+      } else if (
+        error instanceof InvalidStatusTransitionError ||
+        error instanceof NotFoundException
+      ) {
+        this.logger.log(
+          `Order ${orderId} can no longer be processed, skipping: ${error.message}`,
+        );
+        return { proceed: false, depletedLineItems: [] };
+      } else {
+        throw error;
+      }
+    }
+
+    try {
+      // Purchase limits are checked again here - orders placed side by side all passed the check at creation
+      await this.purchaseLimitService.claim(orderId, userId, lineItems);
+
+      const { takenLineItems, depletedLineItems } = await this.commitLineItems(
+        orderId,
+        lineItems,
+        deliveryLocation,
+      );
+      const reallocated = takenLineItems.some(
+        (lineItem, index) => lineItem.stockId !== lineItems[index].stockId,
+      );
+      return {
+        proceed: true,
+        depletedLineItems,
+        reallocatedLineItems: reallocated ? takenLineItems : undefined,
+      };
+    } catch (error) {
+      return this.failStep(job, OrderFlowStep.RESERVE_STOCK, error);
+    }
+  }
+
+  /**
+   * Step 2: authorizes the payment - declines are permanent, gateway errors are retried
+   */
+  private async chargePayment(
+    job: Job<OrderPayload>,
+  ): Promise<OrderFlowResult> {
+    const previous = await this.previousStepResult(job);
+    if (!previous.proceed) {
+      return previous;
+    }
+
+    const { orderId, userId } = job.data;
+    const lineItems = previous.reallocatedLineItems ?? job.data.lineItems;
     try {
-      // Step 1: Atomically decrement stock with optimistic locking
+      await this.paymentsService
+        .authorize({ orderId, userId, amount: this.calculateTotal(lineItems) })
+        .catch((error) => {
+          throw error instanceof PaymentDeclinedError
+            ? new BusinessLogicError(error.message)
+            : error;
+        });
+      return previous;
+    } catch (error) {
+      return this.failStep(job, OrderFlowStep.CHARGE_PAYMENT, error, lineItems);
+    }
+  }
+
+  /**
+   * Step 3: moves the order to CONFIRMED. An order cancelled while the
+   * earlier steps ran gets its stock and payment back instead.
+   */
+  private async confirmOrder(job: Job<OrderPayload>): Promise<OrderFlowResult> {
+    const previous = await this.previousStepResult(job);
+    if (!previous.proceed) {
+      return previous;
+    }
+
+    const { orderId } = job.data;
+    const lineItems = previous.reallocatedLineItems ?? job.data.lineItems;
+    try {
+      const { order } = await this.orderStatusService.transition(
+        orderId,
+        OrderStatus.CONFIRMED,
+        {
+          changedBy: this.ACTOR,
+          reason: 'Stock reserved and payment authorized',
+          failureReason: '',
+          // Cancelling or refunding the order later gives the stock back where it was taken
+          set: previous.reallocatedLineItems
+            ? { lineItems: previous.reallocatedLineItems }
+            : undefined,
+        },
+      );
+
       this.logger.log(
-        `Attempting atomic stock decrement for stockId: ${stockId}, quantity: ${quantity}`,
+        `Order ${orderId} processed successfully and confirmed. New status: ${order.status}`,
       );
+      return { ...previous, confirmedOrder: toOrderWebhookData(order) };
+    } catch (error) {
+      if (
+        error instanceof InvalidStatusTransitionError &&
+        error.from === OrderStatus.CONFIRMED
+      ) {
+        // A previous attempt confirmed the order but stalled before finishing
+        return previous;
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        // Order was cancelled while stock was being taken or the payment authorized
+        this.logger.warn(
+          `Order ${orderId} is no longer PROCESSING (${error.from}), releasing reserved stock and payment`,
+        );
+        await this.rollbackLineItems(orderId, lineItems);
+        await this.releaseReservations(orderId, lineItems);
+        await this.paymentsService.release(orderId);
+        return { ...previous, proceed: false };
+      }
+      return this.failStep(job, OrderFlowStep.CONFIRM_ORDER, error, lineItems);
+    }
+  }
 
-      const stockResult = await this.stockService.decrementStockAtomic(
+  /**
+   * Step 4: tells webhook subscribers about the confirmed order and the
+   * stock it used up. Nothing to undo when this fails - the order stays CONFIRMED.
+   */
+  private async notify(job: Job<OrderPayload>): Promise<OrderFlowResult> {
+    const previous = await this.previousStepResult(job);
+    if (!previous.proceed || !previous.confirmedOrder) {
+      return previous;
+    }
+
+    const { orderId } = job.data;
+    await this.webhooksService.dispatch(
+      WebhookEventType.ORDER_CONFIRMED,
+      previous.confirmedOrder,
+    );
+    for (const {
+      productId,
+      variantId,
+      stockId,
+    } of previous.depletedLineItems) {
+      await this.webhooksService.dispatch(WebhookEventType.STOCK_DEPLETED, {
         stockId,
-        quantity,
+        productId,
+        variantId: variantId ?? null,
+        quantity: 0,
+        orderId,
+      });
+    }
+    return previous;
+  }
+
+  /**
+   * The process-order job itself - runs once every step has succeeded
+   */
+  private async completeOrder(
+    job: Job<OrderPayload>,
+  ): Promise<OrderFlowResult> {
+    const childrenValues = await job.getChildrenValues<OrderFlowResult>();
+    const result = Object.values(childrenValues)[0];
+    if (!result) {
+      // Queued as a single job before orders ran as flows - the reconciliation run requeues it as a flow
+      this.logger.warn(
+        `Job ${job.id} has no pipeline steps, leaving order ${job.data.orderId} to the reconciliation run`,
       );
+      return { proceed: false, depletedLineItems: [] };
+    }
+
+    this.logger.log(
+      `Order pipeline finished for order ${job.data.orderId} (${result.proceed ? 'confirmed' : 'skipped'})`,
+    );
+    return result;
+  }
+
+  /**
+   * Result of the step before this one (its only child job)
+   */
+  private async previousStepResult(
+    job: Job<OrderPayload>,
+  ): Promise<OrderFlowResult> {
+    const childrenValues = await job.getChildrenValues<OrderFlowResult>();
+    return (
+      Object.values(childrenValues)[0] ?? {
+        proceed: false,
+        depletedLineItems: [],
+      }
+    );
+  }
+
+  /**
+   * Handles an error of a step. A transient error on an attempt that is not
+   * the last is re-thrown for BullMQ to retry the step. Otherwise the steps
+   * that already ran are compensated, the order is FAILED and the step fails
+   * for good, which fails the process-order job as well.
+   */
+  private async failStep(
+    job: Job<OrderPayload>,
+    step: OrderFlowStep,
+    error: Error,
+    lineItems: OrderLineItemPayload[] = job.data.lineItems,
+  ): Promise<never> {
+    const { orderId } = job.data;
+    const isBusinessLogicError = error instanceof BusinessLogicError;
+
+    if (
+      !isBusinessLogicError &&
+      job.attemptsMade + 1 < (job.opts.attempts ?? 1)
+    ) {
+      // Transient error - log as error and let BullMQ handle retry
+      this.logger.error(
+        `Transient error in ${step} for order ${orderId}: ${error.message}`,
+        error.stack,
+      );
+
+      if (step === OrderFlowStep.RESERVE_STOCK) {
+        // Stock is already released - hand the order back for the next attempt
+        await this.moveOrderTo(
+          orderId,
+          OrderStatus.PENDING,
+          `Retrying after error: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+
+    this.logger.warn(
+      `${step} failed for good for order ${orderId}, compensating: ${error.message}`,
+    );
+    await this.compensate(step, orderId, lineItems);
+
+    const failedOrder = await this.moveOrderTo(
+      orderId,
+      OrderStatus.FAILED,
+      error.message,
+      { failureReason: error.message },
+    );
+    if (failedOrder) {
+      await this.webhooksService.dispatch(
+        WebhookEventType.ORDER_FAILED,
+        toOrderWebhookData(failedOrder),
+      );
+    }
+
+    // Business logic errors are not retried
+    throw isBusinessLogicError ? new UnrecoverableError(error.message) : error;
+  }
+
+  /**
+   * Undoes what the steps before the failed one did, latest first
+   */
+  private async compensate(
+    failedStep: OrderFlowStep,
+    orderId: string,
+    lineItems: OrderLineItemPayload[],
+  ): Promise<void> {
+    if (failedStep === OrderFlowStep.RESERVE_STOCK) {
+      // Lines taken by the failed attempt were already restored - give back the reservations
+      await this.releaseReservations(orderId, lineItems);
+      return;
+    }
+
+    await this.paymentsService.release(orderId);
+    await this.rollbackLineItems(orderId, lineItems);
+  }
+
+  private calculateTotal(lineItems: OrderLineItemPayload[]): number {
+    const total = lineItems.reduce(
+      (sum, { quantity, priceAtPurchase }) => sum + quantity * priceAtPurchase,
+      0,
+    );
+    return Math.round(total * 100) / 100;
+  }
+
+  /**
+   * Best-effort status change after a failed attempt. The order may have been
+   * cancelled in the meantime, which is logged rather than treated as an error.
+   */
+  private async moveOrderTo(
+    orderId: string,
+    status: OrderStatus,
+    reason: string,
+    options: { failureReason?: string } = {},
+  ): Promise<OrderDocument | null> {
+    try {
+      const { order } = await this.orderStatusService.transition(
+        orderId,
+        status,
+        {
+          changedBy: this.ACTOR,
+          reason,
+          failureReason: options.failureReason,
+        },
+      );
+      return order;
+    } catch (error) {
+      this.logger.warn(
+        `Could not move order ${orderId} to ${status}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Commits the reservation of every line in order, or decrements stock
+   * directly for lines whose reservation expired. If any line fails, the
+   * lines already taken are restored before the error is re-thrown.
+   * Returns the lines as taken and the lines whose stock reached zero.
+   */
+  private async commitLineItems(
+    orderId: string,
+    lineItems: OrderLineItemPayload[],
+    deliveryLocation?: GeoLocation,
+  ): Promise<{
+    takenLineItems: OrderLineItemPayload[];
+    depletedLineItems: OrderLineItemPayload[];
+  }> {
+    const reserved: OrderLineItemPayload[] = [];
+    const depleted: OrderLineItemPayload[] = [];
+
+    for (const lineItem of lineItems) {
+      const { stockId, quantity } = lineItem;
+
+      this.logger.log(
+        `Attempting atomic stock decrement for stockId: ${stockId}, quantity: ${quantity}`,
+      );
+
+      const { stockResult, takenLineItem } = await this.commitLineItem(
+        orderId,
+        lineItem,
+        deliveryLocation,
+      ).catch(async (error) => {
+        await this.rollbackLineItems(orderId, reserved);
+        throw error;
+      });
 
       if (!stockResult.success) {
+        await this.rollbackLineItems(orderId, reserved);
+
         // Check if this is a transient error (version conflicts) or permanent error (business logic)
-        if (stockResult.error?.includes('version conflicts') || stockResult.error?.includes('Database error')) {
+        if (stockResult.transient) {
           // Transient error - should retry
-          throw new Error(stockResult.error || 'Transient stock operation failed');
+          throw new Error(
+            stockResult.error || 'Transient stock operation failed',
+          );
         } else {
           // Permanent failure - business logic error (insufficient stock or stock not found)
           throw new BusinessLogicError(
@@ -66,90 +464,131 @@ export class OrderProcessor extends WorkerHost {
       }
 
       this.logger.log(
-        `Stock decremented successfully. New quantity: ${stockResult.currentStock?.quantity}`,
+        `Stock decremented successfully for stockId: ${takenLineItem.stockId}. New quantity: ${stockResult.currentStock?.quantity}`,
       );
+      reserved.push(takenLineItem);
+      if (stockResult.currentStock?.quantity === 0) {
+        depleted.push(takenLineItem);
+      }
+    }
 
-      try {
-        // Step 2: Simulate potential transient failures (e.g., payment gateway)
-        // In a real implementation, this would be actual external service calls
-        if (Math.random() < 0.1) {
-          // 10% chance of simulated network failure
-          throw new Error('Payment gateway timeout - please retry');
-        }
-
-        // Step 3: Business logic passed - update order status to CONFIRMED
-        this.logger.log(`Attempting to update order ${orderId} to CONFIRMED status`);
-        
-        const updatedOrder = await this.orderModel.findByIdAndUpdate(
-          orderId,
-          {
-            status: OrderStatus.CONFIRMED,
-            failureReason: '',
-          },
-          { new: true },
-        );
+    return { takenLineItems: reserved, depletedLineItems: depleted };
+  }
 
-        if (updatedOrder) {
-          this.logger.log(
-            `Order ${orderId} processed successfully and confirmed. New status: ${updatedOrder.status}`,
-          );
-        } else {
-          this.logger.error(
-            `CRITICAL: Order ${orderId} not found when trying to update to CONFIRMED status`,
-          );
-        }
-      } catch (transientError) {
-        // Rollback stock if order confirmation fails
-        this.logger.warn(
-          `Order confirmation failed, rolling back stock for order ${orderId}`,
-        );
+  /**
+   * Commits the line's reservation. When the reservation is gone (expired
+   * and swept before the job ran) the line is decremented directly at the
+   * first location the allocation strategy ranks - not necessarily the one
+   * it was reserved at. Returns the line as taken.
+   */
+  private async commitLineItem(
+    orderId: string,
+    lineItem: OrderLineItemPayload,
+    deliveryLocation?: GeoLocation,
+  ): Promise<{
+    stockResult: StockOperationResult;
+    takenLineItem: OrderLineItemPayload;
+  }> {
+    const { productId, variantId, stockId, quantity } = lineItem;
+    const commitResult = await this.stockService.commitReservationAtomic(
+      stockId,
+      orderId,
+      this.ACTOR,
+    );
+    if (commitResult.error !== RESERVATION_NOT_FOUND) {
+      return { stockResult: commitResult, takenLineItem: lineItem };
+    }
 
-        const rollbackResult = await this.stockService.incrementStockAtomic(
-          stockId,
-          quantity,
-        );
-        if (!rollbackResult.success) {
-          this.logger.error(
-            `CRITICAL: Failed to rollback stock for order ${orderId}: ${rollbackResult.error}`,
-          );
-        } else {
-          this.logger.log(`Stock rollback successful for order ${orderId}`);
-        }
+    const stocks = await this.stockAllocationService.rankStocks(
+      productId,
+      variantId,
+      quantity,
+      deliveryLocation,
+    );
+    this.logger.warn(
+      `No reservation for order ${orderId} on stock ${stockId}, decrementing directly at the best of ${stocks.length} location(s)`,
+    );
 
-        // Re-throw the transient error to trigger retry
-        throw transientError;
+    let stockResult: StockOperationResult = {
+      success: false,
+      error: `Insufficient stock. No location has ${quantity} unit(s) available`,
+    };
+    for (const stock of stocks) {
+      const allocatedStockId = stock._id!.toString();
+      stockResult = await this.stockService.decrementStockAtomic(
+        allocatedStockId,
+        quantity,
+        {
+          reason: StockMovementReason.SALE,
+          actor: this.ACTOR,
+          orderId,
+        },
+      );
+      if (stockResult.success) {
+        return {
+          stockResult,
+          takenLineItem: { ...lineItem, stockId: allocatedStockId },
+        };
       }
-    } catch (error) {
-      if (error instanceof BusinessLogicError) {
-        // Permanent failure - log as warning and move to failed without retry
-        this.logger.warn(
-          `Business logic error for order ${orderId}: ${error.message}`,
-        );
+      if (stockResult.transient) {
+        break;
+      }
+      // Taken by another order since it was ranked - try the next location
+    }
+    return { stockResult, takenLineItem: lineItem };
+  }
 
-        // Update order status to FAILED
-        await this.orderModel.findByIdAndUpdate(
-          orderId,
-          {
-            status: OrderStatus.FAILED,
-            failureReason: error.message,
-          },
-          { new: true },
+  /**
+   * Releases the reservations still held for the given lines. Failures are
+   * logged - the sweeper releases the reservation once it expires anyway.
+   */
+  private async releaseReservations(
+    orderId: string,
+    lineItems: OrderLineItemPayload[],
+  ): Promise<void> {
+    for (const { stockId } of lineItems) {
+      const releaseResult = await this.stockService.releaseReservationAtomic(
+        stockId,
+        orderId,
+      );
+      if (!releaseResult.success) {
+        this.logger.error(
+          `Failed to release reservation on stock ${stockId} for order ${orderId}: ${releaseResult.error}`,
         );
+      }
+    }
+  }
 
-        // Move job to failed state bypassing retries
-        await job.moveToFailed(error, job.token || '0');
-
-        // Do not re-throw - this prevents BullMQ from retrying
-        return;
+  /**
+   * Restores stock for the given lines. Failures are recorded for the
+   * reconciliation report and do not stop the remaining lines from being restored.
+   */
+  private async rollbackLineItems(
+    orderId: string,
+    lineItems: OrderLineItemPayload[],
+  ): Promise<void> {
+    for (const { stockId, quantity } of lineItems) {
+      const rollbackResult = await this.stockService.incrementStockAtomic(
+        stockId,
+        quantity,
+        {
+          reason: StockMovementReason.ROLLBACK,
+          actor: this.ACTOR,
+          orderId,
+        },
+      );
+      if (!rollbackResult.success) {
+        await this.stockRollbackFailureService.record({
+          orderId,
+          stockId,
+          quantity,
+          error: rollbackResult.error,
+          source: this.ACTOR,
+        });
       } else {
-        // Transient error - log as error and let BullMQ handle retry
-        this.logger.error(
-          `Transient error for order ${orderId}: ${error.message}`,
-          error.stack,
+        this.logger.log(
+          `Stock rollback successful for stockId: ${stockId}, order ${orderId}`,
         );
-
-        // Re-throw to let BullMQ handle exponential backoff and retry
-        throw error;
       }
     }
   }
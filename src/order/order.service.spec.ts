@@ -1,13 +1,108 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken } from '@nestjs/mongoose';
 import { getQueueToken } from '@nestjs/bullmq';
-import { OrderService } from './order.service';
-import { Order } from './entities/order.entity';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OrderService, OrderPayload } from './order.service';
+import { Order, OrderStatus } from './entities/order.entity';
 import { StockService } from '../stock/stock.service';
+import { StockAllocationService } from '../stock/stock-allocation.service';
+import { StockMovementReason } from '../stock/entities/stock-movement.entity';
 import { ORDER_QUEUE_NAME } from './order.constants';
+import { IdempotencyService } from './idempotency.service';
+import { OrderStatusService } from './order-status.service';
+import { InvalidStatusTransitionError } from './order.errors';
+import { UsersService } from '../users/users.service';
+import { PaymentsService } from '../payments/payments.service';
+import { PaymentDeclinedError } from '../payments/payment.errors';
+import { OrderOutboxService } from './order-outbox.service';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import { OrderPriorityService } from './order-priority.service';
+import { CustomerTier } from '../users/customer-tier';
+import { PurchaseLimitService } from './purchase-limit.service';
+import { FlashSaleService } from '../flash-sale/flash-sale.service';
 
 describe('OrderService', () => {
   let service: OrderService;
+  let orderQueue: { getJob: jest.Mock };
+  let orderOutboxService: { publish: jest.Mock };
+  let stockRollbackFailureService: { record: jest.Mock };
+  let orderPriorityService: { priorityFor: jest.Mock };
+  let purchaseLimitService: { assertWithinLimits: jest.Mock };
+  let flashSaleService: {
+    claimAdmission: jest.Mock;
+    restoreAdmission: jest.Mock;
+  };
+  let usersService: { findByEmail: jest.Mock };
+  let paymentsService: { capture: jest.Mock; release: jest.Mock };
+  let stockService: {
+    findOneStock: jest.Mock;
+    findOneProduct: jest.Mock;
+    findProductBySku: jest.Mock;
+    findFulfillingStocks: jest.Mock;
+    incrementStockAtomic: jest.Mock;
+    reserveStockAtomic: jest.Mock;
+    releaseReservationAtomic: jest.Mock;
+  };
+  let stockAllocationService: { rankStocks: jest.Mock };
+  let idempotencyService: jest.Mocked<IdempotencyService>;
+  let orderStatusService: jest.Mocked<OrderStatusService>;
+
+  // stockId -> populated product
+  const products: Record<
+    string,
+    { _id: Types.ObjectId; name: string; price: number }
+  > = {
+    '507f1f77bcf86cd799439013': {
+      _id: new Types.ObjectId('507f1f77bcf86cd799439012'),
+      name: 'Headphones',
+      price: 19.99,
+    },
+    '507f1f77bcf86cd799439016': {
+      _id: new Types.ObjectId('507f1f77bcf86cd799439015'),
+      name: 'Cable',
+      price: 5.5,
+    },
+  };
+
+  // Behaves like a Mongoose model constructor: new orderModel(doc).save()
+  const mockOrderModel: any = jest.fn().mockImplementation((doc) => {
+    const order = { _id: new Types.ObjectId(), ...doc };
+    return { ...order, save: jest.fn().mockResolvedValue(order) };
+  });
+  Object.assign(mockOrderModel, {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    deleteOne: jest.fn(),
+  });
+
+  const orderPayload: OrderPayload = {
+    userId: '507f1f77bcf86cd799439011',
+    lineItems: [
+      {
+        productId: '',
+        stockId: '507f1f77bcf86cd799439013',
+        quantity: 2,
+        priceAtPurchase: 0,
+      },
+      {
+        productId: '',
+        stockId: '507f1f77bcf86cd799439016',
+        quantity: 1,
+        priceAtPurchase: 0,
+      },
+    ],
+    isVipOrder: false,
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -16,34 +111,1577 @@ describe('OrderService', () => {
         {
           provide: getQueueToken(ORDER_QUEUE_NAME),
           useValue: {
-            add: jest.fn(),
+            getJob: jest.fn(),
           },
         },
         {
           provide: getModelToken(Order.name),
+          useValue: mockOrderModel,
+        },
+        {
+          provide: StockService,
           useValue: {
-            new: jest.fn(),
-            constructor: jest.fn(),
-            find: jest.fn(),
-            findOne: jest.fn(),
-            findOneAndUpdate: jest.fn(),
-            deleteOne: jest.fn(),
-            save: jest.fn(),
+            findOneStock: jest.fn(),
+            findOneProduct: jest.fn(),
+            findProductBySku: jest.fn(),
+            findFulfillingStocks: jest.fn(),
+            incrementStockAtomic: jest.fn(),
+            reserveStockAtomic: jest.fn(),
+            releaseReservationAtomic: jest.fn(),
           },
         },
         {
-          provide: StockService,
+          provide: StockAllocationService,
+          useValue: {
+            rankStocks: jest.fn(),
+          },
+        },
+        {
+          provide: IdempotencyService,
+          useValue: {
+            fingerprint: jest.fn(),
+            claim: jest.fn(),
+            complete: jest.fn(),
+            release: jest.fn(),
+          },
+        },
+        {
+          provide: OrderStatusService,
+          useValue: {
+            transition: jest.fn(),
+          },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            findByEmail: jest.fn(),
+          },
+        },
+        {
+          provide: PaymentsService,
+          useValue: {
+            capture: jest.fn(),
+            release: jest.fn(),
+          },
+        },
+        {
+          provide: OrderOutboxService,
+          useValue: {
+            publish: jest.fn(),
+          },
+        },
+        {
+          provide: StockRollbackFailureService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: OrderPriorityService,
+          useValue: {
+            priorityFor: jest.fn(),
+          },
+        },
+        {
+          provide: PurchaseLimitService,
+          useValue: {
+            assertWithinLimits: jest.fn(),
+          },
+        },
+        {
+          provide: FlashSaleService,
           useValue: {
-            findOneStockWithoutPopulate: jest.fn(),
+            claimAdmission: jest.fn(),
+            restoreAdmission: jest.fn(),
           },
         },
       ],
     }).compile();
 
     service = module.get<OrderService>(OrderService);
+    orderQueue = module.get(getQueueToken(ORDER_QUEUE_NAME));
+    stockService = module.get(StockService);
+    stockAllocationService = module.get(StockAllocationService);
+    idempotencyService = module.get(IdempotencyService);
+    orderStatusService = module.get(OrderStatusService);
+    usersService = module.get(UsersService);
+    paymentsService = module.get(PaymentsService);
+    orderOutboxService = module.get(OrderOutboxService);
+    stockRollbackFailureService = module.get(StockRollbackFailureService);
+    orderPriorityService = module.get(OrderPriorityService);
+    purchaseLimitService = module.get(PurchaseLimitService);
+    flashSaleService = module.get(FlashSaleService);
+
+    jest.clearAllMocks();
+    stockService.findOneStock.mockImplementation((stockId: string) =>
+      Promise.resolve({ productId: products[stockId] }),
+    );
+    stockService.findOneProduct.mockImplementation((productId: string) =>
+      Promise.resolve(
+        Object.values(products).find(
+          (product) => product._id.toString() === productId,
+        ),
+      ),
+    );
+    // Every product has a single location: the stock the payload names
+    const stocksOf = (productId: string) =>
+      Object.keys(products)
+        .filter((stockId) => products[stockId]._id.toString() === productId)
+        .map((stockId) => ({ _id: new Types.ObjectId(stockId) }));
+    stockService.findFulfillingStocks.mockImplementation((productId: string) =>
+      Promise.resolve(stocksOf(productId)),
+    );
+    stockAllocationService.rankStocks.mockImplementation((productId: string) =>
+      Promise.resolve(stocksOf(productId)),
+    );
+    stockService.reserveStockAtomic.mockResolvedValue({ success: true });
+    stockService.releaseReservationAtomic.mockResolvedValue({ success: true });
+    orderOutboxService.publish.mockResolvedValue(true);
+    orderPriorityService.priorityFor.mockReturnValue(20);
+    purchaseLimitService.assertWithinLimits.mockResolvedValue(undefined);
+    flashSaleService.claimAdmission.mockResolvedValue(null);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('createOrder', () => {
+    const admission = {
+      saleEventId: '507f1f77bcf86cd799439030',
+      userId: orderPayload.userId,
+      admissionToken: 'admission-token',
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+
+    it('should save one order with every line item and its total', async () => {
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+      );
+
+      // Assert
+      expect(mockOrderModel).toHaveBeenCalledTimes(1);
+      expect(order.status).toBe(OrderStatus.PENDING);
+      expect(order.totalAmount).toBe(45.48);
+      expect(order.lineItems.map((lineItem) => lineItem.productId)).toEqual([
+        '507f1f77bcf86cd799439012',
+        '507f1f77bcf86cd799439015',
+      ]);
+    });
+
+    it('should start the status history with the PENDING entry', async () => {
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+      );
+
+      // Assert
+      expect(order.statusHistory).toEqual([
+        expect.objectContaining({
+          from: null,
+          to: OrderStatus.PENDING,
+          changedBy: orderPayload.userId,
+          reason: 'Order placed',
+        }),
+      ]);
+    });
+
+    it('should charge the current product price instead of the client price', async () => {
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+      );
+
+      // Assert
+      expect(
+        order.lineItems.map((lineItem) => lineItem.priceAtPurchase),
+      ).toEqual([19.99, 5.5]);
+    });
+
+    it('should accept a client price that matches the current price', async () => {
+      // Arrange
+      const payload: OrderPayload = {
+        ...orderPayload,
+        lineItems: [{ ...orderPayload.lineItems[0], expectedPrice: 19.99 }],
+      };
+
+      // Act
+      const order = await service.createOrder(payload, CustomerTier.STANDARD);
+
+      // Assert
+      expect(order.totalAmount).toBe(39.98);
+    });
+
+    it('should reject the order when the client price no longer matches', async () => {
+      // Arrange
+      const payload: OrderPayload = {
+        ...orderPayload,
+        lineItems: [{ ...orderPayload.lineItems[0], expectedPrice: 0 }],
+      };
+
+      // Act & Assert
+      await expect(
+        service.createOrder(payload, CustomerTier.STANDARD),
+      ).rejects.toThrow(
+        'Price changed for "Headphones": expected 0, current price is 19.99',
+      );
+      expect(mockOrderModel).not.toHaveBeenCalled();
+      expect(orderOutboxService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should check the purchase limits of every line for the customer', async () => {
+      // Act
+      await service.createOrder(orderPayload, CustomerTier.STANDARD);
+
+      // Assert
+      expect(purchaseLimitService.assertWithinLimits).toHaveBeenCalledWith(
+        orderPayload.userId,
+        [
+          expect.objectContaining({
+            productId: '507f1f77bcf86cd799439012',
+            productName: 'Headphones',
+            quantity: 2,
+          }),
+          expect.objectContaining({
+            productId: '507f1f77bcf86cd799439015',
+            productName: 'Cable',
+            quantity: 1,
+          }),
+        ],
+      );
+    });
+
+    it('should reject the order before reserving stock when a purchase limit is exceeded', async () => {
+      // Arrange
+      purchaseLimitService.assertWithinLimits.mockRejectedValue(
+        new ConflictException(
+          'Purchase limit for "Headphones": at most 1 per order, requested 2',
+        ),
+      );
+
+      // Act & Assert
+      await expect(
+        service.createOrder(orderPayload, CustomerTier.STANDARD),
+      ).rejects.toThrow(ConflictException);
+      expect(stockService.reserveStockAtomic).not.toHaveBeenCalled();
+      expect(mockOrderModel).not.toHaveBeenCalled();
+    });
+
+    it('should claim the admission token against live flash sales of the ordered stock', async () => {
+      // Act
+      await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+        undefined,
+        'admission-token',
+      );
+
+      // Assert
+      expect(flashSaleService.claimAdmission).toHaveBeenCalledWith(
+        orderPayload.userId,
+        ['507f1f77bcf86cd799439013', '507f1f77bcf86cd799439016'],
+        'admission-token',
+      );
+      expect(flashSaleService.restoreAdmission).not.toHaveBeenCalled();
+    });
+
+    it('should place only one order when concurrent requests share an admission token', async () => {
+      // Arrange
+      let admitted = true;
+      flashSaleService.claimAdmission.mockImplementation(() => {
+        if (!admitted) {
+          return Promise.reject(
+            new ForbiddenException('"Sneaker drop" is a flash sale'),
+          );
+        }
+        admitted = false;
+        return Promise.resolve(admission);
+      });
+
+      // Act
+      const results = await Promise.allSettled([
+        service.createOrder(
+          orderPayload,
+          CustomerTier.STANDARD,
+          undefined,
+          'admission-token',
+        ),
+        service.createOrder(
+          orderPayload,
+          CustomerTier.STANDARD,
+          undefined,
+          'admission-token',
+        ),
+      ]);
+
+      // Assert
+      expect(results.map(({ status }) => status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(results.find(({ status }) => status === 'rejected')).toMatchObject(
+        { reason: expect.any(ForbiddenException) },
+      );
+      expect(mockOrderModel).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hand the admission back when the stock cannot be reserved', async () => {
+      // Arrange
+      flashSaleService.claimAdmission.mockResolvedValue(admission);
+      stockService.reserveStockAtomic.mockResolvedValue({
+        success: false,
+        error: 'Insufficient stock. Available: 0, Requested: 2',
+      });
+
+      // Act & Assert
+      await expect(
+        service.createOrder(
+          orderPayload,
+          CustomerTier.STANDARD,
+          undefined,
+          'admission-token',
+        ),
+      ).rejects.toThrow();
+      expect(flashSaleService.restoreAdmission).toHaveBeenCalledWith(admission);
+      expect(mockOrderModel).not.toHaveBeenCalled();
+    });
+
+    it('should reject a flash sale order without admission before reserving stock', async () => {
+      // Arrange
+      flashSaleService.claimAdmission.mockRejectedValue(
+        new ForbiddenException('"Sneaker drop" is a flash sale'),
+      );
+
+      // Act & Assert
+      await expect(
+        service.createOrder(orderPayload, CustomerTier.STANDARD),
+      ).rejects.toThrow(ForbiddenException);
+      expect(stockService.reserveStockAtomic).not.toHaveBeenCalled();
+      expect(mockOrderModel).not.toHaveBeenCalled();
+    });
+
+    it('should save a single job carrying all line items in the outbox', async () => {
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+      );
+
+      // Assert
+      const { jobName, payload, jobOptions } = order.outbox!;
+      expect(jobName).toBe('process-order');
+      expect(payload.orderId).toBe(order._id.toString());
+      expect(jobOptions.jobId).toBe(order._id.toString());
+      expect(payload.lineItems).toHaveLength(2);
+    });
+
+    it('should queue the order with the priority of the customer tier', async () => {
+      // Arrange
+      orderPriorityService.priorityFor.mockReturnValue(5);
+
+      // Act
+      const order = await service.createOrder(orderPayload, CustomerTier.GOLD);
+
+      // Assert
+      expect(orderPriorityService.priorityFor).toHaveBeenCalledWith(
+        CustomerTier.GOLD,
+      );
+      expect(order.priorityTier).toBe(CustomerTier.GOLD);
+      expect(order.outbox!.payload.priorityTier).toBe(CustomerTier.GOLD);
+      expect(order.outbox!.jobOptions.priority).toBe(5);
+    });
+
+    it('should publish the outbox entry once the order is saved', async () => {
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+      );
+
+      // Assert
+      expect(orderOutboxService.publish).toHaveBeenCalledTimes(1);
+      expect(orderOutboxService.publish).toHaveBeenCalledWith(order);
+    });
+
+    it('should accept the order when its job cannot be published yet', async () => {
+      // Arrange
+      orderOutboxService.publish.mockResolvedValue(false);
+
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+      );
+
+      // Assert
+      expect(order.status).toBe(OrderStatus.PENDING);
+      expect(stockService.releaseReservationAtomic).not.toHaveBeenCalled();
+    });
+
+    it('should reserve every line for the new order before saving it', async () => {
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+      );
+
+      // Assert
+      expect(stockService.reserveStockAtomic).toHaveBeenCalledTimes(2);
+      expect(stockService.reserveStockAtomic).toHaveBeenNthCalledWith(
+        1,
+        '507f1f77bcf86cd799439013',
+        order._id.toString(),
+        2,
+      );
+      expect(stockService.reserveStockAtomic).toHaveBeenNthCalledWith(
+        2,
+        '507f1f77bcf86cd799439016',
+        order._id.toString(),
+        1,
+      );
+    });
+
+    it('should reject the order and release earlier reservations when stock runs out', async () => {
+      // Arrange
+      stockService.reserveStockAtomic
+        .mockResolvedValueOnce({ success: true })
+        .mockResolvedValueOnce({
+          success: false,
+          error: 'Insufficient stock. Available: 0, Requested: 1',
+        });
+
+      // Act & Assert
+      await expect(
+        service.createOrder(orderPayload, CustomerTier.STANDARD),
+      ).rejects.toThrow(ConflictException);
+      const [, reservedFor] = stockService.reserveStockAtomic.mock.calls[0];
+      expect(stockService.releaseReservationAtomic).toHaveBeenCalledTimes(1);
+      expect(stockService.releaseReservationAtomic).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439013',
+        reservedFor,
+      );
+      expect(mockOrderModel).not.toHaveBeenCalled();
+      expect(orderOutboxService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should ask the client to retry when the stock is contended', async () => {
+      // Arrange
+      stockService.reserveStockAtomic.mockResolvedValue({
+        success: false,
+        error: 'Max retries exceeded due to version conflicts',
+        transient: true,
+      });
+
+      // Act & Assert
+      await expect(
+        service.createOrder(orderPayload, CustomerTier.STANDARD),
+      ).rejects.toThrow(ServiceUnavailableException);
+    });
+
+    it('should reserve at the location the allocation strategy ranks first', async () => {
+      // Arrange
+      const deliveryLocation = { latitude: 52.52, longitude: 13.405 };
+      const payload: OrderPayload = {
+        ...orderPayload,
+        lineItems: [
+          {
+            productId: '507f1f77bcf86cd799439012',
+            stockId: '',
+            quantity: 2,
+            priceAtPurchase: 0,
+          },
+        ],
+        deliveryLocation,
+      };
+      const nearest = new Types.ObjectId();
+      stockAllocationService.rankStocks.mockResolvedValue([
+        { _id: nearest },
+        { _id: new Types.ObjectId('507f1f77bcf86cd799439013') },
+      ]);
+
+      // Act
+      const order = await service.createOrder(payload, CustomerTier.STANDARD);
+
+      // Assert
+      expect(stockAllocationService.rankStocks).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439012',
+        undefined,
+        2,
+        deliveryLocation,
+      );
+      expect(stockService.reserveStockAtomic).toHaveBeenCalledTimes(1);
+      expect(order.lineItems[0].stockId).toBe(nearest.toString());
+    });
+
+    it('should fall back to the next location when the first runs out', async () => {
+      // Arrange
+      const fallback = new Types.ObjectId();
+      stockAllocationService.rankStocks.mockResolvedValueOnce([
+        { _id: new Types.ObjectId('507f1f77bcf86cd799439013') },
+        { _id: fallback },
+      ]);
+      stockService.reserveStockAtomic.mockResolvedValueOnce({
+        success: false,
+        error: 'Insufficient stock. Available: 1, Requested: 2',
+      });
+
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+      );
+
+      // Assert
+      expect(stockService.reserveStockAtomic).toHaveBeenCalledTimes(3);
+      expect(order.lineItems.map((lineItem) => lineItem.stockId)).toEqual([
+        fallback.toString(),
+        '507f1f77bcf86cd799439016',
+      ]);
+      expect(stockService.releaseReservationAtomic).not.toHaveBeenCalled();
+    });
+
+    it('should reject the order when no location can fulfil a line', async () => {
+      // Arrange
+      stockAllocationService.rankStocks.mockResolvedValueOnce([]);
+
+      // Act & Assert
+      await expect(
+        service.createOrder(orderPayload, CustomerTier.STANDARD),
+      ).rejects.toThrow(
+        'Not enough stock for product 507f1f77bcf86cd799439012: No location has 2 unit(s) available',
+      );
+      expect(stockService.reserveStockAtomic).not.toHaveBeenCalled();
+    });
+
+    describe('with product variants', () => {
+      const shirt = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439020'),
+        name: 'T-Shirt',
+        price: 20,
+        options: [{ name: 'size', values: ['M', 'L'] }],
+        variants: [
+          {
+            _id: new Types.ObjectId('507f1f77bcf86cd799439021'),
+            sku: 'TSHIRT-M',
+            options: { size: 'M' },
+            price: null,
+          },
+          {
+            _id: new Types.ObjectId('507f1f77bcf86cd799439022'),
+            sku: 'TSHIRT-L',
+            options: { size: 'L' },
+            price: 22.5,
+          },
+        ],
+      };
+      const shirtLine = (overrides: object) => ({
+        productId: shirt._id.toString(),
+        stockId: '',
+        quantity: 1,
+        priceAtPurchase: 0,
+        ...overrides,
+      });
+
+      beforeEach(() => {
+        stockService.findOneProduct.mockResolvedValue(shirt);
+        stockService.findProductBySku.mockResolvedValue(shirt);
+        stockAllocationService.rankStocks.mockImplementation(
+          (productId: string, variantId: string) =>
+            Promise.resolve([{ _id: new Types.ObjectId(variantId) }]),
+        );
+      });
+
+      it('should charge each variant its own price and reserve its stock', async () => {
+        // Arrange
+        const payload: OrderPayload = {
+          ...orderPayload,
+          lineItems: [
+            shirtLine({ variantId: '507f1f77bcf86cd799439021' }),
+            shirtLine({ variantId: '507f1f77bcf86cd799439022', quantity: 2 }),
+          ],
+        };
+
+        // Act
+        const order = await service.createOrder(payload, CustomerTier.STANDARD);
+
+        // Assert
+        expect(order.totalAmount).toBe(65);
+        expect(order.lineItems).toEqual([
+          expect.objectContaining({
+            variantId: '507f1f77bcf86cd799439021',
+            sku: 'TSHIRT-M',
+            priceAtPurchase: 20,
+          }),
+          expect.objectContaining({
+            variantId: '507f1f77bcf86cd799439022',
+            sku: 'TSHIRT-L',
+            priceAtPurchase: 22.5,
+          }),
+        ]);
+        expect(stockAllocationService.rankStocks).toHaveBeenCalledWith(
+          shirt._id.toString(),
+          '507f1f77bcf86cd799439022',
+          2,
+          undefined,
+        );
+      });
+
+      it('should order a variant by its SKU', async () => {
+        // Arrange
+        const payload: OrderPayload = {
+          ...orderPayload,
+          lineItems: [shirtLine({ productId: '', sku: 'TSHIRT-L' })],
+        };
+
+        // Act
+        const order = await service.createOrder(payload, CustomerTier.STANDARD);
+
+        // Assert
+        expect(stockService.findProductBySku).toHaveBeenCalledWith('TSHIRT-L');
+        expect(order.lineItems[0]).toEqual(
+          expect.objectContaining({
+            productId: shirt._id.toString(),
+            variantId: '507f1f77bcf86cd799439022',
+          }),
+        );
+      });
+
+      it('should reject a product with variants ordered without one', async () => {
+        // Arrange
+        const payload: OrderPayload = {
+          ...orderPayload,
+          lineItems: [shirtLine({})],
+        };
+
+        // Act & Assert
+        await expect(
+          service.createOrder(payload, CustomerTier.STANDARD),
+        ).rejects.toThrow(
+          new BadRequestException(
+            '"T-Shirt" comes in variants - order one by variantId or sku',
+          ),
+        );
+        expect(stockService.reserveStockAtomic).not.toHaveBeenCalled();
+      });
+
+      it('should reject an unknown variant', async () => {
+        // Arrange
+        const payload: OrderPayload = {
+          ...orderPayload,
+          lineItems: [shirtLine({ variantId: '507f1f77bcf86cd799439029' })],
+        };
+
+        // Act & Assert
+        await expect(
+          service.createOrder(payload, CustomerTier.STANDARD),
+        ).rejects.toThrow(NotFoundException);
+      });
+    });
+
+    it('should release the reservations when the order cannot be saved', async () => {
+      // Arrange
+      mockOrderModel.mockImplementationOnce((doc) => ({
+        ...doc,
+        save: jest.fn().mockRejectedValue(new Error('Write failed')),
+      }));
+
+      // Act & Assert
+      await expect(
+        service.createOrder(orderPayload, CustomerTier.STANDARD),
+      ).rejects.toThrow('Write failed');
+      expect(stockService.releaseReservationAtomic).toHaveBeenCalledTimes(2);
+      expect(orderOutboxService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should reject an order that lists the same product twice', async () => {
+      // Arrange
+      const duplicatePayload: OrderPayload = {
+        ...orderPayload,
+        lineItems: [orderPayload.lineItems[0], orderPayload.lineItems[0]],
+      };
+
+      // Act & Assert
+      await expect(
+        service.createOrder(duplicatePayload, CustomerTier.STANDARD),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockOrderModel).not.toHaveBeenCalled();
+      expect(orderOutboxService.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createOrder with an Idempotency-Key', () => {
+    it('should claim the key and link it to the new order', async () => {
+      // Arrange
+      idempotencyService.fingerprint.mockReturnValue('fingerprint');
+      idempotencyService.claim.mockResolvedValue(null);
+
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+        'key-1',
+      );
+
+      // Assert
+      expect(idempotencyService.claim).toHaveBeenCalledWith(
+        orderPayload.userId,
+        'key-1',
+        'fingerprint',
+      );
+      expect(idempotencyService.complete).toHaveBeenCalledWith(
+        orderPayload.userId,
+        'key-1',
+        order._id.toString(),
+      );
+      expect(orderOutboxService.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a retry whose delivery location differs from the original', async () => {
+      // Arrange
+      const fingerprints = new Map<string, string>();
+      idempotencyService.fingerprint.mockImplementation((body) =>
+        JSON.stringify(body),
+      );
+      idempotencyService.claim.mockImplementation(
+        (userId, key, fingerprint) => {
+          const original = fingerprints.get(key);
+          if (original === undefined) {
+            fingerprints.set(key, fingerprint);
+            return Promise.resolve(null);
+          }
+          if (original !== fingerprint) {
+            return Promise.reject(
+              new UnprocessableEntityException(
+                'Idempotency-Key was already used with a different request body',
+              ),
+            );
+          }
+          return Promise.resolve(new Types.ObjectId().toString());
+        },
+      );
+      await service.createOrder(
+        {
+          ...orderPayload,
+          deliveryLocation: { latitude: 52.52, longitude: 13.405 },
+        },
+        CustomerTier.STANDARD,
+        'key-1',
+      );
+
+      // Act & Assert
+      await expect(
+        service.createOrder(
+          {
+            ...orderPayload,
+            deliveryLocation: { latitude: 48.137, longitude: 11.575 },
+          },
+          CustomerTier.STANDARD,
+          'key-1',
+        ),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(idempotencyService.fingerprint).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          deliveryLocation: { latitude: 48.137, longitude: 11.575 },
+        }),
+      );
+      expect(mockOrderModel).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the original order on a replay', async () => {
+      // Arrange
+      const originalOrder = { _id: new Types.ObjectId() };
+      idempotencyService.claim.mockResolvedValue(originalOrder._id.toString());
+      mockOrderModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(originalOrder),
+      });
+
+      // Act
+      const order = await service.createOrder(
+        orderPayload,
+        CustomerTier.STANDARD,
+        'key-1',
+      );
+
+      // Assert
+      expect(order).toBe(originalOrder);
+      expect(mockOrderModel).not.toHaveBeenCalled();
+      expect(orderOutboxService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should release the key when the order could not be created', async () => {
+      // Arrange
+      idempotencyService.claim.mockResolvedValue(null);
+      stockService.findOneStock.mockRejectedValue(
+        new NotFoundException('Stock not found'),
+      );
+
+      // Act & Assert
+      await expect(
+        service.createOrder(orderPayload, CustomerTier.STANDARD, 'key-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(idempotencyService.release).toHaveBeenCalledWith(
+        orderPayload.userId,
+        'key-1',
+      );
+    });
+  });
+
+  describe('findOrdersByUserId', () => {
+    const userId = '507f1f77bcf86cd799439011';
+
+    // find().sort().limit().populate().populate().exec()
+    const mockFind = (result: unknown[]) => {
+      const query: any = {};
+      for (const method of ['sort', 'limit', 'populate']) {
+        query[method] = jest.fn().mockReturnValue(query);
+      }
+      query.exec = jest.fn().mockResolvedValue(result);
+      mockOrderModel.find.mockReturnValue(query);
+      return query;
+    };
+
+    const ordersAt = (...minutes: number[]) =>
+      minutes.map((minute) => ({
+        _id: new Types.ObjectId(),
+        createdAt: new Date(Date.UTC(2024, 0, 15, 10, minute)),
+      }));
+
+    it('should return the first page with a cursor when more orders exist', async () => {
+      // Arrange
+      const orders = ordersAt(30, 20, 10);
+      const query = mockFind(orders);
+
+      // Act
+      const page = await service.findOrdersByUserId(userId, { limit: 2 });
+
+      // Assert
+      expect(mockOrderModel.find).toHaveBeenCalledWith({ userId });
+      expect(query.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+      expect(query.limit).toHaveBeenCalledWith(3);
+      expect(page.orders).toEqual(orders.slice(0, 2));
+      expect(page.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should return no cursor on the last page', async () => {
+      // Arrange
+      mockFind(ordersAt(30, 20));
+
+      // Act
+      const page = await service.findOrdersByUserId(userId, { limit: 2 });
+
+      // Assert
+      expect(page.orders).toHaveLength(2);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should continue after the order encoded in the cursor', async () => {
+      // Arrange
+      const orders = ordersAt(30, 20, 10);
+      mockFind(orders);
+      const { nextCursor } = await service.findOrdersByUserId(userId, {
+        limit: 2,
+      });
+      const lastOrder = orders[1];
+
+      // Act
+      await service.findOrdersByUserId(userId, {
+        limit: 2,
+        cursor: nextCursor!,
+      });
+
+      // Assert
+      expect(mockOrderModel.find).toHaveBeenLastCalledWith({
+        userId,
+        $or: [
+          { createdAt: { $lt: lastOrder.createdAt } },
+          { createdAt: lastOrder.createdAt, _id: { $lt: lastOrder._id } },
+        ],
+      });
+    });
+
+    it('should apply status, date range and product filters', async () => {
+      // Arrange
+      const query = mockFind([]);
+
+      // Act
+      await service.findOrdersByUserId(userId, {
+        status: [OrderStatus.CONFIRMED, OrderStatus.SHIPPED],
+        from: '2024-01-01T00:00:00.000Z',
+        to: '2024-01-31T23:59:59.999Z',
+        productId: '507f1f77bcf86cd799439012',
+      });
+
+      // Assert
+      expect(mockOrderModel.find).toHaveBeenCalledWith({
+        userId,
+        status: { $in: [OrderStatus.CONFIRMED, OrderStatus.SHIPPED] },
+        createdAt: {
+          $gte: new Date('2024-01-01T00:00:00.000Z'),
+          $lte: new Date('2024-01-31T23:59:59.999Z'),
+        },
+        'lineItems.productId': new Types.ObjectId('507f1f77bcf86cd799439012'),
+      });
+      expect(query.limit).toHaveBeenCalledWith(21);
+    });
+
+    it('should reject a malformed cursor', async () => {
+      // Arrange
+      mockFind([]);
+
+      // Act & Assert
+      await expect(
+        service.findOrdersByUserId(userId, { cursor: 'not-a-cursor' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockOrderModel.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchOrders', () => {
+    // find().sort().limit().populate().populate().exec()
+    const mockFind = (result: unknown[]) => {
+      const query: any = {};
+      for (const method of ['sort', 'limit', 'populate']) {
+        query[method] = jest.fn().mockReturnValue(query);
+      }
+      query.exec = jest.fn().mockResolvedValue(result);
+      mockOrderModel.find.mockReturnValue(query);
+      return query;
+    };
+
+    it('should search the orders of the user with the given email', async () => {
+      // Arrange
+      const userId = new Types.ObjectId('507f1f77bcf86cd799439011');
+      usersService.findByEmail.mockResolvedValue({ _id: userId });
+      mockFind([]);
+
+      // Act
+      await service.searchOrders({
+        email: 'customer@example.com',
+        isVip: true,
+        status: [OrderStatus.FAILED],
+      });
+
+      // Assert
+      expect(usersService.findByEmail).toHaveBeenCalledWith(
+        'customer@example.com',
+      );
+      expect(mockOrderModel.find).toHaveBeenCalledWith({
+        userId,
+        isVipOrder: true,
+        status: { $in: [OrderStatus.FAILED] },
+      });
+    });
+
+    it('should return an empty page for an unknown email', async () => {
+      // Arrange
+      usersService.findByEmail.mockResolvedValue(null);
+
+      // Act
+      const page = await service.searchOrders({
+        email: 'nobody@example.com',
+      });
+
+      // Assert
+      expect(page).toEqual({ orders: [], nextCursor: null });
+      expect(mockOrderModel.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportOrdersCsv', () => {
+    it('should page through all matches and render them as CSV', async () => {
+      // Arrange
+      const createdAt = new Date('2024-01-15T10:30:00.000Z');
+      const order = (id: string, failureReason = '') => ({
+        _id: new Types.ObjectId(id),
+        userId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        status: OrderStatus.FAILED,
+        isVipOrder: false,
+        totalAmount: 45.48,
+        lineItems: [
+          { productId: products['507f1f77bcf86cd799439013'], quantity: 2 },
+          { productId: products['507f1f77bcf86cd799439016'], quantity: 1 },
+        ],
+        failureReason,
+        createdAt,
+        updatedAt: createdAt,
+      });
+      const searchSpy = jest
+        .spyOn(service, 'searchOrders')
+        .mockResolvedValueOnce({
+          orders: [order('507f1f77bcf86cd799439021')] as any,
+          nextCursor: 'next-page',
+        })
+        .mockResolvedValueOnce({
+          orders: [
+            order('507f1f77bcf86cd799439022', '=HYPERLINK("x"), retried'),
+          ] as any,
+          nextCursor: null,
+        });
+
+      // Act
+      const { csv, rowCount, truncated } = await service.exportOrdersCsv({
+        status: [OrderStatus.FAILED],
+      });
+
+      // Assert
+      expect(searchSpy).toHaveBeenCalledTimes(2);
+      expect(searchSpy).toHaveBeenLastCalledWith({
+        status: [OrderStatus.FAILED],
+        cursor: 'next-page',
+        limit: 100,
+      });
+      expect(rowCount).toBe(2);
+      expect(truncated).toBe(false);
+      expect(csv.split('\r\n')).toEqual([
+        'orderId,userId,status,isVipOrder,totalAmount,items,failureReason,createdAt,updatedAt',
+        '507f1f77bcf86cd799439021,507f1f77bcf86cd799439011,FAILED,false,45.48,Headphones x2; Cable x1,,2024-01-15T10:30:00.000Z,2024-01-15T10:30:00.000Z',
+        // Formula-like values are defused, quotes and commas escaped
+        '507f1f77bcf86cd799439022,507f1f77bcf86cd799439011,FAILED,false,45.48,Headphones x2; Cable x1,"\'=HYPERLINK(""x""), retried",2024-01-15T10:30:00.000Z,2024-01-15T10:30:00.000Z',
+        '',
+      ]);
+    });
+  });
+
+  describe('getOrderJob', () => {
+    it('should expose the state, attempts and last error of the job', async () => {
+      // Arrange
+      orderQueue.getJob.mockResolvedValue({
+        id: '507f1f77bcf86cd799439014',
+        attemptsMade: 5,
+        opts: { attempts: 5, priority: 1 },
+        failedReason: 'Payment gateway unreachable',
+        stacktrace: ['Error: Payment gateway unreachable'],
+        timestamp: Date.UTC(2024, 0, 15, 10, 30),
+        processedOn: Date.UTC(2024, 0, 15, 10, 31),
+        finishedOn: Date.UTC(2024, 0, 15, 10, 32),
+        getState: jest.fn().mockResolvedValue('failed'),
+      });
+
+      // Act
+      const job = await service.getOrderJob('507f1f77bcf86cd799439014');
+
+      // Assert
+      expect(orderQueue.getJob).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439014',
+      );
+      expect(job).toEqual({
+        jobId: '507f1f77bcf86cd799439014',
+        state: 'failed',
+        attemptsMade: 5,
+        maxAttempts: 5,
+        priority: 1,
+        lastError: 'Payment gateway unreachable',
+        stacktrace: ['Error: Payment gateway unreachable'],
+        queuedAt: new Date('2024-01-15T10:30:00.000Z'),
+        processedAt: new Date('2024-01-15T10:31:00.000Z'),
+        finishedAt: new Date('2024-01-15T10:32:00.000Z'),
+      });
+    });
+
+    it('should return null once the job was removed from the queue', async () => {
+      // Arrange
+      orderQueue.getJob.mockResolvedValue(undefined);
+
+      // Act & Assert
+      await expect(
+        service.getOrderJob('507f1f77bcf86cd799439014'),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('findUserOrder', () => {
+    const orderId = '507f1f77bcf86cd799439014';
+    const userId = '507f1f77bcf86cd799439011';
+
+    // findOne().populate().populate().exec()
+    const mockFindOne = (result: unknown) => {
+      const query: any = { populate: jest.fn() };
+      query.populate.mockReturnValue(query);
+      query.exec = jest.fn().mockResolvedValue(result);
+      mockOrderModel.findOne.mockReturnValue(query);
+    };
+
+    it('should only look up orders owned by the user', async () => {
+      // Arrange
+      const order = { _id: new Types.ObjectId(orderId) };
+      mockFindOne(order);
+
+      // Act
+      const result = await service.findUserOrder(orderId, userId);
+
+      // Assert
+      expect(result).toBe(order);
+      expect(mockOrderModel.findOne).toHaveBeenCalledWith({
+        _id: orderId,
+        userId,
+      });
+    });
+
+    it("should throw 404 for another user's order", async () => {
+      // Arrange
+      mockFindOne(null);
+
+      // Act & Assert
+      await expect(service.findUserOrder(orderId, userId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw 404 for a malformed order ID without querying', async () => {
+      // Act & Assert
+      await expect(service.findUserOrder('not-an-id', userId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockOrderModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOrderById', () => {
+    it('should throw 404 instead of a plain error for a missing order', async () => {
+      // Arrange
+      const query: any = { populate: jest.fn() };
+      query.populate.mockReturnValue(query);
+      query.exec = jest.fn().mockResolvedValue(null);
+      mockOrderModel.findById.mockReturnValue(query);
+
+      // Act & Assert
+      await expect(
+        service.findOrderById('507f1f77bcf86cd799439014'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('cancelOrder', () => {
+    const orderId = '507f1f77bcf86cd799439014';
+    const userId = '507f1f77bcf86cd799439011';
+
+    const cancelledOrder = {
+      _id: new Types.ObjectId(orderId),
+      status: OrderStatus.CANCELLED,
+      lineItems: [
+        {
+          stockId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+          quantity: 2,
+        },
+      ],
+    };
+
+    const mockCancelled = (previousStatus: OrderStatus) =>
+      orderStatusService.transition.mockResolvedValue({
+        order: cancelledOrder as any,
+        previousStatus,
+      });
+
+    it('should void or refund the payment of a cancelled order', async () => {
+      // Arrange
+      mockCancelled(OrderStatus.CONFIRMED);
+      stockService.incrementStockAtomic.mockResolvedValue({ success: true });
+
+      // Act
+      await service.cancelOrder(orderId, userId);
+
+      // Assert
+      expect(paymentsService.release).toHaveBeenCalledWith(orderId);
+    });
+
+    it('should cancel a PENDING order and remove its queued job', async () => {
+      // Arrange
+      const job = { remove: jest.fn() };
+      mockCancelled(OrderStatus.PENDING);
+      orderQueue.getJob.mockResolvedValue(job);
+
+      // Act
+      const order = await service.cancelOrder(orderId, userId);
+
+      // Assert
+      expect(order.status).toBe(OrderStatus.CANCELLED);
+      expect(orderStatusService.transition).toHaveBeenCalledWith(
+        orderId,
+        OrderStatus.CANCELLED,
+        {
+          changedBy: userId,
+          reason: 'Cancelled by customer',
+          failureReason: 'Cancelled by customer',
+          allowedFrom: [
+            OrderStatus.PENDING,
+            OrderStatus.PROCESSING,
+            OrderStatus.CONFIRMED,
+          ],
+          filter: { userId },
+        },
+      );
+      expect(orderQueue.getJob).toHaveBeenCalledWith(orderId);
+      expect(job.remove).toHaveBeenCalled();
+      expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
+    });
+
+    it('should release the stock reservations of a PENDING order', async () => {
+      // Arrange
+      mockCancelled(OrderStatus.PENDING);
+      orderQueue.getJob.mockResolvedValue(null);
+
+      // Act
+      await service.cancelOrder(orderId, userId);
+
+      // Assert
+      expect(stockService.releaseReservationAtomic).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439013',
+        orderId,
+      );
+    });
+
+    it('should still cancel when the job is locked by the processor', async () => {
+      // Arrange
+      mockCancelled(OrderStatus.PENDING);
+      orderQueue.getJob.mockResolvedValue({
+        remove: jest.fn().mockRejectedValue(new Error('Job is locked')),
+      });
+
+      // Act
+      const order = await service.cancelOrder(orderId, userId);
+
+      // Assert
+      expect(order.status).toBe(OrderStatus.CANCELLED);
+    });
+
+    it('should restore stock when cancelling a CONFIRMED order', async () => {
+      // Arrange
+      mockCancelled(OrderStatus.CONFIRMED);
+      stockService.incrementStockAtomic.mockResolvedValue({ success: true });
+
+      // Act
+      await service.cancelOrder(orderId, userId);
+
+      // Assert
+      expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439013',
+        2,
+        { reason: StockMovementReason.ROLLBACK, actor: userId, orderId },
+      );
+      expect(stockService.releaseReservationAtomic).not.toHaveBeenCalled();
+      expect(orderQueue.getJob).not.toHaveBeenCalled();
+    });
+
+    it('should record stock that could not be restored', async () => {
+      // Arrange
+      mockCancelled(OrderStatus.CONFIRMED);
+      stockService.incrementStockAtomic.mockResolvedValue({
+        success: false,
+        error: 'Max retries exceeded due to version conflicts',
+      });
+
+      // Act
+      await service.cancelOrder(orderId, userId);
+
+      // Assert
+      expect(stockRollbackFailureService.record).toHaveBeenCalledWith({
+        orderId,
+        stockId: '507f1f77bcf86cd799439013',
+        quantity: 2,
+        error: 'Max retries exceeded due to version conflicts',
+        source: 'system:order-service',
+      });
+    });
+
+    it('should leave stock to the processor when cancelling a PROCESSING order', async () => {
+      // Arrange
+      mockCancelled(OrderStatus.PROCESSING);
+
+      // Act
+      await service.cancelOrder(orderId, userId);
+
+      // Assert
+      expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
+      expect(stockService.releaseReservationAtomic).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439013',
+        orderId,
+      );
+      expect(orderQueue.getJob).not.toHaveBeenCalled();
+    });
+
+    it('should reject cancelling a FAILED order', async () => {
+      // Arrange
+      orderStatusService.transition.mockRejectedValue(
+        new InvalidStatusTransitionError(
+          OrderStatus.FAILED,
+          OrderStatus.CANCELLED,
+        ),
+      );
+
+      // Act & Assert
+      await expect(service.cancelOrder(orderId, userId)).rejects.toThrow(
+        new ConflictException('Order with status FAILED cannot be cancelled'),
+      );
+    });
+
+    it('should return 404 for orders of other users', async () => {
+      // Arrange
+      orderStatusService.transition.mockRejectedValue(
+        new NotFoundException(`Order with ID ${orderId} not found`),
+      );
+
+      // Act & Assert
+      await expect(service.cancelOrder(orderId, userId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('failPendingOrder', () => {
+    const orderId = '507f1f77bcf86cd799439014';
+
+    it('should fail a PENDING order and release its reservations', async () => {
+      // Arrange
+      const failedOrder = {
+        _id: new Types.ObjectId(orderId),
+        status: OrderStatus.FAILED,
+        lineItems: [
+          {
+            stockId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+            quantity: 2,
+          },
+        ],
+      };
+      orderStatusService.transition.mockResolvedValue({
+        order: failedOrder as any,
+        previousStatus: OrderStatus.PENDING,
+      });
+      orderQueue.getJob.mockResolvedValue(null);
+
+      // Act
+      const order = await service.failPendingOrder(
+        orderId,
+        'system:order-reconciliation',
+        'Processing job was lost',
+      );
+
+      // Assert
+      expect(order).toBe(failedOrder);
+      expect(orderStatusService.transition).toHaveBeenCalledWith(
+        orderId,
+        OrderStatus.FAILED,
+        {
+          changedBy: 'system:order-reconciliation',
+          reason: 'Processing job was lost',
+          failureReason: 'Processing job was lost',
+          allowedFrom: [OrderStatus.PENDING],
+        },
+      );
+      expect(stockService.releaseReservationAtomic).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439013',
+        orderId,
+      );
+      expect(paymentsService.release).toHaveBeenCalledWith(orderId);
+    });
+
+    it('should return null when the order is no longer PENDING', async () => {
+      // Arrange
+      orderStatusService.transition.mockRejectedValue(
+        new InvalidStatusTransitionError(
+          OrderStatus.PROCESSING,
+          OrderStatus.FAILED,
+        ),
+      );
+
+      // Act
+      const order = await service.failPendingOrder(
+        orderId,
+        'system:order-reconciliation',
+        'Processing job was lost',
+      );
+
+      // Assert
+      expect(order).toBeNull();
+      expect(paymentsService.release).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateOrderStatus', () => {
+    const orderId = '507f1f77bcf86cd799439014';
+    const adminId = '507f1f77bcf86cd799439099';
+
+    const orderWithStatus = (status: OrderStatus) =>
+      ({
+        _id: new Types.ObjectId(orderId),
+        status,
+        lineItems: [
+          {
+            stockId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+            quantity: 2,
+          },
+        ],
+      }) as any;
+
+    // Current order as read by findOrderById before shipping
+    const mockCurrentStatus = (status: OrderStatus) => {
+      const query: any = { populate: jest.fn() };
+      query.populate.mockReturnValue(query);
+      query.exec = jest.fn().mockResolvedValue(orderWithStatus(status));
+      mockOrderModel.findById.mockReturnValue(query);
+    };
+
+    beforeEach(() => {
+      mockCurrentStatus(OrderStatus.CONFIRMED);
+    });
+
+    it('should record the administrator and reason on the transition', async () => {
+      // Arrange
+      orderStatusService.transition.mockResolvedValue({
+        order: orderWithStatus(OrderStatus.SHIPPED),
+        previousStatus: OrderStatus.CONFIRMED,
+      });
+
+      // Act
+      const order = await service.updateOrderStatus(
+        orderId,
+        OrderStatus.SHIPPED,
+        adminId,
+        'Handed over to carrier',
+      );
+
+      // Assert
+      expect(order.status).toBe(OrderStatus.SHIPPED);
+      expect(orderStatusService.transition).toHaveBeenCalledWith(
+        orderId,
+        OrderStatus.SHIPPED,
+        {
+          changedBy: adminId,
+          reason: 'Handed over to carrier',
+          failureReason: undefined,
+        },
+      );
+      expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
+    });
+
+    it('should only let administrators move PROCESSING orders back to PENDING', async () => {
+      // Arrange
+      orderStatusService.transition.mockResolvedValue({
+        order: orderWithStatus(OrderStatus.PENDING),
+        previousStatus: OrderStatus.PROCESSING,
+      });
+
+      // Act
+      await service.updateOrderStatus(orderId, OrderStatus.PENDING, adminId);
+
+      // Assert - FAILED orders go back to PENDING through a dead-letter replay
+      expect(orderStatusService.transition).toHaveBeenCalledWith(
+        orderId,
+        OrderStatus.PENDING,
+        expect.objectContaining({ allowedFrom: [OrderStatus.PROCESSING] }),
+      );
+    });
+
+    it('should restore stock when refunding a CONFIRMED order', async () => {
+      // Arrange
+      orderStatusService.transition.mockResolvedValue({
+        order: orderWithStatus(OrderStatus.REFUNDED),
+        previousStatus: OrderStatus.CONFIRMED,
+      });
+      stockService.incrementStockAtomic.mockResolvedValue({ success: true });
+
+      // Act
+      await service.updateOrderStatus(orderId, OrderStatus.REFUNDED, adminId);
+
+      // Assert
+      expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439013',
+        2,
+        { reason: StockMovementReason.ROLLBACK, actor: adminId, orderId },
+      );
+    });
+
+    it('should not restock when refunding a DELIVERED order', async () => {
+      // Arrange
+      orderStatusService.transition.mockResolvedValue({
+        order: orderWithStatus(OrderStatus.REFUNDED),
+        previousStatus: OrderStatus.DELIVERED,
+      });
+
+      // Act
+      await service.updateOrderStatus(orderId, OrderStatus.REFUNDED, adminId);
+
+      // Assert
+      expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
+    });
+
+    it('should reject transitions the lifecycle does not allow', async () => {
+      // Arrange
+      orderStatusService.transition.mockRejectedValue(
+        new InvalidStatusTransitionError(
+          OrderStatus.PENDING,
+          OrderStatus.SHIPPED,
+        ),
+      );
+
+      // Act & Assert
+      await expect(
+        service.updateOrderStatus(orderId, OrderStatus.SHIPPED, adminId),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should capture the payment before shipping', async () => {
+      // Arrange
+      const calls: string[] = [];
+      paymentsService.capture.mockImplementation(() => {
+        calls.push('capture');
+        return Promise.resolve();
+      });
+      orderStatusService.transition.mockImplementation(() => {
+        calls.push('transition');
+        return Promise.resolve({
+          order: orderWithStatus(OrderStatus.SHIPPED),
+          previousStatus: OrderStatus.CONFIRMED,
+        });
+      });
+
+      // Act
+      await service.updateOrderStatus(orderId, OrderStatus.SHIPPED, adminId);
+
+      // Assert
+      expect(paymentsService.capture).toHaveBeenCalledWith(orderId);
+      expect(calls).toEqual(['capture', 'transition']);
+    });
+
+    it('should keep the order CONFIRMED when the capture is declined', async () => {
+      // Arrange
+      paymentsService.capture.mockRejectedValue(
+        new PaymentDeclinedError('Authorization expired'),
+      );
+
+      // Act & Assert
+      await expect(
+        service.updateOrderStatus(orderId, OrderStatus.SHIPPED, adminId),
+      ).rejects.toThrow(ConflictException);
+      expect(orderStatusService.transition).not.toHaveBeenCalled();
+    });
+
+    it('should not capture for an order that cannot be shipped yet', async () => {
+      // Arrange
+      mockCurrentStatus(OrderStatus.PROCESSING);
+
+      // Act & Assert
+      await expect(
+        service.updateOrderStatus(orderId, OrderStatus.SHIPPED, adminId),
+      ).rejects.toThrow(ConflictException);
+      expect(paymentsService.capture).not.toHaveBeenCalled();
+    });
+
+    it('should refund the payment of a refunded order', async () => {
+      // Arrange
+      orderStatusService.transition.mockResolvedValue({
+        order: orderWithStatus(OrderStatus.REFUNDED),
+        previousStatus: OrderStatus.DELIVERED,
+      });
+
+      // Act
+      await service.updateOrderStatus(orderId, OrderStatus.REFUNDED, adminId);
+
+      // Assert
+      expect(paymentsService.release).toHaveBeenCalledWith(orderId);
+    });
+  });
 });
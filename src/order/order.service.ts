@@ -1,134 +1,854 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import { InjectModel } from '@nestjs/mongoose';
 import { Queue } from 'bullmq';
-import { Model } from 'mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
 import { ORDER_QUEUE_NAME } from './order.constants';
 import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
 import { StockService } from '../stock/stock.service';
+import {
+  GeoLocation,
+  StockAllocationService,
+} from '../stock/stock-allocation.service';
+import { Product, ProductVariant } from '../stock/entities/product.entity';
+import {
+  findVariant,
+  hasVariants,
+  variantPrice,
+} from '../stock/product-variants';
+import { StockMovementReason } from '../stock/entities/stock-movement.entity';
+import { IdempotencyService } from './idempotency.service';
+import { OrderStatusService } from './order-status.service';
+import { InvalidStatusTransitionError } from './order.errors';
+import {
+  DEFAULT_ORDER_PAGE_SIZE,
+  ListOrdersQueryDto,
+  MAX_ORDER_PAGE_SIZE,
+} from './dto/list-orders-query.dto';
+import {
+  AdminOrderExportQueryDto,
+  AdminOrderQueryDto,
+} from './dto/admin-order-query.dto';
+import { OrderJobResponseDto } from './dto/admin-order-response.dto';
+import { toOrderCsv } from './order-csv';
+import { UsersService } from '../users/users.service';
+import { PaymentsService } from '../payments/payments.service';
+import { PaymentDeclinedError } from '../payments/payment.errors';
+import { canTransition } from './order-status.transitions';
+import { OrderOutboxService } from './order-outbox.service';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import { OrderPriorityService } from './order-priority.service';
+import { PROCESS_ORDER_JOB, removeOrderFlow } from './order-flow';
+import { CustomerTier } from '../users/customer-tier';
+import {
+  LimitedLineItem,
+  PurchaseLimitService,
+} from './purchase-limit.service';
+import { FlashSaleService } from '../flash-sale/flash-sale.service';
 
-export interface OrderPayload {
-  userId: string;
+export interface OrderLineItemPayload {
   productId: string;
-  stockId: string;
+  variantId?: string; // Variant of the product, for products with variants
+  sku?: string; // Names the variant in place of productId and variantId
+  stockId: string; // Location picked by StockAllocationService when the order is placed
   quantity: number;
-  priceAtPurchase: number;
+  priceAtPurchase: number; // Resolved server-side from the variant or product price
+  expectedPrice?: number; // Price the client saw, if it sent one
+}
+
+export interface OrderPayload {
+  userId: string;
+  lineItems: OrderLineItemPayload[];
   isVipOrder: boolean;
+  deliveryLocation?: GeoLocation; // Lets the nearest strategy pick a warehouse
+  priorityTier?: CustomerTier; // Set by OrderService when queuing
   orderId?: string; // MongoDB ObjectId (added when queuing)
 }
 
+export interface OrderPage {
+  orders: OrderDocument[];
+  nextCursor: string | null;
+}
+
 @Injectable()
 export class OrderService {
   private readonly logger = new Logger(OrderService.name);
 
-  private readonly PRIORITY_VIP = 1;
-  // Normal users get no explicit priority (undefined = default priority)
+  private readonly MAX_EXPORT_ROWS = 10000;
 
   constructor(
     @InjectQueue(ORDER_QUEUE_NAME) private readonly orderQueue: Queue,
     @InjectModel(Order.name) private readonly orderModel: Model<OrderDocument>,
     private readonly stockService: StockService,
+    private readonly stockAllocationService: StockAllocationService,
+    private readonly idempotencyService: IdempotencyService,
+    private readonly orderStatusService: OrderStatusService,
+    private readonly usersService: UsersService,
+    private readonly paymentsService: PaymentsService,
+    private readonly orderOutboxService: OrderOutboxService,
+    private readonly stockRollbackFailureService: StockRollbackFailureService,
+    private readonly orderPriorityService: OrderPriorityService,
+    private readonly purchaseLimitService: PurchaseLimitService,
+    private readonly flashSaleService: FlashSaleService,
   ) {}
 
+  /**
+   * Creates an order. When an idempotency key is given, a replay with the same
+   * body returns the order created by the first request instead of a new one.
+   * Orders for stock of a live flash sale need the admission token of its
+   * waiting room.
+   */
   async createOrder(
     orderData: OrderPayload,
-    isVip: boolean,
+    tier: CustomerTier,
+    idempotencyKey?: string,
+    admissionToken?: string,
+  ): Promise<OrderDocument> {
+    if (!idempotencyKey) {
+      return this.placeOrder(orderData, tier, undefined, admissionToken);
+    }
+
+    // The request body as the client sent it - a replay has to match it in full
+    const fingerprint = this.idempotencyService.fingerprint({
+      lineItems: orderData.lineItems.map(
+        ({ productId, variantId, sku, stockId, quantity, expectedPrice }) => ({
+          productId,
+          variantId,
+          sku,
+          stockId,
+          quantity,
+          expectedPrice,
+        }),
+      ),
+      deliveryLocation: orderData.deliveryLocation,
+    });
+    const existingOrderId = await this.idempotencyService.claim(
+      orderData.userId,
+      idempotencyKey,
+      fingerprint,
+    );
+
+    if (existingOrderId) {
+      const existingOrder = await this.orderModel
+        .findById(existingOrderId)
+        .exec();
+      if (!existingOrder) {
+        throw new NotFoundException(
+          `Order with ID ${existingOrderId} not found`,
+        );
+      }
+      return existingOrder;
+    }
+
+    try {
+      return await this.placeOrder(
+        orderData,
+        tier,
+        idempotencyKey,
+        admissionToken,
+      );
+    } catch (error) {
+      // No-op once the order was saved; otherwise lets the client retry with the same key
+      await this.idempotencyService.release(orderData.userId, idempotencyKey);
+      throw error;
+    }
+  }
+
+  private async placeOrder(
+    orderData: OrderPayload,
+    tier: CustomerTier,
+    idempotencyKey?: string,
+    admissionToken?: string,
   ): Promise<OrderDocument> {
-    const priority = isVip ? this.PRIORITY_VIP : undefined;
+    // Every tier gets an explicit priority - BullMQ runs jobs without one before all prioritized jobs
+    const priority = this.orderPriorityService.priorityFor(tier);
+
+    // Step 1: Resolve product, variant and current price for every line
+    const resolvedLineItems: OrderLineItemPayload[] = [];
+    const limitedLineItems: LimitedLineItem[] = [];
+    for (const lineItem of orderData.lineItems) {
+      const { product, variant } = await this.resolveProduct(lineItem);
+      const price = variantPrice(product, variant);
+
+      // Never trust a client-supplied price - charge the current catalogue price
+      if (
+        lineItem.expectedPrice !== undefined &&
+        Math.abs(lineItem.expectedPrice - price) >= 0.005
+      ) {
+        const name = variant
+          ? `${product.name} (${variant.sku})`
+          : product.name;
+        throw new ConflictException(
+          `Price changed for "${name}": expected ${lineItem.expectedPrice}, current price is ${price}`,
+        );
+      }
+
+      resolvedLineItems.push({
+        productId: product._id!.toString(),
+        ...(variant && {
+          variantId: variant._id!.toString(),
+          sku: variant.sku,
+        }),
+        stockId: '', // Allocated with the reservation
+        quantity: lineItem.quantity,
+        priceAtPurchase: price,
+      });
+      limitedLineItems.push({
+        productId: product._id!.toString(),
+        productName: product.name,
+        quantity: lineItem.quantity,
+        purchaseLimits: product.purchaseLimits,
+      });
+    }
+
+    const itemKeys = resolvedLineItems.map(
+      ({ productId, variantId }) => `${productId}/${variantId ?? ''}`,
+    );
+    if (new Set(itemKeys).size !== itemKeys.length) {
+      throw new BadRequestException(
+        'Each product or variant may only appear once per order',
+      );
+    }
 
-    // Step 1: Fetch stock to get productId (without populating for better performance)
-    const stock = await this.stockService.findOneStockWithoutPopulate(
-      orderData.stockId,
+    // Stock of a live flash sale is only sold to shoppers admitted from its waiting room - at any of the variant's locations
+    const stockIds: string[] = [];
+    for (const { productId, variantId } of resolvedLineItems) {
+      const stocks = await this.stockService.findFulfillingStocks(
+        productId,
+        variantId,
+      );
+      stockIds.push(...stocks.map((stock) => stock._id!.toString()));
+    }
+    // Used up right away so concurrent orders cannot share one admission - handed back if this order fails
+    const admission = await this.flashSaleService.claimAdmission(
+      orderData.userId,
+      stockIds,
+      admissionToken,
     );
-    const productId = stock.productId.toString();
+    const restoreAdmission = async (error: unknown): Promise<never> => {
+      if (admission) {
+        await this.flashSaleService.restoreAdmission(admission);
+      }
+      throw error;
+    };
 
-    // Step 2: Create order document with PENDING status
+    // Checked again, atomically, when the order is processed
+    await this.purchaseLimitService
+      .assertWithinLimits(orderData.userId, limitedLineItems)
+      .catch(restoreAdmission);
+
+    const totalAmount = resolvedLineItems.reduce(
+      (sum, lineItem) => sum + lineItem.quantity * lineItem.priceAtPurchase,
+      0,
+    );
+
+    // Step 2: Pick a location for every line and hold the stock there until the order is confirmed (or the reservation expires)
+    const orderId = new Types.ObjectId();
+    const lineItems = await this.reserveLineItems(
+      orderId.toString(),
+      resolvedLineItems,
+      orderData.deliveryLocation,
+    ).catch(restoreAdmission);
+
+    // Step 3: Describe the processing job - the order ID doubles as the job ID so the job can be found again (e.g. on cancel)
+    const jobOptions = {
+      jobId: orderId.toString(),
+      priority,
+      removeOnComplete: { count: 500 }, // Keep last 500 completed jobs for monitoring
+      removeOnFail: { count: 10 },
+      attempts: 5,
+      backoff: {
+        type: 'exponential',
+        delay: 2000, // Start with 2 seconds
+      },
+    };
+
+    const queuePayload: OrderPayload = {
+      ...orderData,
+      lineItems, // Lines with the fetched productIds, server-side prices and allocated stock
+      orderId: orderId.toString(),
+      priorityTier: tier,
+    };
+
+    // Step 4: Create order document with PENDING status and its outbox entry in one write
     const orderDoc = new this.orderModel({
+      _id: orderId,
       userId: orderData.userId,
-      productId: productId,
-      stockId: orderData.stockId,
-      quantity: orderData.quantity,
-      priceAtPurchase: orderData.priceAtPurchase,
+      lineItems,
+      totalAmount: Math.round(totalAmount * 100) / 100,
       status: OrderStatus.PENDING,
       isVipOrder: orderData.isVipOrder,
+      priorityTier: tier,
+      statusHistory: [
+        {
+          from: null,
+          to: OrderStatus.PENDING,
+          changedBy: orderData.userId,
+          reason: 'Order placed',
+          changedAt: new Date(),
+        },
+      ],
+      outbox: {
+        jobName: PROCESS_ORDER_JOB,
+        payload: queuePayload,
+        jobOptions,
+      },
     });
 
     // Save order to database with PENDING status
-    const savedOrder = await orderDoc.save();
+    const savedOrder = await orderDoc.save().catch(async (error) => {
+      await this.releaseReservations(orderId.toString(), lineItems);
+      return restoreAdmission(error);
+    });
     this.logger.log(`Order created in database with ID: ${savedOrder._id}`);
 
-    try {
-      // Step 3: Add job to queue - let BullMQ generate unique job ID
-      const jobOptions = {
-        priority,
-        removeOnComplete: { count: 500 }, // Keep last 500 completed jobs for monitoring
-        removeOnFail: { count: 10 },
-        attempts: 5,
-        backoff: {
-          type: 'exponential',
-          delay: 2000, // Start with 2 seconds
-        },
-      };
-
-      const queuePayload = {
-        ...orderData,
-        productId: productId, // Add the fetched productId
-        orderId: savedOrder._id.toString(),
-      };
-
-      const job = await this.orderQueue.add(
-        'process-order',
-        queuePayload,
-        jobOptions,
-      );
-      this.logger.log(
-        `Order job created successfully: ${job.id} with priority ${priority}`,
-      );
-
-      return savedOrder;
-    } catch (error) {
-      this.logger.error(
-        `Failed to queue order job for order ${savedOrder._id}: ${error.message}`,
-        error.stack,
+    if (idempotencyKey) {
+      await this.idempotencyService.complete(
+        orderData.userId,
+        idempotencyKey,
+        savedOrder._id.toString(),
       );
+    }
 
-      // DO NOT delete the order - it remains PENDING
-      // Dead-letter queue listener will handle failed jobs and update order status
+    // Step 5: Publish the job right away - if the queue is unreachable the order is still accepted
+    if (!(await this.orderOutboxService.publish(savedOrder))) {
       this.logger.warn(
-        `Order ${savedOrder._id} remains PENDING - will be handled by dead-letter queue listener`,
+        `Order ${savedOrder._id.toString()} remains PENDING - its job will be published by the outbox relay`,
       );
-
-      throw error;
     }
+
+    return savedOrder;
   }
 
-  async findOrdersByUserId(userId: string): Promise<OrderDocument[]> {
+  /**
+   * One page of a user's orders, newest first. The cursor encodes the
+   * createdAt/_id of the last returned order, so pages stay stable while new
+   * orders come in.
+   */
+  async findOrdersByUserId(
+    userId: string,
+    query: ListOrdersQueryDto = {},
+  ): Promise<OrderPage> {
     this.logger.log(`Finding orders for user: ${userId}`);
-    
+
+    const page = await this.findOrderPage({ userId }, query);
+
+    this.logger.log(`Found ${page.orders.length} orders for user: ${userId}`);
+    return page;
+  }
+
+  /**
+   * Searches the orders of all users (admin console). Same paging as
+   * findOrdersByUserId, plus filters on the customer email and VIP flag.
+   */
+  async searchOrders(query: AdminOrderQueryDto = {}): Promise<OrderPage> {
+    const filter: FilterQuery<OrderDocument> = {};
+
+    if (query.email) {
+      const user = await this.usersService.findByEmail(query.email);
+      if (!user) {
+        return { orders: [], nextCursor: null };
+      }
+      filter.userId = user._id;
+    }
+    if (query.isVip !== undefined) {
+      filter.isVipOrder = query.isVip;
+    }
+
+    return this.findOrderPage(filter, query);
+  }
+
+  /**
+   * Renders every order matching the filters as CSV, up to MAX_EXPORT_ROWS
+   */
+  async exportOrdersCsv(
+    query: AdminOrderExportQueryDto = {},
+  ): Promise<{ csv: string; rowCount: number; truncated: boolean }> {
+    const orders: OrderDocument[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.searchOrders({
+        ...query,
+        cursor,
+        limit: MAX_ORDER_PAGE_SIZE,
+      });
+      orders.push(...page.orders);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor && orders.length < this.MAX_EXPORT_ROWS);
+
+    const truncated = orders.length > this.MAX_EXPORT_ROWS || !!cursor;
+    const rows = orders.slice(0, this.MAX_EXPORT_ROWS);
+
+    this.logger.log(
+      `Exported ${rows.length} orders${truncated ? ' (truncated)' : ''}`,
+    );
+    return { csv: toOrderCsv(rows), rowCount: rows.length, truncated };
+  }
+
+  /**
+   * Queue job of an order (the order ID doubles as the job ID), or null once
+   * BullMQ has dropped it from its completed/failed history
+   */
+  async getOrderJob(orderId: string): Promise<OrderJobResponseDto | null> {
+    const job = await this.orderQueue.getJob(orderId);
+    if (!job) {
+      return null;
+    }
+
+    return {
+      jobId: job.id!,
+      state: await job.getState(),
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts ?? 1,
+      priority: job.opts.priority ?? 0,
+      lastError: job.failedReason || null,
+      stacktrace: job.stacktrace ?? [],
+      queuedAt: new Date(job.timestamp),
+      processedAt: job.processedOn ? new Date(job.processedOn) : null,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    };
+  }
+
+  private async findOrderPage(
+    baseFilter: FilterQuery<OrderDocument>,
+    query: ListOrdersQueryDto,
+  ): Promise<OrderPage> {
+    const limit = query.limit ?? DEFAULT_ORDER_PAGE_SIZE;
+    const filter: FilterQuery<OrderDocument> = { ...baseFilter };
+
+    if (query.status?.length) {
+      filter.status = { $in: query.status };
+    }
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from && { $gte: new Date(query.from) }),
+        ...(query.to && { $lte: new Date(query.to) }),
+      };
+    }
+    if (query.productId) {
+      filter['lineItems.productId'] = new Types.ObjectId(query.productId);
+    }
+    if (query.cursor) {
+      const { createdAt, id } = this.decodeOrderCursor(query.cursor);
+      filter.$or = [
+        { createdAt: { $lt: createdAt } },
+        { createdAt, _id: { $lt: id } },
+      ];
+    }
+
+    // Fetch one extra order to know whether another page follows
     const orders = await this.orderModel
-      .find({ userId })
-      .populate('productId', 'name description')
-      .populate('stockId', 'quantity')
-      .sort({ createdAt: -1 }) // Most recent orders first
+      .find(filter)
+      .sort({ createdAt: -1, _id: -1 }) // Most recent orders first
+      .limit(limit + 1)
+      .populate('lineItems.productId', 'name description')
+      .populate('lineItems.stockId', 'quantity')
       .exec();
 
-    this.logger.log(`Found ${orders.length} orders for user: ${userId}`);
-    return orders;
+    const hasMore = orders.length > limit;
+    const page = hasMore ? orders.slice(0, limit) : orders;
+    const nextCursor = hasMore
+      ? this.encodeOrderCursor(page[page.length - 1])
+      : null;
+
+    return { orders: page, nextCursor };
   }
 
   async findOrderById(orderId: string): Promise<OrderDocument> {
     this.logger.log(`Finding order by ID: ${orderId}`);
     
-    const order = await this.orderModel
-      .findById(orderId)
-      .populate('productId', 'name description')
-      .populate('stockId', 'quantity')
-      .exec();
+    const order = Types.ObjectId.isValid(orderId)
+      ? await this.orderModel
+          .findById(orderId)
+          .populate('lineItems.productId', 'name description')
+          .populate('lineItems.stockId', 'quantity')
+          .exec()
+      : null;
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    return order;
+  }
+
+  /**
+   * Finds an order owned by the given user. Orders of other users are reported
+   * as not found so their existence is not leaked.
+   */
+  async findUserOrder(orderId: string, userId: string): Promise<OrderDocument> {
+    const order = Types.ObjectId.isValid(orderId)
+      ? await this.orderModel
+          .findOne({ _id: orderId, userId })
+          .populate('lineItems.productId', 'name description')
+          .populate('lineItems.stockId', 'quantity')
+          .exec()
+      : null;
 
     if (!order) {
-      throw new Error(`Order with ID ${orderId} not found`);
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
     }
 
     return order;
   }
+
+  /**
+   * Cancels an order owned by the given user.
+   * PENDING orders have their queued job removed; CONFIRMED orders get their stock back.
+   * A PROCESSING order is cancelled as-is - OrderProcessor cannot confirm it anymore and releases the stock it reserved.
+   */
+  async cancelOrder(orderId: string, userId: string): Promise<OrderDocument> {
+    try {
+      const { order, previousStatus } =
+        await this.orderStatusService.transition(
+          orderId,
+          OrderStatus.CANCELLED,
+          {
+            changedBy: userId,
+            reason: 'Cancelled by customer',
+            failureReason: 'Cancelled by customer',
+            allowedFrom: [
+              OrderStatus.PENDING,
+              OrderStatus.PROCESSING,
+              OrderStatus.CONFIRMED,
+            ],
+            filter: { userId },
+          },
+        );
+
+      await this.releaseResources(order, previousStatus, userId);
+
+      this.logger.log(
+        `Order ${orderId} cancelled by user ${userId} (was ${previousStatus})`,
+      );
+      return order;
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        throw new ConflictException(
+          `Order with status ${error.from} cannot be cancelled`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Moves an order to any status the transition table allows (admin use).
+   * Shipping captures the authorized payment first. Cancelling, failing or refunding an order
+   * releases its queued job, reserved stock and payment the same way a customer cancellation does.
+   */
+  async updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    changedBy: string,
+    reason?: string,
+  ): Promise<OrderDocument> {
+    try {
+      // Take the money before the goods leave - a failed capture keeps the order CONFIRMED
+      if (status === OrderStatus.SHIPPED) {
+        await this.capturePayment(orderId);
+      }
+
+      const { order, previousStatus } =
+        await this.orderStatusService.transition(orderId, status, {
+          changedBy,
+          reason,
+          failureReason:
+            status === OrderStatus.CANCELLED || status === OrderStatus.FAILED
+              ? reason || `Marked ${status} by administrator`
+              : undefined,
+          // FAILED orders go back to PENDING only through a dead-letter replay
+          allowedFrom:
+            status === OrderStatus.PENDING
+              ? [OrderStatus.PROCESSING]
+              : undefined,
+        });
+
+      if (
+        status === OrderStatus.CANCELLED ||
+        status === OrderStatus.FAILED ||
+        status === OrderStatus.REFUNDED
+      ) {
+        await this.releaseResources(order, previousStatus, changedBy);
+      }
+
+      return order;
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        throw new ConflictException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fails an order that is still PENDING and releases what it holds. Used
+   * when its processing job is gone for good. Returns null when the order
+   * has moved on in the meantime.
+   */
+  async failPendingOrder(
+    orderId: string,
+    changedBy: string,
+    reason: string,
+  ): Promise<OrderDocument | null> {
+    try {
+      const { order, previousStatus } =
+        await this.orderStatusService.transition(orderId, OrderStatus.FAILED, {
+          changedBy,
+          reason,
+          failureReason: reason,
+          allowedFrom: [OrderStatus.PENDING],
+        });
+
+      await this.releaseResources(order, previousStatus, changedBy);
+      return order;
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Undoes the side effects of an order that will not be fulfilled:
+   * a PENDING order still has a queued job, a PENDING or PROCESSING order may
+   * still hold stock reservations, a CONFIRMED order still holds stock,
+   * and any authorized or captured payment is voided or refunded.
+   */
+  private async releaseResources(
+    order: OrderDocument,
+    previousStatus: OrderStatus,
+    changedBy: string,
+  ): Promise<void> {
+    if (previousStatus === OrderStatus.PENDING) {
+      await this.removeQueuedJob(order._id.toString());
+    }
+
+    if (
+      previousStatus === OrderStatus.PENDING ||
+      previousStatus === OrderStatus.PROCESSING
+    ) {
+      await this.releaseReservations(
+        order._id.toString(),
+        order.lineItems.map(({ stockId }) => ({ stockId: stockId.toString() })),
+      );
+    } else if (previousStatus === OrderStatus.CONFIRMED) {
+      await this.restoreStock(order, changedBy);
+    }
+
+    await this.paymentsService.release(order._id.toString());
+  }
+
+  private async capturePayment(orderId: string): Promise<void> {
+    const order = await this.findOrderById(orderId);
+    if (!canTransition(order.status, OrderStatus.SHIPPED)) {
+      throw new InvalidStatusTransitionError(order.status, OrderStatus.SHIPPED);
+    }
+
+    try {
+      await this.paymentsService.capture(orderId);
+    } catch (error) {
+      if (error instanceof PaymentDeclinedError) {
+        throw new ConflictException(
+          `Payment could not be captured: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Removes the waiting flow of a cancelled or failed order. An active (locked) step cannot be removed;
+   * OrderProcessor will fail to move the order to PROCESSING and skip it instead.
+   */
+  private async removeQueuedJob(orderId: string): Promise<void> {
+    try {
+      await removeOrderFlow(this.orderQueue, orderId);
+      this.logger.log(`Removed queued job for order ${orderId}`);
+    } catch (error) {
+      this.logger.warn(
+        `Could not remove job for order ${orderId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Product and variant of an order line, named directly, by SKU or through
+   * one of its stocks. Products with variants can only be ordered by variant.
+   */
+  private async resolveProduct(
+    lineItem: OrderLineItemPayload,
+  ): Promise<{ product: Product; variant: ProductVariant | null }> {
+    let product: Product;
+    let variantId = lineItem.variantId;
+    if (lineItem.sku) {
+      product = await this.stockService.findProductBySku(lineItem.sku);
+      variantId = product
+        .variants!.find((variant) => variant.sku === lineItem.sku)!
+        ._id!.toString();
+    } else if (lineItem.productId) {
+      product = await this.stockService.findOneProduct(lineItem.productId);
+    } else {
+      const stock = await this.stockService.findOneStock(lineItem.stockId);
+      product = stock.productId as Product;
+      variantId ??= stock.variantId?.toString();
+    }
+
+    if (!hasVariants(product)) {
+      if (variantId) {
+        throw new BadRequestException(`"${product.name}" has no variants`);
+      }
+      return { product, variant: null };
+    }
+    if (!variantId) {
+      throw new BadRequestException(
+        `"${product.name}" comes in variants - order one by variantId or sku`,
+      );
+    }
+    const variant = findVariant(product, variantId);
+    if (!variant) {
+      throw new NotFoundException(
+        `Variant ${variantId} of "${product.name}" not found`,
+      );
+    }
+    return { product, variant };
+  }
+
+  /**
+   * Reserves stock for every line at the first location the allocation
+   * strategy ranks that can still hold it, and returns the lines with that
+   * stock. If any line cannot be reserved, the lines already reserved are
+   * released: no stock left is a conflict, a contended or unreachable stock
+   * document is worth retrying.
+   */
+  private async reserveLineItems(
+    orderId: string,
+    lineItems: OrderLineItemPayload[],
+    deliveryLocation?: GeoLocation,
+  ): Promise<OrderLineItemPayload[]> {
+    const reserved: OrderLineItemPayload[] = [];
+
+    for (const lineItem of lineItems) {
+      const stocks = await this.stockAllocationService.rankStocks(
+        lineItem.productId,
+        lineItem.variantId,
+        lineItem.quantity,
+        deliveryLocation,
+      );
+
+      let error = `No location has ${lineItem.quantity} unit(s) available`;
+      let transient = false;
+      let allocated: OrderLineItemPayload | null = null;
+      for (const stock of stocks) {
+        const stockId = stock._id!.toString();
+        const result = await this.stockService.reserveStockAtomic(
+          stockId,
+          orderId,
+          lineItem.quantity,
+        );
+        if (result.success) {
+          allocated = { ...lineItem, stockId };
+          break;
+        }
+
+        error = result.error ?? error;
+        transient = !!result.transient;
+        if (transient) {
+          break;
+        }
+        // Taken by another order since it was ranked - try the next location
+      }
+
+      if (!allocated) {
+        await this.releaseReservations(orderId, reserved);
+
+        if (transient) {
+          throw new ServiceUnavailableException(
+            'Stock is busy right now, please retry',
+          );
+        }
+        throw new ConflictException(
+          `Not enough stock for ${lineItem.sku ? `variant ${lineItem.sku} of ` : ''}product ${lineItem.productId}: ${error}`,
+        );
+      }
+
+      reserved.push(allocated);
+    }
+
+    return reserved;
+  }
+
+  private async releaseReservations(
+    orderId: string,
+    lineItems: Pick<OrderLineItemPayload, 'stockId'>[],
+  ): Promise<void> {
+    for (const { stockId } of lineItems) {
+      const result = await this.stockService.releaseReservationAtomic(
+        stockId,
+        orderId,
+      );
+      if (!result.success) {
+        this.logger.error(
+          `Failed to release reservation on stock ${stockId} for order ${orderId}: ${result.error}`,
+        );
+      }
+    }
+  }
+
+  private async restoreStock(
+    order: OrderDocument,
+    changedBy: string,
+  ): Promise<void> {
+    for (const { stockId, quantity } of order.lineItems) {
+      const result = await this.stockService.incrementStockAtomic(
+        stockId.toString(),
+        quantity,
+        {
+          reason: StockMovementReason.ROLLBACK,
+          actor: changedBy,
+          orderId: order._id.toString(),
+        },
+      );
+      if (!result.success) {
+        await this.stockRollbackFailureService.record({
+          orderId: order._id.toString(),
+          stockId: stockId.toString(),
+          quantity,
+          error: result.error,
+          source: 'system:order-service',
+        });
+      }
+    }
+  }
+
+  private encodeOrderCursor(order: OrderDocument): string {
+    return Buffer.from(
+      `${order.createdAt.toISOString()}_${order._id.toString()}`,
+    ).toString('base64url');
+  }
+
+  private decodeOrderCursor(cursor: string): {
+    createdAt: Date;
+    id: Types.ObjectId;
+  } {
+    const [createdAt, id] = Buffer.from(cursor, 'base64url')
+      .toString()
+      .split('_');
+    const date = new Date(createdAt);
+
+    if (Number.isNaN(date.getTime()) || !Types.ObjectId.isValid(id ?? '')) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return { createdAt: date, id: new Types.ObjectId(id) };
+  }
 }
@@ -0,0 +1,436 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  LimitedLineItem,
+  PurchaseLimitService,
+} from './purchase-limit.service';
+import { Order } from './entities/order.entity';
+import { PurchaseQuota } from './entities/purchase-quota.entity';
+import { BusinessLogicError } from './order.errors';
+import { StockService } from '../stock/stock.service';
+
+describe('PurchaseLimitService', () => {
+  let service: PurchaseLimitService;
+  let orderModel: { aggregate: jest.Mock; find: jest.Mock };
+  let purchaseQuotaModel: {
+    findOne: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    create: jest.Mock;
+  };
+  let stockService: { findOneProduct: jest.Mock };
+
+  const userId = '507f1f77bcf86cd799439011';
+  const productId = '507f1f77bcf86cd799439012';
+  const orderId = '507f1f77bcf86cd799439014';
+  const otherOrderId = new Types.ObjectId('507f1f77bcf86cd799439015');
+  const now = new Date('2024-01-15T12:00:00.000Z');
+  const hoursAgo = (hours: number) =>
+    new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+  const noLimits = {
+    maxPerOrder: null,
+    maxPerCustomer: null,
+    maxPerCustomerInWindow: null,
+    windowHours: null,
+  };
+
+  const lineItemWith = (
+    purchaseLimits: object,
+    quantity = 2,
+  ): LimitedLineItem => ({
+    productId,
+    productName: 'Headphones',
+    quantity,
+    purchaseLimits: { ...noLimits, ...purchaseLimits },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PurchaseLimitService,
+        {
+          provide: getModelToken(Order.name),
+          useValue: { aggregate: jest.fn(), find: jest.fn() },
+        },
+        {
+          provide: getModelToken(PurchaseQuota.name),
+          useValue: {
+            findOne: jest.fn(),
+            findOneAndUpdate: jest.fn(),
+            create: jest.fn(),
+          },
+        },
+        {
+          provide: StockService,
+          useValue: { findOneProduct: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PurchaseLimitService>(PurchaseLimitService);
+    orderModel = module.get(getModelToken(Order.name));
+    purchaseQuotaModel = module.get(getModelToken(PurchaseQuota.name));
+    stockService = module.get(StockService);
+  });
+
+  /**
+   * Makes the aggregation of the customer's earlier orders return these purchases
+   */
+  const mockPurchases = (
+    purchases: { quantity: number; purchasedAt: Date }[],
+  ) => {
+    orderModel.aggregate.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(
+        purchases.map((purchase) => ({
+          productId: new Types.ObjectId(productId),
+          ...purchase,
+        })),
+      ),
+    });
+  };
+
+  /**
+   * Stubs the product, the stored quota and the customer's orders seen by claim
+   */
+  const mockClaimState = ({
+    purchaseLimits,
+    quota = null,
+    uncountedOrderIds = [],
+    processedOrders = [],
+  }: {
+    purchaseLimits: object;
+    quota?: object | null;
+    uncountedOrderIds?: Types.ObjectId[];
+    processedOrders?: object[];
+  }) => {
+    stockService.findOneProduct.mockResolvedValue({
+      name: 'Headphones',
+      purchaseLimits: { ...noLimits, ...purchaseLimits },
+    });
+    purchaseQuotaModel.findOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(quota),
+    });
+    orderModel.find.mockImplementation((filter: { userId?: unknown }) => ({
+      select: jest.fn().mockReturnValue({
+        exec: jest
+          .fn()
+          .mockResolvedValue(
+            filter.userId
+              ? processedOrders
+              : uncountedOrderIds.map((_id) => ({ _id })),
+          ),
+      }),
+    }));
+  };
+
+  const storedQuota = (claims: object[]) => ({
+    _id: new Types.ObjectId(),
+    __v: 4,
+    claims,
+  });
+
+  describe('assertWithinLimits', () => {
+    it('should not look up orders when no line has limits', async () => {
+      // Act
+      await service.assertWithinLimits(
+        userId,
+        [lineItemWith({}), { ...lineItemWith({}), purchaseLimits: null }],
+        now,
+      );
+
+      // Assert
+      expect(orderModel.aggregate).not.toHaveBeenCalled();
+    });
+
+    it('should reject a line over the per-order maximum', async () => {
+      // Arrange
+      mockPurchases([]);
+
+      // Act & Assert
+      await expect(
+        service.assertWithinLimits(
+          userId,
+          [lineItemWith({ maxPerOrder: 1 })],
+          now,
+        ),
+      ).rejects.toThrow(
+        new ConflictException(
+          'Purchase limit for "Headphones": at most 1 per order, requested 2',
+        ),
+      );
+    });
+
+    it('should add up the lines of different variants of one product', async () => {
+      // Arrange
+      mockPurchases([]);
+
+      // Act & Assert
+      await expect(
+        service.assertWithinLimits(
+          userId,
+          [lineItemWith({ maxPerOrder: 3 }), lineItemWith({ maxPerOrder: 3 })],
+          now,
+        ),
+      ).rejects.toThrow(
+        new ConflictException(
+          'Purchase limit for "Headphones": at most 3 per order, requested 4',
+        ),
+      );
+    });
+
+    it('should count earlier orders towards the customer maximum', async () => {
+      // Arrange
+      mockPurchases([
+        { quantity: 2, purchasedAt: hoursAgo(1000) },
+        { quantity: 1, purchasedAt: hoursAgo(1) },
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.assertWithinLimits(
+          userId,
+          [lineItemWith({ maxPerCustomer: 4 })],
+          now,
+        ),
+      ).rejects.toThrow(
+        'Purchase limit for "Headphones": at most 4 per customer, already bought 3, requested 2',
+      );
+    });
+
+    it('should only count purchases inside the rolling window', async () => {
+      // Arrange
+      mockPurchases([
+        { quantity: 3, purchasedAt: hoursAgo(30) },
+        { quantity: 1, purchasedAt: hoursAgo(2) },
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.assertWithinLimits(
+          userId,
+          [lineItemWith({ maxPerCustomerInWindow: 3, windowHours: 24 })],
+          now,
+        ),
+      ).resolves.toBeUndefined();
+      await expect(
+        service.assertWithinLimits(
+          userId,
+          [lineItemWith({ maxPerCustomerInWindow: 2, windowHours: 24 })],
+          now,
+        ),
+      ).rejects.toThrow(
+        'Purchase limit for "Headphones": at most 2 per customer every 24 hours, already bought 1, requested 2',
+      );
+    });
+  });
+
+  describe('claim', () => {
+    const lineItems = [{ productId, quantity: 2 }];
+
+    it('should skip products without limits', async () => {
+      // Arrange
+      mockClaimState({ purchaseLimits: {} });
+
+      // Act
+      await service.claim(orderId, userId, lineItems, now);
+
+      // Assert
+      expect(purchaseQuotaModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject a line over the per-order maximum with a business error', async () => {
+      // Arrange
+      mockClaimState({ purchaseLimits: { maxPerOrder: 1 } });
+
+      // Act & Assert
+      await expect(
+        service.claim(orderId, userId, lineItems, now),
+      ).rejects.toThrow(BusinessLogicError);
+      expect(purchaseQuotaModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should claim the lines of different variants of one product together', async () => {
+      // Arrange
+      mockClaimState({ purchaseLimits: { maxPerOrder: 3 } });
+
+      // Act & Assert
+      await expect(
+        service.claim(
+          orderId,
+          userId,
+          [
+            { productId, quantity: 2 },
+            { productId, quantity: 2 },
+          ],
+          now,
+        ),
+      ).rejects.toThrow(BusinessLogicError);
+      expect(stockService.findOneProduct).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a quota from processed orders and add the claim', async () => {
+      // Arrange
+      mockClaimState({
+        purchaseLimits: { maxPerCustomer: 5 },
+        processedOrders: [
+          {
+            createdAt: hoursAgo(100),
+            lineItems: [
+              { productId: new Types.ObjectId(productId), quantity: 3 },
+              { productId: new Types.ObjectId(), quantity: 9 },
+            ],
+          },
+        ],
+      });
+      purchaseQuotaModel.create.mockResolvedValue({});
+
+      // Act
+      await service.claim(orderId, userId, lineItems, now);
+
+      // Assert
+      expect(purchaseQuotaModel.create).toHaveBeenCalledWith({
+        userId,
+        productId,
+        claims: [
+          {
+            orderId: new Types.ObjectId(orderId),
+            quantity: 2,
+            claimedAt: now,
+          },
+        ],
+      });
+    });
+
+    it('should reject the claim when processed orders already use up the quota', async () => {
+      // Arrange
+      mockClaimState({
+        purchaseLimits: { maxPerCustomer: 4 },
+        processedOrders: [
+          {
+            createdAt: hoursAgo(100),
+            lineItems: [
+              { productId: new Types.ObjectId(productId), quantity: 3 },
+            ],
+          },
+        ],
+      });
+
+      // Act & Assert
+      await expect(
+        service.claim(orderId, userId, lineItems, now),
+      ).rejects.toThrow(
+        new BusinessLogicError(
+          'Purchase limit for "Headphones": at most 4 per customer, already bought 3, requested 2',
+        ),
+      );
+    });
+
+    it('should count claims of orders in flight and drop claims of failed orders', async () => {
+      // Arrange
+      const failedOrderId = new Types.ObjectId();
+      const quota = storedQuota([
+        { orderId: otherOrderId, quantity: 2, claimedAt: hoursAgo(1) },
+        { orderId: failedOrderId, quantity: 5, claimedAt: hoursAgo(1) },
+      ]);
+      mockClaimState({
+        purchaseLimits: { maxPerCustomer: 4 },
+        quota,
+        uncountedOrderIds: [failedOrderId],
+      });
+      purchaseQuotaModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(quota),
+      });
+
+      // Act
+      await service.claim(orderId, userId, lineItems, now);
+
+      // Assert
+      expect(purchaseQuotaModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: quota._id, __v: 4 },
+        {
+          $set: {
+            claims: [
+              quota.claims[0],
+              {
+                orderId: new Types.ObjectId(orderId),
+                quantity: 2,
+                claimedAt: now,
+              },
+            ],
+          },
+          $inc: { __v: 1 },
+        },
+      );
+    });
+
+    it('should do nothing when the order already holds a claim', async () => {
+      // Arrange
+      mockClaimState({
+        purchaseLimits: { maxPerCustomer: 1 },
+        quota: storedQuota([
+          {
+            orderId: new Types.ObjectId(orderId),
+            quantity: 2,
+            claimedAt: hoursAgo(1),
+          },
+        ]),
+      });
+
+      // Act
+      await service.claim(orderId, userId, lineItems, now);
+
+      // Assert
+      expect(purchaseQuotaModel.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(purchaseQuotaModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should retry when another order created the quota first', async () => {
+      // Arrange
+      mockClaimState({ purchaseLimits: { maxPerCustomer: 4 } });
+      purchaseQuotaModel.findOne
+        .mockReturnValueOnce({ exec: jest.fn().mockResolvedValue(null) })
+        .mockReturnValueOnce({
+          exec: jest
+            .fn()
+            .mockResolvedValue(
+              storedQuota([
+                { orderId: otherOrderId, quantity: 2, claimedAt: hoursAgo(1) },
+              ]),
+            ),
+        });
+      purchaseQuotaModel.create.mockRejectedValue({ code: 11000 });
+      purchaseQuotaModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({}),
+      });
+
+      // Act
+      await service.claim(orderId, userId, lineItems, now);
+
+      // Assert
+      expect(purchaseQuotaModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up with a transient error after repeated version conflicts', async () => {
+      // Arrange
+      mockClaimState({
+        purchaseLimits: { maxPerCustomer: 10 },
+        quota: storedQuota([]),
+      });
+      purchaseQuotaModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      // Act
+      const claim = service.claim(orderId, userId, lineItems, now);
+
+      // Assert
+      await expect(claim).rejects.toThrow(
+        `Max retries exceeded due to purchase quota conflicts for product ${productId}`,
+      );
+      await expect(claim).rejects.not.toBeInstanceOf(BusinessLogicError);
+      expect(purchaseQuotaModel.findOneAndUpdate).toHaveBeenCalledTimes(3);
+    });
+  });
+});
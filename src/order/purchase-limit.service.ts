@@ -0,0 +1,339 @@
+import { ConflictException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Order, OrderDocument, OrderStatus } from './entities/order.entity';
+import {
+  PurchaseQuota,
+  PurchaseQuotaClaim,
+  PurchaseQuotaDocument,
+} from './entities/purchase-quota.entity';
+import { BusinessLogicError } from './order.errors';
+import { StockService } from '../stock/stock.service';
+import { PurchaseLimits } from '../stock/entities/product.entity';
+import { DUPLICATE_KEY_ERROR_CODE } from '../common/database/mongo-error-codes';
+
+/**
+ * Orders in these states never count towards a customer's purchase limits
+ */
+const UNCOUNTED_STATUSES = [OrderStatus.FAILED, OrderStatus.CANCELLED];
+
+/**
+ * Orders that went through processing - the ones a new quota starts from
+ */
+const PROCESSED_STATUSES = [
+  OrderStatus.CONFIRMED,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+  OrderStatus.REFUNDED,
+];
+
+export interface LimitedLineItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  purchaseLimits?: PurchaseLimits | null;
+}
+
+/**
+ * One line per product - limits apply to a product across all its variants
+ */
+function mergeByProduct<T extends { productId: string; quantity: number }>(
+  lineItems: T[],
+): T[] {
+  const merged = new Map<string, T>();
+  for (const lineItem of lineItems) {
+    const existing = merged.get(lineItem.productId);
+    merged.set(
+      lineItem.productId,
+      existing
+        ? { ...existing, quantity: existing.quantity + lineItem.quantity }
+        : lineItem,
+    );
+  }
+  return [...merged.values()];
+}
+
+interface Purchase {
+  quantity: number;
+  purchasedAt: Date;
+}
+
+@Injectable()
+export class PurchaseLimitService {
+  private readonly maxRetries = 3;
+
+  constructor(
+    @InjectModel(Order.name)
+    private readonly orderModel: Model<OrderDocument>,
+    @InjectModel(PurchaseQuota.name)
+    private readonly purchaseQuotaModel: Model<PurchaseQuotaDocument>,
+    private readonly stockService: StockService,
+  ) {}
+
+  /**
+   * Rejects a new order that would take the customer past a product's
+   * purchase limits, counting their orders that did not fail or get cancelled
+   */
+  async assertWithinLimits(
+    userId: string,
+    lineItems: LimitedLineItem[],
+    now: Date = new Date(),
+  ): Promise<void> {
+    const limitedLineItems = mergeByProduct(lineItems).filter((lineItem) =>
+      this.hasLimits(lineItem.purchaseLimits),
+    );
+    if (limitedLineItems.length === 0) {
+      return;
+    }
+
+    const productIds = limitedLineItems.map(
+      (lineItem) => new Types.ObjectId(lineItem.productId),
+    );
+    const purchases = await this.orderModel
+      .aggregate<{
+        productId: Types.ObjectId;
+        quantity: number;
+        purchasedAt: Date;
+      }>([
+        {
+          $match: {
+            userId: new Types.ObjectId(userId),
+            status: { $nin: UNCOUNTED_STATUSES },
+            'lineItems.productId': { $in: productIds },
+          },
+        },
+        { $unwind: '$lineItems' },
+        { $match: { 'lineItems.productId': { $in: productIds } } },
+        {
+          $project: {
+            _id: 0,
+            productId: '$lineItems.productId',
+            quantity: '$lineItems.quantity',
+            purchasedAt: '$createdAt',
+          },
+        },
+      ])
+      .exec();
+
+    for (const lineItem of limitedLineItems) {
+      const violation = this.findViolation(
+        lineItem,
+        purchases.filter((purchase) =>
+          purchase.productId.equals(lineItem.productId),
+        ),
+        now,
+      );
+      if (violation) {
+        throw new ConflictException(violation);
+      }
+    }
+  }
+
+  /**
+   * Takes the order's lines off the customer's quotas, checking the limits
+   * in the same versioned write so concurrent orders cannot overshoot them.
+   * Safe to repeat for the same order (e.g. on a job retry).
+   * Throws a BusinessLogicError when a limit would be exceeded.
+   */
+  async claim(
+    orderId: string,
+    userId: string,
+    lineItems: { productId: string; quantity: number }[],
+    now: Date = new Date(),
+  ): Promise<void> {
+    for (const { productId, quantity } of mergeByProduct(lineItems)) {
+      const product = await this.stockService.findOneProduct(productId);
+      const lineItem: LimitedLineItem = {
+        productId,
+        productName: product.name,
+        quantity,
+        purchaseLimits: product.purchaseLimits,
+      };
+      if (!this.hasLimits(lineItem.purchaseLimits)) {
+        continue;
+      }
+
+      await this.claimQuota(orderId, userId, lineItem, now);
+    }
+  }
+
+  private async claimQuota(
+    orderId: string,
+    userId: string,
+    lineItem: LimitedLineItem,
+    now: Date,
+  ): Promise<void> {
+    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      const quota = await this.purchaseQuotaModel
+        .findOne({ userId, productId: lineItem.productId })
+        .exec();
+
+      if (quota?.claims.some((claim) => claim.orderId.equals(orderId))) {
+        return; // Claimed by an earlier attempt
+      }
+
+      const claims = await this.countedClaims(quota?.claims ?? []);
+      const purchases = [
+        ...claims.map((claim) => ({
+          quantity: claim.quantity,
+          purchasedAt: claim.claimedAt,
+        })),
+        ...(await this.processedPurchases(
+          userId,
+          lineItem.productId,
+          claims.map((claim) => claim.orderId),
+        )),
+      ];
+
+      const violation = this.findViolation(lineItem, purchases, now);
+      if (violation) {
+        throw new BusinessLogicError(violation);
+      }
+
+      const updatedClaims: PurchaseQuotaClaim[] = [
+        ...claims,
+        {
+          orderId: new Types.ObjectId(orderId),
+          quantity: lineItem.quantity,
+          claimedAt: now,
+        },
+      ];
+
+      if (!quota) {
+        try {
+          await this.purchaseQuotaModel.create({
+            userId,
+            productId: lineItem.productId,
+            claims: updatedClaims,
+          });
+          return;
+        } catch (error) {
+          if (error?.code !== DUPLICATE_KEY_ERROR_CODE) {
+            throw error;
+          }
+          continue; // Another order of the customer created the quota first
+        }
+      }
+
+      const updatedQuota = await this.purchaseQuotaModel
+        .findOneAndUpdate(
+          { _id: quota._id, __v: quota.__v },
+          { $set: { claims: updatedClaims }, $inc: { __v: 1 } },
+        )
+        .exec();
+
+      if (updatedQuota) {
+        return;
+      }
+      // Version conflict - another order of the customer claimed in the meantime
+    }
+
+    throw new Error(
+      `Max retries exceeded due to purchase quota conflicts for product ${lineItem.productId}`,
+    );
+  }
+
+  /**
+   * Drops the claims of orders that failed or were cancelled since
+   */
+  private async countedClaims(
+    claims: PurchaseQuotaClaim[],
+  ): Promise<PurchaseQuotaClaim[]> {
+    if (claims.length === 0) {
+      return [];
+    }
+
+    const uncountedOrders = await this.orderModel
+      .find({
+        _id: { $in: claims.map((claim) => claim.orderId) },
+        status: { $in: UNCOUNTED_STATUSES },
+      })
+      .select('_id')
+      .exec();
+
+    return claims.filter(
+      (claim) =>
+        !uncountedOrders.some((order) => order._id.equals(claim.orderId)),
+    );
+  }
+
+  /**
+   * Processed orders of the product without a claim - bought before the
+   * product had limits, or before the quota existed
+   */
+  private async processedPurchases(
+    userId: string,
+    productId: string,
+    claimedOrderIds: Types.ObjectId[],
+  ): Promise<Purchase[]> {
+    const orders = await this.orderModel
+      .find({
+        _id: { $nin: claimedOrderIds },
+        userId: new Types.ObjectId(userId),
+        status: { $in: PROCESSED_STATUSES },
+        'lineItems.productId': new Types.ObjectId(productId),
+      })
+      .select('lineItems createdAt')
+      .exec();
+
+    return orders.flatMap((order) =>
+      order.lineItems
+        .filter((lineItem) => lineItem.productId.toString() === productId)
+        .map((lineItem) => ({
+          quantity: lineItem.quantity,
+          purchasedAt: order.createdAt,
+        })),
+    );
+  }
+
+  /**
+   * Describes the first limit the line would exceed on top of the earlier purchases, or null
+   */
+  private findViolation(
+    lineItem: LimitedLineItem,
+    purchases: Purchase[],
+    now: Date,
+  ): string | null {
+    const { productName, quantity } = lineItem;
+    const limits = lineItem.purchaseLimits;
+    if (!limits) {
+      return null;
+    }
+
+    if (limits.maxPerOrder != null && quantity > limits.maxPerOrder) {
+      return `Purchase limit for "${productName}": at most ${limits.maxPerOrder} per order, requested ${quantity}`;
+    }
+
+    if (limits.maxPerCustomer != null) {
+      const bought = this.sumQuantity(purchases);
+      if (bought + quantity > limits.maxPerCustomer) {
+        return `Purchase limit for "${productName}": at most ${limits.maxPerCustomer} per customer, already bought ${bought}, requested ${quantity}`;
+      }
+    }
+
+    if (limits.maxPerCustomerInWindow != null && limits.windowHours != null) {
+      const since = now.getTime() - limits.windowHours * 60 * 60 * 1000;
+      const bought = this.sumQuantity(
+        purchases.filter((purchase) => purchase.purchasedAt.getTime() > since),
+      );
+      if (bought + quantity > limits.maxPerCustomerInWindow) {
+        return `Purchase limit for "${productName}": at most ${limits.maxPerCustomerInWindow} per customer every ${limits.windowHours} hours, already bought ${bought}, requested ${quantity}`;
+      }
+    }
+
+    return null;
+  }
+
+  private hasLimits(limits?: PurchaseLimits | null): limits is PurchaseLimits {
+    return (
+      limits != null &&
+      (limits.maxPerOrder != null ||
+        limits.maxPerCustomer != null ||
+        (limits.maxPerCustomerInWindow != null && limits.windowHours != null))
+    );
+  }
+
+  private sumQuantity(purchases: Purchase[]): number {
+    return purchases.reduce((sum, purchase) => sum + purchase.quantity, 0);
+  }
+}
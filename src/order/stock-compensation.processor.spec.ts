@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Job } from 'bullmq';
+import { StockCompensationProcessor } from './stock-compensation.processor';
+import {
+  StockCompensationJob,
+  StockRollbackFailureService,
+} from './stock-rollback-failure.service';
+
+describe('StockCompensationProcessor', () => {
+  let processor: StockCompensationProcessor;
+  let stockRollbackFailureService: { compensate: jest.Mock };
+
+  const createJob = (attemptsMade: number) =>
+    ({
+      id: '507f1f77bcf86cd799439020',
+      data: { failureId: '507f1f77bcf86cd799439020' },
+      opts: { attempts: 10 },
+      attemptsMade,
+    }) as unknown as Job<StockCompensationJob>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockCompensationProcessor,
+        {
+          provide: StockRollbackFailureService,
+          useValue: { compensate: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    processor = module.get<StockCompensationProcessor>(
+      StockCompensationProcessor,
+    );
+    stockRollbackFailureService = module.get(StockRollbackFailureService);
+  });
+
+  it('should attempt the compensation of the job', async () => {
+    // Act
+    await processor.process(createJob(0));
+
+    // Assert
+    expect(stockRollbackFailureService.compensate).toHaveBeenCalledWith(
+      '507f1f77bcf86cd799439020',
+      false,
+    );
+  });
+
+  it('should tell the service when the retry budget is used up', async () => {
+    // Act
+    await processor.process(createJob(9));
+
+    // Assert
+    expect(stockRollbackFailureService.compensate).toHaveBeenCalledWith(
+      '507f1f77bcf86cd799439020',
+      true,
+    );
+  });
+
+  it('should re-throw so BullMQ retries with backoff', async () => {
+    // Arrange
+    stockRollbackFailureService.compensate.mockRejectedValue(
+      new Error('Stock compensation failed'),
+    );
+
+    // Act & Assert
+    await expect(processor.process(createJob(0))).rejects.toThrow(
+      'Stock compensation failed',
+    );
+  });
+});
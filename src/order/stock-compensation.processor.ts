@@ -0,0 +1,30 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { STOCK_COMPENSATION_QUEUE_NAME } from './order.constants';
+import {
+  StockCompensationJob,
+  StockRollbackFailureService,
+} from './stock-rollback-failure.service';
+
+/**
+ * Retries giving back stock whose rollback failed, with exponential backoff
+ * until the units are back or the retry budget is used up
+ */
+@Injectable()
+@Processor(STOCK_COMPENSATION_QUEUE_NAME)
+export class StockCompensationProcessor extends WorkerHost {
+  constructor(
+    private readonly stockRollbackFailureService: StockRollbackFailureService,
+  ) {
+    super();
+  }
+
+  async process(job: Job<StockCompensationJob>): Promise<void> {
+    const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    await this.stockRollbackFailureService.compensate(
+      job.data.failureId,
+      isLastAttempt,
+    );
+  }
+}
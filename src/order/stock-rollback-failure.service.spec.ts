@@ -0,0 +1,371 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { getQueueToken } from '@nestjs/bullmq';
+import { ConfigService } from '@nestjs/config';
+import { UnrecoverableError } from 'bullmq';
+import { Types } from 'mongoose';
+import { StockRollbackFailureService } from './stock-rollback-failure.service';
+import {
+  StockCompensationStatus,
+  StockRollbackFailure,
+} from './entities/stock-rollback-failure.entity';
+import { STOCK_COMPENSATION_QUEUE_NAME } from './order.constants';
+import { StockService } from '../stock/stock.service';
+import { StockMovementReason } from '../stock/entities/stock-movement.entity';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEventType } from '../webhooks/entities/webhook-endpoint.entity';
+
+describe('StockRollbackFailureService', () => {
+  let service: StockRollbackFailureService;
+  let failureModel: {
+    create: jest.Mock;
+    find: jest.Mock;
+    findById: jest.Mock;
+    updateOne: jest.Mock;
+    updateMany: jest.Mock;
+    aggregate: jest.Mock;
+  };
+  let compensationQueue: { add: jest.Mock };
+  let stockService: { incrementStockAtomic: jest.Mock };
+  let webhooksService: { dispatch: jest.Mock };
+
+  const failureId = '507f1f77bcf86cd799439020';
+
+  const failure = {
+    orderId: '507f1f77bcf86cd799439014',
+    stockId: '507f1f77bcf86cd799439013',
+    quantity: 2,
+    error: 'Max retries exceeded due to version conflicts',
+    source: 'system:order-processor',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockRollbackFailureService,
+        {
+          provide: getModelToken(StockRollbackFailure.name),
+          useValue: {
+            create: jest.fn(),
+            find: jest.fn(),
+            findById: jest.fn(),
+            updateOne: jest.fn(),
+            updateMany: jest.fn(),
+            aggregate: jest.fn(),
+          },
+        },
+        {
+          provide: getQueueToken(STOCK_COMPENSATION_QUEUE_NAME),
+          useValue: { add: jest.fn() },
+        },
+        {
+          provide: StockService,
+          useValue: { incrementStockAtomic: jest.fn() },
+        },
+        {
+          provide: WebhooksService,
+          useValue: { dispatch: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<StockRollbackFailureService>(
+      StockRollbackFailureService,
+    );
+    failureModel = module.get(getModelToken(StockRollbackFailure.name));
+    compensationQueue = module.get(
+      getQueueToken(STOCK_COMPENSATION_QUEUE_NAME),
+    );
+    stockService = module.get(StockService);
+    webhooksService = module.get(WebhooksService);
+
+    failureModel.create.mockResolvedValue({
+      _id: new Types.ObjectId(failureId),
+    });
+    failureModel.updateOne.mockReturnValue({ exec: jest.fn() });
+  });
+
+  /**
+   * Makes findById return a stored failure with the given overrides
+   */
+  const mockStoredFailure = (overrides: object = {}) => {
+    const stored = {
+      _id: new Types.ObjectId(failureId),
+      orderId: new Types.ObjectId(failure.orderId),
+      stockId: new Types.ObjectId(failure.stockId),
+      quantity: 2,
+      status: StockCompensationStatus.OUTSTANDING,
+      attempts: 2,
+      ...overrides,
+    };
+    failureModel.findById.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(stored),
+    });
+    return stored;
+  };
+
+  describe('record', () => {
+    it('should store the failed rollback', async () => {
+      // Act
+      await service.record(failure);
+
+      // Assert
+      expect(failureModel.create).toHaveBeenCalledWith({
+        orderId: new Types.ObjectId(failure.orderId),
+        stockId: new Types.ObjectId(failure.stockId),
+        quantity: 2,
+        error: failure.error,
+        source: failure.source,
+      });
+    });
+
+    it('should queue the failure for compensation with backoff', async () => {
+      // Act
+      await service.record(failure);
+
+      // Assert
+      expect(compensationQueue.add).toHaveBeenCalledWith(
+        'retry-stock-compensation',
+        { failureId },
+        {
+          jobId: failureId,
+          attempts: 10,
+          backoff: { type: 'exponential', delay: 30000 },
+          removeOnComplete: { count: 1000 },
+          removeOnFail: { count: 1000 },
+        },
+      );
+    });
+
+    it('should keep the failure when it cannot be queued', async () => {
+      // Arrange
+      compensationQueue.add.mockRejectedValue(new Error('Redis unavailable'));
+
+      // Act & Assert
+      await expect(service.record(failure)).resolves.toBeUndefined();
+      expect(failureModel.create).toHaveBeenCalled();
+    });
+
+    it('should not throw when the failure cannot be stored', async () => {
+      // Arrange
+      failureModel.create.mockRejectedValue(new Error('Database down'));
+
+      // Act & Assert
+      await expect(service.record(failure)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('enqueueOutstanding', () => {
+    it('should queue every outstanding failure again', async () => {
+      // Arrange
+      const outstanding = [
+        { _id: new Types.ObjectId(failureId) },
+        { _id: new Types.ObjectId('507f1f77bcf86cd799439021') },
+      ];
+      failureModel.find.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(outstanding),
+      });
+
+      // Act
+      await service.enqueueOutstanding();
+
+      // Assert
+      expect(failureModel.find).toHaveBeenCalledWith({
+        status: StockCompensationStatus.OUTSTANDING,
+      });
+      expect(compensationQueue.add).toHaveBeenCalledTimes(2);
+      expect(compensationQueue.add).toHaveBeenCalledWith(
+        'retry-stock-compensation',
+        { failureId: '507f1f77bcf86cd799439021' },
+        expect.objectContaining({ jobId: '507f1f77bcf86cd799439021' }),
+      );
+    });
+  });
+
+  describe('compensate', () => {
+    it('should give the units back and mark the failure compensated', async () => {
+      // Arrange
+      const stored = mockStoredFailure();
+      stockService.incrementStockAtomic.mockResolvedValue({ success: true });
+
+      // Act
+      await service.compensate(failureId, false);
+
+      // Assert
+      expect(stockService.incrementStockAtomic).toHaveBeenCalledWith(
+        failure.stockId,
+        2,
+        {
+          reason: StockMovementReason.ROLLBACK,
+          actor: 'system:stock-compensation',
+          orderId: failure.orderId,
+        },
+      );
+      expect(failureModel.updateOne).toHaveBeenCalledWith(
+        { _id: stored._id },
+        {
+          $set: {
+            status: StockCompensationStatus.COMPENSATED,
+            compensatedAt: expect.any(Date),
+          },
+          $inc: { attempts: 1 },
+        },
+      );
+    });
+
+    it('should record the error and throw for a retry', async () => {
+      // Arrange
+      const stored = mockStoredFailure();
+      stockService.incrementStockAtomic.mockResolvedValue({
+        success: false,
+        error: 'Max retries exceeded due to version conflicts',
+      });
+
+      // Act & Assert
+      await expect(service.compensate(failureId, false)).rejects.toThrow(
+        'Max retries exceeded due to version conflicts',
+      );
+      expect(failureModel.updateOne).toHaveBeenCalledWith(
+        { _id: stored._id },
+        {
+          $set: { error: 'Max retries exceeded due to version conflicts' },
+          $inc: { attempts: 1 },
+        },
+      );
+      expect(webhooksService.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should mark the failure exhausted and alert on the last attempt', async () => {
+      // Arrange
+      mockStoredFailure();
+      stockService.incrementStockAtomic.mockResolvedValue({
+        success: false,
+        error: 'Database error: connection reset',
+      });
+
+      // Act & Assert
+      await expect(service.compensate(failureId, true)).rejects.toThrow(
+        'Database error: connection reset',
+      );
+      expect(failureModel.updateOne).toHaveBeenCalledWith(expect.anything(), {
+        $set: {
+          error: 'Database error: connection reset',
+          status: StockCompensationStatus.EXHAUSTED,
+        },
+        $inc: { attempts: 1 },
+      });
+      expect(webhooksService.dispatch).toHaveBeenCalledWith(
+        WebhookEventType.STOCK_COMPENSATION_EXHAUSTED,
+        {
+          failureId,
+          orderId: failure.orderId,
+          stockId: failure.stockId,
+          quantity: 2,
+          attempts: 3,
+          error: 'Database error: connection reset',
+        },
+      );
+    });
+
+    it('should give up right away when the stock no longer exists', async () => {
+      // Arrange
+      mockStoredFailure();
+      stockService.incrementStockAtomic.mockResolvedValue({
+        success: false,
+        error: 'Stock not found',
+      });
+
+      // Act & Assert
+      await expect(service.compensate(failureId, false)).rejects.toThrow(
+        UnrecoverableError,
+      );
+      expect(webhooksService.dispatch).toHaveBeenCalledWith(
+        WebhookEventType.STOCK_COMPENSATION_EXHAUSTED,
+        expect.objectContaining({ error: 'Stock not found' }),
+      );
+    });
+
+    it('should skip failures that are already settled', async () => {
+      // Arrange
+      mockStoredFailure({ status: StockCompensationStatus.COMPENSATED });
+
+      // Act
+      await service.compensate(failureId, false);
+
+      // Assert
+      expect(stockService.incrementStockAtomic).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDebt', () => {
+    it('should sum the missing units per stock', async () => {
+      // Arrange
+      const oldestFailureAt = new Date('2024-01-15T10:30:00.000Z');
+      failureModel.aggregate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue([
+          {
+            _id: new Types.ObjectId(failure.stockId),
+            units: 5,
+            failures: 2,
+            exhausted: 1,
+            oldestFailureAt,
+          },
+        ]),
+      });
+
+      // Act
+      const debt = await service.getDebt();
+
+      // Assert
+      expect(debt).toEqual([
+        {
+          stockId: failure.stockId,
+          units: 5,
+          failures: 2,
+          exhausted: 1,
+          oldestFailureAt,
+        },
+      ]);
+      expect(failureModel.aggregate.mock.calls[0][0][0]).toEqual({
+        $match: {
+          status: {
+            $in: [
+              StockCompensationStatus.OUTSTANDING,
+              StockCompensationStatus.EXHAUSTED,
+            ],
+          },
+        },
+      });
+    });
+  });
+
+  describe('takeUnreported', () => {
+    it('should return unreported failures and mark them reported', async () => {
+      // Arrange
+      const unreported = [{ _id: new Types.ObjectId() }];
+      failureModel.find.mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(unreported),
+      });
+      failureModel.updateMany.mockReturnValue({ exec: jest.fn() });
+
+      // Act
+      const result = await service.takeUnreported();
+
+      // Assert
+      expect(result).toBe(unreported);
+      expect(failureModel.find).toHaveBeenCalledWith({ reportedAt: null });
+      expect(failureModel.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [unreported[0]._id] } },
+        { $set: { reportedAt: expect.any(Date) } },
+      );
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { InjectModel } from '@nestjs/mongoose';
+import { Queue, UnrecoverableError } from 'bullmq';
+import { Model, Types } from 'mongoose';
+import {
+  StockCompensationStatus,
+  StockRollbackFailure,
+  StockRollbackFailureDocument,
+} from './entities/stock-rollback-failure.entity';
+import {
+  RETRY_STOCK_COMPENSATION_JOB,
+  STOCK_COMPENSATION_QUEUE_NAME,
+} from './order.constants';
+import { StockService } from '../stock/stock.service';
+import { StockMovementReason } from '../stock/entities/stock-movement.entity';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEventType } from '../webhooks/entities/webhook-endpoint.entity';
+
+export interface StockRollbackFailureInput {
+  orderId: string;
+  stockId: string;
+  quantity: number;
+  error?: string;
+  source: string;
+}
+
+export interface StockCompensationJob {
+  failureId: string;
+}
+
+/**
+ * Units a stock is still owed by failed rollbacks
+ */
+export interface StockCompensationDebt {
+  stockId: string;
+  units: number;
+  failures: number;
+  // Failures the compensation queue gave up on
+  exhausted: number;
+  oldestFailureAt: Date;
+}
+
+@Injectable()
+export class StockRollbackFailureService {
+  private readonly logger = new Logger(StockRollbackFailureService.name);
+
+  private readonly maxAttempts: number;
+  private readonly backoffDelayMs: number;
+
+  constructor(
+    @InjectModel(StockRollbackFailure.name)
+    private readonly failureModel: Model<StockRollbackFailureDocument>,
+    @InjectQueue(STOCK_COMPENSATION_QUEUE_NAME)
+    private readonly compensationQueue: Queue,
+    private readonly stockService: StockService,
+    private readonly webhooksService: WebhooksService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxAttempts = Number(
+      this.configService.get<string>('STOCK_COMPENSATION_MAX_ATTEMPTS', '10'),
+    );
+    this.backoffDelayMs = Number(
+      this.configService.get<string>(
+        'STOCK_COMPENSATION_BACKOFF_DELAY_MS',
+        '30000',
+      ),
+    );
+  }
+
+  /**
+   * Records a failed stock rollback and queues it for compensation. Never
+   * throws - it runs on error paths that must not be interrupted, so a
+   * failure to record is only logged.
+   */
+  async record(failure: StockRollbackFailureInput): Promise<void> {
+    this.logger.error(
+      `CRITICAL: Failed to rollback stock ${failure.stockId} for order ${failure.orderId}: ${failure.error}`,
+    );
+
+    try {
+      const created = await this.failureModel.create({
+        orderId: new Types.ObjectId(failure.orderId),
+        stockId: new Types.ObjectId(failure.stockId),
+        quantity: failure.quantity,
+        error: failure.error ?? '',
+        source: failure.source,
+      });
+      await this.enqueue(created._id.toString());
+    } catch (error) {
+      this.logger.error(
+        `CRITICAL: Could not record failed rollback of stock ${failure.stockId} for order ${failure.orderId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Queues every outstanding failure again. The failure ID is the job ID,
+   * so BullMQ ignores failures that are still queued - this only recovers
+   * jobs that were never queued or were lost with Redis.
+   */
+  async enqueueOutstanding(): Promise<void> {
+    const failures = await this.failureModel
+      .find({ status: StockCompensationStatus.OUTSTANDING })
+      .select('_id')
+      .exec();
+
+    for (const failure of failures) {
+      await this.enqueue(failure._id.toString());
+    }
+  }
+
+  /**
+   * One attempt of the compensation queue to give the units back. Throws to
+   * have BullMQ retry with backoff; on the last attempt, or when the stock
+   * is gone, the failure is marked EXHAUSTED and an alert is raised.
+   */
+  async compensate(failureId: string, isLastAttempt: boolean): Promise<void> {
+    const failure = await this.failureModel.findById(failureId).exec();
+    if (!failure || failure.status !== StockCompensationStatus.OUTSTANDING) {
+      this.logger.warn(
+        `Stock compensation ${failureId} not found or already settled, skipping`,
+      );
+      return;
+    }
+
+    const result = await this.stockService.incrementStockAtomic(
+      failure.stockId.toString(),
+      failure.quantity,
+      {
+        reason: StockMovementReason.ROLLBACK,
+        actor: 'system:stock-compensation',
+        orderId: failure.orderId.toString(),
+      },
+    );
+
+    if (result.success) {
+      await this.failureModel
+        .updateOne(
+          { _id: failure._id },
+          {
+            $set: {
+              status: StockCompensationStatus.COMPENSATED,
+              compensatedAt: new Date(),
+            },
+            $inc: { attempts: 1 },
+          },
+        )
+        .exec();
+      this.logger.log(
+        `Gave ${failure.quantity} unit(s) back to stock ${failure.stockId.toString()} for order ${failure.orderId.toString()}`,
+      );
+      return;
+    }
+
+    const error = result.error ?? 'Stock increment failed';
+    // Retrying cannot bring back a deleted stock
+    const isPermanent = error === 'Stock not found';
+    const giveUp = isLastAttempt || isPermanent;
+
+    await this.failureModel
+      .updateOne(
+        { _id: failure._id },
+        {
+          $set: {
+            error,
+            ...(giveUp && { status: StockCompensationStatus.EXHAUSTED }),
+          },
+          $inc: { attempts: 1 },
+        },
+      )
+      .exec();
+
+    if (giveUp) {
+      await this.alertExhausted(failure, failure.attempts + 1, error);
+    }
+
+    const message = `Stock compensation ${failureId} failed: ${error}`;
+    throw isPermanent ? new UnrecoverableError(message) : new Error(message);
+  }
+
+  /**
+   * Units every stock is still owed by outstanding or exhausted failures,
+   * largest debt first
+   */
+  async getDebt(): Promise<StockCompensationDebt[]> {
+    const rows = await this.failureModel
+      .aggregate<{
+        _id: Types.ObjectId;
+        units: number;
+        failures: number;
+        exhausted: number;
+        oldestFailureAt: Date;
+      }>([
+        {
+          $match: {
+            status: {
+              $in: [
+                StockCompensationStatus.OUTSTANDING,
+                StockCompensationStatus.EXHAUSTED,
+              ],
+            },
+          },
+        },
+        {
+          $group: {
+            _id: '$stockId',
+            units: { $sum: '$quantity' },
+            failures: { $sum: 1 },
+            exhausted: {
+              $sum: {
+                $cond: [
+                  { $eq: ['$status', StockCompensationStatus.EXHAUSTED] },
+                  1,
+                  0,
+                ],
+              },
+            },
+            oldestFailureAt: { $min: '$createdAt' },
+          },
+        },
+        { $sort: { units: -1, _id: 1 } },
+      ])
+      .exec();
+
+    return rows.map(({ _id, ...debt }) => ({
+      stockId: _id.toString(),
+      ...debt,
+    }));
+  }
+
+  async findRecent(limit = 100): Promise<StockRollbackFailureDocument[]> {
+    return this.failureModel.find().sort({ createdAt: -1 }).limit(limit).exec();
+  }
+
+  /**
+   * Returns the failures no reconciliation run has reported yet, oldest
+   * first, and marks them reported
+   */
+  async takeUnreported(): Promise<StockRollbackFailureDocument[]> {
+    const failures = await this.failureModel
+      .find({ reportedAt: null })
+      .sort({ createdAt: 1 })
+      .exec();
+
+    if (failures.length > 0) {
+      await this.failureModel
+        .updateMany(
+          { _id: { $in: failures.map((failure) => failure._id) } },
+          { $set: { reportedAt: new Date() } },
+        )
+        .exec();
+    }
+
+    return failures;
+  }
+
+  /**
+   * Queues the compensation of a failure. Only logs when the queue is
+   * unreachable - the next reconciliation run queues it again.
+   */
+  private async enqueue(failureId: string): Promise<void> {
+    const job: StockCompensationJob = { failureId };
+    try {
+      await this.compensationQueue.add(RETRY_STOCK_COMPENSATION_JOB, job, {
+        jobId: failureId,
+        attempts: this.maxAttempts,
+        backoff: {
+          type: 'exponential',
+          delay: this.backoffDelayMs,
+        },
+        removeOnComplete: { count: 1000 },
+        removeOnFail: { count: 1000 },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Could not queue stock compensation ${failureId}: ${error.message}`,
+      );
+    }
+  }
+
+  private async alertExhausted(
+    failure: StockRollbackFailureDocument,
+    attempts: number,
+    error: string,
+  ): Promise<void> {
+    this.logger.error(
+      `CRITICAL: Gave up giving ${failure.quantity} unit(s) back to stock ${failure.stockId.toString()} for order ${failure.orderId.toString()} after ${attempts} attempt(s) - correct the stock by hand: ${error}`,
+    );
+    await this.webhooksService.dispatch(
+      WebhookEventType.STOCK_COMPENSATION_EXHAUSTED,
+      {
+        failureId: failure._id.toString(),
+        orderId: failure.orderId.toString(),
+        stockId: failure.stockId.toString(),
+        quantity: failure.quantity,
+        attempts,
+        error,
+      },
+    );
+  }
+}
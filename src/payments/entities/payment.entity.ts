@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PaymentDocument = Payment &
+  Document & {
+    _id: Types.ObjectId;
+  };
+
+export enum PaymentStatus {
+  AUTHORIZED = 'AUTHORIZED',
+  CAPTURED = 'CAPTURED',
+  VOIDED = 'VOIDED',
+  REFUNDED = 'REFUNDED',
+  DECLINED = 'DECLINED',
+}
+
+@Schema({ timestamps: true })
+export class Payment {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true, unique: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  // Name of the PaymentProvider that holds the references below
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ type: String, enum: PaymentStatus, required: true })
+  status: PaymentStatus;
+
+  @Prop({ type: String, default: null })
+  authorizationId: string | null;
+
+  @Prop({ type: String, default: null })
+  captureId: string | null;
+
+  @Prop({ type: String, default: null })
+  refundId: string | null;
+
+  @Prop({ default: '' })
+  failureReason: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PaymentSchema = SchemaFactory.createForClass(Payment);
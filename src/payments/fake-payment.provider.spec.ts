@@ -0,0 +1,93 @@
+import { ConfigService } from '@nestjs/config';
+import { FakePaymentProvider } from './fake-payment.provider';
+import { PaymentDeclinedError } from './payment.errors';
+
+describe('FakePaymentProvider', () => {
+  const request = {
+    orderId: '507f1f77bcf86cd799439014',
+    userId: '507f1f77bcf86cd799439011',
+    amount: 45.48,
+  };
+
+  const createProvider = (config: Record<string, string> = {}) =>
+    new FakePaymentProvider({
+      get: jest.fn(
+        (key: string, defaultValue?: string) => config[key] ?? defaultValue,
+      ),
+    } as unknown as ConfigService);
+
+  it('should authorize when failures and declines are switched off', async () => {
+    // Arrange
+    const provider = createProvider({ PAYMENT_FAKE_FAILURE_RATE: '0' });
+
+    // Act
+    const authorizationId = await provider.authorize(request);
+
+    // Assert
+    expect(authorizationId).toMatch(/^fake_auth_/);
+  });
+
+  it('should fail transiently at the configured failure rate', async () => {
+    // Arrange
+    const provider = createProvider({ PAYMENT_FAKE_FAILURE_RATE: '1' });
+
+    // Act & Assert
+    const error = await provider.authorize(request).catch((e) => e);
+    expect(error.message).toBe('Payment gateway timeout - please retry');
+    expect(error).not.toBeInstanceOf(PaymentDeclinedError);
+  });
+
+  it('should decline at the configured decline rate', async () => {
+    // Arrange
+    const provider = createProvider({
+      PAYMENT_FAKE_FAILURE_RATE: '0',
+      PAYMENT_FAKE_DECLINE_RATE: '1',
+    });
+
+    // Act & Assert
+    await expect(provider.authorize(request)).rejects.toThrow(
+      PaymentDeclinedError,
+    );
+  });
+
+  it('should decline amounts above the configured limit', async () => {
+    // Arrange
+    const provider = createProvider({
+      PAYMENT_FAKE_FAILURE_RATE: '0',
+      PAYMENT_FAKE_DECLINE_ABOVE: '40',
+    });
+
+    // Act & Assert
+    await expect(provider.authorize(request)).rejects.toThrow(
+      `Payment of 45.48 declined for order ${request.orderId}`,
+    );
+  });
+
+  it('should treat an empty decline limit as no limit', async () => {
+    // Arrange
+    const provider = createProvider({
+      PAYMENT_FAKE_FAILURE_RATE: '0',
+      PAYMENT_FAKE_DECLINE_ABOVE: '',
+    });
+
+    // Act
+    const authorizationId = await provider.authorize(request);
+
+    // Assert
+    expect(authorizationId).toMatch(/^fake_auth_/);
+  });
+
+  it('should capture, void and refund', async () => {
+    // Arrange
+    const provider = createProvider();
+
+    // Act & Assert
+    await expect(provider.capture('fake_auth_1', 45.48)).resolves.toMatch(
+      /^fake_capture_/,
+    );
+    await expect(provider.void('fake_auth_1')).resolves.toBeUndefined();
+    await expect(provider.refund('fake_capture_1', 45.48)).resolves.toMatch(
+      /^fake_refund_/,
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { AuthorizePaymentRequest, PaymentProvider } from './payment-provider';
+import { PaymentDeclinedError } from './payment.errors';
+
+/**
+ * In-process stand-in for a payment gateway. Authorizations fail transiently
+ * at PAYMENT_FAKE_FAILURE_RATE and are declined at PAYMENT_FAKE_DECLINE_RATE
+ * or above PAYMENT_FAKE_DECLINE_ABOVE; capture, void and refund always succeed.
+ */
+@Injectable()
+export class FakePaymentProvider extends PaymentProvider {
+  readonly name = 'fake';
+
+  private readonly logger = new Logger(FakePaymentProvider.name);
+
+  private readonly failureRate: number;
+  private readonly declineRate: number;
+  private readonly declineAbove: number;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.failureRate = Number(
+      this.configService.get<string>('PAYMENT_FAKE_FAILURE_RATE', '0.1'),
+    );
+    this.declineRate = Number(
+      this.configService.get<string>('PAYMENT_FAKE_DECLINE_RATE', '0'),
+    );
+    // An empty value means no limit rather than Number('') === 0
+    const declineAbove = this.configService.get<string>(
+      'PAYMENT_FAKE_DECLINE_ABOVE',
+      '',
+    );
+    this.declineAbove =
+      declineAbove.trim() === ''
+        ? Number.POSITIVE_INFINITY
+        : Number(declineAbove);
+  }
+
+  authorize({ orderId, amount }: AuthorizePaymentRequest): Promise<string> {
+    if (Math.random() < this.failureRate) {
+      return Promise.reject(
+        new Error('Payment gateway timeout - please retry'),
+      );
+    }
+    if (amount > this.declineAbove || Math.random() < this.declineRate) {
+      return Promise.reject(
+        new PaymentDeclinedError(
+          `Payment of ${amount} declined for order ${orderId}`,
+        ),
+      );
+    }
+
+    const authorizationId = `fake_auth_${randomUUID()}`;
+    this.logger.debug(
+      `Authorized ${amount} for order ${orderId}: ${authorizationId}`,
+    );
+    return Promise.resolve(authorizationId);
+  }
+
+  capture(authorizationId: string, amount: number): Promise<string> {
+    this.logger.debug(`Captured ${amount} on ${authorizationId}`);
+    return Promise.resolve(`fake_capture_${randomUUID()}`);
+  }
+
+  void(authorizationId: string): Promise<void> {
+    this.logger.debug(`Voided ${authorizationId}`);
+    return Promise.resolve();
+  }
+
+  refund(captureId: string, amount: number): Promise<string> {
+    this.logger.debug(`Refunded ${amount} on ${captureId}`);
+    return Promise.resolve(`fake_refund_${randomUUID()}`);
+  }
+}
@@ -0,0 +1,37 @@
+export interface AuthorizePaymentRequest {
+  orderId: string;
+  userId: string;
+  amount: number;
+}
+
+/**
+ * Payment gateway used to take money for orders. Funds are authorized while
+ * the order is processed, captured when it ships, and voided (before capture)
+ * or refunded (after capture) when it is not fulfilled.
+ *
+ * Implementations throw PaymentDeclinedError for permanent refusals; any other
+ * error is retried.
+ */
+export abstract class PaymentProvider {
+  abstract readonly name: string;
+
+  /**
+   * Reserves the amount and returns the provider's authorization reference
+   */
+  abstract authorize(request: AuthorizePaymentRequest): Promise<string>;
+
+  /**
+   * Takes the authorized amount and returns the capture reference
+   */
+  abstract capture(authorizationId: string, amount: number): Promise<string>;
+
+  /**
+   * Releases an authorization that was never captured
+   */
+  abstract void(authorizationId: string): Promise<void>;
+
+  /**
+   * Returns captured money and returns the refund reference
+   */
+  abstract refund(captureId: string, amount: number): Promise<string>;
+}
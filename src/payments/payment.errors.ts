@@ -0,0 +1,11 @@
+/**
+ * The provider refused the payment (card declined, insufficient funds, ...).
+ * Permanent - retrying the same payment will not help. Any other error thrown
+ * by a provider is treated as transient.
+ */
+export class PaymentDeclinedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentDeclinedError';
+  }
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { PaymentsService } from './payments.service';
+import { PaymentProvider } from './payment-provider';
+import { FakePaymentProvider } from './fake-payment.provider';
+import { Payment, PaymentSchema } from './entities/payment.entity';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Payment.name, schema: PaymentSchema }]),
+  ],
+  providers: [
+    PaymentsService,
+    {
+      // Add real gateways here and select them with PAYMENT_PROVIDER
+      provide: PaymentProvider,
+      useFactory: (configService: ConfigService): PaymentProvider => {
+        const provider = configService.get<string>('PAYMENT_PROVIDER', 'fake');
+        switch (provider) {
+          case 'fake':
+            return new FakePaymentProvider(configService);
+          default:
+            throw new Error(`Unknown PAYMENT_PROVIDER "${provider}"`);
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
@@ -0,0 +1,256 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PaymentsService } from './payments.service';
+import { PaymentProvider } from './payment-provider';
+import { PaymentDeclinedError } from './payment.errors';
+import { Payment, PaymentStatus } from './entities/payment.entity';
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let paymentModel: {
+    findOne: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    updateOne: jest.Mock;
+  };
+  let paymentProvider: {
+    name: string;
+    authorize: jest.Mock;
+    capture: jest.Mock;
+    void: jest.Mock;
+    refund: jest.Mock;
+  };
+
+  const orderId = '507f1f77bcf86cd799439014';
+  const request = {
+    orderId,
+    userId: '507f1f77bcf86cd799439011',
+    amount: 45.48,
+  };
+
+  const payment = (status: PaymentStatus) => ({
+    _id: new Types.ObjectId('507f1f77bcf86cd799439030'),
+    orderId: new Types.ObjectId(orderId),
+    amount: 45.48,
+    status,
+    authorizationId: 'auth_1',
+    captureId: status === PaymentStatus.CAPTURED ? 'capture_1' : null,
+  });
+
+  const mockExistingPayment = (result: unknown) =>
+    paymentModel.findOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(result),
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        {
+          provide: getModelToken(Payment.name),
+          useValue: {
+            findOne: jest.fn(),
+            findOneAndUpdate: jest.fn(),
+            updateOne: jest.fn(),
+          },
+        },
+        {
+          provide: PaymentProvider,
+          useValue: {
+            name: 'test',
+            authorize: jest.fn(),
+            capture: jest.fn(),
+            void: jest.fn(),
+            refund: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+    paymentModel = module.get(getModelToken(Payment.name));
+    paymentProvider = module.get(PaymentProvider);
+
+    paymentModel.findOneAndUpdate.mockImplementation((filter, update) => ({
+      exec: jest.fn().mockResolvedValue({ ...filter, ...update.$set }),
+    }));
+  });
+
+  describe('authorize', () => {
+    it('should authorize the amount and record the payment', async () => {
+      // Arrange
+      mockExistingPayment(null);
+      paymentProvider.authorize.mockResolvedValue('auth_1');
+
+      // Act
+      const result = await service.authorize(request);
+
+      // Assert
+      expect(paymentProvider.authorize).toHaveBeenCalledWith(request);
+      expect(paymentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { orderId },
+        {
+          $set: expect.objectContaining({
+            provider: 'test',
+            amount: 45.48,
+            status: PaymentStatus.AUTHORIZED,
+            authorizationId: 'auth_1',
+          }),
+        },
+        { upsert: true, new: true },
+      );
+      expect(result.status).toBe(PaymentStatus.AUTHORIZED);
+    });
+
+    it('should reuse the authorization of an earlier attempt', async () => {
+      // Arrange
+      const existing = payment(PaymentStatus.AUTHORIZED);
+      mockExistingPayment(existing);
+
+      // Act
+      const result = await service.authorize(request);
+
+      // Assert
+      expect(result).toBe(existing);
+      expect(paymentProvider.authorize).not.toHaveBeenCalled();
+    });
+
+    it('should authorize again after a previous authorization was voided', async () => {
+      // Arrange
+      mockExistingPayment(payment(PaymentStatus.VOIDED));
+      paymentProvider.authorize.mockResolvedValue('auth_2');
+
+      // Act
+      const result = await service.authorize(request);
+
+      // Assert
+      expect(result.authorizationId).toBe('auth_2');
+    });
+
+    it('should record declines and re-throw them', async () => {
+      // Arrange
+      mockExistingPayment(null);
+      paymentProvider.authorize.mockRejectedValue(
+        new PaymentDeclinedError('Card declined'),
+      );
+
+      // Act & Assert
+      await expect(service.authorize(request)).rejects.toThrow(
+        PaymentDeclinedError,
+      );
+      expect(paymentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { orderId },
+        {
+          $set: expect.objectContaining({
+            status: PaymentStatus.DECLINED,
+            failureReason: 'Card declined',
+          }),
+        },
+        { upsert: true, new: true },
+      );
+    });
+
+    it('should pass transient gateway errors on without recording them', async () => {
+      // Arrange
+      mockExistingPayment(null);
+      paymentProvider.authorize.mockRejectedValue(
+        new Error('Payment gateway timeout - please retry'),
+      );
+
+      // Act & Assert
+      await expect(service.authorize(request)).rejects.toThrow(
+        'Payment gateway timeout - please retry',
+      );
+      expect(paymentModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('capture', () => {
+    it('should capture an authorized payment', async () => {
+      // Arrange
+      mockExistingPayment(payment(PaymentStatus.AUTHORIZED));
+      paymentProvider.capture.mockResolvedValue('capture_1');
+
+      // Act
+      await service.capture(orderId);
+
+      // Assert
+      expect(paymentProvider.capture).toHaveBeenCalledWith('auth_1', 45.48);
+      expect(paymentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ status: PaymentStatus.AUTHORIZED }),
+        {
+          $set: { status: PaymentStatus.CAPTURED, captureId: 'capture_1' },
+        },
+        { new: true },
+      );
+    });
+
+    it('should leave orders without a payment record alone', async () => {
+      // Arrange
+      mockExistingPayment(null);
+
+      // Act
+      const result = await service.capture(orderId);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(paymentProvider.capture).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('release', () => {
+    it('should void an authorization that was never captured', async () => {
+      // Arrange
+      mockExistingPayment(payment(PaymentStatus.AUTHORIZED));
+
+      // Act
+      await service.release(orderId);
+
+      // Assert
+      expect(paymentProvider.void).toHaveBeenCalledWith('auth_1');
+      expect(paymentProvider.refund).not.toHaveBeenCalled();
+      expect(paymentModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ status: PaymentStatus.AUTHORIZED }),
+        { $set: { status: PaymentStatus.VOIDED } },
+      );
+    });
+
+    it('should refund a captured payment', async () => {
+      // Arrange
+      mockExistingPayment(payment(PaymentStatus.CAPTURED));
+      paymentProvider.refund.mockResolvedValue('refund_1');
+
+      // Act
+      await service.release(orderId);
+
+      // Assert
+      expect(paymentProvider.refund).toHaveBeenCalledWith('capture_1', 45.48);
+      expect(paymentModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ status: PaymentStatus.CAPTURED }),
+        { $set: { status: PaymentStatus.REFUNDED, refundId: 'refund_1' } },
+      );
+    });
+
+    it('should do nothing for declined or already released payments', async () => {
+      // Arrange
+      mockExistingPayment(payment(PaymentStatus.VOIDED));
+
+      // Act
+      await service.release(orderId);
+
+      // Assert
+      expect(paymentProvider.void).not.toHaveBeenCalled();
+      expect(paymentProvider.refund).not.toHaveBeenCalled();
+    });
+
+    it('should never throw when the provider fails', async () => {
+      // Arrange
+      mockExistingPayment(payment(PaymentStatus.AUTHORIZED));
+      paymentProvider.void.mockRejectedValue(new Error('Gateway unavailable'));
+
+      // Act & Assert
+      await expect(service.release(orderId)).resolves.toBeUndefined();
+      expect(paymentModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
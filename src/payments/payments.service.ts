@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  Payment,
+  PaymentDocument,
+  PaymentStatus,
+} from './entities/payment.entity';
+import { AuthorizePaymentRequest, PaymentProvider } from './payment-provider';
+import { PaymentDeclinedError } from './payment.errors';
+
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  constructor(
+    @InjectModel(Payment.name)
+    private readonly paymentModel: Model<PaymentDocument>,
+    private readonly paymentProvider: PaymentProvider,
+  ) {}
+
+  async findByOrderId(orderId: string): Promise<PaymentDocument | null> {
+    return this.paymentModel.findOne({ orderId }).exec();
+  }
+
+  /**
+   * Authorizes the order amount, reusing an authorization left by an earlier
+   * attempt. Declines are recorded and re-thrown as PaymentDeclinedError;
+   * other provider errors are passed on so the caller can retry.
+   */
+  async authorize(request: AuthorizePaymentRequest): Promise<PaymentDocument> {
+    const existing = await this.findByOrderId(request.orderId);
+    if (existing?.status === PaymentStatus.AUTHORIZED) {
+      this.logger.log(
+        `Reusing authorization ${existing.authorizationId} for order ${request.orderId}`,
+      );
+      return existing;
+    }
+
+    let authorizationId: string;
+    try {
+      authorizationId = await this.paymentProvider.authorize(request);
+    } catch (error) {
+      if (error instanceof PaymentDeclinedError) {
+        await this.savePayment(request, {
+          status: PaymentStatus.DECLINED,
+          authorizationId: null,
+          failureReason: error.message,
+        });
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Payment of ${request.amount} authorized for order ${request.orderId}`,
+    );
+    return this.savePayment(request, {
+      status: PaymentStatus.AUTHORIZED,
+      authorizationId,
+      captureId: null,
+      refundId: null,
+      failureReason: '',
+    });
+  }
+
+  /**
+   * Captures the authorized amount of an order. Orders without a payment
+   * record (placed before payments were recorded) are left alone and return null.
+   */
+  async capture(orderId: string): Promise<PaymentDocument | null> {
+    const payment = await this.findByOrderId(orderId);
+    if (payment?.status !== PaymentStatus.AUTHORIZED) {
+      return payment;
+    }
+
+    const captureId = await this.paymentProvider.capture(
+      payment.authorizationId!,
+      payment.amount,
+    );
+
+    this.logger.log(
+      `Payment of ${payment.amount} captured for order ${orderId}`,
+    );
+    return this.paymentModel
+      .findOneAndUpdate(
+        { _id: payment._id, status: PaymentStatus.AUTHORIZED },
+        { $set: { status: PaymentStatus.CAPTURED, captureId } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Gives the money back for an order that will not be fulfilled: voids an
+   * open authorization or refunds a capture. Failures are logged rather than
+   * thrown, the same way failed stock rollbacks are.
+   */
+  async release(orderId: string): Promise<void> {
+    try {
+      const payment = await this.findByOrderId(orderId);
+
+      if (payment?.status === PaymentStatus.AUTHORIZED) {
+        await this.paymentProvider.void(payment.authorizationId!);
+        await this.paymentModel.updateOne(
+          { _id: payment._id, status: PaymentStatus.AUTHORIZED },
+          { $set: { status: PaymentStatus.VOIDED } },
+        );
+        this.logger.log(`Payment authorization voided for order ${orderId}`);
+      } else if (payment?.status === PaymentStatus.CAPTURED) {
+        const refundId = await this.paymentProvider.refund(
+          payment.captureId!,
+          payment.amount,
+        );
+        await this.paymentModel.updateOne(
+          { _id: payment._id, status: PaymentStatus.CAPTURED },
+          { $set: { status: PaymentStatus.REFUNDED, refundId } },
+        );
+        this.logger.log(
+          `Payment of ${payment.amount} refunded for order ${orderId}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `CRITICAL: Failed to release payment for order ${orderId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  private async savePayment(
+    { orderId, userId, amount }: AuthorizePaymentRequest,
+    fields: Partial<Payment>,
+  ): Promise<PaymentDocument> {
+    return this.paymentModel
+      .findOneAndUpdate(
+        { orderId },
+        {
+          $set: {
+            userId,
+            amount,
+            provider: this.paymentProvider.name,
+            ...fields,
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .exec() as Promise<PaymentDocument>;
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  Min,
+  NotEquals,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { StockMovementReason } from '../entities/stock-movement.entity';
+
+/**
+ * Reasons a person can give for an adjustment - sales and rollbacks are
+ * only recorded by order processing
+ */
+export const ADJUSTMENT_REASONS = [
+  StockMovementReason.MANUAL_ADJUSTMENT,
+  StockMovementReason.RESTOCK,
+  StockMovementReason.RETURN,
+] as const;
+
+export type AdjustmentReason = (typeof ADJUSTMENT_REASONS)[number];
+
+export class AdjustStockDto {
+  @ApiProperty({
+    description:
+      'Units to add (positive) or take off the shelf (negative), applied on top of the current quantity',
+    example: 50,
+  })
+  @IsInt()
+  @NotEquals(0)
+  delta: number;
+
+  @ApiProperty({
+    description: 'Why the quantity changes - recorded in the movement ledger',
+    enum: ADJUSTMENT_REASONS,
+    example: StockMovementReason.RESTOCK,
+  })
+  @IsNotEmpty()
+  @IsIn(ADJUSTMENT_REASONS)
+  reason: AdjustmentReason;
+
+  @ApiPropertyOptional({
+    description:
+      'Version (__v) the stock is expected to be at - the adjustment is rejected when the stock changed since',
+    example: 12,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  expectedVersion?: number;
+}
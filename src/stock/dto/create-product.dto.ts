@@ -5,8 +5,12 @@ import {
   IsArray,
   IsUrl,
   Min,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PurchaseLimitsDto } from './purchase-limits.dto';
+import { ProductOptionDto, ProductVariantDto } from './product-variant.dto';
 
 export class CreateProductDto {
   @ApiProperty({
@@ -45,4 +49,37 @@ export class CreateProductDto {
   @IsArray()
   @IsUrl({}, { each: true })
   images?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Per-order and per-customer purchase limits, e.g. for limited drops. Replaces the current limits; null removes them.',
+    type: PurchaseLimitsDto,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PurchaseLimitsDto)
+  purchaseLimits?: PurchaseLimitsDto | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Attributes the product comes in, e.g. size and color. Required with variants.',
+    type: [ProductOptionDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProductOptionDto)
+  options?: ProductOptionDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Sellable combinations of option values, each with its own SKU and stock. Replaces the current variants; a variant keeps its ID as long as its SKU stays the same.',
+    type: [ProductVariantDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProductVariantDto)
+  variants?: ProductVariantDto[];
 }
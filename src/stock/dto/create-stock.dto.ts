@@ -1,4 +1,5 @@
 import {
+  IsInt,
   IsString,
   IsNumber,
   IsOptional,
@@ -16,6 +17,24 @@ export class CreateStockDto {
   @IsMongoId()
   productId: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Variant the stock holds - required for products with variants',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Warehouse holding the stock - each product variant has at most one stock per warehouse',
+    example: '507f1f77bcf86cd799439020',
+  })
+  @IsOptional()
+  @IsMongoId()
+  warehouseId?: string;
+
   @ApiPropertyOptional({
     description: 'Initial quantity of stock',
     example: 100,
@@ -26,4 +45,16 @@ export class CreateStockDto {
   @IsNumber({ allowInfinity: false, allowNaN: false })
   @Min(0)
   quantity?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Reorder point - low-stock and out-of-stock alerts are sent when the quantity falls to or below it. null turns alerts off.',
+    example: 10,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  reorderThreshold?: number | null;
 }
@@ -0,0 +1,66 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateWarehouseDto {
+  @ApiProperty({
+    description: 'Warehouse name',
+    example: 'Berlin Central',
+  })
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    description: 'Unique short code',
+    example: 'BER-1',
+  })
+  @IsString()
+  @Matches(/^[A-Z0-9-]{2,20}$/, {
+    message: 'code must be 2-20 uppercase letters, digits or "-"',
+  })
+  code: string;
+
+  @ApiProperty({
+    description: 'Latitude of the warehouse',
+    example: 52.52,
+  })
+  @IsLatitude()
+  latitude: number;
+
+  @ApiProperty({
+    description: 'Longitude of the warehouse',
+    example: 13.405,
+  })
+  @IsLongitude()
+  longitude: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Fulfilment order under the priority strategy - lower goes first',
+    example: 10,
+    minimum: 0,
+    default: 100,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  priority?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the warehouse fulfils orders',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
@@ -0,0 +1,65 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ProductOptionDto {
+  @ApiProperty({
+    description: 'Option name',
+    example: 'size',
+  })
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    description: 'Values the option can take',
+    example: ['S', 'M', 'L', 'XL'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsNotEmpty({ each: true })
+  @IsString({ each: true })
+  values: string[];
+}
+
+export class ProductVariantDto {
+  @ApiProperty({
+    description: 'Stock keeping unit, unique across all products',
+    example: 'TSHIRT-BLK-M',
+  })
+  @Matches(/^[A-Za-z0-9._-]{1,64}$/, {
+    message: 'sku must be 1-64 letters, digits, ".", "_" or "-"',
+  })
+  sku: string;
+
+  @ApiProperty({
+    description: 'Value of every product option, keyed by option name',
+    example: { size: 'M', color: 'black' },
+  })
+  @IsObject()
+  options: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description:
+      'Price of the variant. Leave out or null to sell it at the product price.',
+    example: 24.99,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  price?: number | null;
+}
@@ -1,5 +1,86 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Types } from 'mongoose';
+import { PurchaseLimitsDto } from './purchase-limits.dto';
+import { ProductOptionDto } from './product-variant.dto';
+
+export class StockLocationDto {
+  @ApiProperty({
+    description: 'Stock ID',
+    example: '507f1f77bcf86cd799439012',
+  })
+  stockId: Types.ObjectId;
+
+  @ApiProperty({
+    description:
+      'Variant held at the location, null for products without variants',
+    example: '507f1f77bcf86cd799439030',
+    nullable: true,
+    type: String,
+  })
+  variantId: Types.ObjectId | null;
+
+  @ApiProperty({
+    description:
+      'Warehouse holding the stock, null for stock without a warehouse',
+    example: '507f1f77bcf86cd799439020',
+    nullable: true,
+    type: String,
+  })
+  warehouseId: Types.ObjectId | null;
+
+  @ApiProperty({
+    description: 'Warehouse name',
+    example: 'Berlin Central',
+    nullable: true,
+    type: String,
+  })
+  warehouseName: string | null;
+
+  @ApiProperty({
+    description: 'Quantity that can still be ordered from this location',
+    example: 10,
+  })
+  availableStock: number;
+}
+
+export class VariantWithStockDto {
+  @ApiProperty({
+    description: 'Variant ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  variantId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Stock keeping unit',
+    example: 'TSHIRT-BLK-M',
+  })
+  sku: string;
+
+  @ApiProperty({
+    description: 'Value of every product option, keyed by option name',
+    example: { size: 'M', color: 'black' },
+  })
+  options: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Price of the variant - its own or the product price',
+    example: 24.99,
+  })
+  price: number;
+
+  @ApiProperty({
+    description:
+      'Stock quantity of the variant that can still be ordered, summed over every location that fulfils orders',
+    example: 8,
+  })
+  availableStock: number;
+
+  @ApiProperty({
+    description: 'Locations that fulfil orders of the variant',
+    type: [StockLocationDto],
+  })
+  locations: StockLocationDto[];
+}
 
 export class ProductWithStockDto {
   @ApiProperty({
@@ -8,12 +89,6 @@ export class ProductWithStockDto {
   })
   productId: Types.ObjectId;
 
-  @ApiProperty({
-    description: 'Stock ID',
-    example: '507f1f77bcf86cd799439012',
-  })
-  stockId: Types.ObjectId;
-
   @ApiProperty({
     description: 'Product name',
     example: 'iPhone 15 Pro',
@@ -35,18 +110,49 @@ export class ProductWithStockDto {
 
   @ApiProperty({
     description: 'Product images',
-    example: ['https://example.com/image1.jpg', 'https://example.com/image2.jpg'],
+    example: [
+      'https://example.com/image1.jpg',
+      'https://example.com/image2.jpg',
+    ],
     required: false,
     type: [String],
   })
   images?: string[];
 
   @ApiProperty({
-    description: 'Available stock quantity',
+    description:
+      'Stock quantity that can still be ordered (on hand minus reserved), summed over every variant and location that fulfils orders',
     example: 25,
   })
   availableStock: number;
 
+  @ApiProperty({
+    description:
+      'Locations that fulfil orders of the product, one per variant and warehouse. A single order line is served from one location.',
+    type: [StockLocationDto],
+  })
+  locations: StockLocationDto[];
+
+  @ApiProperty({
+    description: 'Attributes the product comes in',
+    type: [ProductOptionDto],
+  })
+  options: ProductOptionDto[];
+
+  @ApiProperty({
+    description:
+      'Variants of the product with their own price and availability. Empty for products sold as a single item.',
+    type: [VariantWithStockDto],
+  })
+  variants: VariantWithStockDto[];
+
+  @ApiProperty({
+    description: 'How much of the product one customer may buy',
+    nullable: true,
+    type: PurchaseLimitsDto,
+  })
+  purchaseLimits: PurchaseLimitsDto | null;
+
   @ApiProperty({
     description: 'Product creation date',
     example: '2024-01-15T10:30:00.000Z',
@@ -0,0 +1,52 @@
+import { IsInt, IsOptional, Min, ValidateIf } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class PurchaseLimitsDto {
+  @ApiPropertyOptional({
+    description: 'Most units of the product one order may contain',
+    example: 2,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxPerOrder?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Most units one customer may buy across all their orders',
+    example: 4,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxPerCustomer?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Most units one customer may buy within windowHours (requires windowHours)',
+    example: 2,
+    minimum: 1,
+    nullable: true,
+  })
+  @ValidateIf((limits: PurchaseLimitsDto) => limits.windowHours != null)
+  @IsInt()
+  @Min(1)
+  maxPerCustomerInWindow?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Length of the rolling window of maxPerCustomerInWindow, in hours',
+    example: 24,
+    minimum: 1,
+    nullable: true,
+  })
+  @ValidateIf(
+    (limits: PurchaseLimitsDto) => limits.maxPerCustomerInWindow != null,
+  )
+  @IsInt()
+  @Min(1)
+  windowHours?: number | null;
+}
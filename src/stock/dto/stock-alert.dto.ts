@@ -0,0 +1,79 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { StockAlertType } from '../stock-alert-notifier';
+
+export class StockAlertDto {
+  @ApiProperty({
+    description: 'How far the stock has run down',
+    enum: StockAlertType,
+    example: StockAlertType.LOW_STOCK,
+  })
+  type: StockAlertType;
+
+  @ApiProperty({
+    description: 'Stock ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  stockId: string;
+
+  @ApiProperty({
+    description: 'Product ID',
+    example: '507f1f77bcf86cd799439012',
+  })
+  productId: string;
+
+  @ApiProperty({
+    description: 'Product name',
+    example: 'T-Shirt',
+  })
+  productName: string;
+
+  @ApiProperty({
+    description: 'Variant held, null for products without variants',
+    nullable: true,
+    type: String,
+    example: '507f1f77bcf86cd799439030',
+  })
+  variantId: string | null;
+
+  @ApiProperty({
+    description: 'SKU of the variant',
+    nullable: true,
+    type: String,
+    example: 'TSHIRT-BLK-M',
+  })
+  sku: string | null;
+
+  @ApiProperty({
+    description: 'Warehouse holding the stock, null for stock without one',
+    nullable: true,
+    type: String,
+    example: '507f1f77bcf86cd799439020',
+  })
+  warehouseId: string | null;
+
+  @ApiProperty({
+    description: 'Warehouse name',
+    nullable: true,
+    type: String,
+    example: 'Berlin Central',
+  })
+  warehouseName: string | null;
+
+  @ApiProperty({
+    description: 'On-hand quantity',
+    example: 3,
+  })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Quantity that can still be ordered (on hand minus reserved)',
+    example: 1,
+  })
+  availableStock: number;
+
+  @ApiProperty({
+    description: 'Reorder threshold of the stock',
+    example: 10,
+  })
+  reorderThreshold: number;
+}
@@ -0,0 +1,125 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  StockMovementDocument,
+  StockMovementReason,
+} from '../entities/stock-movement.entity';
+
+export const DEFAULT_STOCK_MOVEMENT_PAGE_SIZE = 50;
+export const MAX_STOCK_MOVEMENT_PAGE_SIZE = 500;
+
+export class StockMovementQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of most recent movements to return',
+    default: DEFAULT_STOCK_MOVEMENT_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_STOCK_MOVEMENT_PAGE_SIZE,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_STOCK_MOVEMENT_PAGE_SIZE)
+  limit?: number;
+}
+
+export class StockMovementResponseDto {
+  @ApiProperty({
+    description: 'Movement ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  _id: string;
+
+  @ApiProperty({
+    description: 'Signed change of the quantity',
+    example: -2,
+  })
+  delta: number;
+
+  @ApiProperty({
+    description: 'Why the quantity changed',
+    enum: StockMovementReason,
+    example: StockMovementReason.SALE,
+  })
+  reason: StockMovementReason;
+
+  @ApiProperty({
+    description: 'User or system component that moved the stock',
+    example: 'system:order-processor',
+  })
+  actor: string;
+
+  @ApiProperty({
+    description: 'Order the movement belongs to',
+    nullable: true,
+    type: String,
+    example: '507f1f77bcf86cd799439014',
+  })
+  orderId: string | null;
+
+  @ApiProperty({
+    description: 'Quantity right after the movement',
+    example: 98,
+  })
+  balanceAfter: number;
+
+  @ApiProperty({
+    description: 'When the stock moved',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+}
+
+export function toStockMovementResponseDto(
+  movement: StockMovementDocument,
+): StockMovementResponseDto {
+  return {
+    _id: movement._id.toString(),
+    delta: movement.delta,
+    reason: movement.reason,
+    actor: movement.actor,
+    orderId: movement.orderId?.toString() ?? null,
+    balanceAfter: movement.balanceAfter,
+    createdAt: movement.createdAt,
+  };
+}
+
+export class StockLedgerDto {
+  @ApiProperty({
+    description: 'Stock ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  stockId: string;
+
+  @ApiProperty({
+    description: 'On-hand quantity stored on the stock',
+    example: 98,
+  })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'On-hand quantity recomputed from every movement',
+    example: 98,
+  })
+  ledgerBalance: number;
+
+  @ApiProperty({
+    description:
+      'quantity minus ledgerBalance - non-zero when the stock changed without a movement (e.g. it predates the ledger)',
+    example: 0,
+  })
+  discrepancy: number;
+
+  @ApiProperty({
+    description: 'Movements recorded for the stock',
+    example: 3,
+  })
+  totalMovements: number;
+
+  @ApiProperty({
+    description: 'Most recent movements, newest first',
+    type: [StockMovementResponseDto],
+  })
+  movements: StockMovementResponseDto[];
+}
@@ -1,4 +1,10 @@
-import { PartialType } from '@nestjs/swagger';
+import { PartialType, PickType } from '@nestjs/swagger';
 import { CreateStockDto } from './create-stock.dto';
 
-export class UpdateStockDto extends PartialType(CreateStockDto) {}
+/**
+ * Only the levels of a stock can be updated - its product, variant and
+ * warehouse are fixed once it is created
+ */
+export class UpdateStockDto extends PartialType(
+  PickType(CreateStockDto, ['quantity', 'reorderThreshold'] as const),
+) {}
@@ -3,6 +3,66 @@ import { Document, Types } from 'mongoose';
 
 export type ProductDocument = Product & Document;
 
+/**
+ * How much of a product one customer may buy. Unset limits do not apply;
+ * orders that were not failed or cancelled count towards them.
+ */
+@Schema({ _id: false })
+export class PurchaseLimits {
+  @Prop({ type: Number, default: null, min: 1 })
+  maxPerOrder: number | null;
+
+  // Across all of the customer's orders
+  @Prop({ type: Number, default: null, min: 1 })
+  maxPerCustomer: number | null;
+
+  // Across the customer's orders of the last windowHours
+  @Prop({ type: Number, default: null, min: 1 })
+  maxPerCustomerInWindow: number | null;
+
+  @Prop({ type: Number, default: null, min: 1 })
+  windowHours: number | null;
+}
+
+export const PurchaseLimitsSchema =
+  SchemaFactory.createForClass(PurchaseLimits);
+
+/**
+ * An attribute the product comes in, e.g. size with S, M and L
+ */
+@Schema({ _id: false })
+export class ProductOption {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: [String], required: true })
+  values: string[];
+}
+
+export const ProductOptionSchema = SchemaFactory.createForClass(ProductOption);
+
+/**
+ * One sellable combination of option values. Stock is kept per variant.
+ */
+@Schema()
+export class ProductVariant {
+  _id?: Types.ObjectId;
+
+  @Prop({ required: true })
+  sku: string;
+
+  // Option name -> value, one entry for every option of the product
+  @Prop({ type: Object, required: true })
+  options: Record<string, string>;
+
+  // Overrides the product price; null sells at the product price
+  @Prop({ type: Number, default: null, min: 0 })
+  price: number | null;
+}
+
+export const ProductVariantSchema =
+  SchemaFactory.createForClass(ProductVariant);
+
 @Schema({ timestamps: true })
 export class Product {
   _id?: Types.ObjectId;
@@ -19,8 +79,27 @@ export class Product {
   @Prop({ type: [String] })
   images?: string[];
 
+  @Prop({ type: PurchaseLimitsSchema, default: null })
+  purchaseLimits?: PurchaseLimits | null;
+
+  @Prop({ type: [ProductOptionSchema], default: [] })
+  options?: ProductOption[];
+
+  // Empty for products sold as a single item
+  @Prop({ type: [ProductVariantSchema], default: [] })
+  variants?: ProductVariant[];
+
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 export const ProductSchema = SchemaFactory.createForClass(Product);
+
+// SKUs are unique across products; uniqueness within a product is checked by StockService
+ProductSchema.index(
+  { 'variants.sku': 1 },
+  {
+    unique: true,
+    partialFilterExpression: { 'variants.sku': { $exists: true } },
+  },
+);
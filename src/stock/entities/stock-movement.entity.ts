@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type StockMovementDocument = StockMovement &
+  Document & {
+    _id: Types.ObjectId;
+  };
+
+export enum StockMovementReason {
+  SALE = 'SALE',
+  ROLLBACK = 'ROLLBACK', // Units of a failed or cancelled order given back
+  MANUAL_ADJUSTMENT = 'MANUAL_ADJUSTMENT',
+  RESTOCK = 'RESTOCK',
+  RETURN = 'RETURN',
+}
+
+/**
+ * One change of a stock's on-hand quantity. Movements are only ever
+ * appended, so the sum of a stock's deltas is its quantity as the ledger
+ * sees it. Reservations do not move stock and are not recorded.
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class StockMovement {
+  @Prop({ type: Types.ObjectId, ref: 'Stock', required: true })
+  stockId: Types.ObjectId;
+
+  // Signed change of the quantity - negative when units left the shelf
+  @Prop({ required: true })
+  delta: number;
+
+  @Prop({ type: String, enum: StockMovementReason, required: true })
+  reason: StockMovementReason;
+
+  // User ID, or "system:<component>" for background work
+  @Prop({ required: true })
+  actor: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Order', default: null })
+  orderId: Types.ObjectId | null;
+
+  // Quantity of the stock right after the movement
+  @Prop({ required: true })
+  balanceAfter: number;
+
+  createdAt: Date;
+}
+
+export const StockMovementSchema = SchemaFactory.createForClass(StockMovement);
+
+// History of a stock in order
+StockMovementSchema.index({ stockId: 1, createdAt: 1 });
@@ -1,9 +1,29 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { Product } from './product.entity';
+import { Warehouse } from './warehouse.entity';
 
 export type StockDocument = Stock & Document;
 
+/**
+ * Quantity held for an order between order creation and confirmation
+ */
+@Schema({ _id: false })
+export class StockReservation {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+
+  // Released by the reservation sweeper once passed
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const StockReservationSchema =
+  SchemaFactory.createForClass(StockReservation);
+
 @Schema({ 
   timestamps: true,
   versionKey: '__v' // Explicitly enable versioning for optimistic locking
@@ -11,12 +31,31 @@ export type StockDocument = Stock & Document;
 export class Stock {
   _id?: Types.ObjectId;
 
-  @Prop({ type: Types.ObjectId, ref: 'Product', required: true, unique: true })
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
   productId: Types.ObjectId | Product;
 
+  // Variant of the product held here - null for products without variants
+  @Prop({ type: Types.ObjectId, default: null })
+  variantId?: Types.ObjectId | null;
+
+  // null for stock created before warehouses existed - it still fulfils orders, after every warehouse
+  @Prop({ type: Types.ObjectId, ref: 'Warehouse', default: null })
+  warehouseId?: Types.ObjectId | Warehouse | null;
+
   @Prop({ required: true, default: 0, min: 0 })
   quantity: number;
 
+  // Sum of reservations[].quantity - kept alongside so availability checks stay a single read
+  @Prop({ default: 0, min: 0 })
+  reserved: number;
+
+  @Prop({ type: [StockReservationSchema], default: [] })
+  reservations: StockReservation[];
+
+  // Low-stock alerts fire when quantity falls to or below it - null turns alerts off
+  @Prop({ type: Number, default: null, min: 0 })
+  reorderThreshold?: number | null;
+
   // Explicit version field for optimistic locking
   __v?: number;
 
@@ -25,3 +64,18 @@ export class Stock {
 }
 
 export const StockSchema = SchemaFactory.createForClass(Stock);
+
+// One stock per product variant and location
+StockSchema.index(
+  { productId: 1, variantId: 1, warehouseId: 1 },
+  { unique: true },
+);
+
+// Lists stock below its reorder threshold without scanning stock that has none
+StockSchema.index(
+  { reorderThreshold: 1 },
+  { partialFilterExpression: { reorderThreshold: { $type: 'number' } } },
+);
+
+// Lets the sweeper find expired reservations without scanning every stock
+StockSchema.index({ 'reservations.expiresAt': 1 });
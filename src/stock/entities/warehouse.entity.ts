@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type WarehouseDocument = Warehouse &
+  Document & {
+    _id: Types.ObjectId;
+  };
+
+/**
+ * A location that holds stock. A product has at most one Stock per warehouse.
+ */
+@Schema({ timestamps: true })
+export class Warehouse {
+  _id?: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  // Short unique handle, e.g. "BER-1"
+  @Prop({ required: true, unique: true })
+  code: string;
+
+  @Prop({ required: true, min: -90, max: 90 })
+  latitude: number;
+
+  @Prop({ required: true, min: -180, max: 180 })
+  longitude: number;
+
+  // Lower fulfils first under the priority strategy, and breaks ties under the others
+  @Prop({ default: 100, min: 0 })
+  priority: number;
+
+  // Inactive warehouses keep their stock but never fulfil orders
+  @Prop({ default: true })
+  active: boolean;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WarehouseSchema = SchemaFactory.createForClass(Warehouse);
@@ -0,0 +1,62 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStockAlertNotifier } from './file-stock-alert.notifier';
+import { StockAlertType } from './stock-alert-notifier';
+
+describe('FileStockAlertNotifier', () => {
+  let directory: string;
+
+  const alert = {
+    type: StockAlertType.LOW_STOCK,
+    stockId: '507f1f77bcf86cd799439013',
+    productId: '507f1f77bcf86cd799439012',
+    variantId: null,
+    warehouseId: null,
+    quantity: 4,
+    reorderThreshold: 5,
+    occurredAt: new Date('2024-01-15T10:30:00.000Z'),
+  };
+
+  const createNotifier = (filePath: string) =>
+    new FileStockAlertNotifier({
+      get: jest.fn((key: string, defaultValue?: string) =>
+        key === 'STOCK_ALERT_FILE' ? filePath : defaultValue,
+      ),
+    } as unknown as ConfigService);
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'stock-alerts-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append each alert as a JSON line, creating the directory', async () => {
+    // Arrange
+    const filePath = join(directory, 'nested', 'alerts.jsonl');
+    const notifier = createNotifier(filePath);
+
+    // Act
+    await notifier.notify(alert);
+    await notifier.notify({
+      ...alert,
+      type: StockAlertType.OUT_OF_STOCK,
+      quantity: 0,
+    });
+
+    // Assert
+    const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines.map((line): unknown => JSON.parse(line))).toEqual([
+      { ...alert, occurredAt: '2024-01-15T10:30:00.000Z' },
+      {
+        ...alert,
+        type: StockAlertType.OUT_OF_STOCK,
+        quantity: 0,
+        occurredAt: '2024-01-15T10:30:00.000Z',
+      },
+    ]);
+  });
+});
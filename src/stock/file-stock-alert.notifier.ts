@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { StockAlert, StockAlertNotifier } from './stock-alert-notifier';
+
+/**
+ * Appends every alert as a JSON line to STOCK_ALERT_FILE, for a replenishment
+ * tool or a log shipper to pick up
+ */
+@Injectable()
+export class FileStockAlertNotifier extends StockAlertNotifier {
+  readonly name = 'file';
+
+  private readonly filePath: string;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.filePath = this.configService.get<string>(
+      'STOCK_ALERT_FILE',
+      'logs/stock-alerts.jsonl',
+    );
+  }
+
+  async notify(alert: StockAlert): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(alert)}\n`);
+  }
+}
@@ -0,0 +1,19 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { StockAlert, StockAlertNotifier } from './stock-alert-notifier';
+
+/**
+ * Writes alerts to the application log
+ */
+@Injectable()
+export class LogStockAlertNotifier extends StockAlertNotifier {
+  readonly name = 'log';
+
+  private readonly logger = new Logger(LogStockAlertNotifier.name);
+
+  notify(alert: StockAlert): Promise<void> {
+    this.logger.warn(
+      `${alert.type}: stock ${alert.stockId} of product ${alert.productId} is at ${alert.quantity} (reorder threshold ${alert.reorderThreshold})`,
+    );
+    return Promise.resolve();
+  }
+}
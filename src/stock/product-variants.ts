@@ -0,0 +1,81 @@
+import {
+  Product,
+  ProductOption,
+  ProductVariant,
+} from './entities/product.entity';
+
+/**
+ * Why the variants do not fit the product's options, or null when they do.
+ * Every variant needs an allowed value for each option, and no two variants
+ * may share a SKU or the same combination of values.
+ */
+export function findVariantProblem(
+  options: ProductOption[],
+  variants: Pick<ProductVariant, 'sku' | 'options'>[],
+): string | null {
+  const optionNames = options.map((option) => option.name);
+  if (new Set(optionNames).size !== optionNames.length) {
+    return 'Option names must be unique';
+  }
+  if (variants.length === 0) {
+    return options.length === 0
+      ? null
+      : 'A product with options needs at least one variant';
+  }
+  if (options.length === 0) {
+    return 'Variants need at least one product option';
+  }
+
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+  for (const variant of variants) {
+    if (skus.has(variant.sku)) {
+      return `SKU ${variant.sku} is used by more than one variant`;
+    }
+    skus.add(variant.sku);
+
+    const unknownOption = Object.keys(variant.options).find(
+      (name) => !optionNames.includes(name),
+    );
+    if (unknownOption) {
+      return `Variant ${variant.sku} has unknown option "${unknownOption}"`;
+    }
+    for (const option of options) {
+      if (!option.values.includes(variant.options[option.name])) {
+        return `Variant ${variant.sku} needs one of ${option.values.join(', ')} for "${option.name}"`;
+      }
+    }
+
+    const combination = optionNames
+      .map((name) => variant.options[name])
+      .join(' / ');
+    if (combinations.has(combination)) {
+      return `More than one variant is ${combination}`;
+    }
+    combinations.add(combination);
+  }
+  return null;
+}
+
+export function hasVariants(product: Product): boolean {
+  return (product.variants ?? []).length > 0;
+}
+
+export function findVariant(
+  product: Product,
+  variantId: string,
+): ProductVariant | undefined {
+  return product.variants?.find(
+    (variant) => variant._id?.toString() === variantId,
+  );
+}
+
+/**
+ * Price a variant sells at - its own, or the product's when it has none
+ */
+export function variantPrice(
+  product: Product,
+  variant?: ProductVariant | null,
+): number {
+  return variant?.price ?? product.price;
+}
@@ -0,0 +1,45 @@
+import { InjectQueue, Processor } from '@nestjs/bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bullmq';
+import { RepeatingJobProcessor } from '../common/scheduling/repeating-job.processor';
+import {
+  RELEASE_EXPIRED_RESERVATIONS_JOB,
+  STOCK_MAINTENANCE_QUEUE_NAME,
+} from './stock.constants';
+import { StockService } from './stock.service';
+
+/**
+ * Periodically gives expired stock reservations back to the available pool,
+ * so orders that were never processed do not keep stock locked forever
+ */
+@Injectable()
+@Processor(STOCK_MAINTENANCE_QUEUE_NAME)
+export class ReservationSweeperProcessor extends RepeatingJobProcessor {
+  private readonly logger = new Logger(ReservationSweeperProcessor.name);
+
+  constructor(
+    @InjectQueue(STOCK_MAINTENANCE_QUEUE_NAME) maintenanceQueue: Queue,
+    private readonly stockService: StockService,
+    configService: ConfigService,
+  ) {
+    super(
+      maintenanceQueue,
+      RELEASE_EXPIRED_RESERVATIONS_JOB,
+      configService,
+      'STOCK_RESERVATION_SWEEP_INTERVAL_MS',
+      60000,
+    );
+  }
+
+  async process(job: Job): Promise<number> {
+    const released = await this.stockService.releaseExpiredReservations();
+
+    if (released > 0) {
+      this.logger.log(
+        `Released ${released} expired stock reservation(s) (job ${job.id})`,
+      );
+    }
+    return released;
+  }
+}
@@ -0,0 +1,26 @@
+export enum StockAlertType {
+  LOW_STOCK = 'low-stock', // Quantity fell to or below the reorder threshold
+  OUT_OF_STOCK = 'out-of-stock', // Quantity reached zero
+}
+
+export interface StockAlert {
+  type: StockAlertType;
+  stockId: string;
+  productId: string;
+  variantId: string | null;
+  warehouseId: string | null;
+  quantity: number;
+  reorderThreshold: number;
+  occurredAt: Date;
+}
+
+/**
+ * Delivers low-stock and out-of-stock alerts to merchandisers. Alerts are
+ * sent once, when a quantity change crosses the level; a failed delivery is
+ * logged and not retried, and the stock stays listed at GET /stock/alerts.
+ */
+export abstract class StockAlertNotifier {
+  abstract readonly name: string;
+
+  abstract notify(alert: StockAlert): Promise<void>;
+}
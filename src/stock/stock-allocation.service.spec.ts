@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import {
+  StockAllocationService,
+  StockAllocationStrategy,
+} from './stock-allocation.service';
+import { StockService } from './stock.service';
+
+describe('StockAllocationService', () => {
+  let stockService: { findFulfillingStocks: jest.Mock };
+
+  const productId = '507f1f77bcf86cd799439012';
+  const berlin = { latitude: 52.52, longitude: 13.405 };
+  const hamburg = { latitude: 53.551, longitude: 9.993 };
+  const munich = { latitude: 48.137, longitude: 11.575 };
+
+  const stock = (
+    name: string,
+    available: number,
+    warehouse: { latitude: number; longitude: number; priority: number } | null,
+  ) => ({
+    _id: new Types.ObjectId(),
+    name,
+    quantity: available,
+    reserved: 0,
+    warehouseId: warehouse && { name, active: true, ...warehouse },
+  });
+
+  const hamburgStock = stock('Hamburg', 5, { ...hamburg, priority: 20 });
+  const munichStock = stock('Munich', 50, { ...munich, priority: 10 });
+  const looseStock = stock('Unassigned', 100, null);
+
+  const createService = async (strategy?: string) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockAllocationService,
+        {
+          provide: StockService,
+          useValue: {
+            findFulfillingStocks: jest.fn(),
+            availableQuantity: jest.fn(
+              (candidate: { quantity: number; reserved: number }) =>
+                candidate.quantity - candidate.reserved,
+            ),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) =>
+              key === 'STOCK_ALLOCATION_STRATEGY' && strategy
+                ? strategy
+                : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    stockService = module.get(StockService);
+    stockService.findFulfillingStocks.mockResolvedValue([
+      looseStock,
+      hamburgStock,
+      munichStock,
+    ]);
+    return module.get<StockAllocationService>(StockAllocationService);
+  };
+
+  const names = (stocks: unknown[]) =>
+    stocks.map((candidate) => (candidate as { name: string }).name);
+
+  it('should rank by warehouse priority by default, unassigned stock last', async () => {
+    // Arrange
+    const service = await createService();
+
+    // Act
+    const result = await service.rankStocks(productId, undefined, 1);
+
+    // Assert
+    expect(names(result)).toEqual(['Munich', 'Hamburg', 'Unassigned']);
+  });
+
+  it('should rank the nearest warehouse first', async () => {
+    // Arrange
+    const service = await createService(StockAllocationStrategy.NEAREST);
+
+    // Act
+    const result = await service.rankStocks(productId, undefined, 1, berlin);
+
+    // Assert
+    expect(names(result)).toEqual(['Hamburg', 'Munich', 'Unassigned']);
+  });
+
+  it('should fall back to priority for nearest without a delivery location', async () => {
+    // Arrange
+    const service = await createService(StockAllocationStrategy.NEAREST);
+
+    // Act
+    const result = await service.rankStocks(productId, undefined, 1);
+
+    // Assert
+    expect(names(result)).toEqual(['Munich', 'Hamburg', 'Unassigned']);
+  });
+
+  it('should rank the location with the most stock first', async () => {
+    // Arrange
+    const service = await createService(StockAllocationStrategy.MOST_STOCK);
+
+    // Act
+    const result = await service.rankStocks(productId, undefined, 1);
+
+    // Assert
+    expect(names(result)).toEqual(['Unassigned', 'Munich', 'Hamburg']);
+  });
+
+  it('should skip locations that cannot fulfil the whole quantity', async () => {
+    // Arrange
+    const service = await createService(StockAllocationStrategy.NEAREST);
+
+    // Act
+    const result = await service.rankStocks(productId, undefined, 10, berlin);
+
+    // Assert
+    expect(names(result)).toEqual(['Munich', 'Unassigned']);
+  });
+
+  it('should only rank stock of the ordered variant', async () => {
+    // Arrange
+    const service = await createService();
+    const variantId = '507f1f77bcf86cd799439030';
+
+    // Act
+    await service.rankStocks(productId, variantId, 1);
+
+    // Assert
+    expect(stockService.findFulfillingStocks).toHaveBeenCalledWith(
+      productId,
+      variantId,
+    );
+  });
+
+  it('should use priority for an unknown strategy', async () => {
+    // Arrange
+    const service = await createService('cheapest');
+
+    // Act
+    const result = await service.rankStocks(productId, undefined, 1, berlin);
+
+    // Assert
+    expect(names(result)).toEqual(['Munich', 'Hamburg', 'Unassigned']);
+  });
+});
@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StockDocument } from './entities/stock.entity';
+import { Warehouse } from './entities/warehouse.entity';
+import { StockService } from './stock.service';
+
+export enum StockAllocationStrategy {
+  NEAREST = 'nearest', // Closest warehouse to the delivery location
+  MOST_STOCK = 'most-stock', // Warehouse with the most units available
+  PRIORITY = 'priority', // Fixed order of Warehouse.priority
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+function distanceKm(from: GeoLocation, to: GeoLocation): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLatitude = toRadians(to.latitude - from.latitude);
+  const dLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+interface Candidate {
+  stock: StockDocument;
+  warehouse: Warehouse | null;
+  available: number;
+}
+
+/**
+ * Picks the location that fulfils an order line. The strategy is set with
+ * STOCK_ALLOCATION_STRATEGY; a line is never split across locations.
+ */
+@Injectable()
+export class StockAllocationService {
+  private readonly logger = new Logger(StockAllocationService.name);
+
+  private readonly strategy: StockAllocationStrategy;
+
+  constructor(
+    private readonly stockService: StockService,
+    private readonly configService: ConfigService,
+  ) {
+    const strategy = this.configService.get<string>(
+      'STOCK_ALLOCATION_STRATEGY',
+      StockAllocationStrategy.PRIORITY,
+    );
+    if (
+      Object.values(StockAllocationStrategy).includes(
+        strategy as StockAllocationStrategy,
+      )
+    ) {
+      this.strategy = strategy as StockAllocationStrategy;
+    } else {
+      this.logger.warn(
+        `Unknown STOCK_ALLOCATION_STRATEGY "${strategy}", using ${StockAllocationStrategy.PRIORITY}`,
+      );
+      this.strategy = StockAllocationStrategy.PRIORITY;
+    }
+  }
+
+  /**
+   * Stocks of the product variant that can fulfil the whole quantity on
+   * their own, best first. Callers try them in order - availability may
+   * change before the stock is taken. Without a delivery location, nearest
+   * falls back to priority.
+   */
+  async rankStocks(
+    productId: string,
+    variantId: string | undefined,
+    quantity: number,
+    deliveryLocation?: GeoLocation,
+  ): Promise<StockDocument[]> {
+    const stocks = await this.stockService.findFulfillingStocks(
+      productId,
+      variantId,
+    );
+
+    const candidates: Candidate[] = stocks
+      .map((stock) => ({
+        stock,
+        warehouse: stock.warehouseId as Warehouse | null,
+        available: this.stockService.availableQuantity(stock),
+      }))
+      .filter((candidate) => candidate.available >= quantity);
+
+    return candidates
+      .sort(
+        (a, b) =>
+          this.compareByStrategy(a, b, deliveryLocation) ||
+          this.compareByPriority(a, b),
+      )
+      .map((candidate) => candidate.stock);
+  }
+
+  private compareByStrategy(
+    a: Candidate,
+    b: Candidate,
+    deliveryLocation?: GeoLocation,
+  ): number {
+    switch (this.strategy) {
+      case StockAllocationStrategy.MOST_STOCK:
+        return b.available - a.available;
+      case StockAllocationStrategy.NEAREST:
+        return deliveryLocation
+          ? this.distanceTo(a, deliveryLocation) -
+              this.distanceTo(b, deliveryLocation)
+          : 0;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Lower Warehouse.priority first; stock without a warehouse comes last
+   */
+  private compareByPriority(a: Candidate, b: Candidate): number {
+    const priority = (candidate: Candidate) =>
+      candidate.warehouse?.priority ?? Number.MAX_SAFE_INTEGER;
+    return (
+      priority(a) - priority(b) ||
+      a.stock._id!.toString().localeCompare(b.stock._id!.toString())
+    );
+  }
+
+  private distanceTo(candidate: Candidate, location: GeoLocation): number {
+    return candidate.warehouse
+      ? distanceKm(candidate.warehouse, location)
+      : Number.MAX_SAFE_INTEGER;
+  }
+}
@@ -0,0 +1,6 @@
+export const STOCK_MAINTENANCE_QUEUE_NAME = 'stock-maintenance';
+
+export const RELEASE_EXPIRED_RESERVATIONS_JOB = 'release-expired-reservations';
+
+// Actor of stock movements made through the stock endpoints, which are not authenticated
+export const STOCK_API_ACTOR = 'stock-api';
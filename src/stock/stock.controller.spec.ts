@@ -1,9 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { getModelToken } from '@nestjs/mongoose';
 import { StockController } from './stock.controller';
 import { StockService } from './stock.service';
+import { WarehouseService } from './warehouse.service';
+import { StockAlertNotifier } from './stock-alert-notifier';
 import { Product } from './entities/product.entity';
 import { Stock } from './entities/stock.entity';
+import { StockMovement } from './entities/stock-movement.entity';
 
 describe('StockController', () => {
   let controller: StockController;
@@ -13,6 +17,12 @@ describe('StockController', () => {
       controllers: [StockController],
       providers: [
         StockService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
         {
           provide: getModelToken(Product.name),
           useValue: {
@@ -44,6 +54,22 @@ describe('StockController', () => {
             exec: jest.fn(),
           },
         },
+        {
+          provide: WarehouseService,
+          useValue: { findOneWarehouse: jest.fn() },
+        },
+        {
+          provide: StockAlertNotifier,
+          useValue: { name: 'log', notify: jest.fn() },
+        },
+        {
+          provide: getModelToken(StockMovement.name),
+          useValue: {
+            create: jest.fn(),
+            find: jest.fn(),
+            aggregate: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
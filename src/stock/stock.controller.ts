@@ -6,6 +6,7 @@ import {
   Patch,
   Param,
   Delete,
+  Query,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
@@ -19,9 +20,15 @@ import {
 import { StockService } from './stock.service';
 import { CreateStockDto } from './dto/create-stock.dto';
 import { UpdateStockDto } from './dto/update-stock.dto';
+import { AdjustStockDto } from './dto/adjust-stock.dto';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { ProductWithStockDto } from './dto/product-with-stock.dto';
+import {
+  StockLedgerDto,
+  StockMovementQueryDto,
+} from './dto/stock-movement.dto';
+import { StockAlertDto } from './dto/stock-alert.dto';
 
 @ApiTags('Stock Management')
 @Controller('stock')
@@ -33,7 +40,14 @@ export class StockController {
   @ApiOperation({ summary: 'Create a new product' })
   @ApiBody({ type: CreateProductDto })
   @ApiResponse({ status: 201, description: 'Product created successfully' })
-  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data, or variants that do not fit the options',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A variant SKU is already used by another product',
+  })
   createProduct(@Body() createProductDto: CreateProductDto) {
     return this.stockService.createProduct(createProductDto);
   }
@@ -68,7 +82,15 @@ export class StockController {
   @ApiBody({ type: UpdateProductDto })
   @ApiResponse({ status: 200, description: 'Product updated successfully' })
   @ApiResponse({ status: 404, description: 'Product not found' })
-  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data, or variants that do not fit the options',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'A variant SKU is already used by another product, or a removed variant still has stock',
+  })
   updateProduct(
     @Param('id') id: string,
     @Body() updateProductDto: UpdateProductDto,
@@ -96,33 +118,35 @@ export class StockController {
 
   // Product showcase endpoints
   @Get('products-with-stock')
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Get all products with their available stock information',
-    description: 'Returns a list of all products that have stock entries, including product details and available stock quantity'
+    description:
+      'Returns a list of all products that have stock entries, including product details and available stock quantity',
   })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'List of products with stock information',
-    type: [ProductWithStockDto]
+    type: [ProductWithStockDto],
   })
   findProductsWithStock() {
     return this.stockService.findProductsWithStock();
   }
 
   @Get('products-with-stock/:productId')
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Get a specific product with its stock information',
-    description: 'Returns product details along with available stock quantity for a specific product'
+    description:
+      'Returns product details along with available stock quantity for a specific product',
   })
   @ApiParam({
     name: 'productId',
     description: 'Product ID',
     example: '507f1f77bcf86cd799439011',
   })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'Product with stock information',
-    type: ProductWithStockDto
+    type: ProductWithStockDto,
   })
   @ApiResponse({ status: 404, description: 'Product or stock not found' })
   findProductWithStock(@Param('productId') productId: string) {
@@ -134,11 +158,19 @@ export class StockController {
   @ApiOperation({ summary: 'Create stock for a product' })
   @ApiBody({ type: CreateStockDto })
   @ApiResponse({ status: 201, description: 'Stock created successfully' })
-  @ApiResponse({ status: 400, description: 'Invalid input data' })
-  @ApiResponse({ status: 404, description: 'Product not found' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid input data, or no variant given for a product with variants',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Product, variant or warehouse not found',
+  })
   @ApiResponse({
     status: 409,
-    description: 'Stock already exists for this product',
+    description:
+      'Stock already exists for this product variant in this warehouse',
   })
   create(@Body() createStockDto: CreateStockDto) {
     return this.stockService.create(createStockDto);
@@ -154,17 +186,59 @@ export class StockController {
     return this.stockService.findAll();
   }
 
+  @Get('alerts')
+  @ApiOperation({
+    summary: 'Get stock at or below its reorder threshold',
+    description:
+      'Lists every stock with a reorder threshold whose quantity has fallen to or below it, emptiest first',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Low-stock and out-of-stock entries',
+    type: [StockAlertDto],
+  })
+  findAlerts() {
+    return this.stockService.findStockAlerts();
+  }
+
   @Get('by-product/:productId')
-  @ApiOperation({ summary: 'Get stock by product ID' })
+  @ApiOperation({ summary: 'Get the stock of a product at every location' })
   @ApiParam({
     name: 'productId',
     description: 'Product ID',
     example: '507f1f77bcf86cd799439011',
   })
-  @ApiResponse({ status: 200, description: 'Stock found for product' })
+  @ApiResponse({
+    status: 200,
+    description: 'Stock of the product, one entry per warehouse',
+  })
   @ApiResponse({ status: 404, description: 'Stock not found for product' })
   findStockByProduct(@Param('productId') productId: string) {
-    return this.stockService.findStockByProduct(productId);
+    return this.stockService.findStocksByProduct(productId);
+  }
+
+  @Get(':id/movements')
+  @ApiOperation({
+    summary: 'Get the movement history of a stock',
+    description:
+      'Returns the most recent movements of the stock ledger, newest first, with the quantity recomputed from every movement',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Stock ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Movement history and ledger balance',
+    type: StockLedgerDto,
+  })
+  @ApiResponse({ status: 404, description: 'Stock not found' })
+  getMovements(
+    @Param('id') id: string,
+    @Query() query: StockMovementQueryDto,
+  ): Promise<StockLedgerDto> {
+    return this.stockService.getStockLedger(id, query.limit);
   }
 
   @Get(':id')
@@ -180,8 +254,36 @@ export class StockController {
     return this.stockService.findOne(id);
   }
 
+  @Post(':id/adjustments')
+  @ApiOperation({
+    summary: 'Adjust stock quantity by a signed delta',
+    description:
+      'Adds or takes off units relative to the current quantity, without overwriting concurrent sales. Pass expectedVersion to reject the adjustment when the stock has changed since it was read.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Stock ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({ type: AdjustStockDto })
+  @ApiResponse({ status: 201, description: 'Stock adjusted successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Stock not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Stock would go below zero or below its reserved units, or is not at the expected version',
+  })
+  adjust(@Param('id') id: string, @Body() adjustStockDto: AdjustStockDto) {
+    return this.stockService.adjustStock(id, adjustStockDto);
+  }
+
   @Patch(':id')
-  @ApiOperation({ summary: 'Update stock quantity' })
+  @ApiOperation({
+    summary: 'Update stock quantity',
+    description:
+      'Sets the quantity absolutely, overwriting sales made since it was read - prefer POST /stock/:id/adjustments',
+  })
   @ApiParam({
     name: 'id',
     description: 'Stock ID',
@@ -191,6 +293,10 @@ export class StockController {
   @ApiResponse({ status: 200, description: 'Stock updated successfully' })
   @ApiResponse({ status: 404, description: 'Stock not found' })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({
+    status: 409,
+    description: 'Quantity would go below the reserved units',
+  })
   update(@Param('id') id: string, @Body() updateStockDto: UpdateStockDto) {
     return this.stockService.update(id, updateStockDto);
   }
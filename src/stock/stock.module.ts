@@ -1,19 +1,69 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bullmq';
+import { BullBoardModule } from '@bull-board/nestjs';
+import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
 import { StockService } from './stock.service';
 import { StockController } from './stock.controller';
+import { WarehouseService } from './warehouse.service';
+import { WarehouseController } from './warehouse.controller';
+import { StockAllocationService } from './stock-allocation.service';
+import { StockAlertNotifier } from './stock-alert-notifier';
+import { LogStockAlertNotifier } from './log-stock-alert.notifier';
+import { FileStockAlertNotifier } from './file-stock-alert.notifier';
 import { Product, ProductSchema } from './entities/product.entity';
 import { Stock, StockSchema } from './entities/stock.entity';
+import {
+  StockMovement,
+  StockMovementSchema,
+} from './entities/stock-movement.entity';
+import { Warehouse, WarehouseSchema } from './entities/warehouse.entity';
+import { ReservationSweeperProcessor } from './reservation-sweeper.processor';
+import { STOCK_MAINTENANCE_QUEUE_NAME } from './stock.constants';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Product.name, schema: ProductSchema },
       { name: Stock.name, schema: StockSchema },
+      { name: StockMovement.name, schema: StockMovementSchema },
+      { name: Warehouse.name, schema: WarehouseSchema },
     ]),
+    BullModule.registerQueue({
+      name: STOCK_MAINTENANCE_QUEUE_NAME,
+    }),
+    BullBoardModule.forFeature({
+      name: STOCK_MAINTENANCE_QUEUE_NAME,
+      adapter: BullMQAdapter,
+    }),
   ],
-  controllers: [StockController],
-  providers: [StockService],
-  exports: [StockService],
+  controllers: [StockController, WarehouseController],
+  providers: [
+    StockService,
+    WarehouseService,
+    StockAllocationService,
+    ReservationSweeperProcessor,
+    {
+      // Add other transports here and select them with STOCK_ALERT_NOTIFIER
+      provide: StockAlertNotifier,
+      useFactory: (configService: ConfigService): StockAlertNotifier => {
+        const notifier = configService.get<string>(
+          'STOCK_ALERT_NOTIFIER',
+          'log',
+        );
+        switch (notifier) {
+          case 'log':
+            return new LogStockAlertNotifier();
+          case 'file':
+            return new FileStockAlertNotifier(configService);
+          default:
+            throw new Error(`Unknown STOCK_ALERT_NOTIFIER "${notifier}"`);
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [StockService, StockAllocationService],
 })
 export class StockModule {}
@@ -1,16 +1,73 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { getModelToken } from '@nestjs/mongoose';
-import { StockService } from './stock.service';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { RESERVATION_NOT_FOUND, StockService } from './stock.service';
+import { WarehouseService } from './warehouse.service';
+import { StockAlertNotifier, StockAlertType } from './stock-alert-notifier';
 import { Product } from './entities/product.entity';
 import { Stock } from './entities/stock.entity';
+import {
+  StockMovement,
+  StockMovementReason,
+} from './entities/stock-movement.entity';
 
 describe('StockService', () => {
   let service: StockService;
+  let productModel: { findById: jest.Mock };
+  let stockModel: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    findById: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+  };
+  let stockMovementModel: {
+    create: jest.Mock;
+    find: jest.Mock;
+    aggregate: jest.Mock;
+  };
+  let stockAlertNotifier: { notify: jest.Mock };
+
+  const stockId = '507f1f77bcf86cd799439013';
+  const orderId = '507f1f77bcf86cd799439014';
+
+  // Chainable query resolving to the given result
+  const query = (result: unknown) => ({
+    populate: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockStock = (overrides: Partial<Stock> = {}) => ({
+    _id: new Types.ObjectId(stockId),
+    productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+    quantity: 10,
+    reserved: 0,
+    reservations: [],
+    __v: 3,
+    ...overrides,
+  });
+
+  const reservation = (expiresAt = new Date(Date.now() + 60_000)) => ({
+    orderId: new Types.ObjectId(orderId),
+    quantity: 2,
+    expiresAt,
+  });
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         StockService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
         {
           provide: getModelToken(Product.name),
           useValue: {
@@ -42,13 +99,919 @@ describe('StockService', () => {
             exec: jest.fn(),
           },
         },
+        {
+          provide: WarehouseService,
+          useValue: { findOneWarehouse: jest.fn() },
+        },
+        {
+          provide: StockAlertNotifier,
+          useValue: { name: 'log', notify: jest.fn() },
+        },
+        {
+          provide: getModelToken(StockMovement.name),
+          useValue: {
+            create: jest.fn(),
+            find: jest.fn(),
+            aggregate: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<StockService>(StockService);
+    productModel = module.get(getModelToken(Product.name));
+    stockModel = module.get(getModelToken(Stock.name));
+    stockMovementModel = module.get(getModelToken(StockMovement.name));
+    stockAlertNotifier = module.get(StockAlertNotifier);
   });
 
+  const sale = {
+    reason: StockMovementReason.SALE,
+    actor: 'system:order-processor',
+    orderId,
+  };
+
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('product variants', () => {
+    const sizes = [{ name: 'size', values: ['M', 'L'] }];
+    const mediumId = new Types.ObjectId();
+    const largeId = new Types.ObjectId();
+
+    // Product document whose save resolves the document itself
+    const shirt = () => {
+      const product: any = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        name: 'T-Shirt',
+        price: 20,
+        options: sizes,
+        variants: [
+          {
+            _id: mediumId,
+            sku: 'TSHIRT-M',
+            options: { size: 'M' },
+            price: null,
+          },
+          {
+            _id: largeId,
+            sku: 'TSHIRT-L',
+            options: { size: 'L' },
+            price: 22.5,
+          },
+        ],
+      };
+      product.save = jest.fn().mockResolvedValue(product);
+      return product;
+    };
+
+    it('should reject variants that do not fit the options', async () => {
+      // Act & Assert
+      await expect(
+        service.createProduct({
+          name: 'T-Shirt',
+          price: 20,
+          options: sizes,
+          variants: [{ sku: 'TSHIRT-S', options: { size: 'S' } }],
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Variant TSHIRT-S needs one of M, L for "size"',
+        ),
+      );
+    });
+
+    it('should keep the ID of variants whose SKU stays', async () => {
+      // Arrange
+      productModel.findById.mockReturnValue(query(shirt()));
+      stockModel.findOne.mockReturnValue(query(null));
+
+      // Act
+      const result = await service.updateProduct('product-1', {
+        variants: [
+          { sku: 'TSHIRT-M', options: { size: 'M' }, price: 21 },
+          { sku: 'TSHIRT-L2', options: { size: 'L' } },
+        ],
+      });
+
+      // Assert
+      expect(result.variants).toEqual([
+        { _id: mediumId, sku: 'TSHIRT-M', options: { size: 'M' }, price: 21 },
+        { sku: 'TSHIRT-L2', options: { size: 'L' }, price: null },
+      ]);
+      expect(stockModel.findOne).toHaveBeenCalledWith({
+        productId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        variantId: { $in: [largeId] },
+      });
+    });
+
+    it('should not remove a variant that has stock', async () => {
+      // Arrange
+      const product = shirt();
+      productModel.findById.mockReturnValue(query(product));
+      stockModel.findOne.mockReturnValue(
+        query(mockStock({ variantId: largeId })),
+      );
+
+      // Act & Assert
+      await expect(
+        service.updateProduct('product-1', {
+          variants: [{ sku: 'TSHIRT-M', options: { size: 'M' } }],
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(product.save).not.toHaveBeenCalled();
+    });
+
+    it('should require a variant for stock of a product with variants', async () => {
+      // Arrange
+      productModel.findById.mockReturnValue(query(shirt()));
+
+      // Act & Assert
+      await expect(
+        service.createStock({ productId: 'product-1', quantity: 5 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should report availability and price per variant', async () => {
+      // Arrange
+      stockModel.find.mockReturnValue(
+        query([
+          mockStock({ productId: shirt(), variantId: mediumId, reserved: 4 }),
+          mockStock({
+            _id: new Types.ObjectId(),
+            productId: shirt(),
+            variantId: largeId,
+            quantity: 3,
+          }),
+        ]),
+      );
+
+      // Act
+      const result = await service.findProductWithStock('product-1');
+
+      // Assert
+      expect(result.availableStock).toBe(9);
+      expect(result.variants).toEqual([
+        expect.objectContaining({
+          variantId: mediumId,
+          sku: 'TSHIRT-M',
+          price: 20,
+          availableStock: 6,
+        }),
+        expect.objectContaining({
+          variantId: largeId,
+          sku: 'TSHIRT-L',
+          price: 22.5,
+          availableStock: 3,
+        }),
+      ]);
+    });
+  });
+
+  describe('findProductWithStock', () => {
+    const product = { _id: new Types.ObjectId(), name: 'Phone' } as any;
+    const warehouse = (name: string, active = true) =>
+      ({ _id: new Types.ObjectId(), name, active }) as any;
+
+    it('should report on-hand stock minus reserved as available', async () => {
+      // Arrange
+      stockModel.find.mockReturnValue(
+        query([mockStock({ productId: product, reserved: 4 })]),
+      );
+
+      // Act
+      const result = await service.findProductWithStock('product-1');
+
+      // Assert
+      expect(result.availableStock).toBe(6);
+    });
+
+    it('should sum availability over the locations that fulfil orders', async () => {
+      // Arrange
+      const berlin = warehouse('Berlin');
+      stockModel.find.mockReturnValue(
+        query([
+          mockStock({ productId: product, warehouseId: berlin, reserved: 4 }),
+          mockStock({
+            _id: new Types.ObjectId(),
+            productId: product,
+            warehouseId: warehouse('Munich'),
+            quantity: 5,
+          }),
+          mockStock({
+            _id: new Types.ObjectId(),
+            productId: product,
+            warehouseId: warehouse('Closed', false),
+            quantity: 100,
+          }),
+        ]),
+      );
+
+      // Act
+      const result = await service.findProductWithStock('product-1');
+
+      // Assert
+      expect(result.availableStock).toBe(11);
+      expect(result.locations).toEqual([
+        {
+          stockId: new Types.ObjectId(stockId),
+          variantId: null,
+          warehouseId: berlin._id,
+          warehouseName: 'Berlin',
+          availableStock: 6,
+        },
+        expect.objectContaining({ warehouseName: 'Munich', availableStock: 5 }),
+      ]);
+    });
+
+    it('should report a product without stock', async () => {
+      // Arrange
+      stockModel.find.mockReturnValue(query([]));
+
+      // Act & Assert
+      await expect(service.findProductWithStock('product-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('decrementStockAtomic', () => {
+    it('should not take stock held by reservations', async () => {
+      // Arrange
+      stockModel.findById.mockReturnValue(query(mockStock({ reserved: 9 })));
+
+      // Act
+      const result = await service.decrementStockAtomic(stockId, 2, sale);
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({
+          success: false,
+          error: 'Insufficient stock. Available: 1, Requested: 2',
+        }),
+      );
+      expect(stockModel.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(stockMovementModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should record the decrement in the movement ledger', async () => {
+      // Arrange
+      stockModel.findById.mockReturnValue(query(mockStock()));
+      stockModel.findOneAndUpdate.mockReturnValue(
+        query(mockStock({ quantity: 8 })),
+      );
+
+      // Act
+      await service.decrementStockAtomic(stockId, 2, sale);
+
+      // Assert
+      expect(stockMovementModel.create).toHaveBeenCalledWith({
+        stockId: new Types.ObjectId(stockId),
+        delta: -2,
+        reason: StockMovementReason.SALE,
+        actor: 'system:order-processor',
+        orderId: new Types.ObjectId(orderId),
+        balanceAfter: 8,
+      });
+    });
+
+    it('should keep a successful decrement when the movement cannot be recorded', async () => {
+      // Arrange
+      stockModel.findById.mockReturnValue(query(mockStock()));
+      stockModel.findOneAndUpdate.mockReturnValue(
+        query(mockStock({ quantity: 8 })),
+      );
+      stockMovementModel.create.mockRejectedValue(new Error('write failed'));
+
+      // Act
+      const result = await service.decrementStockAtomic(stockId, 2, sale);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('stock alerts', () => {
+    const decrementTo = (quantity: number, reorderThreshold: number | null) => {
+      stockModel.findById.mockReturnValue(
+        query(mockStock({ quantity: quantity + 2, reorderThreshold })),
+      );
+      stockModel.findOneAndUpdate.mockReturnValue(
+        query(mockStock({ quantity, reorderThreshold })),
+      );
+      return service.decrementStockAtomic(stockId, 2, sale);
+    };
+
+    it('should send a low-stock alert when a decrement crosses the reorder threshold', async () => {
+      // Act
+      await decrementTo(4, 5);
+
+      // Assert
+      expect(stockAlertNotifier.notify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: StockAlertType.LOW_STOCK,
+          stockId,
+          productId: '507f1f77bcf86cd799439012',
+          variantId: null,
+          warehouseId: null,
+          quantity: 4,
+          reorderThreshold: 5,
+        }),
+      );
+    });
+
+    it('should send only an out-of-stock alert when the stock runs out', async () => {
+      // Act
+      await decrementTo(0, 5);
+
+      // Assert
+      expect(stockAlertNotifier.notify).toHaveBeenCalledTimes(1);
+      expect(stockAlertNotifier.notify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: StockAlertType.OUT_OF_STOCK,
+          quantity: 0,
+        }),
+      );
+    });
+
+    it('should not alert again while the stock stays below the threshold', async () => {
+      // Act
+      await decrementTo(2, 5);
+
+      // Assert
+      expect(stockAlertNotifier.notify).not.toHaveBeenCalled();
+    });
+
+    it('should not alert for stock without a reorder threshold', async () => {
+      // Act
+      await decrementTo(0, null);
+
+      // Assert
+      expect(stockAlertNotifier.notify).not.toHaveBeenCalled();
+    });
+
+    it('should keep a successful decrement when the alert cannot be sent', async () => {
+      // Arrange
+      stockAlertNotifier.notify.mockRejectedValue(new Error('unreachable'));
+
+      // Act
+      const result = await decrementTo(4, 5);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it('should list stock at or below its reorder threshold', async () => {
+      // Arrange
+      const product = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        name: 'T-Shirt',
+        variants: [],
+      };
+      const warehouse = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439020'),
+        name: 'Berlin Central',
+      };
+      const sort = jest.fn().mockReturnValue(
+        query([
+          mockStock({
+            productId: product as any,
+            warehouseId: warehouse as any,
+            quantity: 3,
+            reserved: 1,
+            reorderThreshold: 5,
+          }),
+        ]),
+      );
+      stockModel.find.mockReturnValue({ sort });
+
+      // Act
+      const result = await service.findStockAlerts();
+
+      // Assert
+      expect(stockModel.find).toHaveBeenCalledWith({
+        reorderThreshold: { $type: 'number' },
+        $expr: { $lte: ['$quantity', '$reorderThreshold'] },
+      });
+      expect(sort).toHaveBeenCalledWith({ quantity: 1, _id: 1 });
+      expect(result).toEqual([
+        {
+          type: StockAlertType.LOW_STOCK,
+          stockId,
+          productId: '507f1f77bcf86cd799439012',
+          productName: 'T-Shirt',
+          variantId: null,
+          sku: null,
+          warehouseId: '507f1f77bcf86cd799439020',
+          warehouseName: 'Berlin Central',
+          quantity: 3,
+          availableStock: 2,
+          reorderThreshold: 5,
+        },
+      ]);
+    });
+  });
+
+  describe('incrementStockAtomic', () => {
+    it('should record the increment in the movement ledger', async () => {
+      // Arrange
+      stockModel.findById.mockReturnValue(query(mockStock()));
+      stockModel.findOneAndUpdate.mockReturnValue(
+        query(mockStock({ quantity: 12 })),
+      );
+
+      // Act
+      await service.incrementStockAtomic(stockId, 2, {
+        reason: StockMovementReason.ROLLBACK,
+        actor: 'system:order-processor',
+        orderId,
+      });
+
+      // Assert
+      expect(stockMovementModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          delta: 2,
+          reason: StockMovementReason.ROLLBACK,
+          balanceAfter: 12,
+        }),
+      );
+    });
+  });
+
+  describe('updateStock', () => {
+    // Stock document whose save() resolves to the document with the update applied
+    const stockDocument = (quantity: number) => {
+      const document = { ...mockStock({ quantity }), save: jest.fn() };
+      document.save.mockResolvedValue(document);
+      return document;
+    };
+
+    it('should record a manual adjustment of the quantity', async () => {
+      // Arrange
+      stockModel.findById
+        .mockReturnValueOnce(query(stockDocument(10)))
+        .mockReturnValueOnce(query(mockStock({ quantity: 25 })));
+
+      // Act
+      await service.updateStock(stockId, { quantity: 25 }, 'admin-1');
+
+      // Assert
+      expect(stockMovementModel.create).toHaveBeenCalledWith({
+        stockId: new Types.ObjectId(stockId),
+        delta: 15,
+        reason: StockMovementReason.MANUAL_ADJUSTMENT,
+        actor: 'admin-1',
+        orderId: null,
+        balanceAfter: 25,
+      });
+    });
+
+    it('should not record a movement when the quantity is unchanged', async () => {
+      // Arrange
+      stockModel.findById
+        .mockReturnValueOnce(query(stockDocument(10)))
+        .mockReturnValueOnce(query(mockStock()));
+
+      // Act
+      await service.updateStock(stockId, { quantity: 10 });
+
+      // Assert
+      expect(stockMovementModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should not set the quantity below the reserved units', async () => {
+      // Arrange
+      const document = { ...stockDocument(10), reserved: 8 };
+      stockModel.findById.mockReturnValueOnce(query(document));
+
+      // Act
+      const update = service.updateStock(stockId, { quantity: 5 });
+
+      // Assert
+      await expect(update).rejects.toThrow(
+        new ConflictException(
+          'Update would take stock below its reserved units. Quantity: 5, Reserved: 8',
+        ),
+      );
+      expect(document.save).not.toHaveBeenCalled();
+      expect(stockMovementModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('adjustStock', () => {
+    it('should apply the delta atomically and record it', async () => {
+      // Arrange
+      stockModel.findOneAndUpdate.mockReturnValue(
+        query(mockStock({ quantity: 60 })),
+      );
+
+      // Act
+      const result = await service.adjustStock(
+        stockId,
+        { delta: 50, reason: StockMovementReason.RESTOCK },
+        'clerk-1',
+      );
+
+      // Assert
+      expect(result.quantity).toBe(60);
+      expect(stockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: stockId },
+        { $inc: { quantity: 50, __v: 1 } },
+        expect.anything(),
+      );
+      expect(stockMovementModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          delta: 50,
+          reason: StockMovementReason.RESTOCK,
+          actor: 'clerk-1',
+          balanceAfter: 60,
+        }),
+      );
+    });
+
+    it('should only take units off when enough are on the shelf and unreserved', async () => {
+      // Arrange
+      stockModel.findOneAndUpdate.mockReturnValue(query(null));
+      stockModel.findById.mockReturnValue(query(mockStock({ quantity: 3 })));
+
+      // Act
+      const adjustment = service.adjustStock(stockId, {
+        delta: -5,
+        reason: StockMovementReason.MANUAL_ADJUSTMENT,
+      });
+
+      // Assert
+      await expect(adjustment).rejects.toThrow(
+        new ConflictException(
+          'Adjustment would take stock below zero. Quantity: 3, Delta: -5',
+        ),
+      );
+      expect(stockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: stockId,
+          $expr: {
+            $gte: [
+              { $subtract: ['$quantity', { $ifNull: ['$reserved', 0] }] },
+              5,
+            ],
+          },
+        },
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(stockMovementModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should not take off units held by reservations', async () => {
+      // Arrange
+      stockModel.findOneAndUpdate.mockReturnValue(query(null));
+      stockModel.findById.mockReturnValue(
+        query(mockStock({ quantity: 10, reserved: 8 })),
+      );
+
+      // Act
+      const adjustment = service.adjustStock(stockId, {
+        delta: -5,
+        reason: StockMovementReason.MANUAL_ADJUSTMENT,
+      });
+
+      // Assert
+      await expect(adjustment).rejects.toThrow(
+        new ConflictException(
+          'Adjustment would take stock below its reserved units. Quantity: 10, Reserved: 8, Delta: -5',
+        ),
+      );
+      expect(stockMovementModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject the adjustment when the stock is not at the expected version', async () => {
+      // Arrange
+      stockModel.findOneAndUpdate.mockReturnValue(query(null));
+      stockModel.findById.mockReturnValue(query(mockStock({ __v: 4 })));
+
+      // Act
+      const adjustment = service.adjustStock(stockId, {
+        delta: 5,
+        reason: StockMovementReason.RETURN,
+        expectedVersion: 3,
+      });
+
+      // Assert
+      await expect(adjustment).rejects.toThrow(
+        `Stock ${stockId} is at version 4, expected 3`,
+      );
+      expect(stockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: stockId, __v: 3 },
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should report a missing stock', async () => {
+      // Arrange
+      stockModel.findOneAndUpdate.mockReturnValue(query(null));
+      stockModel.findById.mockReturnValue(query(null));
+
+      // Act & Assert
+      await expect(
+        service.adjustStock(stockId, {
+          delta: 5,
+          reason: StockMovementReason.RESTOCK,
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getStockLedger', () => {
+    it('should recompute the balance from the movements and report drift', async () => {
+      // Arrange
+      const movement = {
+        _id: new Types.ObjectId(),
+        delta: -2,
+        reason: StockMovementReason.SALE,
+        actor: 'system:order-processor',
+        orderId: new Types.ObjectId(orderId),
+        balanceAfter: 8,
+        createdAt: new Date('2024-01-15T10:30:00.000Z'),
+      };
+      stockModel.findById.mockReturnValue(query(mockStock()));
+      stockMovementModel.find.mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([movement]),
+      });
+      stockMovementModel.aggregate.mockReturnValue(
+        query([{ balance: 8, count: 2 }]),
+      );
+
+      // Act
+      const ledger = await service.getStockLedger(stockId, 1);
+
+      // Assert
+      expect(ledger).toEqual({
+        stockId,
+        quantity: 10,
+        ledgerBalance: 8,
+        discrepancy: 2,
+        totalMovements: 2,
+        movements: [
+          {
+            _id: movement._id.toString(),
+            delta: -2,
+            reason: StockMovementReason.SALE,
+            actor: 'system:order-processor',
+            orderId,
+            balanceAfter: 8,
+            createdAt: movement.createdAt,
+          },
+        ],
+      });
+    });
+
+    it('should report the whole quantity as drift for a stock without movements', async () => {
+      // Arrange
+      stockModel.findById.mockReturnValue(query(mockStock()));
+      stockMovementModel.find.mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([]),
+      });
+      stockMovementModel.aggregate.mockReturnValue(query([]));
+
+      // Act
+      const ledger = await service.getStockLedger(stockId);
+
+      // Assert
+      expect(ledger).toEqual(
+        expect.objectContaining({
+          ledgerBalance: 0,
+          discrepancy: 10,
+          totalMovements: 0,
+          movements: [],
+        }),
+      );
+    });
+  });
+
+  describe('reserveStockAtomic', () => {
+    it('should hold the quantity with an expiry', async () => {
+      // Arrange
+      stockModel.findById.mockReturnValue(query(mockStock()));
+      stockModel.findOneAndUpdate.mockReturnValue(
+        query(mockStock({ reserved: 2 })),
+      );
+
+      // Act
+      const result = await service.reserveStockAtomic(stockId, orderId, 2);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(stockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: stockId, __v: 3 },
+        {
+          $inc: { reserved: 2, __v: 1 },
+          $push: {
+            reservations: {
+              orderId: new Types.ObjectId(orderId),
+              quantity: 2,
+              expiresAt: expect.any(Date),
+            },
+          },
+        },
+        expect.anything(),
+      );
+      const { expiresAt } =
+        stockModel.findOneAndUpdate.mock.calls[0][1].$push.reservations;
+      expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(14 * 60_000);
+    });
+
+    it('should refuse quantity already reserved by other orders', async () => {
+      // Arrange
+      stockModel.findById.mockReturnValue(query(mockStock({ reserved: 9 })));
+
+      // Act
+      const result = await service.reserveStockAtomic(stockId, orderId, 2);
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({
+          success: false,
+          error: 'Insufficient stock. Available: 1, Requested: 2',
+        }),
+      );
+      expect(stockModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not reserve twice for the same order', async () => {
+      // Arrange
+      stockModel.findById.mockReturnValue(
+        query(mockStock({ reserved: 2, reservations: [reservation()] })),
+      );
+
+      // Act
+      const result = await service.reserveStockAtomic(stockId, orderId, 2);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(stockModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should retry on version conflicts', async () => {
+      // Arrange
+      stockModel.findById.mockReturnValue(query(mockStock()));
+      stockModel.findOneAndUpdate.mockReturnValue(query(null));
+
+      // Act
+      const result = await service.reserveStockAtomic(stockId, orderId, 2);
+
+      // Assert
+      expect(stockModel.findOneAndUpdate).toHaveBeenCalledTimes(3);
+      expect(result).toEqual({
+        success: false,
+        error: 'Max retries exceeded due to version conflicts',
+        transient: true,
+      });
+    });
+  });
+
+  describe('commitReservationAtomic', () => {
+    it('should move the reserved quantity off the shelf', async () => {
+      // Arrange
+      stockModel.findOne.mockReturnValue(
+        query(mockStock({ reserved: 2, reservations: [reservation()] })),
+      );
+      stockModel.findOneAndUpdate.mockReturnValue(
+        query(mockStock({ quantity: 8 })),
+      );
+
+      // Act
+      const result = await service.commitReservationAtomic(
+        stockId,
+        orderId,
+        'system:order-processor',
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(stockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: { $gte: 2 } }),
+        {
+          $inc: { quantity: -2, reserved: -2, __v: 1 },
+          $pull: { reservations: { orderId } },
+        },
+        expect.anything(),
+      );
+      expect(stockMovementModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          delta: -2,
+          reason: StockMovementReason.SALE,
+          orderId: new Types.ObjectId(orderId),
+        }),
+      );
+    });
+
+    it('should report a missing reservation', async () => {
+      // Arrange
+      stockModel.findOne.mockReturnValue(query(null));
+
+      // Act
+      const result = await service.commitReservationAtomic(
+        stockId,
+        orderId,
+        'system:order-processor',
+      );
+
+      // Assert
+      expect(result).toEqual({ success: false, error: RESERVATION_NOT_FOUND });
+    });
+
+    it('should report a reservation released while committing', async () => {
+      // Arrange
+      stockModel.findOne.mockReturnValue(
+        query(mockStock({ reserved: 2, reservations: [reservation()] })),
+      );
+      stockModel.findOneAndUpdate.mockReturnValue(query(null));
+
+      // Act
+      const result = await service.commitReservationAtomic(
+        stockId,
+        orderId,
+        'system:order-processor',
+      );
+
+      // Assert
+      expect(result).toEqual({ success: false, error: RESERVATION_NOT_FOUND });
+    });
+  });
+
+  describe('releaseReservationAtomic', () => {
+    it('should give the reserved quantity back', async () => {
+      // Arrange
+      stockModel.findOne.mockReturnValue(
+        query(mockStock({ reserved: 2, reservations: [reservation()] })),
+      );
+      stockModel.findOneAndUpdate.mockReturnValue(query(mockStock()));
+
+      // Act
+      const result = await service.releaseReservationAtomic(stockId, orderId);
+
+      // Assert
+      expect(result).toEqual({ success: true });
+      expect(stockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.anything(),
+        {
+          $inc: { reserved: -2, __v: 1 },
+          $pull: { reservations: { orderId } },
+        },
+        expect.anything(),
+      );
+    });
+
+    it('should succeed when there is nothing to release', async () => {
+      // Arrange
+      stockModel.findOne.mockReturnValue(query(null));
+
+      // Act
+      const result = await service.releaseReservationAtomic(stockId, orderId);
+
+      // Assert
+      expect(result).toEqual({ success: true });
+      expect(stockModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseExpiredReservations', () => {
+    it('should release only reservations past their expiry', async () => {
+      // Arrange
+      const now = new Date();
+      const otherOrderId = '507f1f77bcf86cd799439015';
+      const expired = reservation(new Date(now.getTime() - 1000));
+      const active = {
+        ...reservation(),
+        orderId: new Types.ObjectId(otherOrderId),
+      };
+      const stock = mockStock({ reserved: 4, reservations: [expired, active] });
+      stockModel.find.mockReturnValue(query([stock]));
+      stockModel.findOne.mockReturnValue(query(stock));
+      stockModel.findOneAndUpdate.mockReturnValue(query(mockStock()));
+
+      // Act
+      const released = await service.releaseExpiredReservations(now);
+
+      // Assert
+      expect(released).toBe(1);
+      expect(stockModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+      expect(stockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: stockId,
+          reservations: {
+            $elemMatch: { orderId, quantity: 2, expiresAt: { $lte: now } },
+          },
+        },
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+  });
 });
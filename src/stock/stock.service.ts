@@ -1,29 +1,116 @@
 import {
   Injectable,
+  BadRequestException,
   ConflictException,
+  Logger,
   NotFoundException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { CreateStockDto } from './dto/create-stock.dto';
 import { UpdateStockDto } from './dto/update-stock.dto';
+import { AdjustStockDto } from './dto/adjust-stock.dto';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
-import { ProductWithStockDto } from './dto/product-with-stock.dto';
-import { Product, ProductDocument } from './entities/product.entity';
+import {
+  ProductWithStockDto,
+  StockLocationDto,
+} from './dto/product-with-stock.dto';
+import {
+  Product,
+  ProductDocument,
+  ProductOption,
+  ProductVariant,
+} from './entities/product.entity';
 import { Stock, StockDocument } from './entities/stock.entity';
+import { Warehouse } from './entities/warehouse.entity';
+import {
+  StockMovement,
+  StockMovementDocument,
+  StockMovementReason,
+} from './entities/stock-movement.entity';
+import {
+  DEFAULT_STOCK_MOVEMENT_PAGE_SIZE,
+  StockLedgerDto,
+  toStockMovementResponseDto,
+} from './dto/stock-movement.dto';
+import { STOCK_API_ACTOR } from './stock.constants';
+import { WarehouseService } from './warehouse.service';
+import { StockAlertNotifier, StockAlertType } from './stock-alert-notifier';
+import { StockAlertDto } from './dto/stock-alert.dto';
+import {
+  findVariant,
+  findVariantProblem,
+  hasVariants,
+  variantPrice,
+} from './product-variants';
+import { DUPLICATE_KEY_ERROR_CODE } from '../common/database/mongo-error-codes';
+
+export const RESERVATION_NOT_FOUND = 'Reservation not found';
+
+/**
+ * Outcome of an atomic stock operation. `transient` marks failures worth
+ * retrying (version conflicts, database errors), as opposed to stock that is
+ * missing or insufficient.
+ */
+export interface StockOperationResult {
+  success: boolean;
+  currentStock?: Stock;
+  error?: string;
+  transient?: boolean;
+}
+
+/**
+ * ID of a reference, whether or not it was populated
+ */
+function referenceId(
+  reference: Types.ObjectId | { _id?: Types.ObjectId },
+): string {
+  return reference instanceof Types.ObjectId
+    ? reference.toString()
+    : reference._id!.toString();
+}
+
+/**
+ * Why a quantity change happened and who made it - recorded in the movement ledger
+ */
+export interface StockMovementContext {
+  reason: StockMovementReason;
+  actor: string;
+  orderId?: string;
+}
 
 @Injectable()
 export class StockService {
+  private readonly logger = new Logger(StockService.name);
+
+  private readonly reservationTtlMs: number;
+
   constructor(
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     @InjectModel(Stock.name) private stockModel: Model<StockDocument>,
-  ) { }
+    @InjectModel(StockMovement.name)
+    private stockMovementModel: Model<StockMovementDocument>,
+    private readonly warehouseService: WarehouseService,
+    private readonly stockAlertNotifier: StockAlertNotifier,
+    private readonly configService: ConfigService,
+  ) {
+    this.reservationTtlMs =
+      Number(
+        this.configService.get<string>('STOCK_RESERVATION_TTL_MINUTES', '15'),
+      ) * 60_000;
+  }
 
   // Product CRUD operations
   async createProduct(createProductDto: CreateProductDto): Promise<Product> {
+    this.assertValidVariants(
+      createProductDto.options ?? [],
+      createProductDto.variants ?? [],
+    );
+
     const newProduct = new this.productModel(createProductDto);
-    return await newProduct.save();
+    return await this.saveProduct(newProduct);
   }
 
   async findAllProducts(): Promise<Product[]> {
@@ -38,22 +125,37 @@ export class StockService {
     return product;
   }
 
+  /**
+   * Product with the variant of the given SKU
+   */
+  async findProductBySku(sku: string): Promise<Product> {
+    const product = await this.productModel
+      .findOne({ 'variants.sku': sku })
+      .exec();
+    if (!product) {
+      throw new NotFoundException(`Product variant with SKU ${sku} not found`);
+    }
+    return product;
+  }
+
   async updateProduct(
     id: string,
     updateProductDto: UpdateProductDto,
   ): Promise<Product> {
     // Use find-then-save pattern for proper __v versioning and middleware execution
     const product = await this.productModel.findById(id).exec();
-    
+
     if (!product) {
       throw new NotFoundException(`Product with ID ${id} not found`);
     }
 
+    const variants = await this.replaceVariants(product, updateProductDto);
+
     // Apply updates to the document
-    Object.assign(product, updateProductDto);
-    
+    Object.assign(product, updateProductDto, variants && { variants });
+
     // Save triggers middleware and increments __v automatically
-    return await product.save();
+    return await this.saveProduct(product);
   }
 
   async removeProduct(id: string): Promise<void> {
@@ -71,21 +173,137 @@ export class StockService {
     }
   }
 
+  private async saveProduct(product: ProductDocument): Promise<Product> {
+    try {
+      return await product.save();
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR_CODE) {
+        throw new ConflictException(
+          'A variant SKU is already used by another product',
+        );
+      }
+      throw error;
+    }
+  }
+
+  private assertValidVariants(
+    options: ProductOption[],
+    variants: Pick<ProductVariant, 'sku' | 'options'>[],
+  ): void {
+    const problem = findVariantProblem(options, variants);
+    if (problem) {
+      throw new BadRequestException(problem);
+    }
+  }
+
+  /**
+   * Checks changed options or variants against the product's stock and
+   * returns the new variants, each keeping the ID of the current variant
+   * with the same SKU so its stock still refers to it. Variants that have
+   * stock cannot be removed, and a product cannot gain variants while it
+   * has stock without one.
+   */
+  private async replaceVariants(
+    product: ProductDocument,
+    updateProductDto: UpdateProductDto,
+  ): Promise<ProductVariant[] | undefined> {
+    if (!updateProductDto.options && !updateProductDto.variants) {
+      return undefined;
+    }
+
+    const currentVariants = product.variants ?? [];
+    const variants: ProductVariant[] = updateProductDto.variants
+      ? updateProductDto.variants.map((variant) => {
+          const current = currentVariants.find(
+            (currentVariant) => currentVariant.sku === variant.sku,
+          );
+          return {
+            ...(current && { _id: current._id }),
+            ...variant,
+            price: variant.price ?? null,
+          };
+        })
+      : currentVariants;
+    this.assertValidVariants(
+      updateProductDto.options ?? product.options ?? [],
+      variants,
+    );
+
+    const removedVariantIds = currentVariants
+      .filter((current) => !variants.some(({ sku }) => sku === current.sku))
+      .map((current) => current._id);
+    if (currentVariants.length === 0 && variants.length > 0) {
+      const unassigned = await this.stockModel
+        .findOne({ productId: product._id, variantId: null })
+        .exec();
+      if (unassigned) {
+        throw new ConflictException(
+          'Cannot add variants to a product that has stock without a variant. Delete its stock first.',
+        );
+      }
+    } else if (removedVariantIds.length > 0) {
+      const stranded = await this.stockModel
+        .findOne({
+          productId: product._id,
+          variantId: { $in: removedVariantIds },
+        })
+        .exec();
+      if (stranded) {
+        throw new ConflictException(
+          'Cannot remove variants that have stock. Delete their stock first.',
+        );
+      }
+    }
+
+    return updateProductDto.variants ? variants : undefined;
+  }
+
   // Stock CRUD operations
-  async createStock(createStockDto: CreateStockDto): Promise<Stock> {
-    // Verify product exists
+  async createStock(
+    createStockDto: CreateStockDto,
+    actor: string = STOCK_API_ACTOR,
+  ): Promise<Stock> {
+    // Verify product, variant and warehouse exist
     const product = await this.findOneProduct(createStockDto.productId);
+    const { variantId } = createStockDto;
+    if (hasVariants(product) && !variantId) {
+      throw new BadRequestException(
+        'The product has variants - stock is kept per variant, pass variantId',
+      );
+    }
+    if (variantId && !findVariant(product, variantId)) {
+      throw new NotFoundException(
+        `Variant ${variantId} of product ${createStockDto.productId} not found`,
+      );
+    }
+    if (createStockDto.warehouseId) {
+      await this.warehouseService.findOneWarehouse(createStockDto.warehouseId);
+    }
 
-    // Check if stock already exists for this product
+    // Check if stock already exists for this product variant at this location
     const existingStock = await this.stockModel
-      .findOne({ productId: createStockDto.productId })
+      .findOne({
+        productId: createStockDto.productId,
+        variantId: variantId ?? null,
+        warehouseId: createStockDto.warehouseId ?? null,
+      })
       .exec();
     if (existingStock) {
-      throw new ConflictException('Stock already exists for this product');
+      throw new ConflictException(
+        'Stock already exists for this product variant in this warehouse',
+      );
     }
 
     const newStock = new this.stockModel(createStockDto);
-    return await newStock.save();
+    const savedStock = await newStock.save();
+
+    if (savedStock.quantity > 0) {
+      await this.recordMovement(savedStock, savedStock.quantity, {
+        reason: StockMovementReason.RESTOCK,
+        actor,
+      });
+    }
+    return savedStock;
   }
 
   async findAllStocks(): Promise<Stock[]> {
@@ -111,36 +329,142 @@ export class StockService {
     return stock;
   }
 
-  async findStockByProduct(productId: string): Promise<Stock> {
-    const stock = await this.stockModel
-      .findOne({ productId: productId })
+  /**
+   * Stock of a product at every location
+   */
+  async findStocksByProduct(productId: string): Promise<Stock[]> {
+    const stocks = await this.stockModel
+      .find({ productId: productId })
       .populate('productId')
+      .populate('warehouseId')
       .exec();
-    if (!stock) {
+    if (stocks.length === 0) {
       throw new NotFoundException(`Stock for product ${productId} not found`);
     }
-    return stock;
+    return stocks;
+  }
+
+  /**
+   * Stock of a product variant (or of a product without variants) at the
+   * locations that fulfil orders, with the warehouse populated
+   */
+  async findFulfillingStocks(
+    productId: string,
+    variantId?: string,
+  ): Promise<StockDocument[]> {
+    const stocks = await this.stockModel
+      .find({ productId: productId, variantId: variantId ?? null })
+      .populate('warehouseId')
+      .exec();
+    return stocks.filter((stock) => this.isFulfilling(stock));
   }
 
   async updateStock(
     id: string,
     updateStockDto: UpdateStockDto,
+    actor: string = STOCK_API_ACTOR,
   ): Promise<Stock> {
     // Use find-then-save pattern for proper __v versioning and middleware execution
-    const stock = await this.stockModel.findById(id).populate('productId').exec();
-    
+    const stock = await this.stockModel
+      .findById(id)
+      .populate('productId')
+      .exec();
+
     if (!stock) {
       throw new NotFoundException(`Stock with ID ${id} not found`);
     }
 
+    if (
+      updateStockDto.quantity !== undefined &&
+      updateStockDto.quantity < (stock.reserved ?? 0)
+    ) {
+      throw new ConflictException(
+        `Update would take stock below its reserved units. Quantity: ${updateStockDto.quantity}, Reserved: ${stock.reserved}`,
+      );
+    }
+
+    const previousQuantity = stock.quantity;
+
     // Apply updates to the document
     Object.assign(stock, updateStockDto);
-    
+
     // Save triggers middleware and increments __v automatically
     const savedStock = await stock.save();
-    
+
+    if (savedStock.quantity !== previousQuantity) {
+      await this.recordMovement(
+        savedStock,
+        savedStock.quantity - previousQuantity,
+        { reason: StockMovementReason.MANUAL_ADJUSTMENT, actor },
+      );
+      await this.notifyStockLevel(savedStock, previousQuantity);
+    }
+
     // Re-populate after save since save() returns the raw document
-    return await this.stockModel.findById(savedStock._id).populate('productId').exec() as Stock;
+    return (await this.stockModel
+      .findById(savedStock._id)
+      .populate('productId')
+      .exec()) as Stock;
+  }
+
+  /**
+   * Adds or takes off units relative to the current quantity in a single
+   * atomic update, so concurrent sales are not overwritten the way an
+   * absolute quantity update can overwrite them. Rejected with a conflict
+   * when the stock would go below zero, or when expectedVersion is given
+   * and the stock has changed since.
+   */
+  async adjustStock(
+    id: string,
+    adjustStockDto: AdjustStockDto,
+    actor: string = STOCK_API_ACTOR,
+  ): Promise<Stock> {
+    const { delta, reason, expectedVersion } = adjustStockDto;
+
+    const filter: Record<string, unknown> = { _id: id };
+    if (delta < 0) {
+      // Units held by reservations cannot be taken off
+      filter.$expr = {
+        $gte: [
+          { $subtract: ['$quantity', { $ifNull: ['$reserved', 0] }] },
+          -delta,
+        ],
+      };
+    }
+    if (expectedVersion !== undefined) {
+      filter.__v = expectedVersion;
+    }
+
+    const updatedStock = await this.stockModel
+      .findOneAndUpdate(
+        filter,
+        { $inc: { quantity: delta, __v: 1 } },
+        { new: true, runValidators: true },
+      )
+      .populate('productId')
+      .exec();
+
+    if (!updatedStock) {
+      // Find out which condition failed
+      const stock = await this.findOneStockWithoutPopulate(id);
+      if (expectedVersion !== undefined && stock.__v !== expectedVersion) {
+        throw new ConflictException(
+          `Stock ${id} is at version ${stock.__v}, expected ${expectedVersion}`,
+        );
+      }
+      if (stock.reserved > 0) {
+        throw new ConflictException(
+          `Adjustment would take stock below its reserved units. Quantity: ${stock.quantity}, Reserved: ${stock.reserved}, Delta: ${delta}`,
+        );
+      }
+      throw new ConflictException(
+        `Adjustment would take stock below zero. Quantity: ${stock.quantity}, Delta: ${delta}`,
+      );
+    }
+
+    await this.recordMovement(updatedStock, delta, { reason, actor });
+    await this.notifyStockLevel(updatedStock, updatedStock.quantity - delta);
+    return updatedStock;
   }
 
   async removeStock(id: string): Promise<void> {
@@ -179,46 +503,79 @@ export class StockService {
     const stocksWithProducts = await this.stockModel
       .find()
       .populate('productId')
+      .populate('warehouseId')
       .exec();
 
-    return stocksWithProducts.map((stock) => {
-      const product = stock.productId as Product;
-      return {
-        productId: product._id!,
-        stockId: stock._id!,
-        name: product.name,
-        price: product.price,
-        description: product.description,
-        images: product.images,
-        availableStock: stock.quantity,
-        createdAt: product.createdAt!,
-        updatedAt: product.updatedAt!,
-      };
-    });
+    // Every location of a product becomes one entry
+    const stocksByProduct = new Map<string, Stock[]>();
+    for (const stock of stocksWithProducts) {
+      const productId = (stock.productId as Product)._id!.toString();
+      stocksByProduct.set(productId, [
+        ...(stocksByProduct.get(productId) ?? []),
+        stock,
+      ]);
+    }
+
+    return [...stocksByProduct.values()].map((stocks) =>
+      this.toProductWithStock(stocks),
+    );
   }
 
   /**
    * Get a specific product with its stock information
    */
   async findProductWithStock(productId: string): Promise<ProductWithStockDto> {
-    const stock = await this.stockModel
-      .findOne({ productId: productId })
-      .populate('productId')
-      .exec();
+    const stocks = await this.findStocksByProduct(productId);
+    return this.toProductWithStock(stocks);
+  }
 
-    if (!stock) {
-      throw new NotFoundException(`Stock for product ${productId} not found`);
-    }
+  /**
+   * Product of the given stocks with availability summed over the locations that fulfil orders,
+   * for the whole product and for each of its variants
+   */
+  private toProductWithStock(stocks: Stock[]): ProductWithStockDto {
+    const product = stocks[0].productId as Product;
+    const locations: StockLocationDto[] = stocks
+      .filter((stock) => this.isFulfilling(stock))
+      .map((stock) => {
+        const warehouse = stock.warehouseId as Warehouse | null;
+        return {
+          stockId: stock._id!,
+          variantId: stock.variantId ?? null,
+          warehouseId: warehouse?._id ?? null,
+          warehouseName: warehouse?.name ?? null,
+          availableStock: this.availableQuantity(stock),
+        };
+      });
+    const sumAvailable = (stockLocations: StockLocationDto[]) =>
+      stockLocations.reduce(
+        (sum, location) => sum + location.availableStock,
+        0,
+      );
 
-    const product = stock.productId as Product;
     return {
       productId: product._id!,
-      stockId: stock._id!,
       name: product.name,
       price: product.price,
       description: product.description,
       images: product.images,
-      availableStock: stock.quantity,
+      availableStock: sumAvailable(locations),
+      locations,
+      options: product.options ?? [],
+      variants: (product.variants ?? []).map((variant) => {
+        const variantLocations = locations.filter((location) =>
+          location.variantId?.equals(variant._id),
+        );
+        return {
+          variantId: variant._id!,
+          sku: variant.sku,
+          options: variant.options,
+          price: variantPrice(product, variant),
+          availableStock: sumAvailable(variantLocations),
+          locations: variantLocations,
+        };
+      }),
+      purchaseLimits: product.purchaseLimits ?? null,
       createdAt: product.createdAt!,
       updatedAt: product.updatedAt!,
     };
@@ -231,7 +588,8 @@ export class StockService {
   async decrementStockAtomic(
     stockId: string,
     quantity: number,
-  ): Promise<{ success: boolean; currentStock?: Stock; error?: string }> {
+    movement: StockMovementContext,
+  ): Promise<StockOperationResult> {
     const maxRetries = 3;
     let retryCount = 0;
 
@@ -243,12 +601,13 @@ export class StockService {
           return { success: false, error: 'Stock not found' };
         }
 
-        // Check if sufficient stock is available
-        if (currentStock.quantity < quantity) {
+        // Check if sufficient stock is available (quantity held for other orders is not)
+        const available = this.availableQuantity(currentStock);
+        if (available < quantity) {
           return {
             success: false,
             currentStock,
-            error: `Insufficient stock. Available: ${currentStock.quantity}, Requested: ${quantity}`,
+            error: `Insufficient stock. Available: ${available}, Requested: ${quantity}`,
           };
         }
 
@@ -279,15 +638,25 @@ export class StockService {
           continue;
         }
 
+        await this.recordMovement(updatedStock, -quantity, movement);
+        await this.notifyStockLevel(
+          updatedStock,
+          updatedStock.quantity + quantity,
+        );
         return { success: true, currentStock: updatedStock };
       } catch (error) {
-        return { success: false, error: `Database error: ${error.message}` };
+        return {
+          success: false,
+          error: `Database error: ${error.message}`,
+          transient: true,
+        };
       }
     }
 
     return {
       success: false,
       error: 'Max retries exceeded due to version conflicts',
+      transient: true,
     };
   }
 
@@ -298,7 +667,8 @@ export class StockService {
   async incrementStockAtomic(
     stockId: string,
     quantity: number,
-  ): Promise<{ success: boolean; currentStock?: Stock; error?: string }> {
+    movement: StockMovementContext,
+  ): Promise<StockOperationResult> {
     const maxRetries = 3;
     let retryCount = 0;
 
@@ -337,15 +707,441 @@ export class StockService {
           continue;
         }
 
+        await this.recordMovement(updatedStock, quantity, movement);
+        return { success: true, currentStock: updatedStock };
+      } catch (error) {
+        return {
+          success: false,
+          error: `Database error: ${error.message}`,
+          transient: true,
+        };
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Max retries exceeded due to version conflicts',
+      transient: true,
+    };
+  }
+
+  /**
+   * Holds quantity for an order until the reservation TTL passes, without
+   * taking it off the shelf. Uses the same optimistic locking as
+   * decrementStockAtomic; reserving again for the same order is a no-op.
+   */
+  async reserveStockAtomic(
+    stockId: string,
+    orderId: string,
+    quantity: number,
+  ): Promise<StockOperationResult> {
+    const maxRetries = 3;
+    let retryCount = 0;
+
+    while (retryCount < maxRetries) {
+      try {
+        const currentStock = await this.stockModel.findById(stockId).exec();
+        if (!currentStock) {
+          return { success: false, error: 'Stock not found' };
+        }
+
+        if (
+          currentStock.reservations.some(
+            (reservation) => reservation.orderId.toString() === orderId,
+          )
+        ) {
+          return { success: true, currentStock };
+        }
+
+        const available = this.availableQuantity(currentStock);
+        if (available < quantity) {
+          return {
+            success: false,
+            currentStock,
+            error: `Insufficient stock. Available: ${available}, Requested: ${quantity}`,
+          };
+        }
+
+        const updatedStock = await this.stockModel
+          .findOneAndUpdate(
+            {
+              _id: stockId,
+              __v: currentStock.__v,
+            },
+            {
+              $inc: { reserved: quantity, __v: 1 },
+              $push: {
+                reservations: {
+                  orderId: new Types.ObjectId(orderId),
+                  quantity,
+                  expiresAt: new Date(Date.now() + this.reservationTtlMs),
+                },
+              },
+            },
+            {
+              new: true,
+              runValidators: true,
+            },
+          )
+          .exec();
+
+        if (!updatedStock) {
+          // Version conflict - another process updated the stock
+          retryCount++;
+          continue;
+        }
+
         return { success: true, currentStock: updatedStock };
       } catch (error) {
-        return { success: false, error: `Database error: ${error.message}` };
+        return {
+          success: false,
+          error: `Database error: ${error.message}`,
+          transient: true,
+        };
       }
     }
 
     return {
       success: false,
       error: 'Max retries exceeded due to version conflicts',
+      transient: true,
     };
   }
+
+  /**
+   * Takes an order's reserved quantity off the shelf. Fails with
+   * RESERVATION_NOT_FOUND when the reservation expired or was released, in
+   * which case the caller has to fall back to decrementStockAtomic.
+   */
+  async commitReservationAtomic(
+    stockId: string,
+    orderId: string,
+    actor: string,
+  ): Promise<StockOperationResult> {
+    try {
+      const currentStock = await this.stockModel
+        .findOne({ _id: stockId, 'reservations.orderId': orderId })
+        .exec();
+      const reservation = currentStock?.reservations.find(
+        (r) => r.orderId.toString() === orderId,
+      );
+      if (!currentStock || !reservation) {
+        return { success: false, error: RESERVATION_NOT_FOUND };
+      }
+
+      // An admin may have lowered the quantity below what was reserved
+      if (currentStock.quantity < reservation.quantity) {
+        return {
+          success: false,
+          currentStock,
+          error: `Insufficient stock. Available: ${currentStock.quantity}, Requested: ${reservation.quantity}`,
+        };
+      }
+
+      // Matching on the reservation itself makes a concurrent commit or release lose the race cleanly
+      const updatedStock = await this.stockModel
+        .findOneAndUpdate(
+          {
+            _id: stockId,
+            reservations: {
+              $elemMatch: { orderId, quantity: reservation.quantity },
+            },
+            quantity: { $gte: reservation.quantity },
+          },
+          {
+            $inc: {
+              quantity: -reservation.quantity,
+              reserved: -reservation.quantity,
+              __v: 1,
+            },
+            $pull: { reservations: { orderId } },
+          },
+          {
+            new: true,
+            runValidators: true,
+          },
+        )
+        .populate('productId')
+        .exec();
+
+      if (!updatedStock) {
+        return { success: false, error: RESERVATION_NOT_FOUND };
+      }
+
+      await this.recordMovement(updatedStock, -reservation.quantity, {
+        reason: StockMovementReason.SALE,
+        actor,
+        orderId,
+      });
+      await this.notifyStockLevel(
+        updatedStock,
+        updatedStock.quantity + reservation.quantity,
+      );
+      return { success: true, currentStock: updatedStock };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Database error: ${error.message}`,
+        transient: true,
+      };
+    }
+  }
+
+  /**
+   * Gives an order's reserved quantity back to the available pool. Succeeds
+   * when there is nothing left to release, so it is safe to call repeatedly.
+   */
+  async releaseReservationAtomic(
+    stockId: string,
+    orderId: string,
+  ): Promise<StockOperationResult> {
+    try {
+      await this.pullReservation(stockId, orderId);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Database error: ${error.message}`,
+        transient: true,
+      };
+    }
+  }
+
+  /**
+   * Releases every reservation whose TTL has passed and returns how many
+   * were released. Run periodically by the reservation sweeper.
+   */
+  async releaseExpiredReservations(now: Date = new Date()): Promise<number> {
+    const stocks = await this.stockModel
+      .find({ 'reservations.expiresAt': { $lte: now } })
+      .exec();
+
+    let released = 0;
+    for (const stock of stocks) {
+      for (const reservation of stock.reservations) {
+        if (reservation.expiresAt > now) {
+          continue;
+        }
+        if (
+          await this.pullReservation(
+            stock._id.toString(),
+            reservation.orderId.toString(),
+            now,
+          )
+        ) {
+          released++;
+        }
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Removes one order's reservation and its share of the reserved counter.
+   * With expiredBefore set, only a reservation that expired by then is
+   * removed. Returns whether a reservation was removed.
+   */
+  private async pullReservation(
+    stockId: string,
+    orderId: string,
+    expiredBefore?: Date,
+  ): Promise<boolean> {
+    const stock = await this.stockModel
+      .findOne({ _id: stockId, 'reservations.orderId': orderId })
+      .exec();
+    const reservation = stock?.reservations.find(
+      (r) => r.orderId.toString() === orderId,
+    );
+    if (!reservation) {
+      return false;
+    }
+
+    const match: Record<string, unknown> = {
+      orderId,
+      quantity: reservation.quantity,
+    };
+    if (expiredBefore) {
+      match.expiresAt = { $lte: expiredBefore };
+    }
+
+    const updatedStock = await this.stockModel
+      .findOneAndUpdate(
+        { _id: stockId, reservations: { $elemMatch: match } },
+        {
+          $inc: { reserved: -reservation.quantity, __v: 1 },
+          $pull: { reservations: { orderId } },
+        },
+        { new: true },
+      )
+      .exec();
+
+    return !!updatedStock;
+  }
+
+  /**
+   * Stock at or below its reorder threshold, emptiest first
+   */
+  async findStockAlerts(): Promise<StockAlertDto[]> {
+    const stocks = await this.stockModel
+      .find({
+        reorderThreshold: { $type: 'number' },
+        $expr: { $lte: ['$quantity', '$reorderThreshold'] },
+      })
+      .sort({ quantity: 1, _id: 1 })
+      .populate('productId')
+      .populate('warehouseId')
+      .exec();
+
+    return stocks.map((stock) => {
+      const product = stock.productId as Product;
+      const warehouse = stock.warehouseId as Warehouse | null;
+      const variantId = stock.variantId?.toString() ?? null;
+      return {
+        type:
+          stock.quantity === 0
+            ? StockAlertType.OUT_OF_STOCK
+            : StockAlertType.LOW_STOCK,
+        stockId: stock._id.toString(),
+        productId: product._id!.toString(),
+        productName: product.name,
+        variantId,
+        sku: (variantId && findVariant(product, variantId)?.sku) ?? null,
+        warehouseId: warehouse?._id?.toString() ?? null,
+        warehouseName: warehouse?.name ?? null,
+        quantity: stock.quantity,
+        availableStock: this.availableQuantity(stock),
+        reorderThreshold: stock.reorderThreshold!,
+      };
+    });
+  }
+
+  /**
+   * Movement history of a stock, with its quantity recomputed from the
+   * ledger so drift between the two shows up as a discrepancy
+   */
+  async getStockLedger(
+    id: string,
+    limit: number = DEFAULT_STOCK_MOVEMENT_PAGE_SIZE,
+  ): Promise<StockLedgerDto> {
+    const stock = await this.findOneStockWithoutPopulate(id);
+    const stockId = stock._id!;
+
+    const [movements, [totals]] = await Promise.all([
+      this.stockMovementModel
+        .find({ stockId })
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit)
+        .exec(),
+      this.stockMovementModel
+        .aggregate<{ balance: number; count: number }>([
+          { $match: { stockId } },
+          {
+            $group: {
+              _id: null,
+              balance: { $sum: '$delta' },
+              count: { $sum: 1 },
+            },
+          },
+        ])
+        .exec(),
+    ]);
+
+    const ledgerBalance = totals?.balance ?? 0;
+    return {
+      stockId: stockId.toString(),
+      quantity: stock.quantity,
+      ledgerBalance,
+      discrepancy: stock.quantity - ledgerBalance,
+      totalMovements: totals?.count ?? 0,
+      movements: movements.map(toStockMovementResponseDto),
+    };
+  }
+
+  /**
+   * Appends a movement to the ledger. The quantity change has already been
+   * written, so a failure here is logged rather than failing the change -
+   * it shows up as a discrepancy of the stock's ledger.
+   */
+  private async recordMovement(
+    stock: Stock,
+    delta: number,
+    movement: StockMovementContext,
+  ): Promise<void> {
+    try {
+      await this.stockMovementModel.create({
+        stockId: stock._id,
+        delta,
+        reason: movement.reason,
+        actor: movement.actor,
+        orderId: movement.orderId ? new Types.ObjectId(movement.orderId) : null,
+        balanceAfter: stock.quantity,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${movement.reason} movement of ${delta} for stock ${stock._id?.toString()}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Sends an alert when a quantity change takes the stock to or below its
+   * reorder threshold (low-stock) or to zero (out-of-stock); a change that
+   * does both only sends out-of-stock. Stock without a threshold never
+   * alerts. A failed delivery is logged rather than failing the change.
+   */
+  private async notifyStockLevel(
+    stock: Stock,
+    previousQuantity: number,
+  ): Promise<void> {
+    const { quantity, reorderThreshold } = stock;
+    if (reorderThreshold == null || quantity >= previousQuantity) {
+      return;
+    }
+
+    let type: StockAlertType;
+    if (quantity === 0) {
+      type = StockAlertType.OUT_OF_STOCK;
+    } else if (
+      previousQuantity > reorderThreshold &&
+      quantity <= reorderThreshold
+    ) {
+      type = StockAlertType.LOW_STOCK;
+    } else {
+      return;
+    }
+
+    try {
+      await this.stockAlertNotifier.notify({
+        type,
+        stockId: stock._id!.toString(),
+        productId: referenceId(stock.productId),
+        variantId: stock.variantId?.toString() ?? null,
+        warehouseId: stock.warehouseId ? referenceId(stock.warehouseId) : null,
+        quantity,
+        reorderThreshold,
+        occurredAt: new Date(),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${type} alert for stock ${stock._id?.toString()} via ${this.stockAlertNotifier.name}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * On-hand quantity not held by reservations
+   */
+  availableQuantity(stock: Stock): number {
+    return Math.max(0, stock.quantity - (stock.reserved ?? 0));
+  }
+
+  /**
+   * Whether the stock fulfils orders - stock without a warehouse always does.
+   * Expects warehouseId to be populated.
+   */
+  private isFulfilling(stock: Stock): boolean {
+    const warehouse = stock.warehouseId as Warehouse | null;
+    return !warehouse || warehouse.active;
+  }
 }
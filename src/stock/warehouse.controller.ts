@@ -0,0 +1,100 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WarehouseService } from './warehouse.service';
+import { CreateWarehouseDto } from './dto/create-warehouse.dto';
+import { UpdateWarehouseDto } from './dto/update-warehouse.dto';
+
+@ApiTags('Stock Management')
+@Controller('warehouses')
+export class WarehouseController {
+  constructor(private readonly warehouseService: WarehouseService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a warehouse' })
+  @ApiBody({ type: CreateWarehouseDto })
+  @ApiResponse({ status: 201, description: 'Warehouse created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({
+    status: 409,
+    description: 'A warehouse with this code already exists',
+  })
+  create(@Body() createWarehouseDto: CreateWarehouseDto) {
+    return this.warehouseService.createWarehouse(createWarehouseDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all warehouses, by priority' })
+  @ApiResponse({ status: 200, description: 'List of all warehouses' })
+  findAll() {
+    return this.warehouseService.findAllWarehouses();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a warehouse by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'Warehouse ID',
+    example: '507f1f77bcf86cd799439020',
+  })
+  @ApiResponse({ status: 200, description: 'Warehouse found' })
+  @ApiResponse({ status: 404, description: 'Warehouse not found' })
+  findOne(@Param('id') id: string) {
+    return this.warehouseService.findOneWarehouse(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a warehouse' })
+  @ApiParam({
+    name: 'id',
+    description: 'Warehouse ID',
+    example: '507f1f77bcf86cd799439020',
+  })
+  @ApiBody({ type: UpdateWarehouseDto })
+  @ApiResponse({ status: 200, description: 'Warehouse updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Warehouse not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'A warehouse with this code already exists',
+  })
+  update(
+    @Param('id') id: string,
+    @Body() updateWarehouseDto: UpdateWarehouseDto,
+  ) {
+    return this.warehouseService.updateWarehouse(id, updateWarehouseDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a warehouse' })
+  @ApiParam({
+    name: 'id',
+    description: 'Warehouse ID',
+    example: '507f1f77bcf86cd799439020',
+  })
+  @ApiResponse({ status: 204, description: 'Warehouse deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Warehouse not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Cannot delete warehouse that holds stock',
+  })
+  remove(@Param('id') id: string) {
+    return this.warehouseService.removeWarehouse(id);
+  }
+}
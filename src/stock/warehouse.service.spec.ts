@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { WarehouseService } from './warehouse.service';
+import { Warehouse } from './entities/warehouse.entity';
+import { Stock } from './entities/stock.entity';
+
+describe('WarehouseService', () => {
+  let service: WarehouseService;
+  let warehouseModel: {
+    create: jest.Mock;
+    find: jest.Mock;
+    findById: jest.Mock;
+    findByIdAndDelete: jest.Mock;
+  };
+  let stockModel: { findOne: jest.Mock };
+
+  const warehouseId = '507f1f77bcf86cd799439020';
+  const duplicateKeyError = Object.assign(new Error('E11000'), {
+    code: 11000,
+  });
+
+  // Query resolving to the given result
+  const query = (result: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const createWarehouseDto = {
+    name: 'Berlin Central',
+    code: 'BER-1',
+    latitude: 52.52,
+    longitude: 13.405,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WarehouseService,
+        {
+          provide: getModelToken(Warehouse.name),
+          useValue: {
+            create: jest.fn(),
+            find: jest.fn(),
+            findById: jest.fn(),
+            findByIdAndDelete: jest.fn(),
+          },
+        },
+        {
+          provide: getModelToken(Stock.name),
+          useValue: {
+            findOne: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WarehouseService>(WarehouseService);
+    warehouseModel = module.get(getModelToken(Warehouse.name));
+    stockModel = module.get(getModelToken(Stock.name));
+  });
+
+  describe('createWarehouse', () => {
+    it('should create the warehouse', async () => {
+      // Arrange
+      const warehouse = { _id: new Types.ObjectId(), ...createWarehouseDto };
+      warehouseModel.create.mockResolvedValue(warehouse);
+
+      // Act
+      const result = await service.createWarehouse(createWarehouseDto);
+
+      // Assert
+      expect(warehouseModel.create).toHaveBeenCalledWith(createWarehouseDto);
+      expect(result).toBe(warehouse);
+    });
+
+    it('should reject a duplicate code', async () => {
+      // Arrange
+      warehouseModel.create.mockRejectedValue(duplicateKeyError);
+
+      // Act & Assert
+      await expect(service.createWarehouse(createWarehouseDto)).rejects.toThrow(
+        new ConflictException('A warehouse with code BER-1 already exists'),
+      );
+    });
+  });
+
+  describe('findAllWarehouses', () => {
+    it('should list the warehouses by priority', async () => {
+      // Arrange
+      const listQuery = query([]);
+      warehouseModel.find.mockReturnValue(listQuery);
+
+      // Act
+      await service.findAllWarehouses();
+
+      // Assert
+      expect(listQuery.sort).toHaveBeenCalledWith({ priority: 1, _id: 1 });
+    });
+  });
+
+  describe('updateWarehouse', () => {
+    it('should apply the changes and save', async () => {
+      // Arrange
+      const warehouse = {
+        ...createWarehouseDto,
+        save: jest.fn().mockImplementation(function () {
+          return Promise.resolve(this);
+        }),
+      };
+      warehouseModel.findById.mockReturnValue(query(warehouse));
+
+      // Act
+      const result = await service.updateWarehouse(warehouseId, {
+        active: false,
+      });
+
+      // Assert
+      expect(result.active).toBe(false);
+      expect(warehouse.save).toHaveBeenCalled();
+    });
+
+    it('should report a missing warehouse', async () => {
+      // Arrange
+      warehouseModel.findById.mockReturnValue(query(null));
+
+      // Act & Assert
+      await expect(
+        service.updateWarehouse(warehouseId, { priority: 1 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('removeWarehouse', () => {
+    it('should delete a warehouse without stock', async () => {
+      // Arrange
+      stockModel.findOne.mockReturnValue(query(null));
+      warehouseModel.findByIdAndDelete.mockReturnValue(query({}));
+
+      // Act
+      await service.removeWarehouse(warehouseId);
+
+      // Assert
+      expect(warehouseModel.findByIdAndDelete).toHaveBeenCalledWith(
+        warehouseId,
+      );
+    });
+
+    it('should refuse to delete a warehouse that holds stock', async () => {
+      // Arrange
+      stockModel.findOne.mockReturnValue(query({ _id: new Types.ObjectId() }));
+
+      // Act & Assert
+      await expect(service.removeWarehouse(warehouseId)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(warehouseModel.findByIdAndDelete).not.toHaveBeenCalled();
+    });
+  });
+});
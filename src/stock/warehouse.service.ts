@@ -0,0 +1,83 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { DUPLICATE_KEY_ERROR_CODE } from '../common/database/mongo-error-codes';
+import { Warehouse, WarehouseDocument } from './entities/warehouse.entity';
+import { Stock, StockDocument } from './entities/stock.entity';
+import { CreateWarehouseDto } from './dto/create-warehouse.dto';
+import { UpdateWarehouseDto } from './dto/update-warehouse.dto';
+
+@Injectable()
+export class WarehouseService {
+  constructor(
+    @InjectModel(Warehouse.name)
+    private readonly warehouseModel: Model<WarehouseDocument>,
+    @InjectModel(Stock.name) private readonly stockModel: Model<StockDocument>,
+  ) {}
+
+  async createWarehouse(
+    createWarehouseDto: CreateWarehouseDto,
+  ): Promise<WarehouseDocument> {
+    try {
+      return await this.warehouseModel.create(createWarehouseDto);
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR_CODE) {
+        throw new ConflictException(
+          `A warehouse with code ${createWarehouseDto.code} already exists`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Every warehouse, in the order the priority strategy fulfils from them
+   */
+  async findAllWarehouses(): Promise<WarehouseDocument[]> {
+    return this.warehouseModel.find().sort({ priority: 1, _id: 1 }).exec();
+  }
+
+  async findOneWarehouse(id: string): Promise<WarehouseDocument> {
+    const warehouse = await this.warehouseModel.findById(id).exec();
+    if (!warehouse) {
+      throw new NotFoundException(`Warehouse with ID ${id} not found`);
+    }
+    return warehouse;
+  }
+
+  async updateWarehouse(
+    id: string,
+    updateWarehouseDto: UpdateWarehouseDto,
+  ): Promise<WarehouseDocument> {
+    const warehouse = await this.findOneWarehouse(id);
+    Object.assign(warehouse, updateWarehouseDto);
+    try {
+      return await warehouse.save();
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR_CODE) {
+        throw new ConflictException(
+          `A warehouse with code ${updateWarehouseDto.code} already exists`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  async removeWarehouse(id: string): Promise<void> {
+    const stock = await this.stockModel.findOne({ warehouseId: id }).exec();
+    if (stock) {
+      throw new ConflictException(
+        'Cannot delete warehouse that holds stock. Delete or move its stock first.',
+      );
+    }
+
+    const result = await this.warehouseModel.findByIdAndDelete(id).exec();
+    if (!result) {
+      throw new NotFoundException(`Warehouse with ID ${id} not found`);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Service level of a customer. Decides how soon their orders are processed.
+ */
+export enum CustomerTier {
+  PLATINUM = 'PLATINUM',
+  GOLD = 'GOLD',
+  VIP = 'VIP',
+  STANDARD = 'STANDARD',
+}
+
+/**
+ * Tier of a user. Users without an explicit tier fall back to VIP or
+ * STANDARD based on the isVIP flag.
+ */
+export function getCustomerTier(user: {
+  tier?: CustomerTier | null;
+  isVIP?: boolean;
+}): CustomerTier {
+  return user.tier ?? (user.isVIP ? CustomerTier.VIP : CustomerTier.STANDARD);
+}
@@ -1,6 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import * as bcrypt from 'bcrypt';
+import { CustomerTier } from '../customer-tier';
 
 export type UserDocument = User & Document;
 
@@ -20,6 +21,14 @@ export class User {
   @Prop({ default: false })
   isVIP: boolean;
 
+  // Not exposed through the API - unset means VIP or STANDARD depending on isVIP
+  @Prop({ type: String, enum: CustomerTier, default: null })
+  tier?: CustomerTier | null;
+
+  // Not exposed through the API - grant by setting the flag in the database
+  @Prop({ default: false })
+  isAdmin: boolean;
+
   @Prop()
   refreshToken: string;
 
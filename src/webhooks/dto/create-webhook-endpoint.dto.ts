@@ -0,0 +1,49 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEventType } from '../entities/webhook-endpoint.entity';
+
+export class CreateWebhookEndpointDto {
+  @ApiProperty({
+    description: 'URL that receives POST requests for subscribed events',
+    example: 'https://partner.example.com/hooks/orders',
+  })
+  @IsNotEmpty()
+  @IsUrl({
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    require_tld: false,
+  })
+  url: string;
+
+  @ApiProperty({
+    description: 'Event types to deliver to this endpoint',
+    enum: WebhookEventType,
+    isArray: true,
+    example: [WebhookEventType.ORDER_CONFIRMED, WebhookEventType.ORDER_FAILED],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(WebhookEventType, { each: true })
+  events: WebhookEventType[];
+
+  @ApiPropertyOptional({
+    description: 'Free-text note about who owns the endpoint',
+    example: 'Warehouse partner - order feed',
+    maxLength: 200,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
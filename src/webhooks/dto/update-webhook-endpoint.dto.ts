@@ -0,0 +1,16 @@
+import { PartialType } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CreateWebhookEndpointDto } from './create-webhook-endpoint.dto';
+
+export class UpdateWebhookEndpointDto extends PartialType(
+  CreateWebhookEndpointDto,
+) {
+  @ApiPropertyOptional({
+    description: 'Paused endpoints receive no new deliveries',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
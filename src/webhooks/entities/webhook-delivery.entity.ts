@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { WebhookEventType } from './webhook-endpoint.entity';
+
+export type WebhookDeliveryDocument = WebhookDelivery &
+  Document & {
+    _id: Types.ObjectId;
+  };
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+}
+
+@Schema({ _id: false })
+export class WebhookDeliveryAttempt {
+  @Prop({ required: true })
+  attemptedAt: Date;
+
+  // null when no response was received (timeout, connection refused, ...)
+  @Prop({ type: Number, default: null })
+  statusCode: number | null;
+
+  @Prop({ default: '' })
+  error: string;
+
+  @Prop({ required: true })
+  durationMs: number;
+}
+
+export const WebhookDeliveryAttemptSchema = SchemaFactory.createForClass(
+  WebhookDeliveryAttempt,
+);
+
+@Schema({ timestamps: true })
+export class WebhookDelivery {
+  @Prop({ type: Types.ObjectId, ref: 'WebhookEndpoint', required: true })
+  endpointId: Types.ObjectId;
+
+  // Same for every endpoint receiving the event, so receivers can de-duplicate
+  @Prop({ required: true })
+  eventId: string;
+
+  @Prop({ type: String, enum: WebhookEventType, required: true })
+  eventType: WebhookEventType;
+
+  // Exact JSON body that is sent and signed
+  @Prop({ required: true })
+  payload: string;
+
+  @Prop({
+    type: String,
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ type: [WebhookDeliveryAttemptSchema], default: [] })
+  attempts: WebhookDeliveryAttempt[];
+
+  @Prop({ type: Date, default: null })
+  deliveredAt: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const WebhookDeliverySchema =
+  SchemaFactory.createForClass(WebhookDelivery);
+
+WebhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type WebhookEndpointDocument = WebhookEndpoint &
+  Document & {
+    _id: Types.ObjectId;
+  };
+
+export enum WebhookEventType {
+  ORDER_CONFIRMED = 'order.confirmed',
+  ORDER_FAILED = 'order.failed',
+  STOCK_DEPLETED = 'stock.depleted',
+  STOCK_COMPENSATION_EXHAUSTED = 'stock.compensation_exhausted',
+}
+
+@Schema({ timestamps: true })
+export class WebhookEndpoint {
+  @Prop({ required: true })
+  url: string;
+
+  @Prop({ default: '' })
+  description: string;
+
+  // Shared secret used to sign every delivery (HMAC-SHA256)
+  @Prop({ required: true })
+  secret: string;
+
+  @Prop({
+    type: [String],
+    enum: WebhookEventType,
+    required: true,
+    validate: {
+      validator: (events: WebhookEventType[]) => events.length > 0,
+      message: 'A webhook endpoint must subscribe to at least one event',
+    },
+  })
+  events: WebhookEventType[];
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const WebhookEndpointSchema =
+  SchemaFactory.createForClass(WebhookEndpoint);
+
+WebhookEndpointSchema.index({ events: 1, isActive: 1 });
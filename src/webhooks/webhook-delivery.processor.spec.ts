@@ -0,0 +1,241 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Job } from 'bullmq';
+import { Types } from 'mongoose';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebhookDeliveryProcessor } from './webhook-delivery.processor';
+import {
+  WebhookEndpoint,
+  WebhookEventType,
+} from './entities/webhook-endpoint.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './entities/webhook-delivery.entity';
+import { WebhookDeliveryJob } from './webhooks.service';
+import { verifyWebhookSignature } from './webhook-signature';
+
+describe('WebhookDeliveryProcessor', () => {
+  let processor: WebhookDeliveryProcessor;
+  let endpointModel: { findById: jest.Mock };
+  let deliveryModel: { findById: jest.Mock; updateOne: jest.Mock };
+
+  // Local HTTP stub standing in for a partner system
+  let server: Server;
+  let stubUrl: string;
+  let stubStatus: number;
+  let receivedRequests: { headers: IncomingHttpHeaders; body: string }[];
+
+  const secret = 'whsec_test';
+  const deliveryId = '507f1f77bcf86cd799439021';
+  const payload = JSON.stringify({
+    id: 'evt-1',
+    type: WebhookEventType.ORDER_CONFIRMED,
+    data: { orderId: '507f1f77bcf86cd799439014' },
+  });
+
+  const delivery = {
+    _id: new Types.ObjectId(deliveryId),
+    endpointId: new Types.ObjectId('507f1f77bcf86cd799439020'),
+    eventId: 'evt-1',
+    eventType: WebhookEventType.ORDER_CONFIRMED,
+    payload,
+    status: WebhookDeliveryStatus.PENDING,
+  };
+
+  const createJob = (attemptsMade = 0, attempts = 3) =>
+    ({
+      id: deliveryId,
+      data: { deliveryId },
+      attemptsMade,
+      opts: { attempts },
+    }) as unknown as Job<WebhookDeliveryJob>;
+
+  const mockFindById = (model: { findById: jest.Mock }, result: unknown) =>
+    model.findById.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(result),
+    });
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        receivedRequests.push({ headers: request.headers, body });
+        response.statusCode = stubStatus;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    stubUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDeliveryProcessor,
+        {
+          provide: getModelToken(WebhookEndpoint.name),
+          useValue: { findById: jest.fn() },
+        },
+        {
+          provide: getModelToken(WebhookDelivery.name),
+          useValue: { findById: jest.fn(), updateOne: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    processor = module.get<WebhookDeliveryProcessor>(WebhookDeliveryProcessor);
+    endpointModel = module.get(getModelToken(WebhookEndpoint.name));
+    deliveryModel = module.get(getModelToken(WebhookDelivery.name));
+
+    receivedRequests = [];
+    stubStatus = 200;
+    mockFindById(deliveryModel, delivery);
+    mockFindById(endpointModel, { url: stubUrl, secret, isActive: true });
+  });
+
+  it('should POST the payload with a verifiable HMAC-SHA256 signature', async () => {
+    // Act
+    await processor.process(createJob());
+
+    // Assert
+    expect(receivedRequests).toHaveLength(1);
+    const [{ headers, body }] = receivedRequests;
+    expect(body).toBe(payload);
+    expect(headers['content-type']).toBe('application/json');
+    expect(headers['x-webhook-event']).toBe(WebhookEventType.ORDER_CONFIRMED);
+    expect(headers['x-webhook-id']).toBe('evt-1');
+    expect(
+      verifyWebhookSignature(
+        secret,
+        headers['x-webhook-timestamp'] as string,
+        body,
+        headers['x-webhook-signature'] as string,
+      ),
+    ).toBe(true);
+  });
+
+  it('should mark the delivery as SUCCEEDED and log the attempt', async () => {
+    // Act
+    await processor.process(createJob());
+
+    // Assert
+    expect(deliveryModel.updateOne).toHaveBeenCalledWith(
+      { _id: deliveryId },
+      {
+        $set: {
+          status: WebhookDeliveryStatus.SUCCEEDED,
+          deliveredAt: expect.any(Date),
+        },
+        $push: {
+          attempts: expect.objectContaining({ statusCode: 200, error: '' }),
+        },
+      },
+    );
+  });
+
+  it('should log the attempt and throw on a non-2xx response so BullMQ retries', async () => {
+    // Arrange
+    stubStatus = 503;
+
+    // Act & Assert
+    await expect(processor.process(createJob(0, 3))).rejects.toThrow(
+      'Webhook delivery failed: Endpoint responded with HTTP 503',
+    );
+    expect(deliveryModel.updateOne).toHaveBeenCalledWith(
+      { _id: deliveryId },
+      {
+        $set: {},
+        $push: {
+          attempts: expect.objectContaining({
+            statusCode: 503,
+            error: 'Endpoint responded with HTTP 503',
+          }),
+        },
+      },
+    );
+  });
+
+  it('should mark the delivery as FAILED on the last attempt', async () => {
+    // Arrange
+    stubStatus = 500;
+
+    // Act & Assert
+    await expect(processor.process(createJob(2, 3))).rejects.toThrow();
+    expect(deliveryModel.updateOne).toHaveBeenCalledWith(
+      { _id: deliveryId },
+      expect.objectContaining({
+        $set: { status: WebhookDeliveryStatus.FAILED },
+      }),
+    );
+  });
+
+  it('should record network errors without a status code', async () => {
+    // Arrange - nothing listens on port 1
+    mockFindById(endpointModel, {
+      url: 'http://127.0.0.1:1/hooks',
+      secret,
+      isActive: true,
+    });
+
+    // Act & Assert
+    await expect(processor.process(createJob())).rejects.toThrow(
+      'Webhook delivery failed',
+    );
+    expect(deliveryModel.updateOne).toHaveBeenCalledWith(
+      { _id: deliveryId },
+      expect.objectContaining({
+        $push: {
+          attempts: expect.objectContaining({ statusCode: null }),
+        },
+      }),
+    );
+  });
+
+  it('should fail without sending when the endpoint was disabled', async () => {
+    // Arrange
+    mockFindById(endpointModel, { url: stubUrl, secret, isActive: false });
+
+    // Act
+    await processor.process(createJob());
+
+    // Assert
+    expect(receivedRequests).toHaveLength(0);
+    expect(deliveryModel.updateOne).toHaveBeenCalledWith(
+      { _id: deliveryId },
+      expect.objectContaining({
+        $set: { status: WebhookDeliveryStatus.FAILED },
+      }),
+    );
+  });
+
+  it('should skip deliveries that already succeeded', async () => {
+    // Arrange
+    mockFindById(deliveryModel, {
+      ...delivery,
+      status: WebhookDeliveryStatus.SUCCEEDED,
+    });
+
+    // Act
+    await processor.process(createJob());
+
+    // Assert
+    expect(receivedRequests).toHaveLength(0);
+    expect(deliveryModel.updateOne).not.toHaveBeenCalled();
+  });
+});
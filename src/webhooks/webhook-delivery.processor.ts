@@ -0,0 +1,163 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Job } from 'bullmq';
+import { Model } from 'mongoose';
+import axios from 'axios';
+import {
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_QUEUE_NAME,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhooks.constants';
+import {
+  WebhookEndpoint,
+  WebhookEndpointDocument,
+} from './entities/webhook-endpoint.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from './entities/webhook-delivery.entity';
+import { signWebhookPayload } from './webhook-signature';
+import { WebhookDeliveryJob } from './webhooks.service';
+
+@Injectable()
+@Processor(WEBHOOK_QUEUE_NAME)
+export class WebhookDeliveryProcessor extends WorkerHost {
+  private readonly logger = new Logger(WebhookDeliveryProcessor.name);
+
+  private readonly timeoutMs: number;
+
+  constructor(
+    @InjectModel(WebhookEndpoint.name)
+    private readonly endpointModel: Model<WebhookEndpointDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private readonly deliveryModel: Model<WebhookDeliveryDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+    this.timeoutMs = Number(
+      this.configService.get<string>('WEBHOOK_TIMEOUT_MS', '5000'),
+    );
+  }
+
+  /**
+   * Sends one delivery. Non-2xx responses and network errors are recorded in
+   * the delivery log and re-thrown so BullMQ retries with exponential backoff.
+   */
+  async process(job: Job<WebhookDeliveryJob>): Promise<void> {
+    const { deliveryId } = job.data;
+
+    const delivery = await this.deliveryModel.findById(deliveryId).exec();
+    if (!delivery || delivery.status !== WebhookDeliveryStatus.PENDING) {
+      this.logger.warn(
+        `Webhook delivery ${deliveryId} not found or already settled, skipping`,
+      );
+      return;
+    }
+
+    const endpoint = await this.endpointModel
+      .findById(delivery.endpointId)
+      .exec();
+    if (!endpoint || !endpoint.isActive) {
+      await this.recordAttempt(
+        deliveryId,
+        {
+          attemptedAt: new Date(),
+          statusCode: null,
+          error: 'Endpoint removed or disabled',
+          durationMs: 0,
+        },
+        WebhookDeliveryStatus.FAILED,
+      );
+      return;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const startTime = Date.now();
+    let statusCode: number | null = null;
+    let error = '';
+
+    try {
+      const response = await axios.post(endpoint.url, delivery.payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_ID_HEADER]: delivery.eventId,
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            endpoint.secret,
+            timestamp,
+            delivery.payload,
+          ),
+        },
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+        transformRequest: [(body) => body], // Send the signed body byte for byte
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Endpoint responded with HTTP ${statusCode}`;
+      }
+    } catch (requestError) {
+      error = requestError.message;
+    }
+
+    const attempt: WebhookDeliveryAttempt = {
+      attemptedAt: new Date(startTime),
+      statusCode,
+      error,
+      durationMs: Date.now() - startTime,
+    };
+
+    if (!error) {
+      await this.recordAttempt(
+        deliveryId,
+        attempt,
+        WebhookDeliveryStatus.SUCCEEDED,
+      );
+      this.logger.log(
+        `Webhook delivery ${deliveryId} (${delivery.eventType}) succeeded with HTTP ${statusCode}`,
+      );
+      return;
+    }
+
+    const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    await this.recordAttempt(
+      deliveryId,
+      attempt,
+      isLastAttempt ? WebhookDeliveryStatus.FAILED : undefined,
+    );
+
+    this.logger.warn(
+      `Webhook delivery ${deliveryId} attempt ${job.attemptsMade + 1} failed: ${error}${isLastAttempt ? ' - giving up' : ''}`,
+    );
+
+    // Re-throw to let BullMQ handle exponential backoff and retry
+    throw new Error(`Webhook delivery failed: ${error}`);
+  }
+
+  private async recordAttempt(
+    deliveryId: string,
+    attempt: WebhookDeliveryAttempt,
+    status?: WebhookDeliveryStatus,
+  ): Promise<void> {
+    const update: Record<string, unknown> = {};
+    if (status) {
+      update.status = status;
+    }
+    if (status === WebhookDeliveryStatus.SUCCEEDED) {
+      update.deliveredAt = attempt.attemptedAt;
+    }
+
+    await this.deliveryModel.updateOne(
+      { _id: deliveryId },
+      { $set: update, $push: { attempts: attempt } },
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signs a webhook body. The timestamp is part of the signed content so a
+ * captured request cannot be replayed later with a fresh timestamp.
+ * Header value format: "sha256=<hex digest of `${timestamp}.${body}`>"
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Constant-time check of a received signature, for receivers (and tests)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
@@ -0,0 +1,6 @@
+export const WEBHOOK_QUEUE_NAME = 'webhook-delivery';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id';
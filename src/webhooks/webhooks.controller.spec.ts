@@ -0,0 +1,53 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { WebhookEventType } from './entities/webhook-endpoint.entity';
+import { User } from '../users/entities/user.entity';
+
+describe('WebhooksController', () => {
+  let controller: WebhooksController;
+  let webhooksService: { createEndpoint: jest.Mock };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WebhooksController],
+      providers: [
+        {
+          provide: WebhooksService,
+          useValue: {
+            createEndpoint: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<WebhooksController>(WebhooksController);
+    webhooksService = module.get(WebhooksService);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should register endpoints on behalf of the current admin', async () => {
+    // Arrange
+    const admin = {
+      _id: new Types.ObjectId('507f1f77bcf86cd799439099'),
+      isAdmin: true,
+    } as unknown as User;
+    const dto = {
+      url: 'https://partner.example.com/hooks',
+      events: [WebhookEventType.ORDER_CONFIRMED],
+    };
+
+    // Act
+    await controller.createEndpoint(dto, admin);
+
+    // Assert
+    expect(webhooksService.createEndpoint).toHaveBeenCalledWith(
+      dto,
+      '507f1f77bcf86cd799439099',
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { CurrentUser } from '../auth/decorators/user.decorator';
+import { User } from '../users/entities/user.entity';
+
+@ApiTags('admin-webhooks')
+@Controller('admin/webhooks')
+@UseGuards(JwtAuthGuard, AdminGuard)
+@ApiBearerAuth()
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Register a webhook endpoint',
+    description:
+      'The response contains the signing secret. It is not returned by any other endpoint, so store it now.',
+  })
+  @ApiBody({ type: CreateWebhookEndpointDto })
+  @ApiResponse({ status: 201, description: 'Endpoint registered' })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  createEndpoint(
+    @Body() createWebhookEndpointDto: CreateWebhookEndpointDto,
+    @CurrentUser() user: User,
+  ) {
+    return this.webhooksService.createEndpoint(
+      createWebhookEndpointDto,
+      (user as any)._id.toString(),
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List webhook endpoints' })
+  @ApiResponse({ status: 200, description: 'List of all endpoints' })
+  findAllEndpoints() {
+    return this.webhooksService.findAllEndpoints();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook endpoint by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'Webhook endpoint ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({ status: 200, description: 'Endpoint found' })
+  @ApiResponse({ status: 404, description: 'Endpoint not found' })
+  findOneEndpoint(@Param('id') id: string) {
+    return this.webhooksService.findOneEndpoint(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update or pause a webhook endpoint' })
+  @ApiParam({
+    name: 'id',
+    description: 'Webhook endpoint ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({ type: UpdateWebhookEndpointDto })
+  @ApiResponse({ status: 200, description: 'Endpoint updated' })
+  @ApiResponse({ status: 404, description: 'Endpoint not found' })
+  updateEndpoint(
+    @Param('id') id: string,
+    @Body() updateWebhookEndpointDto: UpdateWebhookEndpointDto,
+  ) {
+    return this.webhooksService.updateEndpoint(id, updateWebhookEndpointDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a webhook endpoint' })
+  @ApiParam({
+    name: 'id',
+    description: 'Webhook endpoint ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({ status: 204, description: 'Endpoint deleted' })
+  @ApiResponse({ status: 404, description: 'Endpoint not found' })
+  removeEndpoint(@Param('id') id: string) {
+    return this.webhooksService.removeEndpoint(id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({
+    summary: 'Delivery log of a webhook endpoint',
+    description:
+      'The 50 most recent deliveries with every attempt (HTTP status, error, duration).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Webhook endpoint ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({ status: 200, description: 'Recent deliveries' })
+  @ApiResponse({ status: 404, description: 'Endpoint not found' })
+  findDeliveries(@Param('id') id: string) {
+    return this.webhooksService.findDeliveries(id);
+  }
+}
@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bullmq';
+import { BullBoardModule } from '@bull-board/nestjs';
+import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookDeliveryProcessor } from './webhook-delivery.processor';
+import { WEBHOOK_QUEUE_NAME } from './webhooks.constants';
+import {
+  WebhookEndpoint,
+  WebhookEndpointSchema,
+} from './entities/webhook-endpoint.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliverySchema,
+} from './entities/webhook-delivery.entity';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: WebhookEndpoint.name, schema: WebhookEndpointSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+    ]),
+    BullModule.registerQueue({
+      name: WEBHOOK_QUEUE_NAME,
+    }),
+    BullBoardModule.forFeature({
+      name: WEBHOOK_QUEUE_NAME,
+      adapter: BullMQAdapter,
+    }),
+    AuthModule,
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDeliveryProcessor],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { getQueueToken } from '@nestjs/bullmq';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { WebhooksService } from './webhooks.service';
+import { WEBHOOK_QUEUE_NAME } from './webhooks.constants';
+import {
+  WebhookEndpoint,
+  WebhookEventType,
+} from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+  let webhookQueue: { add: jest.Mock };
+  let endpointModel: {
+    create: jest.Mock;
+    find: jest.Mock;
+    findById: jest.Mock;
+    findByIdAndUpdate: jest.Mock;
+    findByIdAndDelete: jest.Mock;
+  };
+  let deliveryModel: { create: jest.Mock; find: jest.Mock };
+
+  const endpointIds = [
+    new Types.ObjectId('507f1f77bcf86cd799439020'),
+    new Types.ObjectId('507f1f77bcf86cd799439030'),
+  ];
+
+  // Chainable query stub: find().select().sort().limit().exec()
+  const query = (result: unknown) => {
+    const chain: any = {};
+    for (const method of ['select', 'sort', 'limit']) {
+      chain[method] = jest.fn().mockReturnValue(chain);
+    }
+    chain.exec = jest.fn().mockResolvedValue(result);
+    return chain;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        {
+          provide: getQueueToken(WEBHOOK_QUEUE_NAME),
+          useValue: { add: jest.fn() },
+        },
+        {
+          provide: getModelToken(WebhookEndpoint.name),
+          useValue: {
+            create: jest.fn(),
+            find: jest.fn(),
+            findById: jest.fn(),
+            findByIdAndUpdate: jest.fn(),
+            findByIdAndDelete: jest.fn(),
+          },
+        },
+        {
+          provide: getModelToken(WebhookDelivery.name),
+          useValue: { create: jest.fn(), find: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhooksService>(WebhooksService);
+    webhookQueue = module.get(getQueueToken(WEBHOOK_QUEUE_NAME));
+    endpointModel = module.get(getModelToken(WebhookEndpoint.name));
+    deliveryModel = module.get(getModelToken(WebhookDelivery.name));
+  });
+
+  describe('createEndpoint', () => {
+    it('should generate a signing secret for the endpoint', async () => {
+      // Arrange
+      endpointModel.create.mockImplementation((doc) =>
+        Promise.resolve({ ...doc, _id: endpointIds[0] }),
+      );
+
+      // Act
+      const endpoint = await service.createEndpoint(
+        {
+          url: 'https://partner.example.com/hooks',
+          events: [WebhookEventType.ORDER_CONFIRMED],
+        },
+        '507f1f77bcf86cd799439099',
+      );
+
+      // Assert
+      expect(endpoint.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(endpoint.createdBy).toBe('507f1f77bcf86cd799439099');
+    });
+  });
+
+  describe('dispatch', () => {
+    it('should create one delivery and one job per subscribed endpoint', async () => {
+      // Arrange
+      endpointModel.find.mockReturnValue(
+        query(endpointIds.map((_id) => ({ _id }))),
+      );
+      deliveryModel.create.mockImplementation((doc) =>
+        Promise.resolve({ ...doc, _id: new Types.ObjectId() }),
+      );
+
+      // Act
+      await service.dispatch(WebhookEventType.ORDER_FAILED, {
+        orderId: '507f1f77bcf86cd799439014',
+      });
+
+      // Assert
+      expect(endpointModel.find).toHaveBeenCalledWith({
+        isActive: true,
+        events: WebhookEventType.ORDER_FAILED,
+      });
+      expect(deliveryModel.create).toHaveBeenCalledTimes(2);
+      expect(webhookQueue.add).toHaveBeenCalledTimes(2);
+
+      // Both endpoints receive the same event (same ID and body)
+      const [first, second] = deliveryModel.create.mock.calls.map(
+        ([doc]) => doc,
+      );
+      expect(first.eventId).toBe(second.eventId);
+      expect(first.payload).toBe(second.payload);
+      expect(JSON.parse(first.payload)).toEqual({
+        id: first.eventId,
+        type: WebhookEventType.ORDER_FAILED,
+        createdAt: expect.any(String),
+        data: { orderId: '507f1f77bcf86cd799439014' },
+      });
+    });
+
+    it('should queue deliveries with exponential backoff', async () => {
+      // Arrange
+      const deliveryId = new Types.ObjectId();
+      endpointModel.find.mockReturnValue(query([{ _id: endpointIds[0] }]));
+      deliveryModel.create.mockResolvedValue({ _id: deliveryId });
+
+      // Act
+      await service.dispatch(WebhookEventType.STOCK_DEPLETED, {});
+
+      // Assert
+      expect(webhookQueue.add).toHaveBeenCalledWith(
+        'deliver-webhook',
+        { deliveryId: deliveryId.toString() },
+        expect.objectContaining({
+          jobId: deliveryId.toString(),
+          attempts: 8,
+          backoff: { type: 'exponential', delay: 10000 },
+        }),
+      );
+    });
+
+    it('should do nothing when no endpoint is subscribed', async () => {
+      // Arrange
+      endpointModel.find.mockReturnValue(query([]));
+
+      // Act
+      await service.dispatch(WebhookEventType.ORDER_CONFIRMED, {});
+
+      // Assert
+      expect(deliveryModel.create).not.toHaveBeenCalled();
+      expect(webhookQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should never throw, so order processing is not affected', async () => {
+      // Arrange
+      endpointModel.find.mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          exec: jest.fn().mockRejectedValue(new Error('Database unavailable')),
+        }),
+      });
+
+      // Act & Assert
+      await expect(
+        service.dispatch(WebhookEventType.ORDER_CONFIRMED, {}),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('findDeliveries', () => {
+    it('should return the most recent deliveries of an endpoint', async () => {
+      // Arrange
+      const deliveries = query([{ eventType: WebhookEventType.ORDER_FAILED }]);
+      endpointModel.findById.mockReturnValue(query({ _id: endpointIds[0] }));
+      deliveryModel.find.mockReturnValue(deliveries);
+
+      // Act
+      const result = await service.findDeliveries(endpointIds[0].toString());
+
+      // Assert
+      expect(result).toHaveLength(1);
+      expect(deliveryModel.find).toHaveBeenCalledWith({
+        endpointId: endpointIds[0].toString(),
+      });
+      expect(deliveries.sort).toHaveBeenCalledWith({ createdAt: -1 });
+      expect(deliveries.limit).toHaveBeenCalledWith(50);
+    });
+
+    it('should throw 404 for an unknown endpoint', async () => {
+      // Arrange
+      endpointModel.findById.mockReturnValue(query(null));
+
+      // Act & Assert
+      await expect(
+        service.findDeliveries(endpointIds[0].toString()),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
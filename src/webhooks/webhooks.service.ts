@@ -0,0 +1,190 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { InjectModel } from '@nestjs/mongoose';
+import { Queue } from 'bullmq';
+import { Model, Types } from 'mongoose';
+import { randomBytes, randomUUID } from 'crypto';
+import { WEBHOOK_QUEUE_NAME } from './webhooks.constants';
+import {
+  WebhookEndpoint,
+  WebhookEndpointDocument,
+  WebhookEventType,
+} from './entities/webhook-endpoint.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+} from './entities/webhook-delivery.entity';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+
+export interface WebhookDeliveryJob {
+  deliveryId: string;
+}
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  private readonly maxAttempts: number;
+  private readonly backoffDelayMs: number;
+
+  constructor(
+    @InjectQueue(WEBHOOK_QUEUE_NAME) private readonly webhookQueue: Queue,
+    @InjectModel(WebhookEndpoint.name)
+    private readonly endpointModel: Model<WebhookEndpointDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private readonly deliveryModel: Model<WebhookDeliveryDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxAttempts = Number(
+      this.configService.get<string>('WEBHOOK_MAX_ATTEMPTS', '8'),
+    );
+    this.backoffDelayMs = Number(
+      this.configService.get<string>('WEBHOOK_BACKOFF_DELAY_MS', '10000'),
+    );
+  }
+
+  /**
+   * Registers an endpoint. The generated secret is only returned here -
+   * other reads leave it out.
+   */
+  async createEndpoint(
+    createWebhookEndpointDto: CreateWebhookEndpointDto,
+    createdBy: string,
+  ): Promise<WebhookEndpointDocument> {
+    const endpoint = await this.endpointModel.create({
+      ...createWebhookEndpointDto,
+      secret: `whsec_${randomBytes(24).toString('hex')}`,
+      createdBy,
+    });
+
+    this.logger.log(
+      `Webhook endpoint ${endpoint._id.toString()} registered for ${endpoint.events.join(', ')}`,
+    );
+    return endpoint;
+  }
+
+  async findAllEndpoints(): Promise<WebhookEndpointDocument[]> {
+    return this.endpointModel
+      .find()
+      .select('-secret')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async findOneEndpoint(id: string): Promise<WebhookEndpointDocument> {
+    const endpoint = Types.ObjectId.isValid(id)
+      ? await this.endpointModel.findById(id).select('-secret').exec()
+      : null;
+    if (!endpoint) {
+      throw new NotFoundException(`Webhook endpoint with ID ${id} not found`);
+    }
+    return endpoint;
+  }
+
+  async updateEndpoint(
+    id: string,
+    updateWebhookEndpointDto: UpdateWebhookEndpointDto,
+  ): Promise<WebhookEndpointDocument> {
+    const endpoint = Types.ObjectId.isValid(id)
+      ? await this.endpointModel
+          .findByIdAndUpdate(id, updateWebhookEndpointDto, {
+            new: true,
+            runValidators: true,
+          })
+          .select('-secret')
+          .exec()
+      : null;
+    if (!endpoint) {
+      throw new NotFoundException(`Webhook endpoint with ID ${id} not found`);
+    }
+    return endpoint;
+  }
+
+  async removeEndpoint(id: string): Promise<void> {
+    const result = Types.ObjectId.isValid(id)
+      ? await this.endpointModel.findByIdAndDelete(id).exec()
+      : null;
+    if (!result) {
+      throw new NotFoundException(`Webhook endpoint with ID ${id} not found`);
+    }
+    // Pending deliveries are dropped by the delivery processor once it sees the endpoint is gone
+  }
+
+  /**
+   * Delivery log of an endpoint, most recent first
+   */
+  async findDeliveries(
+    endpointId: string,
+    limit = 50,
+  ): Promise<WebhookDeliveryDocument[]> {
+    await this.findOneEndpoint(endpointId);
+
+    return this.deliveryModel
+      .find({ endpointId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * Fans an event out to every active endpoint subscribed to it: one delivery
+   * record and one queued job per endpoint. Never throws - a webhook problem
+   * must not fail the order flow that raised the event.
+   */
+  async dispatch(
+    eventType: WebhookEventType,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    try {
+      const endpoints = await this.endpointModel
+        .find({ isActive: true, events: eventType })
+        .select('_id')
+        .exec();
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const eventId = randomUUID();
+      const payload = JSON.stringify({
+        id: eventId,
+        type: eventType,
+        createdAt: new Date().toISOString(),
+        data,
+      });
+
+      for (const endpoint of endpoints) {
+        const delivery = await this.deliveryModel.create({
+          endpointId: endpoint._id,
+          eventId,
+          eventType,
+          payload,
+        });
+
+        const job: WebhookDeliveryJob = {
+          deliveryId: delivery._id.toString(),
+        };
+        await this.webhookQueue.add('deliver-webhook', job, {
+          jobId: delivery._id.toString(),
+          attempts: this.maxAttempts,
+          backoff: {
+            type: 'exponential',
+            delay: this.backoffDelayMs,
+          },
+          removeOnComplete: { count: 1000 },
+          removeOnFail: { count: 1000 },
+        });
+      }
+
+      this.logger.log(
+        `Queued ${eventType} event ${eventId} for ${endpoints.length} endpoint(s)`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch ${eventType} webhook: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
@@ -20,12 +20,16 @@ class OrderLoadTester {
   /**
    * Generate test data for orders
    */
-  generateOrderData(stockId, productId) {
+  generateOrderData(stockId, productId, quantity = Math.floor(Math.random() * 5) + 1) {
     return {
-      stockId: stockId,
-      // productId is automatically fetched from stock - removed from request
-      quantity: Math.floor(Math.random() * 5) + 1, // 1-5 items
-      priceAtPurchase: parseFloat((Math.random() * 1000 + 10).toFixed(2)) // $10-$1010
+      lineItems: [
+        {
+          stockId: stockId,
+          // productId is automatically fetched from stock - removed from request
+          quantity: quantity // 1-5 items by default
+          // priceAtPurchase is resolved server-side from the product - omitted from request
+        }
+      ]
     };
   }
 
@@ -84,15 +88,13 @@ class OrderLoadTester {
   async testConcurrentOrdersSameStock(stockId, productId, concurrentRequests = 50) {
     console.log(`\n🔥 Testing ${concurrentRequests} concurrent orders for same stock item...`);
 
-    const orderData = this.generateOrderData(stockId, productId);
+    // Use quantity 1 to test stock depletion
+    const orderData = this.generateOrderData(stockId, productId, 1);
     const promises = [];
 
     // Create multiple concurrent requests for the same stock
     for (let i = 0; i < concurrentRequests; i++) {
-      promises.push(this.makeOrderRequest({
-        ...orderData,
-        quantity: 1 // Use quantity 1 to test stock depletion
-      }));
+      promises.push(this.makeOrderRequest(orderData));
     }
 
     const startTime = performance.now();
@@ -180,10 +182,7 @@ class OrderLoadTester {
     const ordersToCreate = expectedStock + 20; // Try to order more than available
 
     for (let i = 0; i < ordersToCreate; i++) {
-      promises.push(this.makeOrderRequest({
-        ...this.generateOrderData(stockId, productId),
-        quantity: 1
-      }));
+      promises.push(this.makeOrderRequest(this.generateOrderData(stockId, productId, 1)));
     }
 
     const results = await Promise.allSettled(promises);
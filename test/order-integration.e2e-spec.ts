@@ -115,9 +115,13 @@ describe('Order Integration (e2e)', () => {
         .post('/orders')
         .set('Authorization', `Bearer ${authToken}`)
         .send({
-          stockId: testStockId,
-          quantity: 5,
-          priceAtPurchase: 99.99,
+          lineItems: [
+            {
+              stockId: testStockId,
+              quantity: 5,
+              priceAtPurchase: 99.99,
+            },
+          ],
         })
         .expect(201);
 
@@ -156,9 +160,13 @@ describe('Order Integration (e2e)', () => {
             .post('/orders')
             .set('Authorization', `Bearer ${authToken}`)
             .send({
-              stockId: testStockId,
-              quantity: orderQuantity,
-              priceAtPurchase: 99.99,
+              lineItems: [
+                {
+                  stockId: testStockId,
+                  quantity: orderQuantity,
+                  priceAtPurchase: 99.99,
+                },
+              ],
             }),
         );
       }
@@ -213,9 +221,13 @@ describe('Order Integration (e2e)', () => {
             .post('/orders')
             .set('Authorization', `Bearer ${authToken}`)
             .send({
-              stockId: testStockId,
-              quantity: orderQuantity,
-              priceAtPurchase: 99.99,
+              lineItems: [
+                {
+                  stockId: testStockId,
+                  quantity: orderQuantity,
+                  priceAtPurchase: 99.99,
+                },
+              ],
             }),
         );
       }
@@ -285,9 +297,13 @@ describe('Order Integration (e2e)', () => {
         .post('/orders')
         .set('Authorization', `Bearer ${vipToken}`)
         .send({
-          stockId: testStockId,
-          quantity: 1,
-          priceAtPurchase: 99.99,
+          lineItems: [
+            {
+              stockId: testStockId,
+              quantity: 1,
+              priceAtPurchase: 99.99,
+            },
+          ],
         })
         .expect(201);
 
@@ -296,9 +312,13 @@ describe('Order Integration (e2e)', () => {
         .post('/orders')
         .set('Authorization', `Bearer ${authToken}`)
         .send({
-          stockId: testStockId,
-          quantity: 1,
-          priceAtPurchase: 99.99,
+          lineItems: [
+            {
+              stockId: testStockId,
+              quantity: 1,
+              priceAtPurchase: 99.99,
+            },
+          ],
         })
         .expect(201);
 
@@ -334,9 +354,13 @@ describe('Order Integration (e2e)', () => {
             .post('/orders')
             .set('Authorization', `Bearer ${authToken}`)
             .send({
-              stockId: testStockId,
-              quantity: 1,
-              priceAtPurchase: 99.99,
+              lineItems: [
+                {
+                  stockId: testStockId,
+                  quantity: 1,
+                  priceAtPurchase: 99.99,
+                },
+              ],
             }),
         );
       }
@@ -359,10 +383,14 @@ describe('Order Integration (e2e)', () => {
       // For now, we'll verify the retry configuration
       const job = await orderQueue.add('test-job', {
         userId: 'test',
-        productId: testProductId,
-        stockId: testStockId,
-        quantity: 1,
-        priceAtPurchase: 99.99,
+        lineItems: [
+          {
+            productId: testProductId,
+            stockId: testStockId,
+            quantity: 1,
+            priceAtPurchase: 99.99,
+          },
+        ],
         isVipOrder: false,
         orderId: 'test-order-id',
       });